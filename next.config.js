@@ -7,6 +7,15 @@ const nextConfig = {
         hostname: 'i.scdn.co',
         pathname: '/image/**',
       },
+      // Playlist covers: mosaics of album art, or uploaded images
+      {
+        protocol: 'https',
+        hostname: 'mosaic.scdn.co',
+      },
+      {
+        protocol: 'https',
+        hostname: '**.spotifycdn.com',
+      },
     ],
   },
   experimental: {
@@ -49,6 +49,15 @@ app.prepare().then(async () => {
   const { initializeSocketIO } = await import("./src/lib/websocket/server.js");
   initializeSocketIO(server);
 
+  // Start server-side playback sync
+  const { startPlaybackMonitor } = await import("./src/lib/playback-monitor.js");
+  const { getStore, getTokenVault } = await import("./src/lib/session/index.js");
+  startPlaybackMonitor(getStore(), getTokenVault());
+
+  // End sessions that have gone idle (getStore() is the instance the routes use)
+  const { startSessionSweeper } = await import("./src/lib/session-lifecycle.js");
+  startSessionSweeper(getStore());
+
   // Start server
   server.listen(port, () => {
     console.log(`> Ready on https://${hostname}:${port}`);
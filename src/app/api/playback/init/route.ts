@@ -4,6 +4,7 @@ import { authOptions } from "@/auth";
 import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
+import { watchSessionPlayback } from "@/lib/playback-monitor";
 import { z } from "zod";
 
 const initSchema = z.object({
@@ -14,6 +15,7 @@ const initSchema = z.object({
 /**
  * POST /api/playback/init
  * Initialize playback for a session (host/DJ only)
+ * Devices are listed from the device owner's (host's) account, whichever DJ asks
  * - If deviceId is provided: sets the active device for the session
  * - If deviceId is not provided: returns list of available devices
  */
@@ -61,7 +63,10 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const spotifyService = new SpotifyService(session.accessToken);
+    // Playback runs on the device owner's account, whichever DJ asks
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+
+    const spotifyService = new SpotifyService(playbackToken);
 
     // Get available devices
     const devices = await spotifyService.getDevices();
@@ -96,10 +101,14 @@ export async function POST(req: NextRequest) {
     }
 
     // Update session with active device
-    targetSession.activeDeviceId = selectedDevice.id;
-    targetSession.activeDeviceName = selectedDevice.name;
-    targetSession.activeDeviceType = selectedDevice.type;
-    await store.set(sessionId, targetSession);
+    await store.update(sessionId, (s) => {
+      s.activeDeviceId = selectedDevice.id;
+      s.activeDeviceName = selectedDevice.name;
+      s.activeDeviceType = selectedDevice.type;
+      s.deviceOwnerId = sessionService.getDeviceOwnerId(targetSession);
+    });
+
+    watchSessionPlayback(sessionId);
 
     return NextResponse.json({
       success: true,
@@ -5,6 +5,7 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { broadcastToSession } from "@/lib/websocket/server";
+import { watchSessionPlayback } from "@/lib/playback-monitor";
 import { PlaybackState } from "@/types/spotify";
 import { z } from "zod";
 
@@ -61,14 +62,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Playback runs on the device owner's account, whichever DJ asks
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+
     // Pause playback
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(playbackToken);
     await spotifyService.pause(deviceId || targetSession.activeDeviceId);
 
     // Get current playback state and broadcast to all session participants
     const playbackState = await spotifyService.getPlaybackState();
     broadcastToSession(sessionId, "playback_state_changed", playbackState as PlaybackState);
 
+    watchSessionPlayback(sessionId);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error pausing playback:", error);
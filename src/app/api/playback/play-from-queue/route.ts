@@ -5,6 +5,9 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { checkAndRepopulateQueue } from "@/lib/queue-auto-repopulate";
+import { recordPlayedItem } from "@/lib/utils/queue";
+import { broadcastVoteWindow, expireSkipVotes } from "@/lib/utils/playback";
+import { watchSessionPlayback } from "@/lib/playback-monitor";
 import { z } from "zod";
 
 const playFromQueueSchema = z.object({
@@ -61,6 +64,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Playback runs on the device owner's account, whichever DJ asks
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+
     // Check if position is valid
     if (position >= targetSession.queue.length) {
       return NextResponse.json(
@@ -75,24 +81,36 @@ export async function POST(req: NextRequest) {
       .map((item) => `spotify:track:${item.track.id}`);
 
     // Start playback from the selected position
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(playbackToken);
     await spotifyService.play(
       deviceId || targetSession.activeDeviceId,
       trackUris,
       0
     );
 
-    // Remove all tracks from 0 to position (inclusive) and add to played tracks
-    const removedTracks = targetSession.queue.splice(0, position + 1);
-    removedTracks.forEach((item) => {
-      targetSession.playedTracks.push(item.track.id);
-    });
+    // Remove all tracks up to and including the selected one and add to played tracks.
+    // Locate it by ID in case the queue shifted since it was read
+    const selectedTrackId = targetSession.queue[position].track.id;
+    const updatedSession = await store.update(sessionId, (s) => {
+      const selectedIndex = s.queue.findIndex((item) => item.track.id === selectedTrackId);
+      if (selectedIndex === -1) return;
+
+      const removedTracks = s.queue.splice(0, selectedIndex + 1);
+      removedTracks.forEach((item) => {
+        recordPlayedItem(s, item);
+      });
+      expireSkipVotes(s);
 
-    targetSession.updatedAt = Date.now();
-    await store.set(sessionId, targetSession);
+      s.updatedAt = Date.now();
+    });
 
     // Check if queue needs repopulation
-    await checkAndRepopulateQueue(targetSession, store, session.accessToken);
+    if (updatedSession) {
+      await checkAndRepopulateQueue(updatedSession, store, playbackToken);
+      broadcastVoteWindow(updatedSession);
+    }
+
+    watchSessionPlayback(sessionId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -5,7 +5,9 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { broadcastToSession } from "@/lib/websocket/server";
-import { normalizeQueue } from "@/lib/utils/queue";
+import { normalizeQueue, recordPlayedItem } from "@/lib/utils/queue";
+import { broadcastVoteWindow, expireSkipVotes } from "@/lib/utils/playback";
+import { watchSessionPlayback } from "@/lib/playback-monitor";
 import { z } from "zod";
 
 const playSchema = z.object({
@@ -84,6 +86,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Playback runs on the device owner's account, whichever DJ asks
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+
     // Check if queue has tracks
     if (targetSession.queue.length === 0) {
       return NextResponse.json(
@@ -98,31 +103,41 @@ export async function POST(req: NextRequest) {
     );
 
     // Start playback
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(playbackToken);
     await spotifyService.play(
       deviceId || targetSession.activeDeviceId,
       trackUris,
       0
     );
 
-    // Remove the first track from queue and add to played tracks
-    const nowPlaying = targetSession.queue.shift();
-    if (nowPlaying) {
-      targetSession.playedTracks.push(nowPlaying.track.id);
+    // Remove the now-playing track from the queue and add to played tracks,
+    // unless a concurrent request already advanced past it
+    const nowPlayingId = targetSession.queue[0].track.id;
+    const updatedSession = await store.update(sessionId, (s) => {
+      if (s.queue[0]?.track.id !== nowPlayingId) return;
+
+      recordPlayedItem(s, s.queue[0]);
+      s.queue.shift();
+      expireSkipVotes(s);
 
       // Normalize queue to ensure first 3 tracks are always stable
-      targetSession.queue = normalizeQueue(targetSession.queue);
+      s.queue = normalizeQueue(s.queue);
 
-      targetSession.updatedAt = Date.now();
-      await store.set(sessionId, targetSession);
-    }
+      s.updatedAt = Date.now();
+    });
 
     // Get current playback state and broadcast to all session participants
     const playbackState = await spotifyService.getPlaybackState();
     broadcastToSession(sessionId, "playback_state_changed", playbackState);
 
     // Also broadcast queue update since we removed the first track
-    broadcastToSession(sessionId, "queue_updated", targetSession.queue);
+    if (updatedSession) {
+      broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
+      broadcastVoteWindow(updatedSession);
+    }
+
+    // Track transitions from here on are picked up by the server-side monitor
+    watchSessionPlayback(sessionId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -5,6 +5,7 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { handleTrackCompletion } from "@/lib/utils/playback";
+import { watchSessionPlayback } from "@/lib/playback-monitor";
 import { z } from "zod";
 
 const skipSchema = z.object({
@@ -60,17 +61,31 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Playback runs on the device owner's account, whichever DJ asks
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+
     // Clear skip votes for the current track
-    targetSession.votes.skip = [];
-    targetSession.updatedAt = Date.now();
-    await store.set(sessionId, targetSession);
+    await store.update(sessionId, (s) => {
+      s.votes.skip = [];
+      s.updatedAt = Date.now();
+    });
 
     // Skip to next track on Spotify
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(playbackToken);
     await spotifyService.skipToNext(deviceId || targetSession.activeDeviceId);
 
-    // Handle track completion (update queue, broadcast state)
-    await handleTrackCompletion(sessionId, targetSession, store, session.accessToken);
+    // Handle track completion (update queue, broadcast state). Spotify skips to the
+    // head of the queue, so bind the completion to it and to the play being skipped
+    // in case the monitor or a client saw the change first
+    await handleTrackCompletion(
+      sessionId,
+      store,
+      playbackToken,
+      targetSession.queue[0]?.track.id,
+      targetSession.currentPlay?.id ?? null
+    );
+
+    watchSessionPlayback(sessionId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 
 /**
  * GET /api/playback/state
  * Get current playback state
+ * With ?sessionId, returns the session's playback (on the device owner's
+ * account) to any participant, along with the session's current play id
+ * (read before Spotify, for track-change reports); otherwise the requesting
+ * user's own playback
  */
-export async function GET(_req: NextRequest) {
+export async function GET(req: NextRequest) {
   try {
     // Check authentication
     const session = await getServerSession(authOptions);
@@ -18,11 +24,37 @@ export async function GET(_req: NextRequest) {
       );
     }
 
+    let accessToken = session.accessToken;
+    let playId: string | null | undefined;
+
+    const sessionId = req.nextUrl.searchParams.get("sessionId");
+    if (sessionId) {
+      const sessionService = new SessionService(getStore(), session.accessToken);
+      const targetSession = await sessionService.getSession(sessionId);
+
+      if (!targetSession) {
+        return NextResponse.json(
+          { error: "Session not found" },
+          { status: 404 }
+        );
+      }
+
+      if (!sessionService.isParticipant(targetSession, session.user.id)) {
+        return NextResponse.json(
+          { error: "Not a participant of this session" },
+          { status: 403 }
+        );
+      }
+
+      accessToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+      playId = targetSession.currentPlay?.id ?? null;
+    }
+
     // Get playback state
-    const spotifyService = new SpotifyService(session.accessToken);
+    const spotifyService = new SpotifyService(accessToken);
     const state = await spotifyService.getPlaybackState();
 
-    return NextResponse.json({ state });
+    return NextResponse.json({ state, playId });
   } catch (error) {
     console.error("Error getting playback state:", error);
 
@@ -9,11 +9,19 @@ import { z } from "zod";
 const trackChangeSchema = z.object({
   sessionId: z.string().min(1),
   trackId: z.string().min(1),
+  playId: z.string().min(1).nullable(),
 });
 
 /**
  * POST /api/playback/track-change
  * Handle natural track progression - remove played track from queue
+ * The server-side playback monitor normally detects transitions itself. This
+ * stays for clients to report changes the monitor misses, which happens when
+ * the app runs without the custom server or the monitor never got the watch
+ * request. Reports name the play (playId) that was current before the change,
+ * and only advance the queue while that play is still current, so the monitor
+ * and any number of clients reporting the same change advance it once.
+ * Responds with the play now current, for the client's next report
  */
 export async function POST(req: NextRequest) {
   try {
@@ -37,7 +45,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { sessionId, trackId } = validation.data;
+    const { sessionId, trackId, playId } = validation.data;
 
     // Get session
     const store = getStore();
@@ -51,12 +59,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Handle track completion if it's the first track in queue
-    if (targetSession.queue.length > 0 && targetSession.queue[0].track.id === trackId) {
-      await handleTrackCompletion(sessionId, targetSession, store, session.accessToken);
+    // Handle track completion if it's the first track in queue and the reported
+    // play is still current. The checks are repeated atomically so reports of
+    // the same change only advance once
+    const currentPlayId = targetSession.currentPlay?.id ?? null;
+    if (targetSession.queue[0]?.track.id !== trackId || currentPlayId !== playId) {
+      return NextResponse.json({ success: true, playId: currentPlayId });
     }
 
-    return NextResponse.json({ success: true });
+    const playbackToken = await sessionService.getPlaybackAccessToken(targetSession, session.user.id);
+    await handleTrackCompletion(sessionId, store, playbackToken, trackId, playId);
+
+    const updatedSession = await store.get(sessionId);
+
+    return NextResponse.json({ success: true, playId: updatedSession?.currentPlay?.id ?? null });
   } catch (error) {
     console.error("Error handling track change:", error);
 
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { SpotifyService } from "@/lib/services/spotify.service";
+import { createErrorResponse } from "@/lib/utils/api-error-handler";
+
+/**
+ * GET /api/playlists
+ * List the current user's Spotify playlists, e.g. to seed a session from
+ */
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const spotifyService = new SpotifyService(session.accessToken);
+    const playlists = await spotifyService.getUserPlaylists();
+
+    return NextResponse.json({
+      playlists: playlists.map((playlist) => ({
+        id: playlist.id,
+        name: playlist.name,
+        imageUrl: playlist.images[0]?.url,
+        ownerName: playlist.owner.display_name,
+        trackCount: playlist.tracks.total,
+      })),
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Playlists");
+  }
+}
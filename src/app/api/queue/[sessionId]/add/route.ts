@@ -90,23 +90,31 @@ export async function POST(
         preview_url: track.preview_url,
         external_urls: track.external_urls,
       },
-      position: targetSession.queue.length,
+      position: 0,
       addedBy: session.user.id,
       addedAt: Date.now(),
       isStable: false,
     };
 
-    // Add to queue
-    targetSession.queue.push(queueItem);
-    targetSession.updatedAt = Date.now();
+    // Add to the end of the latest queue
+    const updatedSession = await store.update(sessionId, (s) => {
+      queueItem.position = s.queue.length;
+      s.queue.push(queueItem);
+      s.updatedAt = Date.now();
+    });
 
-    await store.set(sessionId, targetSession);
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
 
     // Broadcast queue update to all session participants
-    broadcastToSession(sessionId, "queue_updated", targetSession.queue);
+    broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
 
     return NextResponse.json({
-      queue: targetSession.queue,
+      queue: updatedSession.queue,
       added: queueItem,
     });
   } catch (error) {
@@ -5,6 +5,8 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { QueueGenerationService } from "@/lib/services/queue-generation.service";
 import { broadcastToSession } from "@/lib/websocket/server";
+import { consumeVibeBias } from "@/lib/utils/polls";
+import { rankSessionQueue } from "@/lib/utils/queue";
 import { createErrorResponse } from "@/lib/utils/api-error-handler";
 
 // Increase timeout for queue generation (multiple Spotify API calls)
@@ -62,21 +64,27 @@ export async function POST(
     const queueService = new QueueGenerationService(session.accessToken);
     const newQueue = await queueService.generateQueue(targetSession);
 
-    // Merge with existing queue (preserves first 3 as stable)
-    targetSession.queue = queueService.mergeWithStableQueue(
-      targetSession.queue,
-      newQueue
-    );
-
-    targetSession.updatedAt = Date.now();
+    // Merge with the latest queue (preserves first 3 as stable); a poll winner
+    // only steers one generation
+    const updatedSession = await store.update(sessionId, (s) => {
+      s.queue = queueService.mergeWithStableQueue(s.queue, newQueue, s.votes.queue);
+      rankSessionQueue(s);
+      consumeVibeBias(s, targetSession.vibeBias);
+      s.updatedAt = Date.now();
+    });
 
-    await store.set(sessionId, targetSession);
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
 
     // Broadcast queue update to all session participants
-    broadcastToSession(sessionId, "queue_updated", targetSession.queue);
+    broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
 
     return NextResponse.json({
-      queue: targetSession.queue,
+      queue: updatedSession.queue,
       generated: newQueue.length,
     });
   } catch (error) {
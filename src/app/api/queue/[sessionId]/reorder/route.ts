@@ -65,38 +65,41 @@ export async function PUT(
       );
     }
 
-    // Validate indices
-    if (fromIndex >= targetSession.queue.length || toIndex >= targetSession.queue.length) {
-      return NextResponse.json(
-        { error: "Invalid queue indices" },
-        { status: 400 }
-      );
-    }
-
-    // Don't allow reordering stable tracks (first 3) UNLESS user is session owner
     const isSessionOwner = targetSession.hostId === session.user.id;
-    if (!isSessionOwner && (fromIndex < 3 || toIndex < 3)) {
-      return NextResponse.json(
-        { error: "Cannot reorder stable tracks (first 3 in queue)" },
-        { status: 400 }
-      );
-    }
 
-    // Perform reorder
-    const [removed] = targetSession.queue.splice(fromIndex, 1);
-    targetSession.queue.splice(toIndex, 0, removed);
+    // Validate and reorder against the latest queue
+    const updatedSession = await store.update(sessionId, (s) => {
+      // Validate indices
+      if (fromIndex >= s.queue.length || toIndex >= s.queue.length) {
+        throw new Error("Invalid queue indices");
+      }
+
+      // Don't allow reordering stable tracks (first 3) UNLESS user is session owner
+      if (!isSessionOwner && (fromIndex < 3 || toIndex < 3)) {
+        throw new Error("Cannot reorder stable tracks (first 3 in queue)");
+      }
 
-    // Normalize queue to ensure first 3 tracks are always stable and positions are correct
-    targetSession.queue = normalizeQueue(targetSession.queue);
+      // Perform reorder
+      const [removed] = s.queue.splice(fromIndex, 1);
+      s.queue.splice(toIndex, 0, removed);
 
-    targetSession.updatedAt = Date.now();
+      // Normalize queue to ensure first 3 tracks are always stable and positions are correct
+      s.queue = normalizeQueue(s.queue);
 
-    await store.set(sessionId, targetSession);
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
 
     // Broadcast queue update to all session participants
-    broadcastToSession(sessionId, "queue_updated", targetSession.queue);
+    broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
 
-    return NextResponse.json({ queue: targetSession.queue });
+    return NextResponse.json({ queue: updatedSession.queue });
   } catch (error) {
     console.error("Error reordering queue:", error);
 
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import { queueRequestedTrack } from "@/lib/utils/queue";
+import { z } from "zod";
+import type { TrackRequest, TrackRequestStatus } from "@/types";
+
+const decideRequestSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+});
+
+/**
+ * POST /api/queue/[sessionId]/requests/[requestId]
+ * Approve or reject a track request (DJ only)
+ * Approved tracks are added to the end of the queue; approving a track that
+ * is already queued just settles the request as a duplicate
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; requestId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId, requestId } = await params;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = decideRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { action } = validation.data;
+
+    // Get session
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+    const targetSession = await sessionService.getSession(sessionId);
+
+    if (!targetSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is DJ
+    if (!sessionService.isDJ(targetSession, session.user.id)) {
+      return NextResponse.json(
+        { error: "Only DJs can approve or reject requests" },
+        { status: 403 }
+      );
+    }
+
+    // Take the request off the latest list so two DJs can't both decide it
+    let request: TrackRequest | undefined;
+    let alreadyQueued = false;
+
+    const updatedSession = await store.update(sessionId, (s) => {
+      const found = s.trackRequests?.find((r) => r.id === requestId);
+
+      if (!found) {
+        throw new Error("Request not found");
+      }
+
+      s.trackRequests = s.trackRequests?.filter((r) => r.id !== requestId);
+
+      if (action === "approve") {
+        alreadyQueued = s.queue.some((item) => item.track.id === found.track.id);
+        if (!alreadyQueued) {
+          queueRequestedTrack(s, found);
+        }
+      }
+
+      request = found;
+
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession || !request) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const status: TrackRequestStatus = action === "reject"
+      ? "rejected"
+      : alreadyQueued ? "duplicate" : "approved";
+
+    if (status === "approved") {
+      broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
+    }
+    broadcastToSession(sessionId, "request_resolved", { status, request });
+
+    return NextResponse.json({
+      status,
+      queue: updatedSession.queue,
+    });
+  } catch (error) {
+    console.error("Error deciding track request:", error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === "Request not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
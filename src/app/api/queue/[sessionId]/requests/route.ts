@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { nanoid } from "nanoid";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { SpotifyService } from "@/lib/services/spotify.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import { queueRequestedTrack } from "@/lib/utils/queue";
+import { DEFAULT_TRACK_REQUEST_LIMIT } from "@/lib/constants";
+import { z } from "zod";
+import type { TrackRequest } from "@/types";
+
+const requestTrackSchema = z.object({
+  trackId: z.string().min(1),
+});
+
+/**
+ * POST /api/queue/[sessionId]/requests
+ * Request a track (any participant)
+ * Waits for a DJ to approve it, unless the host turned on auto-approve
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = requestTrackSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { trackId } = validation.data;
+
+    // Get session
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+    const targetSession = await sessionService.getSession(sessionId);
+
+    if (!targetSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is in session
+    if (!sessionService.isParticipant(targetSession, session.user.id)) {
+      return NextResponse.json(
+        { error: "Not a participant of this session" },
+        { status: 403 }
+      );
+    }
+
+    // Fetch track details from Spotify (search by ID to get full track object)
+    const spotifyService = new SpotifyService(session.accessToken);
+    const searchResults = await spotifyService.searchTracks(`track:${trackId}`, 1);
+
+    if (searchResults.length === 0) {
+      return NextResponse.json(
+        { error: "Track not found" },
+        { status: 404 }
+      );
+    }
+
+    const track = searchResults[0];
+
+    const request: TrackRequest = {
+      id: nanoid(),
+      track: {
+        id: track.id,
+        name: track.name,
+        uri: track.uri,
+        duration_ms: track.duration_ms,
+        artists: track.artists,
+        album: track.album,
+        preview_url: track.preview_url,
+        external_urls: track.external_urls,
+      },
+      requestedBy: session.user.id,
+      requestedAt: Date.now(),
+    };
+
+    // Check the limits and file the request against the latest session
+    let approved = false;
+
+    const updatedSession = await store.update(sessionId, (s) => {
+      const pending = s.trackRequests ?? [];
+
+      if (s.queue.some((item) => item.track.id === track.id)) {
+        throw new Error("Track is already in the queue");
+      }
+
+      if (pending.some((r) => r.track.id === track.id)) {
+        throw new Error("Track has already been requested");
+      }
+
+      if (s.settings.autoApproveRequests) {
+        queueRequestedTrack(s, request);
+        approved = true;
+      } else {
+        const limit = s.settings.trackRequestLimit ?? DEFAULT_TRACK_REQUEST_LIMIT;
+        const own = pending.filter((r) => r.requestedBy === session.user.id).length;
+
+        if (own >= limit) {
+          throw new Error(`You can only have ${limit} pending requests at a time`);
+        }
+
+        s.trackRequests = [...pending, request];
+      }
+
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Approved tracks show up in the queue; anything else goes to the DJs
+    if (approved) {
+      broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
+    } else {
+      broadcastToSession(sessionId, "request_created", request);
+    }
+
+    return NextResponse.json({
+      request,
+      approved,
+    });
+  } catch (error) {
+    console.error("Error requesting track:", error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
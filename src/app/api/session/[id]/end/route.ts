@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+
+/**
+ * POST /api/session/[id]/end
+ * End the session for all participants (host only)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Create session service
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+
+    // End session
+    await sessionService.endSession(id, session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error ending session:", error);
+
+    if (error instanceof Error) {
+      const status = error.message === "Session not found"
+        ? 404
+        : error.message.includes("Only the host") ? 403 : 400;
+
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
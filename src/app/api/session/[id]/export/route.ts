@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { getRecapArchive } from "@/lib/archive";
+import { SessionService } from "@/lib/services/session.service";
+import { SpotifyService } from "@/lib/services/spotify.service";
+import { getSessionExportUris, getRecapExportUris } from "@/lib/utils/playlist-export";
+import { createErrorResponse } from "@/lib/utils/api-error-handler";
+import { PLAYLIST_EXPORT_SELECTIONS } from "@/lib/constants";
+import { z } from "zod";
+
+const exportSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  tracks: z.enum(PLAYLIST_EXPORT_SELECTIONS).default("played"),
+  public: z.boolean().default(false),
+});
+
+/**
+ * POST /api/session/[id]/export
+ * Save a session's tracks as a playlist on the requesting user's account
+ * Works for live sessions and, through their recap, for ended ones
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = exportSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { name, tracks, public: isPublic } = validation.data;
+
+    // Collect tracks from the live session, or the recap once it has ended
+    const sessionService = new SessionService(getStore(), session.accessToken);
+    const liveSession = await sessionService.getSession(id);
+
+    let trackUris: string[];
+    let code: string;
+    let startedAt: number;
+
+    if (liveSession) {
+      if (!sessionService.isParticipant(liveSession, session.user.id)) {
+        return NextResponse.json(
+          { error: "Not a participant of this session" },
+          { status: 403 }
+        );
+      }
+
+      trackUris = getSessionExportUris(liveSession, tracks);
+      code = liveSession.code;
+      startedAt = liveSession.createdAt;
+    } else {
+      const recap = await getRecapArchive().get(id);
+
+      if (!recap) {
+        return NextResponse.json(
+          { error: "Session not found" },
+          { status: 404 }
+        );
+      }
+
+      if (!recap.participants.some((p) => p.userId === session.user.id)) {
+        return NextResponse.json(
+          { error: "Not a participant of this session" },
+          { status: 403 }
+        );
+      }
+
+      trackUris = getRecapExportUris(recap, tracks);
+      code = recap.code;
+      startedAt = recap.startedAt;
+    }
+
+    if (trackUris.length === 0) {
+      return NextResponse.json(
+        { error: "No tracks to export" },
+        { status: 400 }
+      );
+    }
+
+    const date = new Date(startedAt).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+    // Create the playlist on the requester's account
+    const spotifyService = new SpotifyService(session.accessToken);
+    const playlist = await spotifyService.createPlaylist(name ?? `Session ${code} · ${date}`, {
+      description: `Tracks from collaborative session ${code} on ${date}`,
+      public: isPublic,
+    });
+    await spotifyService.addTracksToPlaylist(playlist.id, trackUris);
+
+    return NextResponse.json({
+      playlist: {
+        id: playlist.id,
+        name: playlist.name,
+        url: playlist.external_urls.spotify,
+      },
+      trackCount: trackUris.length,
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Session Export");
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import { closePoll } from "@/lib/utils/polls";
+import type { Poll } from "@/types";
+
+/**
+ * POST /api/session/[id]/poll/close
+ * Close the open poll (DJ only)
+ * The winning option steers the next queue generation
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Get session
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+    const targetSession = await sessionService.getSession(id);
+
+    if (!targetSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is DJ
+    if (!sessionService.isDJ(targetSession, session.user.id)) {
+      return NextResponse.json(
+        { error: "Only DJs can close polls" },
+        { status: 403 }
+      );
+    }
+
+    let poll: Poll | undefined;
+
+    const updatedSession = await store.update(id, (s) => {
+      poll = closePoll(s);
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession || !poll) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const { winnerId } = poll;
+    const winner = poll.options.find((option) => option.id === winnerId);
+
+    broadcastToSession(id, "poll_closed", { poll, winner });
+
+    return NextResponse.json({ poll, winner: winner ?? null });
+  } catch (error) {
+    console.error("Error closing poll:", error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { SpotifyService } from "@/lib/services/spotify.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import {
+  ENERGY_ARCS,
+  MIN_POLL_OPTIONS,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_QUESTION_LENGTH,
+} from "@/lib/constants";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import type { EnergyArc, Poll, PollOption } from "@/types";
+
+const pollOptionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("genre"), genre: z.string().trim().min(1) }),
+  z.object({ kind: z.literal("energy-arc"), energyArc: z.enum(ENERGY_ARCS) }),
+  z.object({ kind: z.literal("track"), trackId: z.string().min(1) }),
+]);
+
+const createPollSchema = z.object({
+  question: z.string().trim().min(1).max(MAX_POLL_QUESTION_LENGTH),
+  options: z.array(pollOptionSchema).min(MIN_POLL_OPTIONS).max(MAX_POLL_OPTIONS),
+});
+
+const ENERGY_ARC_NAMES: Record<EnergyArc, string> = {
+  flat: "Steady",
+  "warm-up": "Warm-up",
+  "peak-and-cooldown": "Peak & cooldown",
+};
+
+/**
+ * POST /api/session/[id]/poll
+ * Put a question to the room, such as "more dance or more chill?" (DJ only)
+ * Options are common genres, energy arcs or tracks; participants vote over
+ * WebSocket and the winner steers the next queue generation
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = createPollSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { question, options } = validation.data;
+
+    // Get session
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+    const targetSession = await sessionService.getSession(id);
+
+    if (!targetSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is DJ
+    if (!sessionService.isDJ(targetSession, session.user.id)) {
+      return NextResponse.json(
+        { error: "Only DJs can create polls" },
+        { status: 403 }
+      );
+    }
+
+    // Look up track options so participants see what they are voting for
+    const trackIds = options.flatMap((option) => option.kind === "track" ? [option.trackId] : []);
+    const tracks = trackIds.length > 0
+      ? await new SpotifyService(session.accessToken).getTracks(trackIds, targetSession.market)
+      : [];
+
+    const pollOptions: PollOption[] = [];
+    for (const option of options) {
+      if (option.kind === "genre") {
+        pollOptions.push({ id: nanoid(), kind: "genre", label: option.genre, genre: option.genre });
+      } else if (option.kind === "energy-arc") {
+        pollOptions.push({
+          id: nanoid(),
+          kind: "energy-arc",
+          label: ENERGY_ARC_NAMES[option.energyArc],
+          energyArc: option.energyArc,
+        });
+      } else {
+        const track = tracks.find((t) => t.id === option.trackId);
+        if (!track) {
+          return NextResponse.json(
+            { error: "Track not found" },
+            { status: 404 }
+          );
+        }
+        pollOptions.push({
+          id: nanoid(),
+          kind: "track",
+          label: `${track.name} – ${track.artists.map((a) => a.name).join(", ")}`,
+          track,
+        });
+      }
+    }
+
+    const distinct = new Set(pollOptions.map((o) => `${o.kind}:${o.genre ?? o.energyArc ?? o.track?.id}`));
+    if (distinct.size !== pollOptions.length) {
+      return NextResponse.json(
+        { error: "Poll options must be different" },
+        { status: 400 }
+      );
+    }
+
+    // Open the poll on the latest session, one at a time
+    let poll: Poll | undefined;
+
+    const updatedSession = await store.update(id, (s) => {
+      if (s.poll && !s.poll.closedAt) {
+        throw new Error("A poll is already open");
+      }
+
+      const commonGenres = s.profile?.commonGenres ?? [];
+      for (const option of pollOptions) {
+        if (option.genre && !commonGenres.includes(option.genre)) {
+          throw new Error(`"${option.genre}" is not one of the session's common genres`);
+        }
+      }
+
+      poll = {
+        id: nanoid(),
+        question,
+        options: pollOptions,
+        votes: [],
+        createdBy: session.user.id,
+        createdAt: Date.now(),
+      };
+      s.poll = poll;
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession || !poll) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    broadcastToSession(id, "poll_updated", poll);
+
+    return NextResponse.json({ poll });
+  } catch (error) {
+    console.error("Error creating poll:", error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getRecapArchive } from "@/lib/archive";
+
+/**
+ * GET /api/session/[id]/recap
+ * Get the recap of an ended session (participants only)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const recap = await getRecapArchive().get(id);
+
+    if (!recap) {
+      return NextResponse.json(
+        { error: "Recap not found" },
+        { status: 404 }
+      );
+    }
+
+    // Anyone who was in the session, even briefly, can look back at it
+    if (!recap.participants.some((p) => p.userId === session.user.id)) {
+      return NextResponse.json(
+        { error: "Not a participant of this session" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ recap });
+  } catch (error) {
+    console.error("Error getting session recap:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
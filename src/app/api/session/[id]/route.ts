@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/auth";
 import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
+import { calculateSkipThreshold, getVoteWindow } from "@/lib/algorithm/skip-threshold";
 
 /**
  * GET /api/session/[id]
@@ -46,7 +47,12 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ session: targetSession });
+    return NextResponse.json({
+      session: targetSession,
+      airtime: sessionService.getAirtime(targetSession),
+      skipThreshold: calculateSkipThreshold(targetSession),
+      voteWindow: getVoteWindow(targetSession),
+    });
   } catch (error) {
     console.error("Error getting session:", error);
     return NextResponse.json(
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import { WS_EVENTS } from "@/lib/websocket/events";
+import { triggerBackgroundRegeneration } from "@/lib/queue-background-regen";
+import { createErrorResponse, isSpotifyError } from "@/lib/utils/api-error-handler";
+import { parsePlaylistId } from "@/lib/utils/playlist-seed";
+import { z } from "zod";
+
+const seedPlaylistSchema = z.object({
+  playlist: z.string().trim().min(1).max(300), // Playlist link, URI or ID
+});
+
+/**
+ * PUT /api/session/[id]/seed-playlist
+ * Seed the session's queue and taste profile from a playlist (DJ only)
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = seedPlaylistSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const playlistId = parsePlaylistId(validation.data.playlist);
+    if (!playlistId) {
+      return NextResponse.json(
+        { error: "Invalid playlist link" },
+        { status: 400 }
+      );
+    }
+
+    return await applySeedPlaylist(id, session.user.id, session.accessToken, playlistId);
+  } catch (error) {
+    return createSeedPlaylistErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/session/[id]/seed-playlist
+ * Stop seeding the session from a playlist (DJ only)
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    return await applySeedPlaylist(id, session.user.id, session.accessToken, null);
+  } catch (error) {
+    return createSeedPlaylistErrorResponse(error);
+  }
+}
+
+/**
+ * Set or clear the seed playlist, then rebuild the profile and the queue
+ */
+async function applySeedPlaylist(
+  sessionId: string,
+  userId: string,
+  accessToken: string,
+  playlistId: string | null
+): Promise<NextResponse> {
+  const store = getStore();
+  const sessionService = new SessionService(store, accessToken);
+
+  const updatedSession = await sessionService.setSeedPlaylist(sessionId, userId, playlistId);
+
+  // An empty queue may just have been filled from the playlist
+  broadcastToSession(sessionId, WS_EVENTS.QUEUE_UPDATED, updatedSession.queue);
+
+  sessionService
+    .updateSessionProfile(sessionId)
+    .then(() => triggerBackgroundRegeneration(sessionId, store, accessToken))
+    .catch((err) => console.error("Failed to update session profile:", err));
+
+  return NextResponse.json({
+    seedPlaylist: updatedSession.seedPlaylist ?? null,
+    queue: updatedSession.queue,
+  });
+}
+
+/**
+ * Map session errors to their status; Spotify errors keep Spotify's
+ */
+function createSeedPlaylistErrorResponse(error: unknown): NextResponse {
+  if (isSpotifyError(error)) {
+    return createErrorResponse(error, "Seed Playlist");
+  }
+
+  if (error instanceof Error) {
+    console.error("Error setting seed playlist:", error);
+
+    const status = error.message === "Session not found"
+      ? 404
+      : error.message.includes("Only DJs") ? 403 : 400;
+
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    );
+  }
+
+  return createErrorResponse(error, "Seed Playlist");
+}
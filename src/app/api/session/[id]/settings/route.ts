@@ -5,13 +5,69 @@ import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { broadcastToSession } from "@/lib/websocket/server";
 import { WS_EVENTS } from "@/lib/websocket/events";
+import { triggerBackgroundRegeneration } from "@/lib/queue-background-regen";
+import {
+  ENERGY_ARCS,
+  TASTE_BLENDS,
+  DEFAULT_TASTE_BLEND,
+  MIN_PROFILE_DEPTH,
+  MAX_PROFILE_DEPTH,
+  DEFAULT_PROFILE_DEPTH,
+  DEFAULT_COMMON_GROUND_QUORUM,
+  CANDIDATE_SOURCES,
+  DEFAULT_CANDIDATE_QUOTAS,
+  MAX_CANDIDATE_QUOTA,
+  SKIP_THRESHOLD_MODES,
+  MAX_SKIP_VOTE_WEIGHT,
+  MAX_SKIP_VOTE_DELAY_SECONDS,
+  MAX_QUEUE_VOTE_SCORE_WEIGHT,
+  MAX_TRACK_REQUEST_LIMIT,
+} from "@/lib/constants";
+import type { SessionSettings } from "@/types";
 import { z } from "zod";
 
 const updateSettingsSchema = z.object({
   voteToSkip: z.boolean().optional(),
   skipThreshold: z.number().int().min(1).optional(),
+  skipThresholdMode: z.enum(SKIP_THRESHOLD_MODES).optional(),
+  skipThresholdPercent: z.number().int().min(1).max(100).optional(),
+  djVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+  hostVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+  hostSkipOverride: z.boolean().optional(),
+  skipVoteDelaySeconds: z.number().int().min(0).max(MAX_SKIP_VOTE_DELAY_SECONDS).optional(),
+  queueVoteScoreWeight: z.number().min(0).max(MAX_QUEUE_VOTE_SCORE_WEIGHT).optional(),
+  trackRequestLimit: z.number().int().min(1).max(MAX_TRACK_REQUEST_LIMIT).optional(),
+  autoApproveRequests: z.boolean().optional(),
+  energyArc: z.enum(ENERGY_ARCS).optional(),
+  tasteBlend: z.enum(TASTE_BLENDS).optional(),
+  profileDepth: z.number().int().min(MIN_PROFILE_DEPTH).max(MAX_PROFILE_DEPTH).optional(),
+  commonGroundQuorum: z.number().gt(0).max(1).optional(),
+  candidateQuotas: z.record(z.enum(CANDIDATE_SOURCES), z.number().min(0).max(MAX_CANDIDATE_QUOTA)).optional(),
 });
 
+/**
+ * Check whether the settings that shape the session profile differ
+ */
+function tasteSettingsChanged(before: SessionSettings, after: SessionSettings): boolean {
+  return (
+    (before.tasteBlend ?? DEFAULT_TASTE_BLEND) !== (after.tasteBlend ?? DEFAULT_TASTE_BLEND) ||
+    (before.profileDepth ?? DEFAULT_PROFILE_DEPTH) !== (after.profileDepth ?? DEFAULT_PROFILE_DEPTH) ||
+    (before.commonGroundQuorum ?? DEFAULT_COMMON_GROUND_QUORUM) !==
+      (after.commonGroundQuorum ?? DEFAULT_COMMON_GROUND_QUORUM)
+  );
+}
+
+/**
+ * Check whether the candidate source quotas differ
+ */
+function candidateQuotasChanged(before: SessionSettings, after: SessionSettings): boolean {
+  return CANDIDATE_SOURCES.some(
+    (source) =>
+      (before.candidateQuotas?.[source] ?? DEFAULT_CANDIDATE_QUOTAS[source]) !==
+      (after.candidateQuotas?.[source] ?? DEFAULT_CANDIDATE_QUOTAS[source])
+  );
+}
+
 /**
  * PUT /api/session/[id]/settings
  * Update session settings (host only)
@@ -47,6 +103,8 @@ export async function PUT(
     const store = getStore();
     const sessionService = new SessionService(store, session.accessToken);
 
+    const previousSettings = (await sessionService.getSession(id))?.settings;
+
     // Update settings
     const updatedSession = await sessionService.updateSettings(
       id,
@@ -57,6 +115,17 @@ export async function PUT(
     // Broadcast settings update to all participants
     broadcastToSession(id, WS_EVENTS.SESSION_SETTINGS_UPDATED, updatedSession.settings);
 
+    // A new blend, depth or quorum reshapes the session profile; rebuild it, then the queue
+    if (previousSettings && tasteSettingsChanged(previousSettings, updatedSession.settings)) {
+      sessionService
+        .updateSessionProfile(id)
+        .then(() => triggerBackgroundRegeneration(id, store, session.accessToken))
+        .catch((err) => console.error("Failed to update session profile:", err));
+    } else if (previousSettings && candidateQuotasChanged(previousSettings, updatedSession.settings)) {
+      // New quotas only change where candidates come from
+      triggerBackgroundRegeneration(id, store, session.accessToken);
+    }
+
     return NextResponse.json({
       session: {
         id: updatedSession.id,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { createErrorResponse } from "@/lib/utils/api-error-handler";
+
+/**
+ * GET /api/session/[id]/snapshot
+ * Download the session as a portable JSON snapshot (host only)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+
+    const snapshot = await sessionService.exportSession(id, session.user.id);
+
+    return NextResponse.json(snapshot, {
+      headers: {
+        "Content-Disposition": `attachment; filename="session-${snapshot.session.code}.json"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "Session not found") {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Only the host")) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+    }
+
+    return createErrorResponse(error, "Session Snapshot");
+  }
+}
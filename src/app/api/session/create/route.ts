@@ -4,6 +4,20 @@ import { authOptions } from "@/auth";
 import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { createErrorResponse } from "@/lib/utils/api-error-handler";
+import { parsePlaylistId } from "@/lib/utils/playlist-seed";
+import {
+  ENERGY_ARCS,
+  TASTE_BLENDS,
+  MIN_PROFILE_DEPTH,
+  MAX_PROFILE_DEPTH,
+  CANDIDATE_SOURCES,
+  MAX_CANDIDATE_QUOTA,
+  SKIP_THRESHOLD_MODES,
+  MAX_SKIP_VOTE_WEIGHT,
+  MAX_SKIP_VOTE_DELAY_SECONDS,
+  MAX_QUEUE_VOTE_SCORE_WEIGHT,
+  MAX_TRACK_REQUEST_LIMIT,
+} from "@/lib/constants";
 import { z } from "zod";
 
 // Increase timeout for session creation (background queue generation may take time)
@@ -14,7 +28,22 @@ const createSessionSchema = z.object({
   settings: z.object({
     voteToSkip: z.boolean().optional(),
     skipThreshold: z.number().int().min(1).optional(),
+    skipThresholdMode: z.enum(SKIP_THRESHOLD_MODES).optional(),
+    skipThresholdPercent: z.number().int().min(1).max(100).optional(),
+    djVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+    hostVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+    hostSkipOverride: z.boolean().optional(),
+    skipVoteDelaySeconds: z.number().int().min(0).max(MAX_SKIP_VOTE_DELAY_SECONDS).optional(),
+    queueVoteScoreWeight: z.number().min(0).max(MAX_QUEUE_VOTE_SCORE_WEIGHT).optional(),
+    trackRequestLimit: z.number().int().min(1).max(MAX_TRACK_REQUEST_LIMIT).optional(),
+    autoApproveRequests: z.boolean().optional(),
+    energyArc: z.enum(ENERGY_ARCS).optional(),
+    tasteBlend: z.enum(TASTE_BLENDS).optional(),
+    profileDepth: z.number().int().min(MIN_PROFILE_DEPTH).max(MAX_PROFILE_DEPTH).optional(),
+    commonGroundQuorum: z.number().gt(0).max(1).optional(),
+    candidateQuotas: z.record(z.enum(CANDIDATE_SOURCES), z.number().min(0).max(MAX_CANDIDATE_QUOTA)).optional(),
   }).optional(),
+  seedPlaylist: z.string().trim().min(1).max(300).optional(), // Playlist link, URI or ID
 });
 
 /**
@@ -43,7 +72,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { customCode, settings } = validation.data;
+    const { customCode, settings, seedPlaylist } = validation.data;
+
+    const seedPlaylistId = seedPlaylist ? parsePlaylistId(seedPlaylist) : undefined;
+    if (seedPlaylistId === null) {
+      return NextResponse.json(
+        { error: "Invalid playlist link" },
+        { status: 400 }
+      );
+    }
 
     // Create session service
     const store = getStore();
@@ -56,6 +93,7 @@ export async function POST(req: NextRequest) {
       {
         customCode,
         settings,
+        seedPlaylistId,
       }
     );
 
@@ -67,6 +105,7 @@ export async function POST(req: NextRequest) {
         participants: newSession.participants,
         djs: newSession.djs,
         settings: newSession.settings,
+        seedPlaylist: newSession.seedPlaylist,
         createdAt: newSession.createdAt,
       },
     });
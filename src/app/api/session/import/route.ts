@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { sessionSnapshotSchema } from "@/lib/session/snapshot";
+import { createErrorResponse } from "@/lib/utils/api-error-handler";
+
+/**
+ * POST /api/session/import
+ * Recreate a session from a snapshot, hosted by the current user
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate the snapshot
+    const body = await req.json();
+    const validation = sessionSnapshotSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid session snapshot", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+
+    const newSession = await sessionService.importSession(
+      validation.data,
+      session.user.id,
+      session.user.name || "Unknown"
+    );
+
+    return NextResponse.json({
+      session: {
+        id: newSession.id,
+        code: newSession.code,
+        hostId: newSession.hostId,
+        participants: newSession.participants,
+        djs: newSession.djs,
+        settings: newSession.settings,
+        seedPlaylist: newSession.seedPlaylist,
+        createdAt: newSession.createdAt,
+      },
+    });
+  } catch (error) {
+    return createErrorResponse(error, "Session Import");
+  }
+}
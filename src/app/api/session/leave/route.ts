@@ -58,7 +58,7 @@ export async function POST(req: NextRequest) {
       triggerBackgroundRegeneration(sessionId, store, session.accessToken);
     } else {
       // Session was deleted (no participants left), cancel any pending regeneration
-      cancelPendingRegeneration(sessionId);
+      await cancelPendingRegeneration(sessionId);
     }
 
     return NextResponse.json({ success: true });
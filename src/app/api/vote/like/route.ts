@@ -4,6 +4,7 @@ import { authOptions } from "@/auth";
 import { getStore } from "@/lib/session";
 import { SessionService } from "@/lib/services/session.service";
 import { broadcastToSession } from "@/lib/websocket/server";
+import { recordFeedback, removeLikeFeedback } from "@/lib/utils/feedback";
 import { z } from "zod";
 
 const voteLikeSchema = z.object({
@@ -59,49 +60,44 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Check if user already liked this track
-    const existingLike = targetSession.votes.like.find(
-      (v) => v.userId === session.user.id && v.trackId === trackId
-    );
+    // Toggle the like atomically so concurrent likes are not lost
+    let liked = false;
+    let likeCount = 0;
 
-    if (existingLike) {
-      // Unlike - remove the vote
-      targetSession.votes.like = targetSession.votes.like.filter(
-        (v) => !(v.userId === session.user.id && v.trackId === trackId)
+    const updatedSession = await store.update(sessionId, (s) => {
+      const existingLike = s.votes.like.find(
+        (v) => v.userId === session.user.id && v.trackId === trackId
       );
 
-      targetSession.updatedAt = Date.now();
-      await store.set(sessionId, targetSession);
-
-      const likeCount = targetSession.votes.like.filter((v) => v.trackId === trackId).length;
-
-      // Broadcast vote update
-      broadcastToSession(sessionId, "vote_updated", {
-        type: "like",
-        count: likeCount,
-      });
-
-      return NextResponse.json({
-        success: true,
-        liked: false,
-        likeCount,
-      });
-    }
-
-    // Add like
-    targetSession.votes.like.push({
-      userId: session.user.id,
-      trackId,
-      timestamp: Date.now(),
+      if (existingLike) {
+        // Unlike - remove the vote
+        s.votes.like = s.votes.like.filter(
+          (v) => !(v.userId === session.user.id && v.trackId === trackId)
+        );
+        removeLikeFeedback(s, trackId, session.user.id);
+        liked = false;
+      } else {
+        // Add like
+        s.votes.like.push({
+          userId: session.user.id,
+          trackId,
+          timestamp: Date.now(),
+        });
+        recordFeedback(s, "like", trackId, [session.user.id]);
+        liked = true;
+      }
+
+      // Count likes for this track
+      likeCount = s.votes.like.filter((v) => v.trackId === trackId).length;
+      s.updatedAt = Date.now();
     });
 
-    targetSession.updatedAt = Date.now();
-    await store.set(sessionId, targetSession);
-
-    // Count likes for this track
-    const likeCount = targetSession.votes.like.filter(
-      (v) => v.trackId === trackId
-    ).length;
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
 
     // Broadcast vote update
     broadcastToSession(sessionId, "vote_updated", {
@@ -111,7 +107,7 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      liked: true,
+      liked,
       likeCount,
     });
   } catch (error) {
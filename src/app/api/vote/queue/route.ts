@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/auth";
+import { getStore } from "@/lib/session";
+import { SessionService } from "@/lib/services/session.service";
+import { broadcastToSession } from "@/lib/websocket/server";
+import { rankSessionQueue } from "@/lib/utils/queue";
+import { tallyQueueVotes } from "@/lib/algorithm/queue-votes";
+import { QUEUE_VOTE_TYPES } from "@/lib/constants";
+import type { QueueVoteType } from "@/types";
+import { z } from "zod";
+
+const voteQueueSchema = z.object({
+  sessionId: z.string().min(1),
+  trackId: z.string().min(1),
+  type: z.enum(QUEUE_VOTE_TYPES),
+});
+
+/**
+ * POST /api/vote/queue
+ * Up or downvote an upcoming track and re-rank the queue after the stable tracks
+ * Voting the same way again takes the vote back
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session || !session.accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await req.json();
+    const validation = voteQueueSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, trackId, type } = validation.data;
+
+    // Get session
+    const store = getStore();
+    const sessionService = new SessionService(store, session.accessToken);
+    const targetSession = await sessionService.getSession(sessionId);
+
+    if (!targetSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is in session
+    if (!sessionService.isParticipant(targetSession, session.user.id)) {
+      return NextResponse.json(
+        { error: "Not a participant of this session" },
+        { status: 403 }
+      );
+    }
+
+    // Vote and re-rank atomically so concurrent votes are not lost
+    let vote: QueueVoteType | null = null;
+
+    const updatedSession = await store.update(sessionId, (s) => {
+      const item = s.queue.find((q) => q.track.id === trackId);
+
+      if (!item) {
+        throw new Error("Track is not in the queue");
+      }
+
+      if (item.isStable) {
+        throw new Error("Cannot vote on stable tracks (first 3 in queue)");
+      }
+
+      // Drop the user's earlier vote on this track
+      const existing = (s.votes.queue ?? []).find(
+        (v) => v.userId === session.user.id && v.trackId === trackId
+      );
+      const votes = (s.votes.queue ?? []).filter((v) => v !== existing);
+
+      // Voting the same way again takes the vote back, the other way switches it
+      if (existing?.type !== type) {
+        votes.push({
+          userId: session.user.id,
+          trackId,
+          type,
+          timestamp: Date.now(),
+        });
+        vote = type;
+      }
+
+      s.votes.queue = votes;
+      rankSessionQueue(s);
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const queueVotes = updatedSession.votes.queue ?? [];
+    const tally = tallyQueueVotes(queueVotes).get(trackId) ?? { up: 0, down: 0, net: 0 };
+
+    // Broadcast the new order and vote counts
+    broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
+    broadcastToSession(sessionId, "queue_votes_updated", queueVotes);
+
+    return NextResponse.json({
+      success: true,
+      vote,
+      ...tally,
+      queue: updatedSession.queue,
+    });
+  } catch (error) {
+    console.error("Error voting on queue track:", error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
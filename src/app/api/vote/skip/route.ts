@@ -6,6 +6,9 @@ import { SessionService } from "@/lib/services/session.service";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { broadcastToSession } from "@/lib/websocket/server";
 import { handleTrackCompletion } from "@/lib/utils/playback";
+import { recordFeedback, removeSkipFeedback } from "@/lib/utils/feedback";
+import { getSkipVotesForTrack, getVoteWindow, tallySkipVotes } from "@/lib/algorithm/skip-threshold";
+import type { SkipVote } from "@/types";
 import { z } from "zod";
 
 const voteSkipSchema = z.object({
@@ -69,76 +72,124 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Check if user already voted
-    const existingVote = targetSession.votes.skip.find(
-      (v) => v.userId === session.user.id && v.trackId === trackId
-    );
-
-    if (existingVote) {
-      return NextResponse.json(
-        { error: "Already voted to skip this track" },
-        { status: 400 }
+    // Record the vote atomically; only the update that reaches the threshold
+    // clears the votes, so a track is skipped exactly once. The threshold and
+    // vote weights are worked out from the session as it is now
+    let voteCount = 0;
+    let threshold = 0;
+    let thresholdReached = false;
+    let skipVotes: SkipVote[] = [];
+
+    const updatedSession = await store.update(sessionId, (s) => {
+      // Votes are bound to the current play of the track, once the minimum
+      // listening time has passed
+      const window = getVoteWindow(s);
+      if (window && window.trackId !== trackId) {
+        throw new Error("Voting is closed for this track");
+      }
+      if (window && window.opensInMs > 0) {
+        throw new Error("Voting on this track hasn't opened yet");
+      }
+
+      // Check if user already voted
+      const existingVote = getSkipVotesForTrack(s, trackId).find(
+        (v) => v.userId === session.user.id
       );
-    }
 
-    // Add vote
-    targetSession.votes.skip.push({
-      userId: session.user.id,
-      trackId,
-      timestamp: Date.now(),
-    });
+      if (existingVote) {
+        throw new Error("Already voted to skip this track");
+      }
 
-    // Count votes for this track
-    const voteCount = targetSession.votes.skip.filter(
-      (v) => v.trackId === trackId
-    ).length;
+      // Add vote
+      s.votes.skip.push({
+        userId: session.user.id,
+        trackId,
+        playId: window?.playId,
+        timestamp: Date.now(),
+      });
 
-    // Check if threshold reached
-    const thresholdReached = voteCount >= targetSession.settings.skipThreshold;
+      // Count weighted votes for this track against the threshold
+      const tally = tallySkipVotes(s, trackId);
+      voteCount = tally.count;
+      threshold = tally.threshold;
+      thresholdReached = tally.reached;
+
+      if (thresholdReached) {
+        // Remember the skip before clearing the votes for this track
+        skipVotes = getSkipVotesForTrack(s, trackId);
+        recordFeedback(
+          s,
+          "skip",
+          trackId,
+          skipVotes.map((v) => v.userId)
+        );
+        s.votes.skip = s.votes.skip.filter((v) => v.trackId !== trackId);
+      }
+
+      s.updatedAt = Date.now();
+    });
 
-    if (thresholdReached) {
-      // Clear skip votes for this track
-      targetSession.votes.skip = targetSession.votes.skip.filter(
-        (v) => v.trackId !== trackId
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
       );
+    }
 
-      // Skip to next track on Spotify
-      const spotifyService = new SpotifyService(session.accessToken);
-      await spotifyService.skipToNext(targetSession.activeDeviceId);
-
-      // Save cleared votes
-      targetSession.updatedAt = Date.now();
-      await store.set(sessionId, targetSession);
+    if (thresholdReached) {
+      // Skip to next track on Spotify, on the device owner's account
+      let playbackToken: string;
+      try {
+        playbackToken = await sessionService.getPlaybackAccessToken(updatedSession, session.user.id);
+        const spotifyService = new SpotifyService(playbackToken);
+        await spotifyService.skipToNext(updatedSession.activeDeviceId);
+      } catch (error) {
+        // The track is still playing: put the votes back and take back the skip
+        await store.update(sessionId, (s) => {
+          const restored = skipVotes.filter((vote) =>
+            !s.votes.skip.some((v) => v.userId === vote.userId && v.trackId === vote.trackId)
+          );
+          s.votes.skip.push(...restored);
+          removeSkipFeedback(s, trackId, skipVotes.map((v) => v.userId));
+          s.updatedAt = Date.now();
+        });
+        throw error;
+      }
 
       // Broadcast track skipped event
       broadcastToSession(sessionId, "track_skipped", { voteCount });
 
-      // Handle track completion (update queue, broadcast state)
-      await handleTrackCompletion(sessionId, targetSession, store, session.accessToken);
+      // Handle track completion (update queue, broadcast state). Spotify skips to the
+      // head of the queue, so bind the completion to it and to the play being skipped
+      // in case the monitor or a client saw the change first
+      await handleTrackCompletion(
+        sessionId,
+        store,
+        playbackToken,
+        updatedSession.queue[0]?.track.id,
+        updatedSession.currentPlay?.id ?? null
+      );
 
       return NextResponse.json({
         success: true,
         skipped: true,
         voteCount,
-        threshold: targetSession.settings.skipThreshold,
+        threshold,
       });
     }
 
-    targetSession.updatedAt = Date.now();
-    await store.set(sessionId, targetSession);
-
     // Broadcast vote update
     broadcastToSession(sessionId, "vote_updated", {
       type: "skip",
       count: voteCount,
-      threshold: targetSession.settings.skipThreshold,
+      threshold,
     });
 
     return NextResponse.json({
       success: true,
       skipped: false,
       voteCount,
-      threshold: targetSession.settings.skipThreshold,
+      threshold,
     });
   } catch (error) {
     console.error("Error voting to skip:", error);
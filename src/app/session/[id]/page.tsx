@@ -1,19 +1,26 @@
 "use client";
 
-import { useEffect, useState, use, useRef } from "react";
+import { useCallback, useEffect, useRef, useState, use } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { NowPlaying, ProgressBar, PlayerControls, DeviceSelector } from "@/components/player";
 import { AddTrackModal } from "@/components/queue/AddTrackModal";
 import { SortableQueueList } from "@/components/queue/SortableQueueList";
+import { TrackRequestList } from "@/components/queue/TrackRequestList";
 import { SessionSettingsModal } from "@/components/session/SessionSettingsModal";
-import { VotingControls } from "@/components/voting";
+import { SessionEndedScreen, ExportPlaylistButton } from "@/components/session";
+import { VotingControls, RoomPoll, CreatePollModal } from "@/components/voting";
 import { useSocket } from "@/hooks/useSocket";
 import { useToast } from "@/components/ui";
 import { WS_EVENTS } from "@/lib/websocket/events";
 import { trackEvent } from "@/lib/logrocket";
 import { LOGROCKET_EVENTS } from "@/lib/logrocket-events";
-import type { SpotifyTrack } from "@/types";
+import type { SpotifyTrack, SessionEndReason, SessionSummary, VoteWindow, QueueVote, TrackRequest, Poll } from "@/types";
+
+// The server-side playback monitor pushes the state at least every 15s while it
+// runs. Clients only poll themselves after it has been quiet for longer
+const FALLBACK_POLL_INTERVAL_MS = 10000;
+const MONITOR_SILENCE_MS = 30000;
 
 interface QueueItem {
   track: {
@@ -48,6 +55,14 @@ interface Session {
     skipThreshold: number;
   };
   queue: QueueItem[];
+  trackRequests?: TrackRequest[];
+  poll?: Poll;
+  profile?: {
+    commonGenres: string[];
+  };
+  votes?: {
+    queue?: QueueVote[];
+  };
   activeDeviceId?: string;
   activeDeviceName?: string;
   activeDeviceType?: string;
@@ -67,6 +82,13 @@ export default function SessionPage({
   const [error, setError] = useState<string | null>(null);
   const [isAddTrackModalOpen, setIsAddTrackModalOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isCreatePollModalOpen, setIsCreatePollModalOpen] = useState(false);
+  const [ended, setEnded] = useState<{ reason: SessionEndReason; summary?: SessionSummary } | null>(null);
+  const [skipThreshold, setSkipThreshold] = useState<number | null>(null);
+  const [voteWindow, setVoteWindow] = useState<VoteWindow | null>(null);
+  const [queueVotes, setQueueVotes] = useState<QueueVote[]>([]);
+  const [trackRequests, setTrackRequests] = useState<TrackRequest[]>([]);
+  const [poll, setPoll] = useState<Poll | null>(null);
 
   // Playback state
   const [currentTrack, setCurrentTrack] = useState<SpotifyTrack | null>(null);
@@ -74,8 +96,12 @@ export default function SessionPage({
   const [progressMs, setProgressMs] = useState(0);
   const [isDeviceConnected, setIsDeviceConnected] = useState(false);
 
-  // Use ref to track previous track ID to avoid infinite loops
+  // Last track seen and when the monitor last pushed, for the polling fallback
   const previousTrackIdRef = useRef<string | null>(null);
+  // Play current at the last poll. undefined when unknown (before any poll, or
+  // after a pushed track change), and a report then uses the play read with it
+  const previousPlayIdRef = useRef<string | null | undefined>(undefined);
+  const lastPlaybackPushRef = useRef(0);
 
   // Initialize WebSocket connection
   const { socket, isJoined } = useSocket({
@@ -83,9 +109,42 @@ export default function SessionPage({
     autoConnect: true,
   });
 
+  const fetchSession = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/session/${resolvedParams.id}`);
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error("Session not found");
+        }
+        if (response.status === 403) {
+          throw new Error("You are not a participant of this session");
+        }
+        throw new Error("Failed to load session");
+      }
+
+      const data = await response.json();
+      setSession(data.session);
+      setSkipThreshold(data.skipThreshold ?? null);
+      setVoteWindow(data.voteWindow ?? null);
+      setQueueVotes(data.session.votes?.queue ?? []);
+      setTrackRequests(data.session.trackRequests ?? []);
+      setPoll(data.session.poll ?? null);
+
+      // Check if device is already connected
+      if (data.session.activeDeviceId) {
+        setIsDeviceConnected(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load session");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resolvedParams.id]);
+
   useEffect(() => {
     fetchSession();
-  }, [resolvedParams.id]);
+  }, [fetchSession]);
 
   // Fetch initial playback state when session loads with an active device
   useEffect(() => {
@@ -93,7 +152,7 @@ export default function SessionPage({
       if (!session?.activeDeviceId) return;
 
       try {
-        const response = await fetch("/api/playback/state");
+        const response = await fetch(`/api/playback/state?sessionId=${session.id}`);
         if (!response.ok) return;
 
         const data = await response.json();
@@ -102,6 +161,7 @@ export default function SessionPage({
           setIsPlaying(data.state.is_playing || false);
           setProgressMs(data.state.progress_ms || 0);
           previousTrackIdRef.current = data.state.item.id;
+          previousPlayIdRef.current = data.playId ?? null;
           console.log("[SessionPage] Initial playback state restored");
         }
       } catch (err) {
@@ -110,7 +170,68 @@ export default function SessionPage({
     };
 
     fetchInitialPlaybackState();
-  }, [session?.activeDeviceId]);
+  }, [session?.id, session?.activeDeviceId]);
+
+  // Fallback for when the server-side playback monitor isn't running: poll the
+  // session's playback and report track changes ourselves. The monitor lives in
+  // the custom server, so it's missing under plain `next dev`/`next start` and
+  // when a watch request never reached it; without this, natural track changes
+  // would go unnoticed there. Each report names the play that was current
+  // before the change, and the server only advances while that play is still
+  // current, so the monitor and every open page reporting the same change
+  // advance the queue once
+  useEffect(() => {
+    const sessionId = session?.id;
+    if (!sessionId || !session?.activeDeviceId) return;
+
+    const pollPlaybackState = async () => {
+      if (Date.now() - lastPlaybackPushRef.current < MONITOR_SILENCE_MS) return;
+
+      try {
+        const response = await fetch(`/api/playback/state?sessionId=${sessionId}`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        if (!data.state) return;
+
+        const newTrackId = data.state.item?.id || null;
+        let playId: string | null = data.playId ?? null;
+
+        // Track changed (natural progression to the next song)
+        if (newTrackId && previousTrackIdRef.current && newTrackId !== previousTrackIdRef.current) {
+          try {
+            const changeResponse = await fetch("/api/playback/track-change", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                trackId: newTrackId,
+                playId: previousPlayIdRef.current === undefined ? playId : previousPlayIdRef.current,
+              }),
+            });
+            if (changeResponse.ok) {
+              playId = (await changeResponse.json()).playId ?? null;
+            }
+            await fetchSession();
+          } catch (error) {
+            console.error("Failed to handle track change:", error);
+          }
+        }
+
+        previousTrackIdRef.current = newTrackId;
+        previousPlayIdRef.current = playId;
+        setCurrentTrack(data.state.item || null);
+        setIsPlaying(data.state.is_playing || false);
+        setProgressMs(data.state.progress_ms || 0);
+      } catch (err) {
+        console.error("Failed to fetch playback state:", err);
+      }
+    };
+
+    const interval = setInterval(pollPlaybackState, FALLBACK_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [session?.id, session?.activeDeviceId, fetchSession]);
 
   // WebSocket event listeners
   useEffect(() => {
@@ -143,20 +264,79 @@ export default function SessionPage({
       setSession((prev) => prev ? { ...prev, queue } : null);
     });
 
-    // Listen for playback state changes
+    // Listen for playback state changes (pushed by the server-side playback monitor)
     socket.on(WS_EVENTS.PLAYBACK_STATE_CHANGED, (state) => {
       console.log("[SessionPage] Playback state changed:", state);
-      if (state.item) {
-        setCurrentTrack(state.item);
-        setIsPlaying(state.is_playing);
-        setProgressMs(state.progress_ms);
-        previousTrackIdRef.current = state.item.id;
+      setCurrentTrack(state.item);
+      setIsPlaying(state.is_playing);
+      setProgressMs(state.progress_ms);
+      if (state.item?.id !== previousTrackIdRef.current) {
+        // Pushed states don't say which play is current; the next poll reads it
+        previousPlayIdRef.current = undefined;
       }
+      previousTrackIdRef.current = state.item?.id ?? null;
+      lastPlaybackPushRef.current = Date.now();
     });
 
-    // Listen for vote updates
+    // Listen for vote updates; the skip threshold can move as people come and go
     socket.on(WS_EVENTS.VOTE_UPDATED, (data) => {
       console.log("[SessionPage] Vote updated:", data);
+      if (data.type === "skip" && data.threshold !== undefined) {
+        setSkipThreshold(data.threshold);
+      }
+    });
+
+    // Listen for skip voting opening on a new play
+    socket.on(WS_EVENTS.VOTE_WINDOW, (window) => {
+      console.log("[SessionPage] Vote window:", window);
+      setVoteWindow(window);
+    });
+
+    // Listen for track requests; DJs are told about new ones, requesters about the outcome
+    socket.on(WS_EVENTS.REQUEST_CREATED, (request) => {
+      console.log("[SessionPage] Track requested:", request.track.name);
+      setTrackRequests((prev) => [...prev.filter((r) => r.id !== request.id), request]);
+
+      const isDJ = session?.participants.find(p => p.userId === userSession?.user?.id)?.isDJ;
+      if (isDJ && request.requestedBy !== userSession?.user?.id) {
+        const requester = session?.participants.find(p => p.userId === request.requestedBy);
+        toast.info(`${requester?.name ?? "Someone"} requested ${request.track.name}`);
+      }
+    });
+
+    socket.on(WS_EVENTS.REQUEST_RESOLVED, ({ status, request }) => {
+      console.log("[SessionPage] Track request resolved:", status, request.track.name);
+      setTrackRequests((prev) => prev.filter((r) => r.id !== request.id));
+
+      if (request.requestedBy === userSession?.user?.id) {
+        if (status === "approved") {
+          toast.success(`Your request for ${request.track.name} was added to the queue`);
+        } else if (status === "duplicate") {
+          toast.info(`${request.track.name} is already in the queue`);
+        } else {
+          toast.info(`Your request for ${request.track.name} was declined`);
+        }
+      }
+    });
+
+    // Listen for up and down votes on upcoming tracks
+    socket.on(WS_EVENTS.QUEUE_VOTES_UPDATED, (votes) => {
+      console.log("[SessionPage] Queue votes updated:", votes.length);
+      setQueueVotes(votes);
+    });
+
+    // Listen for room polls: live results while open, the winner once closed
+    socket.on(WS_EVENTS.POLL_UPDATED, (updated) => {
+      console.log("[SessionPage] Poll updated:", updated.question);
+      setPoll(updated);
+    });
+
+    socket.on(WS_EVENTS.POLL_CLOSED, ({ poll: closed, winner }) => {
+      console.log("[SessionPage] Poll closed:", closed.question);
+      setPoll(closed);
+      if (winner) {
+        toast.success(`The room picked ${winner.label}`, "It steers the next queue refresh");
+      }
     });
 
     // Listen for track skipped
@@ -196,105 +376,32 @@ export default function SessionPage({
       fetchSession();
     });
 
+    // Listen for the session ending (host ended or deleted it, or it went idle)
+    socket.on(WS_EVENTS.SESSION_ENDED, (data) => {
+      console.log("[SessionPage] Session ended:", data.reason);
+      setEnded(data);
+    });
+
     // Cleanup listeners on unmount
     return () => {
       socket.off(WS_EVENTS.PARTICIPANT_JOINED);
       socket.off(WS_EVENTS.PARTICIPANT_LEFT);
       socket.off(WS_EVENTS.QUEUE_UPDATED);
+      socket.off(WS_EVENTS.REQUEST_CREATED);
+      socket.off(WS_EVENTS.REQUEST_RESOLVED);
       socket.off(WS_EVENTS.PLAYBACK_STATE_CHANGED);
       socket.off(WS_EVENTS.VOTE_UPDATED);
+      socket.off(WS_EVENTS.VOTE_WINDOW);
+      socket.off(WS_EVENTS.QUEUE_VOTES_UPDATED);
+      socket.off(WS_EVENTS.POLL_UPDATED);
+      socket.off(WS_EVENTS.POLL_CLOSED);
       socket.off(WS_EVENTS.TRACK_SKIPPED);
       socket.off(WS_EVENTS.DJ_ASSIGNED);
       socket.off(WS_EVENTS.DJ_REMOVED);
       socket.off(WS_EVENTS.SESSION_SETTINGS_UPDATED);
+      socket.off(WS_EVENTS.SESSION_ENDED);
     };
-  }, [socket, isJoined, session, toast]);
-
-  // Poll playback state for progress updates (lightweight polling for progress bar)
-  useEffect(() => {
-    if (!session) return;
-
-    // Only poll if session has an active device (playback has been initialized)
-    const hasActiveDevice = !!session.activeDeviceId;
-    if (!hasActiveDevice) return;
-
-    const fetchPlaybackState = async () => {
-      try {
-        const response = await fetch("/api/playback/state");
-
-        if (!response.ok) {
-          return;
-        }
-
-        const data = await response.json();
-
-        if (data.state) {
-          const newTrack = data.state.item;
-          const newTrackId = newTrack?.id || null;
-
-          // Check if track changed (natural progression to next song)
-          if (newTrackId && previousTrackIdRef.current && newTrackId !== previousTrackIdRef.current) {
-            // Track changed - notify backend and refresh session
-            try {
-              await fetch("/api/playback/track-change", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  sessionId: session.id,
-                  trackId: newTrackId,
-                }),
-              });
-              await fetchSession();
-            } catch (error) {
-              console.error("Failed to handle track change:", error);
-            }
-          }
-
-          // Update ref with new track ID
-          previousTrackIdRef.current = newTrackId;
-
-          setCurrentTrack(newTrack || null);
-          setIsPlaying(data.state.is_playing || false);
-          setProgressMs(data.state.progress_ms || 0);
-        }
-      } catch (err) {
-        console.error("Failed to fetch playback state:", err);
-      }
-    };
-
-    // Poll every 10 seconds (reduced from 20) just for progress bar updates
-    const interval = setInterval(fetchPlaybackState, 10000);
-
-    return () => clearInterval(interval);
-  }, [session]);
-
-  const fetchSession = async () => {
-    try {
-      const response = await fetch(`/api/session/${resolvedParams.id}`);
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error("Session not found");
-        }
-        if (response.status === 403) {
-          throw new Error("You are not a participant of this session");
-        }
-        throw new Error("Failed to load session");
-      }
-
-      const data = await response.json();
-      setSession(data.session);
-
-      // Check if device is already connected
-      if (data.session.activeDeviceId) {
-        setIsDeviceConnected(true);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load session");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  }, [socket, isJoined, session, toast, fetchSession, userSession?.user?.id]);
 
   const handleCopyCode = () => {
     if (session) {
@@ -349,6 +456,32 @@ export default function SessionPage({
     }
   };
 
+  const handleEndSession = async () => {
+    if (!session) return;
+
+    const confirmed = window.confirm(
+      "End the session for everyone? All participants will be disconnected from it."
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/session/${session.id}/end`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to end session");
+      }
+
+      // The session_ended broadcast carries the summary; don't overwrite it
+      setEnded((current) => current ?? { reason: "ended-by-host" });
+    } catch (err) {
+      console.error("Failed to end session:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to end session");
+    }
+  };
+
   // Playback control handlers
   const handlePlay = async () => {
     if (!session) return;
@@ -516,6 +649,10 @@ export default function SessionPage({
     }
   };
 
+  const handleTrackRequested = (approved: boolean) => {
+    toast.success(approved ? "Track added to queue" : "Track requested, waiting for a DJ");
+  };
+
   const handleSettingsUpdated = () => {
     // Refresh session (settings will also update via WebSocket)
     fetchSession();
@@ -544,6 +681,10 @@ export default function SessionPage({
   // Check if current user is the host
   const isUserHost = userSession?.user?.id === session?.hostId;
 
+  if (ended) {
+    return <SessionEndedScreen sessionId={resolvedParams.id} reason={ended.reason} summary={ended.summary} />;
+  }
+
   if (isLoading) {
     return (
       <main className="min-h-screen flex items-center justify-center">
@@ -601,6 +742,14 @@ export default function SessionPage({
                   Settings
                 </button>
               )}
+              {isUserHost && (
+                <button
+                  onClick={handleEndSession}
+                  className="text-sm px-4 py-2 bg-red-900/60 hover:bg-red-800 text-white rounded-lg transition-colors"
+                >
+                  End Session
+                </button>
+              )}
               <button onClick={handleLeaveSession} className="btn-secondary">
                 Leave Session
               </button>
@@ -653,7 +802,11 @@ export default function SessionPage({
                   <VotingControls
                     sessionId={session.id}
                     currentTrack={currentTrack}
-                    sessionSettings={session.settings}
+                    sessionSettings={{
+                      voteToSkip: session.settings.voteToSkip,
+                      skipThreshold: skipThreshold ?? session.settings.skipThreshold,
+                    }}
+                    voteWindow={voteWindow}
                     userId={userSession.user.id}
                     socket={socket}
                   />
@@ -669,16 +822,52 @@ export default function SessionPage({
           <div className="card lg:col-span-2">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold">Queue</h2>
-              {isUserDJ && (
+              <div className="flex items-center gap-3">
+                {isUserDJ && (!poll || poll.closedAt) && (
+                  <button
+                    onClick={() => setIsCreatePollModalOpen(true)}
+                    className="text-sm px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg transition-colors"
+                  >
+                    Ask the Room
+                  </button>
+                )}
                 <button
                   onClick={() => setIsAddTrackModalOpen(true)}
                   className="text-sm px-4 py-2 bg-spotify-green hover:bg-green-600 text-white rounded-lg transition-colors"
                 >
-                  Add Track
+                  {isUserDJ ? "Add Track" : "Request Track"}
                 </button>
-              )}
+              </div>
             </div>
 
+            {/* Room poll, voted on over WebSocket */}
+            {poll && (
+              <div className="mb-4">
+                <RoomPoll
+                  sessionId={session.id}
+                  poll={poll}
+                  userId={userSession?.user?.id}
+                  isDJ={isUserDJ}
+                  socket={socket}
+                />
+              </div>
+            )}
+
+            {/* Track requests waiting for a DJ */}
+            {trackRequests.length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-400 mb-2">
+                  Requests ({trackRequests.length})
+                </h3>
+                <TrackRequestList
+                  requests={trackRequests}
+                  sessionId={session.id}
+                  isDJ={isUserDJ}
+                  participants={session.participants}
+                />
+              </div>
+            )}
+
             {session.queue.length === 0 ? (
               <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
                 <p>No tracks in queue yet</p>
@@ -689,6 +878,8 @@ export default function SessionPage({
                 sessionId={session.id}
                 isDJ={isUserDJ}
                 isSessionOwner={userSession?.user?.id === session.hostId}
+                votes={queueVotes}
+                userId={userSession?.user?.id}
                 onPlayFromQueue={handlePlayFromQueue}
                 onReorderComplete={handleQueueReordered}
               />
@@ -730,6 +921,12 @@ export default function SessionPage({
                 </div>
               ))}
             </div>
+
+            {/* Playlist Export */}
+            <div className="mt-6 pt-4 border-t border-gray-800">
+              <h3 className="text-sm font-semibold text-gray-300 mb-3">Save this session</h3>
+              <ExportPlaylistButton sessionId={session.id} />
+            </div>
           </div>
         </div>
       </div>
@@ -741,6 +938,19 @@ export default function SessionPage({
           onClose={() => setIsAddTrackModalOpen(false)}
           sessionId={session.id}
           onTrackAdded={handleTrackAdded}
+          mode={isUserDJ ? "add" : "request"}
+          onTrackRequested={handleTrackRequested}
+        />
+      )}
+
+      {/* Create Poll Modal */}
+      {session && (
+        <CreatePollModal
+          isOpen={isCreatePollModalOpen}
+          onClose={() => setIsCreatePollModalOpen(false)}
+          sessionId={session.id}
+          genres={session.profile?.commonGenres ?? []}
+          tracks={session.queue.filter((item) => !item.isStable).slice(0, 10).map((item) => item.track)}
         />
       )}
 
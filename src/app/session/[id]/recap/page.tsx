@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState, use } from "react";
+import Link from "next/link";
+import { SessionRecapView, ExportPlaylistButton } from "@/components/session";
+import type { SessionRecap } from "@/types";
+
+export default function SessionRecapPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const resolvedParams = use(params);
+  const [recap, setRecap] = useState<SessionRecap | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRecap = async () => {
+      try {
+        const response = await fetch(`/api/session/${resolvedParams.id}/recap`);
+
+        if (!response.ok) {
+          if (response.status === 404) {
+            throw new Error("No recap found for this session");
+          }
+          if (response.status === 403) {
+            throw new Error("You were not part of this session");
+          }
+          throw new Error("Failed to load recap");
+        }
+
+        const data = await response.json();
+        setRecap(data.recap);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load recap");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRecap();
+  }, [resolvedParams.id]);
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-gray-400">Loading recap...</div>
+      </main>
+    );
+  }
+
+  if (error || !recap) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-8">
+        <div className="card max-w-md w-full text-center">
+          <div className="text-red-500 mb-4">{error ?? "Failed to load recap"}</div>
+          <Link href="/" className="btn-secondary inline-block">
+            Back to Home
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-8">
+      <div className="max-w-3xl mx-auto">
+        <SessionRecapView recap={recap} />
+        <div className="card mt-6">
+          <h2 className="text-xl font-semibold mb-4">Keep the playlist</h2>
+          <ExportPlaylistButton sessionId={recap.sessionId} selections={["played", "liked"]} />
+        </div>
+        <div className="mt-6 text-center">
+          <Link href="/" className="btn-secondary inline-block">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
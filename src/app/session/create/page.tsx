@@ -4,6 +4,19 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { trackEvent } from "@/lib/logrocket";
 import { LOGROCKET_EVENTS } from "@/lib/logrocket-events";
+import { PlaylistPicker } from "@/components/session";
+import {
+  SKIP_THRESHOLD_MODES,
+  DEFAULT_SKIP_THRESHOLD_MODE,
+  DEFAULT_SKIP_THRESHOLD_PERCENT,
+} from "@/lib/constants";
+import type { SkipThresholdMode } from "@/types/session";
+
+const SKIP_THRESHOLD_MODE_LABELS: Record<SkipThresholdMode, string> = {
+  count: "A fixed number of votes",
+  "percent-present": "A share of everyone here",
+  "percent-active": "A share of who's been active lately",
+};
 
 export default function CreateSessionPage() {
   const router = useRouter();
@@ -11,9 +24,13 @@ export default function CreateSessionPage() {
   const [error, setError] = useState<string | null>(null);
   const [showCustomCode, setShowCustomCode] = useState(false);
   const [customCode, setCustomCode] = useState("");
+  const [useSeedPlaylist, setUseSeedPlaylist] = useState(false);
+  const [seedPlaylist, setSeedPlaylist] = useState("");
   const [settings, setSettings] = useState({
     voteToSkip: true,
     skipThreshold: 2,
+    skipThresholdMode: DEFAULT_SKIP_THRESHOLD_MODE,
+    skipThresholdPercent: DEFAULT_SKIP_THRESHOLD_PERCENT,
   });
 
   const handleCreateSession = async () => {
@@ -28,6 +45,7 @@ export default function CreateSessionPage() {
         },
         body: JSON.stringify({
           customCode: showCustomCode && customCode ? customCode : undefined,
+          seedPlaylist: useSeedPlaylist && seedPlaylist ? seedPlaylist : undefined,
           settings,
         }),
       });
@@ -42,8 +60,10 @@ export default function CreateSessionPage() {
       trackEvent(LOGROCKET_EVENTS.SESSION_CREATED, {
         sessionId: data.session.id,
         customCode: showCustomCode && customCode ? true : false,
+        seedPlaylist: useSeedPlaylist && seedPlaylist ? true : false,
         voteToSkip: settings.voteToSkip,
         skipThreshold: settings.skipThreshold,
+        skipThresholdMode: settings.skipThresholdMode,
       });
 
       // Redirect to session page
@@ -102,6 +122,26 @@ export default function CreateSessionPage() {
               )}
             </div>
 
+            {/* Seed Playlist Section */}
+            <div className="border border-gray-700 rounded-lg p-4">
+              <label className="text-sm font-medium block mb-2">Start From a Playlist</label>
+              <p className="text-xs text-gray-400 mb-3">
+                Open with tracks from one of your playlists and mix in more like it
+              </p>
+              <label className="flex items-center gap-2 mb-3">
+                <input
+                  type="checkbox"
+                  checked={useSeedPlaylist}
+                  onChange={(e) => setUseSeedPlaylist(e.target.checked)}
+                  className="rounded bg-gray-800 border-gray-700"
+                />
+                <span className="text-sm">Seed from a playlist</span>
+              </label>
+              {useSeedPlaylist && (
+                <PlaylistPicker value={seedPlaylist} onChange={setSeedPlaylist} />
+              )}
+            </div>
+
             {/* Settings */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Session Settings</h3>
@@ -131,24 +171,67 @@ export default function CreateSessionPage() {
               {settings.voteToSkip && (
                 <div>
                   <label className="text-sm font-medium block mb-2">
-                    Skip Threshold: {settings.skipThreshold} votes
+                    Skip Threshold
                   </label>
                   <p className="text-xs text-gray-400 mb-2">
                     Number of votes needed to skip a track
                   </p>
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={settings.skipThreshold}
+                  <select
+                    value={settings.skipThresholdMode}
                     onChange={(e) =>
                       setSettings({
                         ...settings,
-                        skipThreshold: parseInt(e.target.value),
+                        skipThresholdMode: e.target.value as SkipThresholdMode,
                       })
                     }
-                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500"
-                  />
+                    className="w-full mb-3 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    {SKIP_THRESHOLD_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {SKIP_THRESHOLD_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  {settings.skipThresholdMode === "count" ? (
+                    <>
+                      <p className="text-xs text-gray-400 mb-2">
+                        {settings.skipThreshold} votes
+                      </p>
+                      <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        value={settings.skipThreshold}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            skipThreshold: parseInt(e.target.value),
+                          })
+                        }
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-xs text-gray-400 mb-2">
+                        {settings.skipThresholdPercent}% of participants
+                      </p>
+                      <input
+                        type="range"
+                        min="5"
+                        max="100"
+                        step="5"
+                        value={settings.skipThresholdPercent}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            skipThresholdPercent: parseInt(e.target.value),
+                          })
+                        }
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500"
+                      />
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -156,7 +239,7 @@ export default function CreateSessionPage() {
             {/* Create Button */}
             <button
               onClick={handleCreateSession}
-              disabled={isLoading || (showCustomCode && !customCode)}
+              disabled={isLoading || (showCustomCode && !customCode) || (useSeedPlaylist && !seedPlaylist)}
               className="btn-primary w-full text-lg py-4 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isLoading ? "Creating..." : "Create Session"}
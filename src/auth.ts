@@ -1,6 +1,7 @@
 import { type NextAuthOptions } from "next-auth";
 import { type JWT } from "next-auth/jwt";
 import SpotifyProvider from "next-auth/providers/spotify";
+import { getTokenVault } from "@/lib/session";
 
 /**
  * Spotify scopes needed for the app:
@@ -10,6 +11,8 @@ import SpotifyProvider from "next-auth/providers/spotify";
  * - user-read-playback-state: Read playback state
  * - user-modify-playback-state: Control playback
  * - streaming: Web Playback SDK
+ * - playlist-modify-public / playlist-modify-private: Export sessions as playlists
+ * - playlist-read-private / playlist-read-collaborative: Seed sessions from the user's playlists
  */
 const SPOTIFY_SCOPES = [
   "user-read-email",
@@ -19,6 +22,10 @@ const SPOTIFY_SCOPES = [
   "user-modify-playback-state",
   "streaming",
   "user-read-currently-playing",
+  "playlist-modify-public",
+  "playlist-modify-private",
+  "playlist-read-private",
+  "playlist-read-collaborative",
 ].join(" ");
 
 // Validate required environment variables at module load
@@ -45,22 +52,33 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, account, profile }) {
       // Initial sign in
       if (account && profile) {
-        return {
+        const signedIn = {
           ...token,
           accessToken: account.access_token,
           refreshToken: account.refresh_token,
           accessTokenExpires: account.expires_at ? account.expires_at * 1000 : Date.now() + 3600 * 1000,
           spotifyId: profile.id,
         };
+        await vaultTokens(signedIn);
+        return signedIn;
       }
 
-      // Return previous token if the access token has not expired yet
+      // Return previous token if the access token has not expired yet. The
+      // vault got it at sign-in or at the last refresh
       if (typeof token.accessTokenExpires === 'number' && Date.now() < token.accessTokenExpires) {
         return token;
       }
 
+      // The vault may already hold a newer token, refreshed for a background job
+      const vaulted = await loadVaultedTokens(token);
+      if (vaulted) {
+        return { ...token, ...vaulted };
+      }
+
       // Access token has expired, try to refresh it
-      return refreshAccessToken(token);
+      const refreshed = await refreshAccessToken(token);
+      await vaultTokens(refreshed);
+      return refreshed;
     },
     async session({ session, token }) {
       // Send properties to the client
@@ -80,10 +98,53 @@ export const authOptions: NextAuthOptions = {
   },
 };
 
+/**
+ * Keep the user's tokens in the server-side vault, so their own Spotify data
+ * can be read when other participants make requests
+ */
+async function vaultTokens(token: JWT): Promise<void> {
+  if (typeof token.sub !== 'string' || typeof token.accessToken !== 'string' || token.error) {
+    return;
+  }
+
+  try {
+    await getTokenVault().save(token.sub, {
+      accessToken: token.accessToken,
+      refreshToken: typeof token.refreshToken === 'string' ? token.refreshToken : undefined,
+      accessTokenExpires: typeof token.accessTokenExpires === 'number' ? token.accessTokenExpires : Date.now(),
+    });
+  } catch (error) {
+    console.error("Error saving tokens to vault:", error);
+  }
+}
+
+/**
+ * Get the user's vaulted tokens if they are still valid
+ */
+async function loadVaultedTokens(token: JWT): Promise<JWT | null> {
+  if (typeof token.sub !== 'string') {
+    return null;
+  }
+
+  try {
+    const vaulted = await getTokenVault().load(token.sub);
+    if (vaulted && Date.now() < vaulted.accessTokenExpires) {
+      return {
+        accessToken: vaulted.accessToken,
+        accessTokenExpires: vaulted.accessTokenExpires,
+        ...(vaulted.refreshToken ? { refreshToken: vaulted.refreshToken } : {}),
+      };
+    }
+  } catch (error) {
+    console.error("Error loading tokens from vault:", error);
+  }
+  return null;
+}
+
 /**
  * Refresh the Spotify access token
  */
-async function refreshAccessToken(token: JWT): Promise<JWT> {
+export async function refreshAccessToken(token: JWT): Promise<JWT> {
   try {
     if (typeof token.refreshToken !== 'string') {
       throw new Error('No refresh token available');
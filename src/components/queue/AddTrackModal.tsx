@@ -10,18 +10,23 @@ export interface AddTrackModalProps {
   onClose: () => void;
   sessionId: string;
   onTrackAdded: () => void;
+  mode?: "add" | "request";        // Guests request tracks for a DJ to approve
+  onTrackRequested?: (approved: boolean) => void;
 }
 
 /**
  * Modal for searching and adding tracks to the queue
- * DJ-only feature
+ * DJs add tracks straight away; everyone else requests them
  */
 export function AddTrackModal({
   isOpen,
   onClose,
   sessionId,
   onTrackAdded,
+  mode = "add",
+  onTrackRequested,
 }: AddTrackModalProps) {
+  const isRequest = mode === "request";
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<SpotifyTrack[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -71,25 +76,33 @@ export function AddTrackModal({
     setError(null);
 
     try {
-      const response = await fetch(`/api/queue/${sessionId}/add`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ trackId }),
-      });
+      const response = await fetch(
+        isRequest ? `/api/queue/${sessionId}/requests` : `/api/queue/${sessionId}/add`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ trackId }),
+        }
+      );
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || "Failed to add track");
+        throw new Error(data.error || (isRequest ? "Failed to request track" : "Failed to add track"));
       }
 
-      // Track added successfully
-      onTrackAdded();
+      // Track added (or requested) successfully
+      if (isRequest) {
+        const data = await response.json();
+        onTrackRequested?.(Boolean(data.approved));
+      } else {
+        onTrackAdded();
+      }
       setQuery("");
       setResults([]);
       onClose();
     } catch (err) {
       console.error("Error adding track:", err);
-      setError(err instanceof Error ? err.message : "Failed to add track");
+      setError(err instanceof Error ? err.message : isRequest ? "Failed to request track" : "Failed to add track");
     } finally {
       setIsAdding(null);
     }
@@ -102,7 +115,7 @@ export function AddTrackModal({
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Add Track to Queue" size="lg">
+    <Modal isOpen={isOpen} onClose={onClose} title={isRequest ? "Request a Track" : "Add Track to Queue"} size="lg">
       {/* Search Input */}
       <div className="mb-4">
         <div className="relative">
@@ -185,12 +198,12 @@ export function AddTrackModal({
               {isAdding === track.id ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin" />
-                  <span className="text-sm">Adding...</span>
+                  <span className="text-sm">{isRequest ? "Requesting..." : "Adding..."}</span>
                 </>
               ) : (
                 <>
                   <Plus className="w-4 h-4" />
-                  <span className="text-sm">Add</span>
+                  <span className="text-sm">{isRequest ? "Request" : "Add"}</span>
                 </>
               )}
             </button>
@@ -20,7 +20,9 @@ import {
   useSortable,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { GripVertical } from "lucide-react";
+import { GripVertical, ChevronUp, ChevronDown } from "lucide-react";
+import { tallyQueueVotes, type QueueVoteTally } from "@/lib/algorithm/queue-votes";
+import type { QueueVote, QueueVoteType } from "@/types";
 
 interface QueueTrack {
   track: {
@@ -44,6 +46,8 @@ interface SortableQueueListProps {
   sessionId: string;
   isDJ: boolean;
   isSessionOwner: boolean;
+  votes?: QueueVote[];             // Up and down votes on upcoming tracks
+  userId?: string;                 // Shows vote buttons for this participant
   onPlayFromQueue?: (position: number) => void;
   onReorderComplete?: () => void;
 }
@@ -54,6 +58,9 @@ function SortableQueueItem({
   isDJ,
   isStable,
   isSessionOwner,
+  tally,
+  userVote,
+  onVote,
   onClick,
 }: {
   item: QueueTrack;
@@ -61,6 +68,9 @@ function SortableQueueItem({
   isDJ: boolean;
   isStable: boolean;
   isSessionOwner: boolean;
+  tally?: QueueVoteTally;
+  userVote?: QueueVoteType;
+  onVote?: (type: QueueVoteType) => void;
   onClick?: () => void;
 }) {
   const {
@@ -142,6 +152,35 @@ function SortableQueueItem({
         )}
       </div>
 
+      {/* Votes (stable tracks are locked) */}
+      {!isStable && onVote && (
+        <div className="flex flex-col items-center">
+          <button
+            onClick={() => onVote("up")}
+            aria-label={`Upvote ${item.track.name}`}
+            aria-pressed={userVote === "up"}
+            className={`transition-colors ${
+              userVote === "up" ? "text-green-400" : "text-gray-400 hover:text-white"
+            }`}
+          >
+            <ChevronUp size={18} />
+          </button>
+          <span className="text-xs text-gray-300" title={`${tally?.up ?? 0} up, ${tally?.down ?? 0} down`}>
+            {tally?.net ?? 0}
+          </span>
+          <button
+            onClick={() => onVote("down")}
+            aria-label={`Downvote ${item.track.name}`}
+            aria-pressed={userVote === "down"}
+            className={`transition-colors ${
+              userVote === "down" ? "text-red-400" : "text-gray-400 hover:text-white"
+            }`}
+          >
+            <ChevronDown size={18} />
+          </button>
+        </div>
+      )}
+
       {/* Stable indicator */}
       {isStable && (
         <div className="text-xs text-green-400 font-medium">Stable</div>
@@ -155,6 +194,8 @@ export function SortableQueueList({
   sessionId,
   isDJ,
   isSessionOwner,
+  votes = [],
+  userId,
   onPlayFromQueue,
   onReorderComplete,
 }: SortableQueueListProps) {
@@ -261,6 +302,26 @@ export function SortableQueueList({
     setActiveId(null);
   };
 
+  // The new order and counts come back over WebSocket
+  const handleVote = async (trackId: string, type: QueueVoteType) => {
+    try {
+      const response = await fetch("/api/vote/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, trackId, type }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to vote");
+      }
+    } catch (err) {
+      console.error("Failed to vote on queue track:", err);
+    }
+  };
+
+  const tallies = tallyQueueVotes(votes);
+
   // Create list of IDs for sortable context
   const itemIds = localQueue.map((item) => `${item.track.id}-${item.position}`);
 
@@ -290,6 +351,9 @@ export function SortableQueueList({
               isDJ={isDJ}
               isStable={item.isStable}
               isSessionOwner={isSessionOwner}
+              tally={tallies.get(item.track.id)}
+              userVote={votes.find((v) => v.userId === userId && v.trackId === item.track.id)?.type}
+              onVote={userId ? (type) => handleVote(item.track.id, type) : undefined}
               onClick={
                 onPlayFromQueue ? () => onPlayFromQueue(index) : undefined
               }
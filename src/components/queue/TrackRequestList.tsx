@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+import type { TrackRequest } from "@/types";
+
+export interface TrackRequestListProps {
+  requests: TrackRequest[];
+  sessionId: string;
+  isDJ: boolean;
+  participants: Array<{ userId: string; name: string }>;
+}
+
+/**
+ * Tracks participants asked for, waiting for a DJ
+ * DJs can approve (adds the track to the end of the queue) or reject them;
+ * the list itself is kept up to date over WebSocket
+ */
+export function TrackRequestList({
+  requests,
+  sessionId,
+  isDJ,
+  participants,
+}: TrackRequestListProps) {
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const requesterName = (userId: string) =>
+    participants.find((p) => p.userId === userId)?.name ?? "Someone";
+
+  const handleDecide = async (requestId: string, action: "approve" | "reject") => {
+    setDeciding(requestId);
+
+    try {
+      const response = await fetch(`/api/queue/${sessionId}/requests/${requestId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} request`);
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} track request:`, err);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {requests.map((request) => (
+        <div
+          key={request.id}
+          className="flex items-center gap-3 p-3 rounded-lg bg-gray-800 border border-dashed border-gray-600"
+        >
+          {/* Track info */}
+          <div className="flex-1 min-w-0">
+            <div className="font-medium truncate">{request.track.name}</div>
+            <div className="text-sm text-gray-400 truncate">
+              {request.track.artists.map((a) => a.name).join(", ")}
+            </div>
+            <div className="text-xs text-gray-500">
+              Requested by {requesterName(request.requestedBy)}
+            </div>
+          </div>
+
+          {/* Approve / reject (DJ only) */}
+          {isDJ && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleDecide(request.id, "approve")}
+                disabled={deciding === request.id}
+                aria-label={`Approve ${request.track.name}`}
+                className="p-2 bg-spotify-green hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Check size={16} />
+              </button>
+              <button
+                onClick={() => handleDecide(request.id, "reject")}
+                disabled={deciding === request.id}
+                aria-label={`Reject ${request.track.name}`}
+                className="p-2 bg-gray-700 hover:bg-red-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
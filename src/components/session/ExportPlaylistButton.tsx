@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import type { PlaylistExportSelection } from "@/types/session";
+import { PLAYLIST_EXPORT_SELECTIONS } from "@/lib/constants";
+
+const SELECTION_LABELS: Record<PlaylistExportSelection, string> = {
+  played: "Everything played",
+  "played-and-queue": "Played + up next",
+  liked: "Only liked tracks",
+};
+
+export interface ExportPlaylistButtonProps {
+  sessionId: string;
+  /** Selections to offer; an ended session has no queue left to export */
+  selections?: readonly PlaylistExportSelection[];
+}
+
+/**
+ * Save a session's tracks as a playlist on the signed-in user's Spotify account
+ */
+export function ExportPlaylistButton({
+  sessionId,
+  selections = PLAYLIST_EXPORT_SELECTIONS,
+}: ExportPlaylistButtonProps) {
+  const [selection, setSelection] = useState<PlaylistExportSelection>(selections[0] ?? "played");
+  const [isExporting, setIsExporting] = useState(false);
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setPlaylistUrl(null);
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tracks: selection }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to export playlist");
+      }
+
+      setPlaylistUrl(data.playlist.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export playlist");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <label className="sr-only" htmlFor={`export-selection-${sessionId}`}>
+          Tracks to export
+        </label>
+        <select
+          id={`export-selection-${sessionId}`}
+          value={selection}
+          onChange={(e) => setSelection(e.target.value as PlaylistExportSelection)}
+          disabled={isExporting}
+          className="text-sm bg-gray-800 text-white rounded-lg px-3 py-2"
+        >
+          {selections.map((option) => (
+            <option key={option} value={option}>
+              {SELECTION_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="text-sm px-4 py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          {isExporting ? "Saving..." : "Save as Playlist"}
+        </button>
+      </div>
+      {playlistUrl && (
+        <a
+          href={playlistUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-green-400 hover:underline"
+        >
+          Open playlist in Spotify
+        </a>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
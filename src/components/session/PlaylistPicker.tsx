@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+
+interface PlaylistOption {
+  id: string;
+  name: string;
+  imageUrl?: string;
+  ownerName?: string;
+  trackCount: number;
+}
+
+export interface PlaylistPickerProps {
+  /** Selected playlist ID, or a pasted link */
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Pick one of the signed-in user's playlists, or paste a playlist link
+ */
+export function PlaylistPicker({ value, onChange }: PlaylistPickerProps) {
+  const [playlists, setPlaylists] = useState<PlaylistOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPlaylists = async () => {
+      try {
+        const response = await fetch("/api/playlists");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load playlists");
+        }
+
+        if (!cancelled) setPlaylists(data.playlists);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load playlists");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPlaylists();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isPastedLink = value !== "" && !playlists.some((playlist) => playlist.id === value);
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-xs text-gray-400">Loading your playlists...</p>
+      ) : error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : playlists.length > 0 ? (
+        <ul className="max-h-60 overflow-y-auto space-y-1" role="listbox" aria-label="Your playlists">
+          {playlists.map((playlist) => {
+            const selected = playlist.id === value;
+            return (
+              <li key={playlist.id} role="option" aria-selected={selected}>
+                <button
+                  type="button"
+                  onClick={() => onChange(selected ? "" : playlist.id)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors ${
+                    selected ? "bg-green-600/20 border border-green-500" : "hover:bg-gray-800 border border-transparent"
+                  }`}
+                >
+                  {playlist.imageUrl ? (
+                    <Image
+                      src={playlist.imageUrl}
+                      alt=""
+                      width={40}
+                      height={40}
+                      className="w-10 h-10 rounded object-cover"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded bg-gray-700" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{playlist.name}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {playlist.trackCount} tracks{playlist.ownerName ? ` · ${playlist.ownerName}` : ""}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-400">You don&apos;t have any playlists yet.</p>
+      )}
+
+      <div>
+        <label htmlFor="seed-playlist-link" className="text-xs text-gray-400 block mb-1">
+          Or paste a playlist link
+        </label>
+        <input
+          id="seed-playlist-link"
+          type="text"
+          value={isPastedLink ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="https://open.spotify.com/playlist/..."
+          className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-green-500"
+        />
+      </div>
+    </div>
+  );
+}
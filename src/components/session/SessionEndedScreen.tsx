@@ -0,0 +1,65 @@
+"use client";
+
+import Link from "next/link";
+import type { SessionEndReason, SessionSummary } from "@/types";
+
+interface SessionEndedScreenProps {
+  sessionId: string;
+  reason: SessionEndReason;
+  summary?: SessionSummary;
+}
+
+const REASON_MESSAGES: Record<SessionEndReason, string> = {
+  "idle": "The session ended after a period of inactivity.",
+  "ended-by-host": "The host ended the session.",
+  "deleted-by-host": "The host deleted the session.",
+  "everyone-left": "Everyone left the session.",
+};
+
+function formatSessionDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes}m`;
+}
+
+export default function SessionEndedScreen({ sessionId, reason, summary }: SessionEndedScreenProps) {
+  return (
+    <main className="min-h-screen flex items-center justify-center p-8">
+      <div className="card max-w-md w-full text-center">
+        <h1 className="text-2xl font-bold mb-2">Session ended</h1>
+        <p className="text-gray-400 mb-6">{REASON_MESSAGES[reason]}</p>
+
+        {summary && (
+          <dl className="grid grid-cols-3 gap-4 mb-6">
+            <div>
+              <dt className="text-xs text-gray-400">Tracks played</dt>
+              <dd className="text-2xl font-semibold text-green-400">{summary.tracksPlayed}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-400">Listeners</dt>
+              <dd className="text-2xl font-semibold text-green-400">{summary.participantCount}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-400">Duration</dt>
+              <dd className="text-2xl font-semibold text-green-400">
+                {formatSessionDuration(summary.durationMs)}
+              </dd>
+            </div>
+          </dl>
+        )}
+
+        <div className="flex justify-center gap-3">
+          <Link href={`/session/${sessionId}/recap`} className="btn-primary inline-block">
+            View Recap
+          </Link>
+          <Link href="/" className="btn-secondary inline-block">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
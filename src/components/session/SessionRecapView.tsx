@@ -0,0 +1,112 @@
+"use client";
+
+import Image from "next/image";
+import type { SessionRecap } from "@/types";
+
+interface SessionRecapViewProps {
+  recap: SessionRecap;
+}
+
+function formatSessionDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes}m`;
+}
+
+function formatTimeOfDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function SessionRecapView({ recap }: SessionRecapViewProps) {
+  const names = new Map(recap.participants.map((p) => [p.userId, p.name]));
+  const nameOf = (userId: string) => names.get(userId) ?? "Someone who left";
+
+  const addedByLabel = (addedBy: string, matchedUserIds?: string[]) => {
+    if (addedBy !== "algorithm") return `Added by ${nameOf(addedBy)}`;
+    if (matchedUserIds && matchedUserIds.length > 0) {
+      return `Picked for ${matchedUserIds.map(nameOf).join(", ")}`;
+    }
+    return "Picked by the algorithm";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h1 className="text-2xl font-bold mb-1">Session recap</h1>
+        <p className="text-sm text-gray-400 mb-4">
+          {new Date(recap.startedAt).toLocaleDateString()} · Code {recap.code}
+        </p>
+        <dl className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <dt className="text-xs text-gray-400">Tracks played</dt>
+            <dd className="text-2xl font-semibold text-green-400">{recap.plays.length}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-400">Listeners</dt>
+            <dd className="text-2xl font-semibold text-green-400">{recap.participants.length}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-400">Duration</dt>
+            <dd className="text-2xl font-semibold text-green-400">{formatSessionDuration(recap.durationMs)}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">Who was there</h2>
+        <ul className="flex flex-wrap gap-2">
+          {recap.participants.map((participant) => (
+            <li key={participant.userId} className="px-3 py-1 bg-gray-800 rounded-full text-sm">
+              {participant.name}
+              {participant.wasHost && <span className="text-gray-400"> · Host</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="card">
+        <h2 className="text-xl font-semibold mb-4">What played</h2>
+        {recap.plays.length === 0 ? (
+          <p className="text-gray-400">No tracks were played in this session.</p>
+        ) : (
+          <ol className="space-y-3">
+            {recap.plays.map((play, index) => (
+              <li key={`${play.track.id}-${play.playedAt}`} className="flex items-center gap-3">
+                <span className="w-6 text-right text-sm text-gray-500">{index + 1}</span>
+                {play.track.imageUrl ? (
+                  <Image
+                    src={play.track.imageUrl}
+                    alt={`${play.track.name} album art`}
+                    width={48}
+                    height={48}
+                    className="rounded"
+                  />
+                ) : (
+                  <div className="w-12 h-12 bg-gray-700 rounded" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{play.track.name}</p>
+                  <p className="text-sm text-gray-400 truncate">
+                    {play.track.artists.map((artist) => artist.name).join(", ")}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatTimeOfDay(play.playedAt)} · {addedByLabel(play.addedBy, play.matchedUserIds)}
+                  </p>
+                </div>
+                <div className="text-right text-xs text-gray-400">
+                  {play.likedBy.length > 0 && (
+                    <p title={play.likedBy.map(nameOf).join(", ")}>♥ {play.likedBy.length}</p>
+                  )}
+                  {play.skippedBy.length > 0 && <p className="text-red-400">Skipped</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
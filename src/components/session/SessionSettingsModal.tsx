@@ -3,7 +3,81 @@
 import { useState, useEffect } from "react";
 import { Modal } from "@/components/ui/Modal";
 import { Save, Loader2 } from "lucide-react";
-import type { SessionSettings } from "@/types/session";
+import type { SessionSettings, EnergyArc, TasteBlend, CandidateSource, SkipThresholdMode } from "@/types/session";
+import {
+  SKIP_THRESHOLD_MODES,
+  DEFAULT_SKIP_THRESHOLD_PERCENT,
+  MAX_SKIP_VOTE_WEIGHT,
+  MAX_SKIP_VOTE_DELAY_SECONDS,
+  MAX_QUEUE_VOTE_SCORE_WEIGHT,
+  DEFAULT_TRACK_REQUEST_LIMIT,
+  MAX_TRACK_REQUEST_LIMIT,
+  ENERGY_ARCS,
+  DEFAULT_ENERGY_ARC,
+  TASTE_BLENDS,
+  DEFAULT_TASTE_BLEND,
+  DEFAULT_PROFILE_DEPTH,
+  CANDIDATE_SOURCES,
+  DEFAULT_CANDIDATE_QUOTAS,
+} from "@/lib/constants";
+
+const SKIP_THRESHOLD_MODE_LABELS: Record<SkipThresholdMode, { name: string; description: string }> = {
+  count: { name: "Fixed", description: "A set number of votes" },
+  "percent-present": { name: "Everyone", description: "A share of everyone here" },
+  "percent-active": { name: "Active", description: "A share of who's been active lately" },
+};
+
+const VOTE_WEIGHTS = Array.from({ length: MAX_SKIP_VOTE_WEIGHT }, (_, i) => i + 1);
+
+const SKIP_VOTE_DELAYS = [0, 10, 20, 30, 45, 60, 90, MAX_SKIP_VOTE_DELAY_SECONDS];
+
+const QUEUE_RANKINGS = [
+  { value: 0, label: "Votes only" },
+  { value: 2, label: "Mostly votes" },
+  { value: 5, label: "Votes and algorithm" },
+  { value: MAX_QUEUE_VOTE_SCORE_WEIGHT, label: "Mostly algorithm" },
+];
+
+const TRACK_REQUEST_LIMITS = Array.from({ length: MAX_TRACK_REQUEST_LIMIT }, (_, i) => i + 1);
+
+const ENERGY_ARC_LABELS: Record<EnergyArc, { name: string; description: string }> = {
+  flat: { name: "Steady", description: "Keep the energy even" },
+  "warm-up": { name: "Warm-up", description: "Start mellow and build up" },
+  "peak-and-cooldown": { name: "Peak & cooldown", description: "Build to a peak, then wind down" },
+};
+
+const TASTE_BLEND_LABELS: Record<TasteBlend, { name: string; description: string }> = {
+  recent: { name: "Lately", description: "What everyone is into right now" },
+  balanced: { name: "Balanced", description: "A mix of recent and long-time" },
+  "all-time": { name: "All-time", description: "Everyone's long-time favourites" },
+};
+
+const PROFILE_DEPTH_OPTIONS = [10, 20, 30, 40, 50];
+
+const CANDIDATE_SOURCE_LABELS: Record<CandidateSource, string> = {
+  "artist-top-tracks": "Shared artists' hits",
+  "genre-search": "Shared genres",
+  "album-deep-cuts": "Album deep cuts",
+  "participant-top-tracks": "Everyone's top tracks",
+  "liked-neighbours": "Like what we liked",
+  "seed-playlist": "Seed playlist",
+};
+
+const QUOTA_LEVELS = [
+  { value: 0, label: "Off" },
+  { value: 0.5, label: "Less" },
+  { value: 1, label: "Normal" },
+  { value: 2, label: "More" },
+  { value: 4, label: "Lots" },
+];
+
+function resolveQuotas(settings: SessionSettings): Record<CandidateSource, number> {
+  return { ...DEFAULT_CANDIDATE_QUOTAS, ...settings.candidateQuotas };
+}
+
+function resolveHostVoteWeight(settings: SessionSettings): number {
+  return settings.hostVoteWeight ?? settings.djVoteWeight ?? 1;
+}
 
 export interface SessionSettingsModalProps {
   isOpen: boolean;
@@ -26,6 +100,19 @@ export function SessionSettingsModal({
 }: SessionSettingsModalProps) {
   const [voteToSkip, setVoteToSkip] = useState(currentSettings.voteToSkip);
   const [skipThreshold, setSkipThreshold] = useState(currentSettings.skipThreshold);
+  const [skipThresholdMode, setSkipThresholdMode] = useState<SkipThresholdMode>(currentSettings.skipThresholdMode ?? "count");
+  const [skipThresholdPercent, setSkipThresholdPercent] = useState(currentSettings.skipThresholdPercent ?? DEFAULT_SKIP_THRESHOLD_PERCENT);
+  const [djVoteWeight, setDjVoteWeight] = useState(currentSettings.djVoteWeight ?? 1);
+  const [hostVoteWeight, setHostVoteWeight] = useState(resolveHostVoteWeight(currentSettings));
+  const [hostSkipOverride, setHostSkipOverride] = useState(currentSettings.hostSkipOverride ?? false);
+  const [skipVoteDelaySeconds, setSkipVoteDelaySeconds] = useState(currentSettings.skipVoteDelaySeconds ?? 0);
+  const [queueVoteScoreWeight, setQueueVoteScoreWeight] = useState(currentSettings.queueVoteScoreWeight ?? 0);
+  const [trackRequestLimit, setTrackRequestLimit] = useState(currentSettings.trackRequestLimit ?? DEFAULT_TRACK_REQUEST_LIMIT);
+  const [autoApproveRequests, setAutoApproveRequests] = useState(currentSettings.autoApproveRequests ?? false);
+  const [energyArc, setEnergyArc] = useState<EnergyArc>(currentSettings.energyArc ?? DEFAULT_ENERGY_ARC);
+  const [tasteBlend, setTasteBlend] = useState<TasteBlend>(currentSettings.tasteBlend ?? DEFAULT_TASTE_BLEND);
+  const [profileDepth, setProfileDepth] = useState(currentSettings.profileDepth ?? DEFAULT_PROFILE_DEPTH);
+  const [candidateQuotas, setCandidateQuotas] = useState(() => resolveQuotas(currentSettings));
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,6 +121,19 @@ export function SessionSettingsModal({
     if (isOpen) {
       setVoteToSkip(currentSettings.voteToSkip);
       setSkipThreshold(currentSettings.skipThreshold);
+      setSkipThresholdMode(currentSettings.skipThresholdMode ?? "count");
+      setSkipThresholdPercent(currentSettings.skipThresholdPercent ?? DEFAULT_SKIP_THRESHOLD_PERCENT);
+      setDjVoteWeight(currentSettings.djVoteWeight ?? 1);
+      setHostVoteWeight(resolveHostVoteWeight(currentSettings));
+      setHostSkipOverride(currentSettings.hostSkipOverride ?? false);
+      setSkipVoteDelaySeconds(currentSettings.skipVoteDelaySeconds ?? 0);
+      setQueueVoteScoreWeight(currentSettings.queueVoteScoreWeight ?? 0);
+      setTrackRequestLimit(currentSettings.trackRequestLimit ?? DEFAULT_TRACK_REQUEST_LIMIT);
+      setAutoApproveRequests(currentSettings.autoApproveRequests ?? false);
+      setEnergyArc(currentSettings.energyArc ?? DEFAULT_ENERGY_ARC);
+      setTasteBlend(currentSettings.tasteBlend ?? DEFAULT_TASTE_BLEND);
+      setProfileDepth(currentSettings.profileDepth ?? DEFAULT_PROFILE_DEPTH);
+      setCandidateQuotas(resolveQuotas(currentSettings));
       setError(null);
     }
   }, [isOpen, currentSettings]);
@@ -49,6 +149,19 @@ export function SessionSettingsModal({
         body: JSON.stringify({
           voteToSkip,
           skipThreshold,
+          skipThresholdMode,
+          skipThresholdPercent,
+          djVoteWeight,
+          hostVoteWeight,
+          hostSkipOverride,
+          skipVoteDelaySeconds,
+          queueVoteScoreWeight,
+          trackRequestLimit,
+          autoApproveRequests,
+          energyArc,
+          tasteBlend,
+          profileDepth,
+          candidateQuotas,
         }),
       });
 
@@ -70,7 +183,20 @@ export function SessionSettingsModal({
 
   const hasChanges =
     voteToSkip !== currentSettings.voteToSkip ||
-    skipThreshold !== currentSettings.skipThreshold;
+    skipThreshold !== currentSettings.skipThreshold ||
+    skipThresholdMode !== (currentSettings.skipThresholdMode ?? "count") ||
+    skipThresholdPercent !== (currentSettings.skipThresholdPercent ?? DEFAULT_SKIP_THRESHOLD_PERCENT) ||
+    djVoteWeight !== (currentSettings.djVoteWeight ?? 1) ||
+    hostVoteWeight !== resolveHostVoteWeight(currentSettings) ||
+    hostSkipOverride !== (currentSettings.hostSkipOverride ?? false) ||
+    skipVoteDelaySeconds !== (currentSettings.skipVoteDelaySeconds ?? 0) ||
+    queueVoteScoreWeight !== (currentSettings.queueVoteScoreWeight ?? 0) ||
+    trackRequestLimit !== (currentSettings.trackRequestLimit ?? DEFAULT_TRACK_REQUEST_LIMIT) ||
+    autoApproveRequests !== (currentSettings.autoApproveRequests ?? false) ||
+    energyArc !== (currentSettings.energyArc ?? DEFAULT_ENERGY_ARC) ||
+    tasteBlend !== (currentSettings.tasteBlend ?? DEFAULT_TASTE_BLEND) ||
+    profileDepth !== (currentSettings.profileDepth ?? DEFAULT_PROFILE_DEPTH) ||
+    CANDIDATE_SOURCES.some((source) => candidateQuotas[source] !== resolveQuotas(currentSettings)[source]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Session Settings" size="md">
@@ -107,11 +233,28 @@ export function SessionSettingsModal({
         {/* Skip Threshold */}
         {voteToSkip && (
           <div>
-            <label className="block">
-              <div className="font-medium mb-2">Skip Threshold</div>
-              <div className="text-sm text-gray-400 mb-3">
-                Number of votes needed to skip a track
-              </div>
+            <div className="font-medium mb-2">Skip Threshold</div>
+            <div className="text-sm text-gray-400 mb-3">
+              Number of votes needed to skip a track
+            </div>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {SKIP_THRESHOLD_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSkipThresholdMode(mode)}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    skipThresholdMode === mode
+                      ? "border-spotify-green bg-spotify-green/10"
+                      : "border-gray-700 hover:border-gray-500"
+                  }`}
+                >
+                  <div className="text-sm font-medium">{SKIP_THRESHOLD_MODE_LABELS[mode].name}</div>
+                  <div className="text-xs text-gray-400">{SKIP_THRESHOLD_MODE_LABELS[mode].description}</div>
+                </button>
+              ))}
+            </div>
+            {skipThresholdMode === "count" ? (
               <div className="flex items-center gap-4">
                 <input
                   type="range"
@@ -119,16 +262,258 @@ export function SessionSettingsModal({
                   max="20"
                   value={skipThreshold}
                   onChange={(e) => setSkipThreshold(parseInt(e.target.value))}
+                  aria-label="Votes needed"
                   className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-spotify-green"
                 />
                 <div className="w-12 text-center font-mono text-lg font-bold text-spotify-green">
                   {skipThreshold}
                 </div>
               </div>
+            ) : (
+              <div className="flex items-center gap-4">
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  step="5"
+                  value={skipThresholdPercent}
+                  onChange={(e) => setSkipThresholdPercent(parseInt(e.target.value))}
+                  aria-label="Share of participants needed"
+                  className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-spotify-green"
+                />
+                <div className="w-12 text-center font-mono text-lg font-bold text-spotify-green">
+                  {skipThresholdPercent}%
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Vote Weight */}
+        {voteToSkip && (
+          <div>
+            <div className="font-medium mb-2">Vote Weight</div>
+            <div className="text-sm text-gray-400 mb-3">
+              How many votes a DJ&apos;s or the host&apos;s skip vote counts as
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm">
+                <span className="text-gray-300">DJs</span>
+                <select
+                  value={djVoteWeight}
+                  onChange={(e) => setDjVoteWeight(parseInt(e.target.value))}
+                  className="mt-1 w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+                >
+                  {VOTE_WEIGHTS.map((weight) => (
+                    <option key={weight} value={weight}>
+                      {weight}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-300">Host</span>
+                <select
+                  value={hostVoteWeight}
+                  onChange={(e) => setHostVoteWeight(parseInt(e.target.value))}
+                  className="mt-1 w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+                >
+                  {VOTE_WEIGHTS.map((weight) => (
+                    <option key={weight} value={weight}>
+                      {weight}×
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="flex items-center gap-2 mt-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hostSkipOverride}
+                onChange={(e) => setHostSkipOverride(e.target.checked)}
+                className="accent-spotify-green"
+              />
+              <span>Host override: the host&apos;s skip vote skips the track straight away</span>
             </label>
           </div>
         )}
 
+        {/* Minimum Listening Time */}
+        {voteToSkip && (
+          <div>
+            <label className="block">
+              <div className="font-medium mb-2">Minimum Listening Time</div>
+              <div className="text-sm text-gray-400 mb-3">
+                How long a track plays before skip voting opens
+              </div>
+              <select
+                value={skipVoteDelaySeconds}
+                onChange={(e) => setSkipVoteDelaySeconds(parseInt(e.target.value))}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+              >
+                {SKIP_VOTE_DELAYS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds === 0 ? "None, voting opens straight away" : `${seconds} seconds`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {/* Queue Ranking */}
+        <div>
+          <label className="block">
+            <div className="font-medium mb-2">Queue Ranking</div>
+            <div className="text-sm text-gray-400 mb-3">
+              How upcoming tracks after the stable ones are ordered once people vote on them
+            </div>
+            <select
+              value={queueVoteScoreWeight}
+              onChange={(e) => setQueueVoteScoreWeight(parseFloat(e.target.value))}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+            >
+              {QUEUE_RANKINGS.map((ranking) => (
+                <option key={ranking.value} value={ranking.value}>
+                  {ranking.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Track Requests */}
+        <div>
+          <div className="font-medium mb-2">Track Requests</div>
+          <div className="text-sm text-gray-400 mb-3">
+            Participants who aren&apos;t DJs can request tracks for a DJ to approve
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoApproveRequests}
+              onChange={(e) => setAutoApproveRequests(e.target.checked)}
+              className="accent-spotify-green"
+            />
+            <span>Auto-approve: requested tracks go straight into the queue</span>
+          </label>
+          {!autoApproveRequests && (
+            <label className="flex items-center justify-between gap-2 mt-3 text-sm">
+              <span>Pending requests per person</span>
+              <select
+                value={trackRequestLimit}
+                onChange={(e) => setTrackRequestLimit(parseInt(e.target.value))}
+                className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+              >
+                {TRACK_REQUEST_LIMITS.map((limit) => (
+                  <option key={limit} value={limit}>
+                    Up to {limit}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Energy Arc */}
+        <div>
+          <div className="font-medium mb-2">Energy Arc</div>
+          <div className="text-sm text-gray-400 mb-3">
+            How the energy of newly generated tracks flows through the queue
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {ENERGY_ARCS.map((arc) => (
+              <button
+                key={arc}
+                type="button"
+                onClick={() => setEnergyArc(arc)}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  energyArc === arc
+                    ? "border-spotify-green bg-spotify-green/10"
+                    : "border-gray-700 hover:border-gray-500"
+                }`}
+              >
+                <div className="text-sm font-medium">{ENERGY_ARC_LABELS[arc].name}</div>
+                <div className="text-xs text-gray-400">{ENERGY_ARC_LABELS[arc].description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Taste Blend */}
+        <div>
+          <div className="font-medium mb-2">Taste Blend</div>
+          <div className="text-sm text-gray-400 mb-3">
+            Whose favourites shape the queue: recent listening or all-time
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {TASTE_BLENDS.map((blend) => (
+              <button
+                key={blend}
+                type="button"
+                onClick={() => setTasteBlend(blend)}
+                className={`p-3 rounded-lg border text-left transition-colors ${
+                  tasteBlend === blend
+                    ? "border-spotify-green bg-spotify-green/10"
+                    : "border-gray-700 hover:border-gray-500"
+                }`}
+              >
+                <div className="text-sm font-medium">{TASTE_BLEND_LABELS[blend].name}</div>
+                <div className="text-xs text-gray-400">{TASTE_BLEND_LABELS[blend].description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Profile Depth */}
+        <div>
+          <label className="block">
+            <div className="font-medium mb-2">Profile Depth</div>
+            <div className="text-sm text-gray-400 mb-3">
+              Top tracks and artists read from each participant per time range
+            </div>
+            <select
+              value={profileDepth}
+              onChange={(e) => setProfileDepth(parseInt(e.target.value))}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-spotify-green"
+            >
+              {PROFILE_DEPTH_OPTIONS.map((depth) => (
+                <option key={depth} value={depth}>
+                  {depth} per range
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Track Sources */}
+        <div>
+          <div className="font-medium mb-2">Track Sources</div>
+          <div className="text-sm text-gray-400 mb-3">
+            How much of the queue each source of new tracks supplies
+          </div>
+          <div className="space-y-2">
+            {CANDIDATE_SOURCES.map((source) => (
+              <label key={source} className="flex items-center justify-between gap-4">
+                <span className="text-sm">{CANDIDATE_SOURCE_LABELS[source]}</span>
+                <select
+                  value={candidateQuotas[source]}
+                  onChange={(e) =>
+                    setCandidateQuotas({ ...candidateQuotas, [source]: parseFloat(e.target.value) })
+                  }
+                  className="w-32 px-3 py-1 bg-gray-800 border border-gray-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-spotify-green"
+                >
+                  {QUOTA_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
         {/* Actions */}
         <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-800">
           <button
@@ -1 +1,5 @@
 export { default as QRCodeDisplay } from "./QRCodeDisplay";
+export { default as SessionEndedScreen } from "./SessionEndedScreen";
+export { default as SessionRecapView } from "./SessionRecapView";
+export { ExportPlaylistButton } from "./ExportPlaylistButton";
+export { PlaylistPicker } from "./PlaylistPicker";
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Modal } from "@/components/ui/Modal";
+import { Loader2 } from "lucide-react";
+import type { EnergyArc } from "@/types";
+import { ENERGY_ARCS, MIN_POLL_OPTIONS, MAX_POLL_OPTIONS, MAX_POLL_QUESTION_LENGTH } from "@/lib/constants";
+
+export interface CreatePollModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionId: string;
+  genres: string[];                // The session's common genres
+  tracks: Array<{ id: string; name: string; artists: Array<{ name: string }> }>;
+  onPollCreated?: () => void;
+}
+
+type PollChoice =
+  | { kind: "genre"; genre: string }
+  | { kind: "energy-arc"; energyArc: EnergyArc }
+  | { kind: "track"; trackId: string };
+
+const ENERGY_ARC_NAMES: Record<EnergyArc, string> = {
+  flat: "Steady",
+  "warm-up": "Warm-up",
+  "peak-and-cooldown": "Peak & cooldown",
+};
+
+const choiceKey = (choice: PollChoice) =>
+  choice.kind === "genre"
+    ? `genre:${choice.genre}`
+    : choice.kind === "energy-arc" ? `energy-arc:${choice.energyArc}` : `track:${choice.trackId}`;
+
+/**
+ * Modal for DJs to put a "next vibe" question to the room
+ * Options are picked from the common genres, the energy arcs and upcoming tracks
+ */
+export function CreatePollModal({
+  isOpen,
+  onClose,
+  sessionId,
+  genres,
+  tracks,
+  onPollCreated,
+}: CreatePollModalProps) {
+  const [question, setQuestion] = useState("");
+  const [choices, setChoices] = useState<PollChoice[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuestion("");
+      setChoices([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const isChosen = (choice: PollChoice) => choices.some((c) => choiceKey(c) === choiceKey(choice));
+
+  const toggleChoice = (choice: PollChoice) => {
+    setChoices((prev) =>
+      isChosen(choice)
+        ? prev.filter((c) => choiceKey(c) !== choiceKey(choice))
+        : [...prev, choice]
+    );
+  };
+
+  const canCreate =
+    question.trim().length > 0 &&
+    choices.length >= MIN_POLL_OPTIONS &&
+    choices.length <= MAX_POLL_OPTIONS;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/poll`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question: question.trim(), options: choices }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to create poll");
+      }
+
+      onPollCreated?.();
+      onClose();
+    } catch (err) {
+      console.error("Failed to create poll:", err);
+      setError(err instanceof Error ? err.message : "Failed to create poll");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderChoice = (choice: PollChoice, label: string) => {
+    const chosen = isChosen(choice);
+
+    return (
+      <label
+        key={choiceKey(choice)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm cursor-pointer transition-colors ${
+          chosen ? "border-spotify-green bg-spotify-green/10" : "border-gray-700 hover:border-gray-600"
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={chosen}
+          onChange={() => toggleChoice(choice)}
+          disabled={!chosen && choices.length >= MAX_POLL_OPTIONS}
+        />
+        <span className="truncate">{label}</span>
+      </label>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Ask the Room" size="lg">
+      <div className="space-y-6">
+        {/* Question */}
+        <div>
+          <label htmlFor="poll-question" className="block text-sm font-medium mb-2">
+            Question
+          </label>
+          <input
+            id="poll-question"
+            type="text"
+            placeholder="More dance or more chill?"
+            value={question}
+            maxLength={MAX_POLL_QUESTION_LENGTH}
+            onChange={(e) => setQuestion(e.target.value)}
+            className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-spotify-green"
+          />
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Pick {MIN_POLL_OPTIONS} to {MAX_POLL_OPTIONS} options. The winner steers the next queue refresh.
+        </p>
+
+        {/* Genres */}
+        {genres.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Genres</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {genres.map((genre) => renderChoice({ kind: "genre", genre }, genre))}
+            </div>
+          </div>
+        )}
+
+        {/* Energy arcs */}
+        <div>
+          <h3 className="text-sm font-medium mb-2">Energy</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {ENERGY_ARCS.map((energyArc) =>
+              renderChoice({ kind: "energy-arc", energyArc }, ENERGY_ARC_NAMES[energyArc])
+            )}
+          </div>
+        </div>
+
+        {/* Upcoming tracks */}
+        {tracks.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-2">Tracks</h3>
+            <div className="space-y-2">
+              {tracks.map((track) =>
+                renderChoice(
+                  { kind: "track", trackId: track.id },
+                  `${track.name} – ${track.artists.map((a) => a.name).join(", ")}`
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-600 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+            disabled={isCreating}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate || isCreating}
+            className="flex items-center gap-2 px-4 py-2 bg-spotify-green hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isCreating ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>Starting...</span>
+              </>
+            ) : (
+              <span>Start Poll</span>
+            )}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
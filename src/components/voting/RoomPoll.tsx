@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import type { Socket } from "socket.io-client";
+import { BarChart3 } from "lucide-react";
+import type { ServerToClientEvents, ClientToServerEvents } from "@/types/websocket";
+import type { Poll } from "@/types";
+import { WS_EVENTS } from "@/lib/websocket/events";
+import { tallyPollVotes } from "@/lib/algorithm/polls";
+
+export interface RoomPollProps {
+  sessionId: string;
+  poll: Poll;
+  userId?: string;
+  isDJ: boolean;
+  socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
+}
+
+/**
+ * The room's latest poll with live results
+ * Votes go over the socket; the poll itself is kept up to date by the page
+ * from poll_updated and poll_closed events. DJs can close an open poll.
+ */
+export function RoomPoll({ sessionId, poll, userId, isDJ, socket }: RoomPollProps) {
+  const [isClosing, setIsClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = !poll.closedAt;
+  const tallies = tallyPollVotes(poll);
+  const totalVotes = Array.from(tallies.values()).reduce((sum, count) => sum + count, 0);
+  const userPick = poll.votes.find((vote) => vote.userId === userId)?.optionId;
+  const winner = poll.options.find((option) => option.id === poll.winnerId);
+
+  const handleVote = (optionId: string) => {
+    if (!socket) return;
+    setError(null);
+
+    socket.emit(WS_EVENTS.POLL_VOTE, { sessionId, pollId: poll.id, optionId }, (result) => {
+      if (!result.success) {
+        setError(result.error || "Failed to vote");
+      }
+    });
+  };
+
+  const handleClose = async () => {
+    setIsClosing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/poll/close`, { method: "POST" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to close poll");
+      }
+    } catch (err) {
+      console.error("Failed to close poll:", err);
+      setError(err instanceof Error ? err.message : "Failed to close poll");
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-800 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <BarChart3 size={16} className="text-spotify-green shrink-0" />
+          <span className="font-medium truncate">{poll.question}</span>
+        </div>
+        {isDJ && isOpen && (
+          <button
+            onClick={handleClose}
+            disabled={isClosing}
+            className="text-xs px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors disabled:opacity-50"
+          >
+            {isClosing ? "Closing..." : "Close Poll"}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {poll.options.map((option) => {
+          const count = tallies.get(option.id) ?? 0;
+          const share = totalVotes > 0 ? Math.round((count / totalVotes) * 100) : 0;
+          const isPicked = userPick === option.id;
+
+          return (
+            <button
+              key={option.id}
+              onClick={() => handleVote(option.id)}
+              disabled={!isOpen || !socket}
+              aria-pressed={isPicked}
+              className={`relative w-full overflow-hidden text-left px-3 py-2 rounded-lg border transition-colors disabled:cursor-default ${
+                isPicked ? "border-spotify-green" : "border-gray-700 hover:border-gray-500"
+              }`}
+            >
+              <div
+                className="absolute inset-y-0 left-0 bg-spotify-green/20"
+                style={{ width: `${share}%` }}
+              />
+              <div className="relative flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">{option.label}</span>
+                <span className="text-gray-400" title={`${count} of ${totalVotes} votes`}>
+                  {share}%
+                </span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {isOpen
+          ? `${totalVotes} ${totalVotes === 1 ? "vote" : "votes"} so far`
+          : winner
+            ? `${winner.label} won and steers the next queue refresh`
+            : "Closed without votes"}
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
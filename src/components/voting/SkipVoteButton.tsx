@@ -8,6 +8,7 @@ interface SkipVoteButtonProps {
   currentTrackId: string | null;
   voteToSkipEnabled: boolean;
   skipThreshold: number;
+  votingOpen?: boolean;
   currentVoteCount: number;
   hasUserVoted: boolean;
   onVoteSuccess?: () => void;
@@ -18,6 +19,7 @@ export function SkipVoteButton({
   currentTrackId,
   voteToSkipEnabled,
   skipThreshold,
+  votingOpen = true,
   currentVoteCount,
   hasUserVoted,
   onVoteSuccess,
@@ -25,7 +27,7 @@ export function SkipVoteButton({
   const [isLoading, setIsLoading] = useState(false);
 
   const handleVote = async () => {
-    if (!currentTrackId || !voteToSkipEnabled || hasUserVoted || isLoading) {
+    if (!currentTrackId || !voteToSkipEnabled || !votingOpen || hasUserVoted || isLoading) {
       return;
     }
 
@@ -56,7 +58,7 @@ export function SkipVoteButton({
     }
   };
 
-  const isDisabled = !voteToSkipEnabled || !currentTrackId || hasUserVoted || isLoading;
+  const isDisabled = !voteToSkipEnabled || !currentTrackId || !votingOpen || hasUserVoted || isLoading;
   const progress = skipThreshold > 0 ? (currentVoteCount / skipThreshold) * 100 : 0;
 
   return (
@@ -69,7 +71,7 @@ export function SkipVoteButton({
           ${
             hasUserVoted
               ? "bg-green-500 dark:bg-green-600 text-white"
-              : voteToSkipEnabled && currentTrackId
+              : voteToSkipEnabled && currentTrackId && votingOpen
               ? "bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 active:scale-95"
               : "bg-gray-200 dark:bg-gray-800 text-gray-400 dark:text-gray-600 cursor-not-allowed"
           }
@@ -83,6 +85,8 @@ export function SkipVoteButton({
             ? "No track playing"
             : hasUserVoted
             ? "You've already voted to skip"
+            : !votingOpen
+            ? "Voting opens shortly"
             : `Vote to skip (${currentVoteCount}/${skipThreshold})`
         }
       >
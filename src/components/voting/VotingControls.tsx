@@ -3,7 +3,7 @@
 import { useEffect, useState, useRef } from "react";
 import type { Socket } from "socket.io-client";
 import type { ServerToClientEvents, ClientToServerEvents } from "@/types/websocket";
-import type { SpotifyTrack } from "@/types";
+import type { SpotifyTrack, VoteWindow } from "@/types";
 import { WS_EVENTS } from "@/lib/websocket/events";
 import { SkipVoteButton } from "./SkipVoteButton";
 import { LikeButton } from "./LikeButton";
@@ -15,6 +15,7 @@ interface VotingControlsProps {
     voteToSkip: boolean;
     skipThreshold: number;
   };
+  voteWindow?: VoteWindow | null;
   userId: string;
   socket: Socket<ServerToClientEvents, ClientToServerEvents> | null;
 }
@@ -23,6 +24,7 @@ export function VotingControls({
   sessionId,
   currentTrack,
   sessionSettings,
+  voteWindow,
   userId: _userId,
   socket,
 }: VotingControlsProps) {
@@ -45,6 +47,33 @@ export function VotingControls({
     }
   }, [currentTrack?.id]);
 
+  // Voting on a play opens after the session's minimum listening time. A new
+  // play of the same track starts over, so earlier skip votes no longer apply
+  const [votingOpen, setVotingOpen] = useState(true);
+  const previousPlayIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!voteWindow || voteWindow.trackId !== currentTrack?.id) {
+      setVotingOpen(true);
+      return;
+    }
+
+    if (voteWindow.playId !== previousPlayIdRef.current) {
+      setUserSkipVote(null);
+      setSkipVoteCount(0);
+      previousPlayIdRef.current = voteWindow.playId;
+    }
+
+    if (voteWindow.opensInMs <= 0) {
+      setVotingOpen(true);
+      return;
+    }
+
+    setVotingOpen(false);
+    const timer = setTimeout(() => setVotingOpen(true), voteWindow.opensInMs);
+    return () => clearTimeout(timer);
+  }, [voteWindow, currentTrack?.id]);
+
   // WebSocket event listeners
   useEffect(() => {
     if (!socket) return;
@@ -121,6 +150,7 @@ export function VotingControls({
           currentTrackId={currentTrack?.id || null}
           voteToSkipEnabled={sessionSettings.voteToSkip}
           skipThreshold={sessionSettings.skipThreshold}
+          votingOpen={votingOpen}
           currentVoteCount={skipVoteCount}
           hasUserVoted={hasUserVotedSkip}
           onVoteSuccess={handleSkipVoteSuccess}
@@ -1,3 +1,5 @@
 export { SkipVoteButton } from "./SkipVoteButton";
 export { LikeButton } from "./LikeButton";
 export { VotingControls } from "./VotingControls";
+export { RoomPoll } from "./RoomPoll";
+export { CreatePollModal } from "./CreatePollModal";
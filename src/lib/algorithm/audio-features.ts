@@ -1,4 +1,21 @@
-import type { AudioFeatures } from "@/types";
+import type { AudioFeatures, TasteProfile } from "@/types";
+
+// Feature weights for distance calculations (emphasize more important features)
+const FEATURE_WEIGHTS = {
+  danceability: 1.2,
+  energy: 1.2,
+  valence: 1.0,
+  tempo: 0.8,
+  acousticness: 0.6,
+  instrumentalness: 0.6,
+  speechiness: 0.4,
+  loudness: 0.5,
+};
+
+// Distance between two feature sets at opposite ends of every normalized range
+const MAX_FEATURE_DISTANCE = Math.sqrt(
+  Object.values(FEATURE_WEIGHTS).reduce((sum, weight) => sum + weight * weight, 0)
+);
 
 /**
  * Calculate the average of audio features across multiple tracks
@@ -70,17 +87,7 @@ export function calculateFeatureDistance(a: AudioFeatures, b: AudioFeatures): nu
   const loudnessA = (a.loudness + 60) / 60;
   const loudnessB = (b.loudness + 60) / 60;
 
-  // Feature weights (emphasize more important features)
-  const weights = {
-    danceability: 1.2,
-    energy: 1.2,
-    valence: 1.0,
-    tempo: 0.8,
-    acousticness: 0.6,
-    instrumentalness: 0.6,
-    speechiness: 0.4,
-    loudness: 0.5,
-  };
+  const weights = FEATURE_WEIGHTS;
 
   // Calculate weighted squared differences
   const diff = {
@@ -101,6 +108,14 @@ export function calculateFeatureDistance(a: AudioFeatures, b: AudioFeatures): nu
   return Math.sqrt(sumSquaredDiff);
 }
 
+/**
+ * Similarity between two audio feature sets
+ * 1 = identical, 0 = as far apart as the normalized ranges allow
+ */
+export function calculateFeatureSimilarity(a: AudioFeatures, b: AudioFeatures): number {
+  return Math.max(0, 1 - calculateFeatureDistance(a, b) / MAX_FEATURE_DISTANCE);
+}
+
 /**
  * Check if a track's features match a target profile within a threshold
  */
@@ -165,3 +180,29 @@ export function blendFeatures(features: AudioFeatures[], weights?: number[]): Au
 
   return blended;
 }
+
+/**
+ * Build the session's target sound from participants' top tracks
+ * Each participant's top tracks are averaged first, then blended with equal
+ * weight so participants with more known tracks don't dominate
+ * Returns null when no features are known for any participant
+ */
+export function buildSessionFeatureTarget(
+  tasteProfiles: TasteProfile[],
+  features: Map<string, AudioFeatures>
+): AudioFeatures | null {
+  const participantAverages = tasteProfiles
+    .map((profile) =>
+      profile.topTracks
+        .map((trackId) => features.get(trackId))
+        .filter((f): f is AudioFeatures => f !== undefined)
+    )
+    .filter((participantFeatures) => participantFeatures.length > 0)
+    .map(calculateAverageFeatures);
+
+  if (participantAverages.length === 0) {
+    return null;
+  }
+
+  return blendFeatures(participantAverages);
+}
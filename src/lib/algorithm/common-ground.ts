@@ -0,0 +1,130 @@
+import type { SpotifyArtist, TasteProfile } from "@/types";
+
+// Support a participant lends to an artist related to one of their favourites
+const RELATED_ARTIST_SUPPORT = 0.5;
+
+// Genres at least this similar count as the same taste ("indie rock" ≈ "modern indie rock")
+const GENRE_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Number of participants whose support makes something common ground
+ * Never fewer than two when there are several participants
+ *
+ * @param quorum Share of participants required (0-1)
+ */
+export function getRequiredSupport(participantCount: number, quorum: number): number {
+  if (participantCount <= 1) return participantCount;
+  return Math.max(2, Math.ceil(participantCount * quorum));
+}
+
+/**
+ * Find artists a quorum of participants would enjoy
+ * A participant fully supports the artists in their top list and half
+ * supports artists related to their favourites, so an artist none of them
+ * listed can still be common ground. Strongest support first, ties going to
+ * artists ranked higher in the (blended) top lists.
+ *
+ * @param relatedArtists Related artists by the ID of a top artist (may be partial)
+ */
+export function findQuorumArtists(
+  profiles: TasteProfile[],
+  quorum: number,
+  relatedArtists: Map<string, SpotifyArtist[]> = new Map()
+): SpotifyArtist[] {
+  if (profiles.length === 0) return [];
+  if (profiles.length === 1) return profiles[0].topArtists;
+
+  const artists = new Map<string, SpotifyArtist>();
+  const support = new Map<string, number>();
+
+  for (const profile of profiles) {
+    const profileSupport = new Map<string, number>();
+
+    for (const topArtist of profile.topArtists) {
+      for (const related of relatedArtists.get(topArtist.id) ?? []) {
+        if (!artists.has(related.id)) artists.set(related.id, related);
+        profileSupport.set(related.id, RELATED_ARTIST_SUPPORT);
+      }
+    }
+    for (const topArtist of profile.topArtists) {
+      artists.set(topArtist.id, topArtist);
+      profileSupport.set(topArtist.id, 1);
+    }
+
+    for (const [id, value] of profileSupport) {
+      support.set(id, (support.get(id) ?? 0) + value);
+    }
+  }
+
+  const required = getRequiredSupport(profiles.length, quorum);
+  const rankScores = calculateRankScores(profiles.map((p) => p.topArtists.map((a) => a.id)));
+
+  return Array.from(support.entries())
+    .filter(([, value]) => value >= required)
+    .sort((a, b) => b[1] - a[1] || (rankScores.get(b[0]) ?? 0) - (rankScores.get(a[0]) ?? 0))
+    .map(([id]) => artists.get(id))
+    .filter((a): a is SpotifyArtist => a !== undefined);
+}
+
+/**
+ * Find genres a quorum of participants share
+ * A participant supports a genre fully when it is one of their top genres,
+ * or by the similarity of their closest top genre when that is similar
+ * enough. Strongest support first.
+ */
+export function findQuorumGenres(profiles: TasteProfile[], quorum: number): string[] {
+  if (profiles.length === 0) return [];
+  if (profiles.length === 1) return profiles[0].topGenres;
+
+  const candidates = new Set(profiles.flatMap((profile) => profile.topGenres));
+  const support = new Map<string, number>();
+
+  for (const genre of candidates) {
+    let total = 0;
+    for (const profile of profiles) {
+      const closest = Math.max(0, ...profile.topGenres.map((g) => calculateGenreSimilarity(genre, g)));
+      if (closest >= GENRE_SIMILARITY_THRESHOLD) {
+        total += closest;
+      }
+    }
+    support.set(genre, total);
+  }
+
+  const required = getRequiredSupport(profiles.length, quorum);
+  const rankScores = calculateRankScores(profiles.map((p) => p.topGenres));
+
+  return Array.from(support.entries())
+    .filter(([, value]) => value >= required)
+    .sort((a, b) => b[1] - a[1] || (rankScores.get(b[0]) ?? 0) - (rankScores.get(a[0]) ?? 0))
+    .map(([genre]) => genre);
+}
+
+/**
+ * Similarity of two genre names by their shared words (0-1)
+ * "indie rock" and "modern indie rock" share 2 of 3 words
+ */
+export function calculateGenreSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const tokensA = new Set(a.toLowerCase().split(/\s+/).filter(Boolean));
+  const tokensB = new Set(b.toLowerCase().split(/\s+/).filter(Boolean));
+  const shared = Array.from(tokensA).filter((token) => tokensB.has(token)).length;
+  const total = new Set([...Array.from(tokensA), ...Array.from(tokensB)]).size;
+
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Sum of positional scores across ranked lists (first of n scores 1, last 1/n)
+ */
+function calculateRankScores(rankedLists: string[][]): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const list of rankedLists) {
+    list.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + (list.length - index) / list.length);
+    });
+  }
+
+  return scores;
+}
@@ -0,0 +1,51 @@
+import type { PlayedItem } from "@/types";
+
+/**
+ * Share of recent airtime credited to each participant
+ * A track credited to several participants splits its duration between them.
+ * Returns an empty map when nothing recent is credited to anyone.
+ */
+export function calculateAirtimeShares(
+  recentPlays: PlayedItem[],
+  participantIds: string[]
+): Map<string, number> {
+  const airtime = new Map<string, number>(participantIds.map((id) => [id, 0]));
+  let total = 0;
+
+  for (const play of recentPlays) {
+    const credited = play.userIds.filter((id) => airtime.has(id));
+    if (credited.length === 0) continue;
+
+    const portion = play.durationMs / credited.length;
+    for (const id of credited) {
+      airtime.set(id, (airtime.get(id) ?? 0) + portion);
+    }
+    total += play.durationMs;
+  }
+
+  if (total === 0) {
+    return new Map();
+  }
+
+  return new Map(Array.from(airtime, ([id, ms]) => [id, ms / total]));
+}
+
+/**
+ * How under-served the best-matched participant of a track is (0-1)
+ * 0 when every matched participant already has at least an equal share,
+ * 1 when one of them has had no airtime at all
+ */
+export function calculateFairnessBoost(
+  matchedUserIds: string[],
+  airtimeShares: Map<string, number>
+): number {
+  if (airtimeShares.size < 2) return 0;
+
+  const fairShare = 1 / airtimeShares.size;
+
+  return matchedUserIds.reduce((boost, id) => {
+    const share = airtimeShares.get(id);
+    if (share === undefined) return boost;
+    return Math.max(boost, (fairShare - share) / fairShare);
+  }, 0);
+}
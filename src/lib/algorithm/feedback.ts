@@ -0,0 +1,71 @@
+import type { FeedbackEntry } from "@/types";
+
+// Feedback loses half its influence every hour
+const FEEDBACK_HALF_LIFE_MS = 60 * 60 * 1000;
+
+/**
+ * Decayed taste signal learned from likes and skips
+ * Weights range from -1 (consistently skipped) to 1 (consistently liked).
+ * Genres are only known for artists in the participants' profiles, so the
+ * genre weights leave out feedback on anyone else's tracks
+ */
+export interface FeedbackWeights {
+  artists: Map<string, number>;
+  genres: Map<string, number>;
+}
+
+/**
+ * Turn the feedback history into artist and genre weights
+ * Each like counts +1 and each skip -1, halved for every hour since it
+ * happened; totals are clamped to [-1, 1]
+ */
+export function buildFeedbackWeights(entries: FeedbackEntry[], now = Date.now()): FeedbackWeights {
+  const artists = new Map<string, number>();
+  const genres = new Map<string, number>();
+
+  for (const entry of entries) {
+    const age = Math.max(0, now - entry.timestamp);
+    const weight = (entry.kind === "like" ? 1 : -1) * Math.pow(0.5, age / FEEDBACK_HALF_LIFE_MS);
+
+    for (const artistId of entry.artistIds) {
+      artists.set(artistId, (artists.get(artistId) ?? 0) + weight);
+    }
+    for (const genre of entry.genres) {
+      genres.set(genre, (genres.get(genre) ?? 0) + weight);
+    }
+  }
+
+  return { artists: clampWeights(artists), genres: clampWeights(genres) };
+}
+
+/**
+ * How much the feedback history favours a track (-1 to 1)
+ * Its strongest artist signal counts for 70%, the average signal of its
+ * genres for 30%
+ */
+export function calculateFeedbackScore(
+  artistIds: string[],
+  genres: string[],
+  weights: FeedbackWeights
+): number {
+  const artistSignals = artistIds
+    .map((id) => weights.artists.get(id))
+    .filter((w): w is number => w !== undefined);
+  const artistSignal = artistSignals.reduce(
+    (strongest, w) => (Math.abs(w) > Math.abs(strongest) ? w : strongest),
+    0
+  );
+
+  const genreSignals = genres
+    .map((genre) => weights.genres.get(genre))
+    .filter((w): w is number => w !== undefined);
+  const genreSignal = genreSignals.length > 0
+    ? genreSignals.reduce((sum, w) => sum + w, 0) / genreSignals.length
+    : 0;
+
+  return artistSignal * 0.7 + genreSignal * 0.3;
+}
+
+function clampWeights(weights: Map<string, number>): Map<string, number> {
+  return new Map(Array.from(weights, ([key, w]) => [key, Math.min(1, Math.max(-1, w))]));
+}
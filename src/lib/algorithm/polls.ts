@@ -0,0 +1,36 @@
+import type { Poll, PollOption } from "@/types";
+
+/**
+ * Count the votes on each option of a poll
+ * Every option is included, with 0 if nobody picked it
+ */
+export function tallyPollVotes(poll: Poll): Map<string, number> {
+  const tallies = new Map(poll.options.map((option) => [option.id, 0]));
+
+  for (const vote of poll.votes) {
+    const count = tallies.get(vote.optionId);
+    if (count !== undefined) tallies.set(vote.optionId, count + 1);
+  }
+
+  return tallies;
+}
+
+/**
+ * Pick the option with the most votes
+ * Ties go to the option listed first; without any votes there is no winner
+ */
+export function pickPollWinner(poll: Poll): PollOption | undefined {
+  const tallies = tallyPollVotes(poll);
+  let winner: PollOption | undefined;
+  let most = 0;
+
+  for (const option of poll.options) {
+    const count = tallies.get(option.id) ?? 0;
+    if (count > most) {
+      winner = option;
+      most = count;
+    }
+  }
+
+  return winner;
+}
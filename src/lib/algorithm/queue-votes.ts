@@ -0,0 +1,63 @@
+import type { QueueItem, QueueVote } from "@/types";
+
+/**
+ * Where an upcoming track stands in queue voting
+ */
+export interface QueueVoteTally {
+  up: number;
+  down: number;
+  net: number;                     // Up votes minus down votes
+}
+
+/**
+ * Count the up and down votes on each track
+ * Tracks nobody voted on are left out
+ */
+export function tallyQueueVotes(votes: QueueVote[]): Map<string, QueueVoteTally> {
+  const tallies = new Map<string, QueueVoteTally>();
+
+  for (const vote of votes) {
+    const tally = tallies.get(vote.trackId) ?? { up: 0, down: 0, net: 0 };
+    if (vote.type === "up") tally.up += 1;
+    else tally.down += 1;
+    tally.net = tally.up - tally.down;
+    tallies.set(vote.trackId, tally);
+  }
+
+  return tallies;
+}
+
+/**
+ * Re-rank the upcoming queue by net votes
+ * Stable tracks stay where they are. The rest are ranked by net votes plus
+ * their algorithm score times the score weight; tracks without a score (added
+ * by hand) get the average score, and ties keep their current order.
+ * Positions and stable flags are left for normalizeQueue.
+ */
+export function rankQueueByVotes(
+  queue: QueueItem[],
+  votes: QueueVote[],
+  scoreWeight: number = 0
+): QueueItem[] {
+  const stable = queue.filter((item) => item.isStable);
+  const upcoming = queue.filter((item) => !item.isStable);
+
+  const tallies = tallyQueueVotes(votes);
+  const scores = upcoming
+    .map((item) => item.score)
+    .filter((score): score is number => score !== undefined);
+  const averageScore = scores.length > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : 0;
+
+  const ranked = upcoming
+    .map((item, index) => ({
+      item,
+      index,
+      rank: (tallies.get(item.track.id)?.net ?? 0) + scoreWeight * (item.score ?? averageScore),
+    }))
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .map(({ item }) => item);
+
+  return [...stable, ...ranked];
+}
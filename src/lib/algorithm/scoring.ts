@@ -1,22 +1,57 @@
-import type { Track, TasteProfile, LikeVote } from "@/types";
+import type { Track, TasteProfile, LikeVote, AudioFeatures } from "@/types";
+import { calculateFeatureSimilarity } from "./audio-features";
+import { calculateFairnessBoost } from "./fairness";
+import { calculateFeedbackScore, type FeedbackWeights } from "./feedback";
 
 interface ScoredTrack {
   track: Track;
   score: number;
   reasons: string[];
+  matchedUserIds: string[];   // Participants whose profiles the track matched
 }
 
+/**
+ * Optional audio feature input for scoreTracks
+ */
+export interface AudioFeatureScoring {
+  target: AudioFeatures;                  // Blended sound of the session
+  features: Map<string, AudioFeatures>;   // Known features by track ID
+  weight: number;                         // Share of the score (0-1)
+}
+
+/**
+ * Optional inputs for scoreTracks
+ */
+export interface ScoringOptions {
+  audio?: AudioFeatureScoring;
+  airtimeShares?: Map<string, number>;    // Recent airtime share by participant
+  feedback?: FeedbackWeights;             // Decayed likes and skips from the session history
+  vibeGenre?: string;                     // Genre the room voted for in a poll
+}
+
+export const DEFAULT_AUDIO_FEATURE_WEIGHT = 0.2;
+const FAIRNESS_WEIGHT = 0.15;
+const FEEDBACK_WEIGHT = 0.2;
+const VIBE_GENRE_WEIGHT = 0.3;
+
 /**
  * Score tracks based on how well they match the session profile
- * Uses artist/track/genre matching instead of audio features
+ * Uses artist/track/genre matching, plus closeness to the session's sound
+ * when audio features are available and a boost for tracks matching
+ * participants who have had less than their share of recent airtime.
+ * Artists and genres the session liked earlier are boosted, skipped ones
+ * penalised, and tracks in a genre the room voted for are boosted.
  */
 export function scoreTracks(
   candidates: Track[],
   tasteProfiles: TasteProfile[],
   commonGenres: string[],
   likedVotes: LikeVote[],
-  recentTracks: Track[]
+  recentTracks: Track[],
+  options: ScoringOptions = {}
 ): ScoredTrack[] {
+  const { audio: audioScoring, airtimeShares, feedback, vibeGenre } = options;
+
   // Calculate liked artists if any
   const likedArtists = likedVotes.length > 0
     ? extractLikedArtists(likedVotes, candidates)
@@ -27,7 +62,7 @@ export function scoreTracks(
     const reasons: string[] = [];
 
     // 1. Participant match: how many users would like this (50% weight)
-    const participantMatchScore = calculateParticipantMatch(
+    const { score: participantMatchScore, matchedUserIds } = calculateParticipantMatch(
       track,
       tasteProfiles
     );
@@ -52,28 +87,71 @@ export function scoreTracks(
       }
     }
 
-    // 4. Diversity penalty: avoid same artist back-to-back
+    // 4. Feedback history: liked and skipped artists/genres, fading over time
+    if (feedback) {
+      const feedbackScore = calculateFeedbackScore(
+        track.artists.map((artist) => artist.id),
+        collectTrackGenres(track, tasteProfiles),
+        feedback
+      ) * FEEDBACK_WEIGHT;
+      if (feedbackScore !== 0) {
+        score += feedbackScore;
+        reasons.push(
+          `Feedback history: ${feedbackScore > 0 ? "+" : "-"}${(Math.abs(feedbackScore) * 100).toFixed(0)}%`
+        );
+      }
+    }
+
+    // 5. Audio feature match with the session's sound (when features are known)
+    if (audioScoring) {
+      const trackFeatures = audioScoring.features.get(track.id) ?? track.audioFeatures;
+      if (trackFeatures) {
+        const audioScore = calculateFeatureSimilarity(trackFeatures, audioScoring.target);
+        score += audioScore * audioScoring.weight;
+        reasons.push(
+          `Audio match: ${(audioScore * 100).toFixed(0)}% (weight ${(audioScoring.weight * 100).toFixed(0)}%)`
+        );
+      }
+    }
+
+    // 6. Fairness: favour participants who have been under-served lately
+    if (airtimeShares) {
+      const fairnessBoost = calculateFairnessBoost(matchedUserIds, airtimeShares) * FAIRNESS_WEIGHT;
+      if (fairnessBoost > 0) {
+        score += fairnessBoost;
+        reasons.push(`Fairness boost: +${(fairnessBoost * 100).toFixed(0)}%`);
+      }
+    }
+
+    // 7. Vibe: the genre the room picked in a poll
+    if (vibeGenre && collectTrackGenres(track, tasteProfiles).includes(vibeGenre)) {
+      score += VIBE_GENRE_WEIGHT;
+      reasons.push(`Voted vibe: +${(VIBE_GENRE_WEIGHT * 100).toFixed(0)}%`);
+    }
+
+    // 8. Diversity penalty: avoid same artist back-to-back
     const diversityPenalty = calculateDiversityPenalty(track, recentTracks);
     score -= diversityPenalty;
     if (diversityPenalty > 0) {
       reasons.push(`Diversity penalty: -${(diversityPenalty * 100).toFixed(0)}%`);
     }
 
-    return { track, score, reasons };
+    return { track, score, reasons, matchedUserIds };
   });
 }
 
 /**
  * Calculate how many participants would likely enjoy this track
- * Based on artist and track matches
+ * Based on artist and track matches; also reports which participants matched
  */
 function calculateParticipantMatch(
   track: Track,
   tasteProfiles: TasteProfile[]
-): number {
-  if (tasteProfiles.length === 0) return 0;
+): { score: number; matchedUserIds: string[] } {
+  if (tasteProfiles.length === 0) return { score: 0, matchedUserIds: [] };
 
   let matches = 0;
+  const matchedUserIds: string[] = [];
 
   for (const profile of tasteProfiles) {
     // Check if artist is in user's top artists (full match)
@@ -83,6 +161,7 @@ function calculateParticipantMatch(
 
     if (artistMatch) {
       matches++;
+      matchedUserIds.push(profile.userId);
       continue;
     }
 
@@ -90,6 +169,7 @@ function calculateParticipantMatch(
     const trackMatch = profile.topTracks.includes(track.id);
     if (trackMatch) {
       matches++;
+      matchedUserIds.push(profile.userId);
       continue;
     }
 
@@ -100,10 +180,11 @@ function calculateParticipantMatch(
     );
     if (genreOverlap) {
       matches += 0.3; // Partial match for genre similarity
+      matchedUserIds.push(profile.userId);
     }
   }
 
-  return matches / tasteProfiles.length;
+  return { score: matches / tasteProfiles.length, matchedUserIds };
 }
 
 /**
@@ -122,6 +203,19 @@ function extractTrackGenres(track: Track, profile: TasteProfile): string[] {
   return Array.from(genres);
 }
 
+/**
+ * Extract genres for a track's artists across all profiles
+ */
+function collectTrackGenres(track: Track, tasteProfiles: TasteProfile[]): string[] {
+  const trackGenres = new Set<string>();
+  for (const profile of tasteProfiles) {
+    const genres = extractTrackGenres(track, profile);
+    genres.forEach((g: string) => trackGenres.add(g));
+  }
+
+  return Array.from(trackGenres);
+}
+
 /**
  * Calculate genre match score for a track
  */
@@ -132,14 +226,9 @@ function calculateGenreMatch(
 ): number {
   if (tasteProfiles.length === 0) return 0;
 
-  // Extract all genres from track's artists across all profiles
-  const trackGenres = new Set<string>();
-  for (const profile of tasteProfiles) {
-    const genres = extractTrackGenres(track, profile);
-    genres.forEach((g: string) => trackGenres.add(g));
-  }
+  const trackGenres = collectTrackGenres(track, tasteProfiles);
 
-  if (trackGenres.size === 0) return 0;
+  if (trackGenres.length === 0) return 0;
 
   // Count how many of the track's genres match common genres
   let matches = 0;
@@ -206,6 +295,6 @@ function extractLikedArtists(
 /**
  * Sort scored tracks by score (descending)
  */
-export function sortByScore(scoredTracks: ScoredTrack[]): ScoredTrack[] {
+export function sortByScore<T extends Pick<ScoredTrack, "score">>(scoredTracks: T[]): T[] {
   return scoredTracks.sort((a, b) => b.score - a.score);
 }
@@ -0,0 +1,131 @@
+import type { AudioFeatures, EnergyArc, Track } from "@/types";
+import { calculateFeatureDistance } from "./audio-features";
+
+// How strongly tracks are pulled towards the arc's energy at their position,
+// relative to smoothing the transition from the previous track
+const ARC_WEIGHT = 1.5;
+
+// Weight of the key change between consecutive tracks
+const KEY_WEIGHT = 0.3;
+
+// Position of the peak in a peak-and-cooldown arc (fraction of the run)
+const PEAK_POSITION = 0.7;
+
+/**
+ * Order tracks to follow an energy arc with smooth transitions
+ * Greedily picks, for each position, the track closest to the previous one
+ * (tempo, energy, key and the other features) and, for shaped arcs, to the
+ * arc's target energy. Flat runs only minimise the jumps between tracks.
+ * Tracks without features keep their relative order at the end; without any
+ * features the order is returned unchanged.
+ *
+ * @param tracks Tracks to order, highest scored first
+ * @param features Known audio features by track ID
+ * @param arc Energy arc shape
+ * @param previous Features of the track played right before this run, if known
+ */
+export function sequenceTracks(
+  tracks: Track[],
+  features: Map<string, AudioFeatures>,
+  arc: EnergyArc,
+  previous?: AudioFeatures
+): Track[] {
+  const withFeatures = tracks.filter((t) => features.has(t.id));
+  const withoutFeatures = tracks.filter((t) => !features.has(t.id));
+
+  if (withFeatures.length < 2) {
+    return tracks;
+  }
+
+  const energies = withFeatures.map((t) => features.get(t.id)!.energy);
+  const targets = arc === "flat"
+    ? null
+    : assignTargetEnergies(buildEnergyCurve(arc, withFeatures.length, 0, 1), energies);
+
+  const remaining = [...withFeatures];
+  const sequenced: Track[] = [];
+  let last = previous;
+
+  for (let position = 0; position < withFeatures.length; position++) {
+    let bestIndex = 0;
+    let bestCost = Infinity;
+
+    remaining.forEach((track, index) => {
+      const trackFeatures = features.get(track.id)!;
+      const transitionCost = last ? calculateTransitionCost(last, trackFeatures) : 0;
+      const arcCost = targets ? ARC_WEIGHT * Math.abs(trackFeatures.energy - targets[position]) : 0;
+      const cost = transitionCost + arcCost;
+
+      // Strict comparison keeps the higher-scored track on ties
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    sequenced.push(next);
+    last = features.get(next.id);
+  }
+
+  return [...sequenced, ...withoutFeatures];
+}
+
+/**
+ * Target energy for each position of a run
+ * - flat: hold the middle of the available range
+ * - warm-up: rise steadily from the calmest to the most energetic
+ * - peak-and-cooldown: rise to a peak late in the run, then wind down
+ */
+export function buildEnergyCurve(arc: EnergyArc, length: number, minEnergy: number, maxEnergy: number): number[] {
+  const range = maxEnergy - minEnergy;
+
+  return Array.from({ length }, (_, i) => {
+    const progress = length > 1 ? i / (length - 1) : 0;
+
+    switch (arc) {
+      case "warm-up":
+        return minEnergy + range * progress;
+      case "peak-and-cooldown": {
+        const level = progress <= PEAK_POSITION
+          ? progress / PEAK_POSITION
+          : (1 - progress) / (1 - PEAK_POSITION);
+        return minEnergy + range * level;
+      }
+      case "flat":
+      default:
+        return minEnergy + range / 2;
+    }
+  });
+}
+
+/**
+ * Spread the available energies over a curve
+ * The lowest energy goes to the lowest point of the curve, and so on, so every
+ * position's target is an energy some track actually has
+ */
+function assignTargetEnergies(curve: number[], energies: number[]): number[] {
+  const sortedEnergies = [...energies].sort((a, b) => a - b);
+  const positionsByLevel = curve
+    .map((level, position) => ({ level, position }))
+    .sort((a, b) => a.level - b.level || a.position - b.position);
+
+  const targets = new Array<number>(curve.length);
+  positionsByLevel.forEach(({ position }, rank) => {
+    targets[position] = sortedEnergies[rank];
+  });
+
+  return targets;
+}
+
+/**
+ * Cost of moving from one track to the next
+ * Feature distance plus the shortest way around the pitch class circle
+ * (Spotify reports key -1 when it could not detect one)
+ */
+function calculateTransitionCost(from: AudioFeatures, to: AudioFeatures): number {
+  const keyStep = Math.abs(from.key - to.key) % 12;
+  const keyDistance = from.key < 0 || to.key < 0 ? 0 : Math.min(keyStep, 12 - keyStep) / 6;
+
+  return calculateFeatureDistance(from, to) + keyDistance * KEY_WEIGHT;
+}
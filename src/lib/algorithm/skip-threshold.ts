@@ -0,0 +1,124 @@
+import type { Session, SkipVote, VoteWindow } from "@/types";
+import { DEFAULT_SKIP_THRESHOLD_PERCENT, SKIP_ACTIVE_WINDOW_MS } from "../constants";
+
+/**
+ * Where a track stands in its skip vote
+ */
+export interface SkipTally {
+  count: number;                   // Weighted votes for skipping it
+  threshold: number;               // Weighted votes needed
+  overridden: boolean;             // The host voted and their vote skips on its own
+  reached: boolean;                // The track should be skipped
+}
+
+/**
+ * Participants who joined, voted, liked or added a track within the window
+ */
+export function getActiveParticipantIds(session: Session, now: number = Date.now()): string[] {
+  const since = now - SKIP_ACTIVE_WINDOW_MS;
+  const active = new Set<string>();
+
+  for (const participant of session.participants) {
+    if (participant.joinedAt >= since) active.add(participant.userId);
+  }
+  for (const vote of [...session.votes.skip, ...session.votes.like]) {
+    if (vote.timestamp >= since) active.add(vote.userId);
+  }
+  for (const entry of session.feedback ?? []) {
+    if (entry.timestamp >= since) entry.userIds.forEach((userId) => active.add(userId));
+  }
+  for (const item of session.queue) {
+    if (item.addedAt >= since) active.add(item.addedBy);
+  }
+
+  // Only people still in the session count
+  return session.participants
+    .map((p) => p.userId)
+    .filter((userId) => active.has(userId));
+}
+
+/**
+ * Number of weighted skip votes a track needs
+ * Worked out from the settings and who is in the session right now, so it
+ * follows people joining and leaving. Never less than 1.
+ */
+export function calculateSkipThreshold(session: Session, now: number = Date.now()): number {
+  const { settings } = session;
+  const mode = settings.skipThresholdMode ?? "count";
+
+  if (mode === "count") {
+    return Math.max(1, settings.skipThreshold);
+  }
+
+  const share = (settings.skipThresholdPercent ?? DEFAULT_SKIP_THRESHOLD_PERCENT) / 100;
+  const base = mode === "percent-active"
+    ? getActiveParticipantIds(session, now).length
+    : session.participants.length;
+
+  return Math.max(1, Math.ceil(base * share));
+}
+
+/**
+ * How many votes a participant's skip vote counts as
+ * The host gets the host weight, falling back to the DJ weight as they're a DJ too
+ */
+export function getSkipVoteWeight(session: Session, userId: string): number {
+  const { settings } = session;
+  const djWeight = session.djs.includes(userId) ? settings.djVoteWeight ?? 1 : 1;
+
+  if (userId === session.hostId) {
+    return settings.hostVoteWeight ?? djWeight;
+  }
+
+  return djWeight;
+}
+
+/**
+ * When skip voting opens on the current play, after the minimum listening time
+ * Null until the playback layer has started a play
+ */
+export function getVoteWindow(session: Session, now: number = Date.now()): VoteWindow | null {
+  const play = session.currentPlay;
+  if (!play) return null;
+
+  const opensAt = play.startedAt + (session.settings.skipVoteDelaySeconds ?? 0) * 1000;
+
+  return {
+    playId: play.id,
+    trackId: play.trackId,
+    opensAt,
+    opensInMs: Math.max(0, opensAt - now),
+  };
+}
+
+/**
+ * Skip votes that count for a track
+ * Only votes cast during its current play count; a track that isn't playing
+ * now keeps only votes from before plays were tracked
+ */
+export function getSkipVotesForTrack(session: Session, trackId: string): SkipVote[] {
+  const playId = session.currentPlay?.trackId === trackId ? session.currentPlay.id : undefined;
+
+  return session.votes.skip.filter(
+    (vote) => vote.trackId === trackId && vote.playId === playId
+  );
+}
+
+/**
+ * Count a track's skip votes against the session's threshold
+ * Weights follow voters' current roles
+ */
+export function tallySkipVotes(session: Session, trackId: string, now: number = Date.now()): SkipTally {
+  const voters = getSkipVotesForTrack(session, trackId).map((vote) => vote.userId);
+
+  const count = voters.reduce((sum, userId) => sum + getSkipVoteWeight(session, userId), 0);
+  const threshold = calculateSkipThreshold(session, now);
+  const overridden = Boolean(session.settings.hostSkipOverride) && voters.includes(session.hostId);
+
+  return {
+    count,
+    threshold,
+    overridden,
+    reached: overridden || count >= threshold,
+  };
+}
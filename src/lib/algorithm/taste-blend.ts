@@ -0,0 +1,85 @@
+import type { SpotifyArtist, TasteBlend, TasteProfile, TimeRange } from "@/types";
+
+// Share of each time range in a blend
+const TASTE_BLEND_WEIGHTS: Record<TasteBlend, Record<TimeRange, number>> = {
+  recent: { short_term: 0.6, medium_term: 0.3, long_term: 0.1 },
+  balanced: { short_term: 0.25, medium_term: 0.5, long_term: 0.25 },
+  "all-time": { short_term: 0.1, medium_term: 0.3, long_term: 0.6 },
+};
+
+const TOP_GENRE_LIMIT = 10;
+
+/**
+ * Recompute a profile's top tracks, artists and genres from its time ranges
+ * Items score by their rank within each range, weighted by the blend, so a
+ * favourite in several ranges rises to the top. Profiles without time range
+ * data are returned as they are.
+ *
+ * @param depth Maximum number of blended tracks and artists to keep
+ */
+export function blendTasteProfile(profile: TasteProfile, blend: TasteBlend, depth: number): TasteProfile {
+  const timeRanges = profile.timeRanges;
+  if (!timeRanges) {
+    return profile;
+  }
+
+  const weights = TASTE_BLEND_WEIGHTS[blend];
+  const trackScores = new Map<string, number>();
+  const artistScores = new Map<string, number>();
+  const artists = new Map<string, SpotifyArtist>();
+
+  for (const range of Object.keys(weights) as TimeRange[]) {
+    const taste = timeRanges[range];
+    if (!taste) continue;
+
+    addRankScores(trackScores, taste.topTracks, weights[range]);
+    addRankScores(artistScores, taste.topArtists.map((artist) => artist.id), weights[range]);
+    taste.topArtists.forEach((artist) => {
+      if (!artists.has(artist.id)) artists.set(artist.id, artist);
+    });
+  }
+
+  const topArtistIds = rankByScore(artistScores).slice(0, depth);
+
+  return {
+    ...profile,
+    topTracks: rankByScore(trackScores).slice(0, depth),
+    topArtists: topArtistIds.map((id) => artists.get(id)).filter((a): a is SpotifyArtist => a !== undefined),
+    topGenres: extractWeightedGenres(topArtistIds, artists, artistScores),
+  };
+}
+
+/**
+ * Score items by position: the first of n scores 1, the last 1/n
+ */
+function addRankScores(scores: Map<string, number>, ids: string[], weight: number): void {
+  ids.forEach((id, index) => {
+    const rankScore = (ids.length - index) / ids.length;
+    scores.set(id, (scores.get(id) ?? 0) + rankScore * weight);
+  });
+}
+
+function rankByScore(scores: Map<string, number>): string[] {
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+}
+
+/**
+ * Top genres of the blended artists, each genre weighted by its artists' scores
+ */
+function extractWeightedGenres(
+  artistIds: string[],
+  artists: Map<string, SpotifyArtist>,
+  artistScores: Map<string, number>
+): string[] {
+  const genreScores = new Map<string, number>();
+
+  for (const id of artistIds) {
+    for (const genre of artists.get(id)?.genres ?? []) {
+      genreScores.set(genre, (genreScores.get(genre) ?? 0) + (artistScores.get(id) ?? 0));
+    }
+  }
+
+  return rankByScore(genreScores).slice(0, TOP_GENRE_LIMIT);
+}
@@ -0,0 +1,17 @@
+import type { SessionRecap } from "@/types";
+
+/**
+ * Long-lived store of recaps of ended sessions
+ * Implementations: FileRecapArchive, RedisRecapArchive
+ */
+export interface RecapArchive {
+  /**
+   * Save a recap, replacing any earlier recap of the same session
+   */
+  save(recap: SessionRecap): Promise<void>;
+
+  /**
+   * Get a session's recap
+   */
+  get(sessionId: string): Promise<SessionRecap | null>;
+}
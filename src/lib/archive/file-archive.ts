@@ -0,0 +1,49 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { SessionRecap } from "@/types";
+import type { RecapArchive } from "./archive.interface";
+
+// Session IDs are nanoids; anything else must not become part of a file path
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * File recap archive
+ * One JSON file per session, for development and single-server setups
+ */
+export class FileRecapArchive implements RecapArchive {
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.RECAP_ARCHIVE_DIR || path.join(process.cwd(), ".data", "recaps");
+  }
+
+  async save(recap: SessionRecap): Promise<void> {
+    const filePath = this.getFilePath(recap.sessionId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so readers never see a half-written recap
+    await fs.writeFile(tempPath, JSON.stringify(recap), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(sessionId: string): Promise<SessionRecap | null> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return null;
+
+    try {
+      const data = await fs.readFile(this.getFilePath(sessionId), "utf8");
+      return JSON.parse(data) as SessionRecap;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
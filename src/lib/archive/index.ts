@@ -0,0 +1,31 @@
+import type { RecapArchive } from "./archive.interface";
+import { FileRecapArchive } from "./file-archive";
+import { RedisRecapArchive } from "./redis-archive";
+
+/**
+ * Get the recap archive matching the session store
+ * Redis deployments keep recaps in Redis, everything else on disk
+ */
+export function createRecapArchive(): RecapArchive {
+  if (process.env.SESSION_STORE === "redis") {
+    console.log("Using Redis recap archive");
+    return new RedisRecapArchive();
+  }
+
+  return new FileRecapArchive();
+}
+
+// Export a singleton instance
+let archiveInstance: RecapArchive | null = null;
+
+export function getRecapArchive(): RecapArchive {
+  if (!archiveInstance) {
+    archiveInstance = createRecapArchive();
+  }
+  return archiveInstance;
+}
+
+// Export types and implementations
+export type { RecapArchive };
+export { FileRecapArchive, RedisRecapArchive };
+export { buildSessionRecap } from "./recap";
@@ -0,0 +1,35 @@
+import type { Participant, RecapParticipant, Session, SessionEndReason, SessionRecap } from "@/types";
+
+/**
+ * Build the recap of a session that is ending
+ * Participants who left are included; anyone who rejoined is listed once
+ */
+export function buildSessionRecap(
+  session: Session,
+  reason: SessionEndReason,
+  endedAt: number = Date.now()
+): SessionRecap {
+  const participants = new Map<string, RecapParticipant>();
+  const everyone: Participant[] = [...(session.pastParticipants ?? []), ...session.participants];
+
+  for (const participant of everyone) {
+    participants.set(participant.userId, {
+      userId: participant.userId,
+      name: participant.name,
+      image: participant.image,
+      wasHost: participant.isHost || participant.userId === session.hostId,
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    code: session.code,
+    hostId: session.hostId,
+    participants: Array.from(participants.values()),
+    plays: session.playHistory ?? [],
+    startedAt: session.createdAt,
+    endedAt,
+    durationMs: Math.max(0, endedAt - session.createdAt),
+    endReason: reason,
+  };
+}
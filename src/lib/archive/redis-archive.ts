@@ -0,0 +1,41 @@
+import Redis from "ioredis";
+import type { SessionRecap } from "@/types";
+import type { RecapArchive } from "./archive.interface";
+
+/**
+ * Redis recap archive
+ * Recaps outlive their sessions by a long way, but still expire eventually
+ */
+export class RedisRecapArchive implements RecapArchive {
+  private redis: Redis;
+  private readonly keyPrefix = "recap:";
+  private readonly ttl = 60 * 60 * 24 * 90; // 90 days
+
+  constructor(redisUrl?: string) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || "redis://localhost:6379", {
+      maxRetriesPerRequest: 3,
+    });
+
+    this.redis.on("error", (err) => {
+      console.error("[RecapArchive] Redis error:", err);
+    });
+  }
+
+  async save(recap: SessionRecap): Promise<void> {
+    await this.redis.set(this.keyPrefix + recap.sessionId, JSON.stringify(recap), "EX", this.ttl);
+  }
+
+  async get(sessionId: string): Promise<SessionRecap | null> {
+    const data = await this.redis.get(this.keyPrefix + sessionId);
+    if (!data) return null;
+
+    return JSON.parse(data) as SessionRecap;
+  }
+
+  /**
+   * Close the Redis connection (useful for cleanup)
+   */
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -1,5 +1,103 @@
+import type { CandidateSource, EnergyArc, PlaylistExportSelection, PollOptionKind, QueueVoteType, SkipThresholdMode, TasteBlend } from "@/types";
+
 /**
  * Queue management constants
  */
 export const MIN_QUEUE_SIZE = 10;
 export const MAX_QUEUE_SIZE = 20;
+
+/**
+ * Energy arc shapes a host can pick for queue sequencing
+ */
+export const ENERGY_ARCS = ["flat", "warm-up", "peak-and-cooldown"] as const satisfies readonly EnergyArc[];
+export const DEFAULT_ENERGY_ARC: EnergyArc = "flat";
+
+/**
+ * Taste profile blends and depth (top items per time range, Spotify allows 50)
+ */
+export const TASTE_BLENDS = ["recent", "balanced", "all-time"] as const satisfies readonly TasteBlend[];
+export const DEFAULT_TASTE_BLEND: TasteBlend = "balanced";
+export const MIN_PROFILE_DEPTH = 5;
+export const MAX_PROFILE_DEPTH = 50;
+export const DEFAULT_PROFILE_DEPTH = 20;
+
+/**
+ * Share of participants an artist or genre needs to count as common ground
+ */
+export const DEFAULT_COMMON_GROUND_QUORUM = 0.5;
+
+/**
+ * Queue candidate sources and their default relative quotas
+ */
+export const CANDIDATE_SOURCES = [
+  "artist-top-tracks",
+  "genre-search",
+  "album-deep-cuts",
+  "participant-top-tracks",
+  "liked-neighbours",
+  "seed-playlist",
+] as const satisfies readonly CandidateSource[];
+export const DEFAULT_CANDIDATE_QUOTAS: Record<CandidateSource, number> = {
+  "artist-top-tracks": 2,
+  "genre-search": 1,
+  "album-deep-cuts": 1,
+  "participant-top-tracks": 1,
+  "liked-neighbours": 1,
+  "seed-playlist": 2,   // Only used once a seed playlist is picked
+};
+export const MAX_CANDIDATE_QUOTA = 5;
+
+/**
+ * Session lifecycle: sessions with no activity for the idle timeout are ended
+ * by a periodic sweep (SESSION_IDLE_TIMEOUT_MINUTES overrides the default)
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES = 120;
+export const SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Track selections a session can be exported to a playlist with
+ */
+export const PLAYLIST_EXPORT_SELECTIONS = ["played", "played-and-queue", "liked"] as const satisfies readonly PlaylistExportSelection[];
+
+/**
+ * Seed playlists: tracks read from the playlist, and how many of them start
+ * an empty queue (the stable window)
+ */
+export const SEED_PLAYLIST_MAX_TRACKS = 200;
+export const SEED_PLAYLIST_QUEUE_TRACKS = 3;
+
+/**
+ * Skip thresholds: how new sessions work them out, and how long after their
+ * last vote, like or added track a participant still counts as active
+ */
+export const SKIP_THRESHOLD_MODES = ["count", "percent-present", "percent-active"] as const satisfies readonly SkipThresholdMode[];
+export const DEFAULT_SKIP_THRESHOLD_MODE: SkipThresholdMode = "percent-present";
+export const DEFAULT_SKIP_THRESHOLD_PERCENT = 50;
+export const MAX_SKIP_VOTE_WEIGHT = 5;
+export const SKIP_ACTIVE_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Longest minimum listening time a host can set before skip voting opens
+ */
+export const MAX_SKIP_VOTE_DELAY_SECONDS = 120;
+
+/**
+ * Queue votes: the votes participants can cast on upcoming tracks, and the most
+ * net votes a point of algorithm score can be worth when the queue is ranked
+ */
+export const QUEUE_VOTE_TYPES = ["up", "down"] as const satisfies readonly QueueVoteType[];
+export const MAX_QUEUE_VOTE_SCORE_WEIGHT = 10;
+
+/**
+ * Track requests: how many a participant can have waiting for a DJ at once
+ */
+export const DEFAULT_TRACK_REQUEST_LIMIT = 3;
+export const MAX_TRACK_REQUEST_LIMIT = 10;
+
+/**
+ * Room polls: what their options can be and how many a DJ can offer
+ */
+export const POLL_OPTION_KINDS = ["genre", "energy-arc", "track"] as const satisfies readonly PollOptionKind[];
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_QUESTION_LENGTH = 100;
@@ -0,0 +1,267 @@
+import type { PlaybackState } from "@/types";
+import type { SessionStore } from "./session/store.interface";
+import type { TokenVault } from "./session/token-vault";
+import { SpotifyService } from "./services/spotify.service";
+import { handleTrackCompletion } from "./utils/playback";
+import { broadcastToSession } from "./websocket/server";
+import { WS_EVENTS } from "./websocket/events";
+import { publishEvent, subscribeToPattern } from "./redis-events";
+
+/**
+ * Server-authoritative playback sync
+ *
+ * One monitor per session polls the Spotify playback state on the device
+ * owner's account, detects track changes, advances the queue and pushes the
+ * state to every participant. Each poll takes the owner's token from the token
+ * vault, which refreshes it once it expires.
+ *
+ * The monitor runs in the WebSocket server process. API routes ask for a
+ * session to be watched through Redis pub/sub, the same way broadcasts reach
+ * Socket.IO. Only the session id goes over the channel, never a token.
+ */
+
+interface MonitoredSession {
+  lastTrackId: string | null;
+  lastPlayId: string | null;
+  isPlaying: boolean;
+  timer: NodeJS.Timeout | null;
+  consecutiveErrors: number;
+}
+
+interface WatchRequest {
+  sessionId: string;
+  stop?: boolean;
+}
+
+const WATCH_CHANNEL = "playback-monitor:watch";
+
+const FIRST_POLL_DELAY_MS = 1000; // Let Spotify settle after a playback command
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 10000; // Keeps progress bars in sync mid-track
+const IDLE_POLL_INTERVAL_MS = 15000; // Paused or nothing playing
+const TRACK_END_GRACE_MS = 750; // Poll just after the track is expected to end
+const ERROR_RETRY_DELAY_MS = 5000;
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const monitors = new Map<string, MonitoredSession>();
+let monitorStore: SessionStore | null = null;
+let monitorTokenVault: TokenVault | null = null;
+
+/**
+ * Start the playback monitor (call once from the server process)
+ * @param store Session store used to advance queues
+ * @param tokenVault Vault the device owner's token is read from on each poll
+ */
+export function startPlaybackMonitor(store: SessionStore, tokenVault: TokenVault): void {
+  if (monitorStore) {
+    console.log("[PlaybackMonitor] Already started");
+    return;
+  }
+
+  monitorStore = store;
+  monitorTokenVault = tokenVault;
+
+  subscribeToPattern(WATCH_CHANNEL, (_channel, message) => {
+    try {
+      const { sessionId, stop } = JSON.parse(message) as WatchRequest;
+      if (stop) {
+        stopMonitoringSession(sessionId);
+      } else {
+        monitorSession(sessionId);
+      }
+    } catch (error) {
+      console.error("[PlaybackMonitor] Error handling watch request:", error);
+    }
+  });
+
+  console.log("[PlaybackMonitor] Started");
+}
+
+/**
+ * Stop all session monitors
+ */
+export function stopPlaybackMonitor(): void {
+  for (const sessionId of Array.from(monitors.keys())) {
+    stopMonitoringSession(sessionId);
+  }
+  monitorStore = null;
+  monitorTokenVault = null;
+}
+
+/**
+ * Ask the server process to watch a session's playback
+ * Called from API routes whenever a DJ controls playback, which also revives
+ * a monitor that was backing off after errors
+ */
+export async function watchSessionPlayback(sessionId: string): Promise<void> {
+  try {
+    await publishEvent(WATCH_CHANNEL, { sessionId } satisfies WatchRequest);
+  } catch (error) {
+    console.error(`[PlaybackMonitor] Failed to request monitoring for session ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Ask the server process to stop watching a session's playback
+ * Called when a session ends, usually from an API route or the idle sweeper,
+ * which don't share the server process's monitors
+ */
+export async function unwatchSessionPlayback(sessionId: string): Promise<void> {
+  try {
+    await publishEvent(WATCH_CHANNEL, { sessionId, stop: true } satisfies WatchRequest);
+  } catch (error) {
+    console.error(`[PlaybackMonitor] Failed to request unmonitoring for session ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Start monitoring a session, or reset the error count of an existing monitor
+ */
+export function monitorSession(sessionId: string): void {
+  const existing = monitors.get(sessionId);
+  if (existing) {
+    existing.consecutiveErrors = 0;
+    return;
+  }
+
+  monitors.set(sessionId, {
+    lastTrackId: null,
+    lastPlayId: null,
+    isPlaying: false,
+    timer: null,
+    consecutiveErrors: 0,
+  });
+
+  console.log(`[PlaybackMonitor] Monitoring session ${sessionId}`);
+  schedulePoll(sessionId, FIRST_POLL_DELAY_MS);
+}
+
+/**
+ * Stop monitoring a session
+ */
+export function stopMonitoringSession(sessionId: string): void {
+  const monitor = monitors.get(sessionId);
+  if (!monitor) return;
+
+  if (monitor.timer) {
+    clearTimeout(monitor.timer);
+  }
+  monitors.delete(sessionId);
+
+  console.log(`[PlaybackMonitor] Stopped monitoring session ${sessionId}`);
+}
+
+/**
+ * Check whether a session is being monitored
+ */
+export function isMonitoringSession(sessionId: string): boolean {
+  return monitors.has(sessionId);
+}
+
+/**
+ * Check whether a monitored session was playing at its last poll
+ * Counts as activity for idle detection, since a long track leaves the
+ * session untouched until it ends
+ */
+export function isSessionPlaying(sessionId: string): boolean {
+  return monitors.get(sessionId)?.isPlaying ?? false;
+}
+
+/**
+ * Compute the delay before the next poll
+ * Polls slowly while paused, and lands just after the expected end of the
+ * current track so transitions are picked up promptly
+ */
+export function getNextPollDelay(state: PlaybackState): number {
+  if (!state.is_playing || !state.item) {
+    return IDLE_POLL_INTERVAL_MS;
+  }
+
+  const remainingMs = state.item.duration_ms - state.progress_ms + TRACK_END_GRACE_MS;
+  return Math.min(Math.max(remainingMs, MIN_POLL_INTERVAL_MS), MAX_POLL_INTERVAL_MS);
+}
+
+function schedulePoll(sessionId: string, delayMs: number): void {
+  const monitor = monitors.get(sessionId);
+  if (!monitor) return;
+
+  if (monitor.timer) {
+    clearTimeout(monitor.timer);
+  }
+  monitor.timer = setTimeout(() => {
+    monitor.timer = null;
+    void pollPlayback(sessionId);
+  }, delayMs);
+}
+
+/**
+ * Poll Spotify once for a session and react to what changed
+ */
+async function pollPlayback(sessionId: string): Promise<void> {
+  const monitor = monitors.get(sessionId);
+  const store = monitorStore;
+  const tokenVault = monitorTokenVault;
+  if (!monitor || !store || !tokenVault) return;
+
+  try {
+    const session = await store.get(sessionId);
+    if (!session || !session.activeDeviceId) {
+      stopMonitoringSession(sessionId);
+      return;
+    }
+
+    // Refreshed by the vault when expired, so monitoring outlives the token
+    // the last playback control ran with
+    const ownerId = session.deviceOwnerId ?? session.hostId;
+    const accessToken = await tokenVault.getAccessToken(ownerId);
+    if (!accessToken) {
+      throw new Error(`No usable token for device owner ${ownerId}`);
+    }
+
+    const spotifyService = new SpotifyService(accessToken);
+    const state = await spotifyService.getPlaybackState();
+    const trackId = state.item?.id ?? null;
+
+    // Completion only advances the queue if the new track is at its head and
+    // the play seen last poll is still current, so a transition already
+    // handled by a route, a client or another server is a no-op
+    let completed = false;
+    const trackChanged = trackId !== monitor.lastTrackId;
+    if (trackId && monitor.lastTrackId && trackChanged) {
+      console.log(`[PlaybackMonitor] Track changed in session ${sessionId}: ${monitor.lastTrackId} -> ${trackId}`);
+      completed = await handleTrackCompletion(sessionId, store, accessToken, trackId, monitor.lastPlayId);
+    }
+
+    // handleTrackCompletion already broadcasts the fresh state
+    if (!completed) {
+      broadcastToSession(sessionId, WS_EVENTS.PLAYBACK_STATE_CHANGED, state);
+    }
+
+    // Whoever handled a change has started a new play since the read above
+    const current = trackChanged ? await store.get(sessionId) : session;
+
+    // Stopped (or replaced) while this poll was in flight
+    if (monitors.get(sessionId) !== monitor) return;
+
+    monitor.lastTrackId = trackId;
+    monitor.lastPlayId = current?.currentPlay?.id ?? null;
+    monitor.isPlaying = state.is_playing && trackId !== null;
+    monitor.consecutiveErrors = 0;
+    schedulePoll(sessionId, getNextPollDelay(state));
+  } catch (error) {
+    if (monitors.get(sessionId) !== monitor) return;
+
+    monitor.consecutiveErrors++;
+    console.error(
+      `[PlaybackMonitor] Poll failed for session ${sessionId} (${monitor.consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS}):`,
+      error
+    );
+
+    if (monitor.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      stopMonitoringSession(sessionId);
+      return;
+    }
+
+    schedulePoll(sessionId, ERROR_RETRY_DELAY_MS * monitor.consecutiveErrors);
+  }
+}
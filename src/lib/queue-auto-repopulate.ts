@@ -2,6 +2,8 @@ import { QueueGenerationService } from "./services/queue-generation.service";
 import type { Session } from "@/types";
 import type { SessionStore } from "./session/store.interface";
 import { MIN_QUEUE_SIZE, MAX_QUEUE_SIZE } from "./constants";
+import { consumeVibeBias } from "./utils/polls";
+import { rankSessionQueue } from "./utils/queue";
 
 /**
  * Check if queue needs repopulation and generate new tracks if needed
@@ -37,11 +39,21 @@ export async function checkAndRepopulateQueue(
     const queueService = new QueueGenerationService(accessToken);
     const newQueue = await queueService.generateQueue(session, targetSize);
 
-    // Merge with existing queue (preserves first 3 as stable)
-    session.queue = queueService.mergeWithStableQueue(session.queue, newQueue);
+    // Merge with the latest queue (preserves first 3 as stable), since it may
+    // have changed while tracks were being generated. A poll winner only
+    // steers one generation
+    const updated = await store.update(session.id, (s) => {
+      s.queue = queueService.mergeWithStableQueue(s.queue, newQueue, s.votes.queue);
+      rankSessionQueue(s);
+      consumeVibeBias(s, session.vibeBias);
+      s.updatedAt = Date.now();
+    });
 
-    session.updatedAt = Date.now();
-    await store.set(session.id, session);
+    if (!updated) {
+      return false;
+    }
+
+    session.queue = updated.queue;
 
     console.log(`Queue repopulated: ${newQueue.length} tracks added (total: ${session.queue.length})`);
 
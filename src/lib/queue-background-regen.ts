@@ -1,20 +1,22 @@
 import { QueueGenerationService } from "./services/queue-generation.service";
 import type { SessionStore } from "./session/store.interface";
+import { getRegenerationCoordinator, type RegenerationStatus } from "./regeneration";
 import { broadcastToSession } from "./websocket/server";
 import { WS_EVENTS } from "./websocket/events";
 import { MAX_QUEUE_SIZE } from "./constants";
+import { consumeVibeBias } from "./utils/polls";
+import { rankSessionQueue } from "./utils/queue";
 
 /**
  * Background queue regeneration system with debouncing and locking
+ * Debounce and lock state live in the regeneration coordinator, so they hold
+ * across app instances when sessions are stored in Redis
  */
 
-// Store for debounce timers and locks
-const debounceTimers = new Map<string, NodeJS.Timeout>();
-const regenerationLocks = new Set<string>();
-
 const DEBOUNCE_DELAY_MS = 5000; // 5 seconds
 const STABLE_TRACK_COUNT = 3;
 const REGENERATION_TIMEOUT_MS = 30000; // 30 seconds timeout for queue regeneration
+const LOCK_TTL_MS = REGENERATION_TIMEOUT_MS + 5000; // Outlives the timeout so the holder gives up first
 
 /**
  * Trigger background queue regeneration after participant changes
@@ -29,21 +31,16 @@ export function triggerBackgroundRegeneration(
   store: SessionStore,
   accessToken: string
 ): void {
-  // Clear existing debounce timer for this session
-  const existingTimer = debounceTimers.get(sessionId);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-  }
-
-  // Set new debounce timer
-  const timer = setTimeout(async () => {
-    await executeQueueRegeneration(sessionId, store, accessToken);
-    debounceTimers.delete(sessionId);
-  }, DEBOUNCE_DELAY_MS);
-
-  debounceTimers.set(sessionId, timer);
-
-  console.log(`[QueueRegen] Debounced regeneration scheduled for session ${sessionId} in ${DEBOUNCE_DELAY_MS}ms`);
+  getRegenerationCoordinator()
+    .debounce(sessionId, DEBOUNCE_DELAY_MS, () =>
+      executeQueueRegeneration(sessionId, store, accessToken)
+    )
+    .then(() => {
+      console.log(`[QueueRegen] Debounced regeneration scheduled for session ${sessionId} in ${DEBOUNCE_DELAY_MS}ms`);
+    })
+    .catch((error) => {
+      console.error(`[QueueRegen] Failed to schedule regeneration for session ${sessionId}:`, error);
+    });
 }
 
 /**
@@ -54,20 +51,21 @@ async function executeQueueRegeneration(
   store: SessionStore,
   accessToken: string
 ): Promise<void> {
-  // Check if regeneration is already in progress
-  if (regenerationLocks.has(sessionId)) {
+  const coordinator = getRegenerationCoordinator();
+
+  // Acquire lock; fails if regeneration is already in progress anywhere
+  const fencingToken = await coordinator.acquireLock(sessionId, LOCK_TTL_MS);
+  if (fencingToken === null) {
     console.log(`[QueueRegen] Regeneration already in progress for session ${sessionId}, skipping`);
     return;
   }
 
-  // Acquire lock
-  regenerationLocks.add(sessionId);
-  console.log(`[QueueRegen] Starting regeneration for session ${sessionId}`);
+  console.log(`[QueueRegen] Starting regeneration for session ${sessionId} (token ${fencingToken})`);
 
   try {
     // Wrap regeneration in timeout to prevent hanging
     await Promise.race([
-      performRegeneration(sessionId, store, accessToken),
+      performRegeneration(sessionId, store, accessToken, fencingToken),
       new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Queue regeneration timeout')), REGENERATION_TIMEOUT_MS)
       )
@@ -86,7 +84,9 @@ async function executeQueueRegeneration(
     }
   } finally {
     // Release lock
-    regenerationLocks.delete(sessionId);
+    await coordinator.releaseLock(sessionId, fencingToken).catch((error) => {
+      console.error(`[QueueRegen] Failed to release lock for session ${sessionId}:`, error);
+    });
     console.log(`[QueueRegen] Released lock for session ${sessionId}`);
   }
 }
@@ -97,7 +97,8 @@ async function executeQueueRegeneration(
 async function performRegeneration(
   sessionId: string,
   store: SessionStore,
-  accessToken: string
+  accessToken: string,
+  fencingToken: number
 ): Promise<void> {
   try {
     // Get current session state
@@ -132,13 +133,32 @@ async function performRegeneration(
 
     console.log(`[QueueRegen] Generated ${newQueue.length} new tracks`);
 
-    // Merge existing queue with new queue (preserves first 3 as stable)
-    const mergedQueue = queueService.mergeWithStableQueue(session.queue, newQueue);
+    // Merge into the latest queue rather than the snapshot used for generation
+    // (preserves first 3 as stable), so track advances made meanwhile are kept.
+    // A newer lease holder may have written already if this lease expired
+    let fenced = false;
+    const updatedSession = await store.update(sessionId, (s) => {
+      fenced = (s.regenerationFence ?? 0) > fencingToken;
+      if (fenced) return;
+
+      s.queue = queueService.mergeWithStableQueue(s.queue, newQueue, s.votes.queue);
+      rankSessionQueue(s);
+      consumeVibeBias(s, session.vibeBias);
+      s.regenerationFence = fencingToken;
+      s.updatedAt = Date.now();
+    });
+
+    if (!updatedSession) {
+      console.log(`[QueueRegen] Session ${sessionId} was deleted during regeneration, discarding queue`);
+      return;
+    }
 
-    // Update session
-    session.queue = mergedQueue;
-    session.updatedAt = Date.now();
-    await store.set(sessionId, session);
+    if (fenced) {
+      console.log(`[QueueRegen] Lease for session ${sessionId} was superseded (token ${fencingToken}), discarding queue`);
+      return;
+    }
+
+    const mergedQueue = updatedSession.queue;
 
     console.log(`[QueueRegen] Updated queue with ${mergedQueue.length} total tracks (${stableCount} stable, ${newQueue.length} new)`);
 
@@ -154,24 +174,19 @@ async function performRegeneration(
 /**
  * Cancel pending regeneration for a session (e.g., when session is deleted)
  */
-export function cancelPendingRegeneration(sessionId: string): void {
-  const timer = debounceTimers.get(sessionId);
-  if (timer) {
-    clearTimeout(timer);
-    debounceTimers.delete(sessionId);
+export async function cancelPendingRegeneration(sessionId: string): Promise<void> {
+  try {
+    await getRegenerationCoordinator().cancel(sessionId);
     console.log(`[QueueRegen] Cancelled pending regeneration for session ${sessionId}`);
+  } catch (error) {
+    console.error(`[QueueRegen] Failed to cancel regeneration for session ${sessionId}:`, error);
   }
 }
 
 /**
  * Get regeneration status for debugging
+ * Reflects every app instance sharing the coordinator
  */
-export function getRegenerationStatus(sessionId: string): {
-  isPending: boolean;
-  isLocked: boolean;
-} {
-  return {
-    isPending: debounceTimers.has(sessionId),
-    isLocked: regenerationLocks.has(sessionId),
-  };
+export async function getRegenerationStatus(sessionId: string): Promise<RegenerationStatus> {
+  return getRegenerationCoordinator().getStatus(sessionId);
 }
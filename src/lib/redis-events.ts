@@ -75,7 +75,10 @@ export function subscribeToPattern(
     console.log(`[RedisEvents] Subscribed to pattern: ${pattern} (${count} subscriptions)`);
   });
 
-  sub.on("pmessage", (pattern, channel, message) => {
+  // The pmessage event fires for every pattern on this shared connection,
+  // so only hand this subscriber the messages for its own pattern
+  sub.on("pmessage", (matchedPattern, channel, message) => {
+    if (matchedPattern !== pattern) return;
     console.log(`[RedisEvents] Received message on channel: ${channel}`);
     callback(channel, message);
   });
@@ -0,0 +1,47 @@
+/**
+ * Debounced task run by the coordinator once a session stops changing
+ */
+export type RegenerationTask = () => Promise<void>;
+
+/**
+ * Regeneration state for a session, as seen by the whole deployment
+ */
+export interface RegenerationStatus {
+  isPending: boolean;
+  isLocked: boolean;
+}
+
+/**
+ * Coordinates background queue regeneration across app instances
+ * Implementations: InMemoryCoordinator, RedisCoordinator
+ */
+export interface RegenerationCoordinator {
+  /**
+   * Schedule a task to run after a quiet period
+   * Each call supersedes earlier calls for the same session, on any instance,
+   * so only the most recent task runs
+   */
+  debounce(sessionId: string, delayMs: number, task: RegenerationTask): Promise<void>;
+
+  /**
+   * Cancel a pending debounced task
+   */
+  cancel(sessionId: string): Promise<void>;
+
+  /**
+   * Acquire the regeneration lease for a session
+   * Returns a fencing token that increases with every successful acquisition,
+   * or null if another holder's lease has not expired yet
+   */
+  acquireLock(sessionId: string, ttlMs: number): Promise<number | null>;
+
+  /**
+   * Release a lease, if it is still held with the given token
+   */
+  releaseLock(sessionId: string, token: number): Promise<void>;
+
+  /**
+   * Get the current regeneration status for a session
+   */
+  getStatus(sessionId: string): Promise<RegenerationStatus>;
+}
@@ -0,0 +1,31 @@
+import type { RegenerationCoordinator } from "./coordinator.interface";
+import { InMemoryCoordinator } from "./memory-coordinator";
+import { RedisCoordinator } from "./redis-coordinator";
+
+/**
+ * Get the regeneration coordinator matching the session store
+ * Redis-backed sessions may be served by several instances, so they share
+ * debounce and lock state through Redis as well
+ */
+export function createRegenerationCoordinator(): RegenerationCoordinator {
+  if (process.env.SESSION_STORE === "redis") {
+    console.log("Using Redis regeneration coordinator");
+    return new RedisCoordinator();
+  }
+
+  return new InMemoryCoordinator();
+}
+
+// Export a singleton instance
+let coordinatorInstance: RegenerationCoordinator | null = null;
+
+export function getRegenerationCoordinator(): RegenerationCoordinator {
+  if (!coordinatorInstance) {
+    coordinatorInstance = createRegenerationCoordinator();
+  }
+  return coordinatorInstance;
+}
+
+// Export types and implementations
+export type { RegenerationCoordinator, RegenerationStatus, RegenerationTask } from "./coordinator.interface";
+export { InMemoryCoordinator, RedisCoordinator };
@@ -0,0 +1,72 @@
+import type { RegenerationCoordinator, RegenerationStatus, RegenerationTask } from "./coordinator.interface";
+
+interface Lease {
+  token: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory regeneration coordinator
+ * Only coordinates work within a single process
+ */
+export class InMemoryCoordinator implements RegenerationCoordinator {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private leases: Map<string, Lease> = new Map();
+  private fencingTokens: Map<string, number> = new Map();
+
+  async debounce(sessionId: string, delayMs: number, task: RegenerationTask): Promise<void> {
+    const existingTimer = this.timers.get(sessionId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(() => {
+      // A newer call may have replaced this timer while the task was queued
+      if (this.timers.get(sessionId) === timer) {
+        this.timers.delete(sessionId);
+      }
+
+      task().catch((error) => {
+        console.error(`[QueueRegen] Debounced task failed for session ${sessionId}:`, error);
+      });
+    }, delayMs);
+
+    this.timers.set(sessionId, timer);
+  }
+
+  async cancel(sessionId: string): Promise<void> {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  async acquireLock(sessionId: string, ttlMs: number): Promise<number | null> {
+    const lease = this.leases.get(sessionId);
+    if (lease && lease.expiresAt > Date.now()) {
+      return null;
+    }
+
+    const token = (this.fencingTokens.get(sessionId) ?? 0) + 1;
+    this.fencingTokens.set(sessionId, token);
+    this.leases.set(sessionId, { token, expiresAt: Date.now() + ttlMs });
+
+    return token;
+  }
+
+  async releaseLock(sessionId: string, token: number): Promise<void> {
+    if (this.leases.get(sessionId)?.token === token) {
+      this.leases.delete(sessionId);
+    }
+  }
+
+  async getStatus(sessionId: string): Promise<RegenerationStatus> {
+    const lease = this.leases.get(sessionId);
+
+    return {
+      isPending: this.timers.has(sessionId),
+      isLocked: !!lease && lease.expiresAt > Date.now(),
+    };
+  }
+}
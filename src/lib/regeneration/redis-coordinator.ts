@@ -0,0 +1,124 @@
+import Redis from "ioredis";
+import { randomUUID } from "crypto";
+import type { RegenerationCoordinator, RegenerationStatus, RegenerationTask } from "./coordinator.interface";
+
+/**
+ * Delete a key only if it still holds the expected value
+ * KEYS[1] = key, ARGV[1] = expected value
+ * Returns 1 if the key was deleted, 0 otherwise
+ */
+const DELETE_IF_MATCH_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis regeneration coordinator
+ * Shares debounce and lease state between app instances. Timers stay local to
+ * each instance; the pending key records which trigger is the most recent, and
+ * only the instance holding that trigger runs the task.
+ */
+export class RedisCoordinator implements RegenerationCoordinator {
+  private redis: Redis;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly pendingPrefix = "regen:pending:";
+  private readonly lockPrefix = "regen:lock:";
+  private readonly fencePrefix = "regen:fence:";
+  private readonly pendingGraceMs = 5000; // Keeps the pending key alive while timers fire
+  private readonly fenceTtl = 60 * 60 * 24 * 7; // 7 days, refreshed on every acquisition
+
+  constructor(redisUrl?: string) {
+    this.redis = new Redis(redisUrl || process.env.REDIS_URL || "redis://localhost:6379", {
+      maxRetriesPerRequest: 3,
+    });
+
+    this.redis.on("error", (err) => {
+      console.error("[QueueRegen] Redis error:", err);
+    });
+  }
+
+  async debounce(sessionId: string, delayMs: number, task: RegenerationTask): Promise<void> {
+    const ticket = randomUUID();
+    const pendingKey = this.pendingPrefix + sessionId;
+
+    // Supersede triggers made on any instance
+    await this.redis.set(pendingKey, ticket, "PX", delayMs + this.pendingGraceMs);
+
+    const existingTimer = this.timers.get(sessionId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(async () => {
+      if (this.timers.get(sessionId) === timer) {
+        this.timers.delete(sessionId);
+      }
+
+      try {
+        // Claim the trigger; fails if another instance triggered again since
+        const claimed = await this.redis.eval(DELETE_IF_MATCH_SCRIPT, 1, pendingKey, ticket);
+        if (claimed !== 1) {
+          console.log(`[QueueRegen] Trigger for session ${sessionId} superseded, skipping`);
+          return;
+        }
+
+        await task();
+      } catch (error) {
+        console.error(`[QueueRegen] Debounced task failed for session ${sessionId}:`, error);
+      }
+    }, delayMs);
+
+    this.timers.set(sessionId, timer);
+  }
+
+  async cancel(sessionId: string): Promise<void> {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+
+    await this.redis.del(this.pendingPrefix + sessionId);
+  }
+
+  async acquireLock(sessionId: string, ttlMs: number): Promise<number | null> {
+    const fenceKey = this.fencePrefix + sessionId;
+
+    // Tokens burnt by failed acquisitions are harmless, they only need to increase
+    const token = await this.redis.incr(fenceKey);
+    await this.redis.expire(fenceKey, this.fenceTtl);
+
+    const acquired = await this.redis.set(this.lockPrefix + sessionId, String(token), "PX", ttlMs, "NX");
+
+    return acquired === "OK" ? token : null;
+  }
+
+  async releaseLock(sessionId: string, token: number): Promise<void> {
+    await this.redis.eval(DELETE_IF_MATCH_SCRIPT, 1, this.lockPrefix + sessionId, String(token));
+  }
+
+  async getStatus(sessionId: string): Promise<RegenerationStatus> {
+    const [isPending, isLocked] = await Promise.all([
+      this.redis.exists(this.pendingPrefix + sessionId),
+      this.redis.exists(this.lockPrefix + sessionId),
+    ]);
+
+    return {
+      isPending: isPending === 1,
+      isLocked: isLocked === 1,
+    };
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async disconnect(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await this.redis.quit();
+  }
+}
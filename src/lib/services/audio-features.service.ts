@@ -0,0 +1,59 @@
+import { SpotifyService } from "./spotify.service";
+import type { AudioFeatures } from "@/types";
+
+/**
+ * Source of audio features for tracks
+ * Implementations return whatever features they have; missing tracks are
+ * simply absent from the result, so scoring can degrade gracefully
+ */
+export interface AudioFeaturesProvider {
+  getFeatures(trackIds: string[]): Promise<Map<string, AudioFeatures>>;
+}
+
+/**
+ * Audio features from the Spotify Web API
+ * The endpoint is restricted for some apps, in which case no features are returned
+ */
+export class SpotifyAudioFeaturesProvider implements AudioFeaturesProvider {
+  private spotifyService: SpotifyService;
+
+  constructor(accessToken: string) {
+    this.spotifyService = new SpotifyService(accessToken);
+  }
+
+  async getFeatures(trackIds: string[]): Promise<Map<string, AudioFeatures>> {
+    const featuresById = new Map<string, AudioFeatures>();
+    if (trackIds.length === 0) return featuresById;
+
+    try {
+      const features = await this.spotifyService.getAudioFeatures(trackIds);
+      for (const f of features) {
+        featuresById.set(f.id, f);
+      }
+    } catch (error) {
+      console.warn("Audio features unavailable, scoring without them:", error);
+    }
+
+    return featuresById;
+  }
+}
+
+/**
+ * Audio features from a fixed set (fixtures, cached data)
+ */
+export class StaticAudioFeaturesProvider implements AudioFeaturesProvider {
+  private features: Map<string, AudioFeatures>;
+
+  constructor(features: AudioFeatures[]) {
+    this.features = new Map(features.map((f) => [f.id, f]));
+  }
+
+  async getFeatures(trackIds: string[]): Promise<Map<string, AudioFeatures>> {
+    const featuresById = new Map<string, AudioFeatures>();
+    for (const id of trackIds) {
+      const f = this.features.get(id);
+      if (f) featuresById.set(id, f);
+    }
+    return featuresById;
+  }
+}
@@ -0,0 +1,273 @@
+import type { SpotifyService } from "./spotify.service";
+import type { CandidateSource, Session, SessionProfile, Track } from "@/types";
+
+/**
+ * What a candidate provider needs to look for tracks
+ */
+export interface CandidateContext {
+  spotify: SpotifyService;
+  session: Session;
+  profile: SessionProfile;
+  market: string;
+}
+
+/**
+ * Pluggable source of queue candidates
+ * Providers return up to `count` tracks; duplicates across providers and
+ * tracks already queued or played are filtered by the caller
+ */
+export interface CandidateProvider {
+  source: CandidateSource;
+  getCandidates(context: CandidateContext, count: number): Promise<Track[]>;
+}
+
+// Roughly how many usable tracks one artist or genre lookup yields
+const TRACKS_PER_LOOKUP = 8;
+
+/**
+ * Top tracks of the common artists, topped up with each participant's
+ * favourite artists
+ */
+export class ArtistTopTracksProvider implements CandidateProvider {
+  source = "artist-top-tracks" as const;
+
+  async getCandidates({ spotify, profile, market }: CandidateContext, count: number): Promise<Track[]> {
+    const artistIds = selectArtists(profile).slice(0, Math.ceil(count / TRACKS_PER_LOOKUP));
+    const tracks: Track[] = [];
+
+    for (const artistId of artistIds) {
+      try {
+        tracks.push(...await spotify.searchTracksByArtist(artistId, 10, market));
+      } catch (error) {
+        console.error(`Failed to get tracks for artist ${artistId}:`, error);
+      }
+    }
+
+    return shuffleArray(tracks).slice(0, count);
+  }
+}
+
+/**
+ * Search results for the common genres, falling back to participants' top genres
+ */
+export class GenreSearchProvider implements CandidateProvider {
+  source = "genre-search" as const;
+
+  async getCandidates({ spotify, profile, market }: CandidateContext, count: number): Promise<Track[]> {
+    const genres = profile.commonGenres.length > 0
+      ? profile.commonGenres
+      : Array.from(new Set(profile.tasteProfiles.flatMap((p) => p.topGenres.slice(0, 2))));
+    const selected = genres.slice(0, Math.ceil(count / TRACKS_PER_LOOKUP));
+    if (selected.length === 0) return [];
+
+    const perGenre = Math.ceil(count / selected.length);
+    const tracks: Track[] = [];
+
+    for (const genre of selected) {
+      try {
+        tracks.push(...await spotify.searchTracksByGenre(genre, perGenre, market));
+      } catch (error) {
+        console.error(`Failed to search tracks for genre ${genre}:`, error);
+      }
+    }
+
+    return shuffleArray(tracks).slice(0, count);
+  }
+}
+
+/**
+ * Album tracks of the common artists that are not among their hits
+ */
+export class AlbumDeepCutsProvider implements CandidateProvider {
+  source = "album-deep-cuts" as const;
+
+  async getCandidates({ spotify, profile, market }: CandidateContext, count: number): Promise<Track[]> {
+    const artistIds = selectArtists(profile).slice(0, Math.ceil(count / TRACKS_PER_LOOKUP));
+    const trackIds: string[] = [];
+
+    for (const artistId of artistIds) {
+      try {
+        const [albumId] = shuffleArray(await spotify.getArtistAlbumIds(artistId, 10, market));
+        if (!albumId) continue;
+
+        // Skip the opener, which is most often the single
+        const albumTrackIds = await spotify.getAlbumTrackIds(albumId, market);
+        trackIds.push(...shuffleArray(albumTrackIds.slice(1)).slice(0, TRACKS_PER_LOOKUP));
+      } catch (error) {
+        console.error(`Failed to get album tracks for artist ${artistId}:`, error);
+      }
+    }
+
+    if (trackIds.length === 0) return [];
+    return spotify.getTracks(trackIds.slice(0, count), market);
+  }
+}
+
+/**
+ * Participants' own top tracks, taken evenly from each participant
+ */
+export class ParticipantTopTracksProvider implements CandidateProvider {
+  source = "participant-top-tracks" as const;
+
+  async getCandidates({ spotify, profile, market }: CandidateContext, count: number): Promise<Track[]> {
+    const perParticipant = profile.tasteProfiles.map((p) => shuffleArray(p.topTracks));
+    const trackIds = new Set<string>();
+
+    for (let i = 0; trackIds.size < count && perParticipant.some((ids) => i < ids.length); i++) {
+      for (const ids of perParticipant) {
+        if (ids[i] && trackIds.size < count) trackIds.add(ids[i]);
+      }
+    }
+
+    if (trackIds.size === 0) return [];
+    return spotify.getTracks(Array.from(trackIds), market);
+  }
+}
+
+/**
+ * Top tracks of artists related to the artists the session liked
+ */
+export class LikedNeighboursProvider implements CandidateProvider {
+  source = "liked-neighbours" as const;
+
+  async getCandidates({ spotify, session, market }: CandidateContext, count: number): Promise<Track[]> {
+    const likedArtistIds = Array.from(new Set(
+      (session.feedback ?? [])
+        .filter((entry) => entry.kind === "like")
+        .reverse() // Most recent likes first
+        .flatMap((entry) => entry.artistIds)
+    ));
+    const lookups = Math.ceil(count / TRACKS_PER_LOOKUP);
+    const tracks: Track[] = [];
+
+    for (const artistId of likedArtistIds.slice(0, lookups)) {
+      try {
+        const [neighbour] = shuffleArray(await spotify.getRelatedArtists(artistId));
+        if (!neighbour) continue;
+        tracks.push(...await spotify.searchTracksByArtist(neighbour.id, TRACKS_PER_LOOKUP, market));
+      } catch (error) {
+        console.error(`Failed to get liked-track neighbours for artist ${artistId}:`, error);
+      }
+    }
+
+    return shuffleArray(tracks).slice(0, count);
+  }
+}
+
+/**
+ * Tracks of the playlist the session was seeded from, if any
+ */
+export class SeedPlaylistProvider implements CandidateProvider {
+  source = "seed-playlist" as const;
+
+  async getCandidates({ spotify, session, market }: CandidateContext, count: number): Promise<Track[]> {
+    const trackIds = shuffleArray(session.seedPlaylist?.trackIds ?? []).slice(0, count);
+    if (trackIds.length === 0) return [];
+
+    return spotify.getTracks(trackIds, market);
+  }
+}
+
+/**
+ * The default candidate pipeline
+ */
+export function createDefaultCandidateProviders(): CandidateProvider[] {
+  return [
+    new ArtistTopTracksProvider(),
+    new GenreSearchProvider(),
+    new AlbumDeepCutsProvider(),
+    new ParticipantTopTracksProvider(),
+    new LikedNeighboursProvider(),
+    new SeedPlaylistProvider(),
+  ];
+}
+
+/**
+ * Collect candidates from every provider, mixed by the quotas
+ * Each source gets its share of `count` (by relative quota), and sources that
+ * come up short leave their slots to the others' remaining tracks
+ */
+export async function collectCandidates(
+  providers: CandidateProvider[],
+  quotas: Partial<Record<CandidateSource, number>>,
+  context: CandidateContext,
+  count: number
+): Promise<Track[]> {
+  const active = providers.filter((p) => (quotas[p.source] ?? 0) > 0);
+  const totalQuota = active.reduce((sum, p) => sum + (quotas[p.source] ?? 0), 0);
+  if (totalQuota === 0) return [];
+
+  const shares = active.map((p) => Math.round((count * (quotas[p.source] ?? 0)) / totalQuota));
+
+  // Ask every source for more than its share so shortfalls can be filled
+  const results = await Promise.all(
+    active.map(async (provider, i) => {
+      try {
+        return (await provider.getCandidates(context, shares[i] * 2)) ?? [];
+      } catch (error) {
+        console.error(`[Candidates] Source ${provider.source} failed:`, error);
+        return [];
+      }
+    })
+  );
+
+  const seen = new Set<string>();
+  const unique = results.map((tracks) =>
+    tracks.filter((track) => {
+      if (seen.has(track.id)) return false;
+      seen.add(track.id);
+      return true;
+    })
+  );
+
+  const selected = unique.flatMap((tracks, i) => tracks.slice(0, shares[i]));
+  const leftovers = shuffleArray(unique.flatMap((tracks, i) => tracks.slice(shares[i])));
+  const mixed = [...selected, ...leftovers].slice(0, count);
+
+  console.log(
+    `[Candidates] Collected ${mixed.length} candidates (${active
+      .map((p, i) => `${p.source}: ${unique[i].length}`)
+      .join(", ")})`
+  );
+
+  return shuffleArray(mixed);
+}
+
+/**
+ * Select artists to fetch tracks from
+ * Prioritizes common artists, then adds unique artists from each user
+ */
+function selectArtists(profile: SessionProfile): string[] {
+  const artists: string[] = [];
+
+  // Prioritize common artists
+  artists.push(...profile.commonArtists.slice(0, 10));
+
+  // Add unique artists from each user
+  if (artists.length < 15) {
+    for (const tasteProfile of profile.tasteProfiles) {
+      const uniqueArtists = tasteProfile.topArtists
+        .map((a) => a.id)
+        .filter((id) => !artists.includes(id));
+
+      // Add multiple unique artists per user
+      artists.push(...uniqueArtists.slice(0, 3));
+
+      if (artists.length >= 15) break;
+    }
+  }
+
+  return artists.slice(0, 15);
+}
+
+/**
+ * Shuffle array using Fisher-Yates algorithm
+ */
+function shuffleArray<T>(array: T[]): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
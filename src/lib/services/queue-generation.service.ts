@@ -1,21 +1,53 @@
-import { SpotifyService } from "./spotify.service";
-import { scoreTracks, sortByScore } from "../algorithm/scoring";
-import type { Session, Track, QueueItem, TasteProfile } from "@/types";
+import { SpotifyService, DEFAULT_MARKET } from "./spotify.service";
+import { SpotifyAudioFeaturesProvider, type AudioFeaturesProvider } from "./audio-features.service";
+import { collectCandidates, createDefaultCandidateProviders, type CandidateProvider } from "./candidate-sources";
+import { scoreTracks, sortByScore, DEFAULT_AUDIO_FEATURE_WEIGHT, type AudioFeatureScoring } from "../algorithm/scoring";
+import { buildSessionFeatureTarget } from "../algorithm/audio-features";
+import { sequenceTracks } from "../algorithm/sequencing";
+import { calculateAirtimeShares } from "../algorithm/fairness";
+import { buildFeedbackWeights } from "../algorithm/feedback";
+import { tallyQueueVotes } from "../algorithm/queue-votes";
+import { DEFAULT_CANDIDATE_QUOTAS, DEFAULT_ENERGY_ARC } from "../constants";
+import type { Session, Track, QueueItem, QueueVote, TasteProfile, AudioFeatures, EnergyArc } from "@/types";
+
+const STABLE_TRACK_COUNT = 3;
 
 /**
  * Service for generating music queues based on session taste profile
- * Fetches top tracks from common artists and blends them using scoring algorithm
+ * Mixes candidates from several sources and blends them using scoring algorithm
  */
 export class QueueGenerationService {
   private spotifyService: SpotifyService;
-
-  constructor(accessToken: string) {
+  private featuresProvider: AudioFeaturesProvider;
+  private candidateProviders: CandidateProvider[];
+
+  constructor(
+    accessToken: string,
+    featuresProvider?: AudioFeaturesProvider,
+    candidateProviders?: CandidateProvider[]
+  ) {
     this.spotifyService = new SpotifyService(accessToken);
+    this.featuresProvider = featuresProvider ?? new SpotifyAudioFeaturesProvider(accessToken);
+    this.candidateProviders = candidateProviders ?? createDefaultCandidateProviders();
+  }
+
+  /**
+   * Look up the market of the token's account (the host's, for sessions)
+   * Returns null when Spotify doesn't say, so callers keep the default
+   */
+  async detectMarket(): Promise<string | null> {
+    try {
+      return await this.spotifyService.getUserMarket();
+    } catch (error) {
+      console.error("Failed to detect Spotify market:", error);
+      return null;
+    }
   }
 
   /**
    * Generate a queue for the session
-   * Returns 10 tracks optimized for the group's taste
+   * Returns 10 tracks optimized for the group's taste, steered by the winner
+   * of the latest room poll when there is one
    */
   async generateQueue(
     session: Session,
@@ -25,163 +57,229 @@ export class QueueGenerationService {
       throw new Error("Session profile not generated");
     }
 
-    const { commonArtists, commonGenres, tasteProfiles } = session.profile;
+    const { commonGenres, tasteProfiles, seedProfile } = session.profile;
+    const vibe = session.vibeBias;
+
+    // A seed playlist is scored like another participant, but never credited
+    const scoringProfiles = seedProfile ? [...tasteProfiles, seedProfile] : tasteProfiles;
 
-    // 1. Get candidate tracks from Spotify recommendations
+    // 1. Get candidate tracks from the candidate sources
     const candidates = await this.getCandidateTracks(
-      commonArtists,
-      commonGenres,
-      tasteProfiles,
+      session,
       targetSize * 2 // Get 2x candidates for selection (reduced from 3x for efficiency)
     );
 
-    // 2. Remove duplicates (already in queue, played recently, or already played)
+    // 2. Remove duplicates (already in queue, played recently, or already played).
+    //    A track the room voted for is placed separately below
+    const votedTrack = vibe?.kind === "track" ? vibe.track : undefined;
     const existingTrackIds = new Set(session.queue.map((q) => q.track.id));
     const playedTrackIds = new Set(session.playedTracks || []);
     const newCandidates = candidates.filter(
-      (t) => !existingTrackIds.has(t.id) && !playedTrackIds.has(t.id)
+      (t) => !existingTrackIds.has(t.id) && !playedTrackIds.has(t.id) && t.id !== votedTrack?.id
     );
 
     console.log(`Filtered out ${candidates.length - newCandidates.length} duplicate/played tracks`);
 
-    // 3. Score and rank tracks
+    // A track the room voted for leads the generated tracks, unless it has
+    // played or is already coming up in the stable window. If it is further
+    // down the queue it moves up, keeping whoever added it
+    const stableItems = session.queue.slice(0, STABLE_TRACK_COUNT);
+    const queuedVotedItem = session.queue
+      .slice(STABLE_TRACK_COUNT)
+      .find((item) => item.track.id === votedTrack?.id);
+    const leadingTracks = votedTrack &&
+      !playedTrackIds.has(votedTrack.id) &&
+      !stableItems.some((item) => item.track.id === votedTrack.id)
+      ? [votedTrack]
+      : [];
+
+    // 3. Look up audio features (may be unavailable) and match against the session's sound
+    const featureTrackIds = new Set([
+      ...scoringProfiles.flatMap((profile) => profile.topTracks),
+      ...newCandidates.map((track) => track.id),
+      ...stableItems.map((item) => item.track.id),
+      ...leadingTracks.map((track) => track.id),
+    ]);
+    const features = await this.featuresProvider.getFeatures(Array.from(featureTrackIds));
+    const audioScoring = this.getAudioFeatureScoring(scoringProfiles, features);
+
+    // 4. Score and rank tracks, favouring participants short of airtime lately
+    //    and artists/genres the session has liked rather than skipped
+    const airtimeShares = calculateAirtimeShares(
+      session.recentPlays ?? [],
+      tasteProfiles.map((profile) => profile.userId)
+    );
     const scored = scoreTracks(
       newCandidates,
-      tasteProfiles,
+      scoringProfiles,
       commonGenres,
       session.votes.like,
-      session.queue.slice(-5).map((q) => q.track) // Last 5 tracks for diversity check
+      session.queue.slice(-5).map((q) => q.track), // Last 5 tracks for diversity check
+      {
+        audio: audioScoring,
+        airtimeShares,
+        feedback: buildFeedbackWeights(session.feedback ?? []),
+        vibeGenre: vibe?.kind === "genre" ? vibe.genre : undefined,
+      }
     );
 
-    // 4. Sort by score and take top N
+    // 5. Sort by score and take top N
     const sorted = sortByScore(scored);
-    const topTracks = sorted.slice(0, targetSize).map((s) => s.track);
+    const topScored = sorted.slice(0, Math.max(0, targetSize - leadingTracks.length));
+    const topTracks = topScored.map((s) => s.track);
+    const matchedUserIds = new Map(topScored.map((s) => [
+      s.track.id,
+      s.matchedUserIds.filter((userId) => userId !== seedProfile?.userId),
+    ]));
+    const scores = new Map(topScored.map((s) => [s.track.id, s.score]));
+
+    // 6. Order the tracks after the stable window along the host's energy arc,
+    //    or the arc the room voted for
+    const arc = (vibe?.kind === "energy-arc" ? vibe.energyArc : undefined) ??
+      session.settings.energyArc ?? DEFAULT_ENERGY_ARC;
+    const sequencedTracks = [
+      ...leadingTracks,
+      ...this.sequenceAfterStable(
+        topTracks,
+        [...stableItems.map((item) => item.track), ...leadingTracks],
+        features,
+        arc
+      ),
+    ];
 
-    // 5. Convert to QueueItems
-    const queueItems: QueueItem[] = topTracks.map((track, index) => ({
+    // 7. Convert to QueueItems
+    const queueItems: QueueItem[] = sequencedTracks.map((track, index) => ({
       track,
       position: session.queue.length + index,
-      addedBy: "algorithm",
+      addedBy: track.id === queuedVotedItem?.track.id ? queuedVotedItem.addedBy : "algorithm",
       addedAt: Date.now(),
       isStable: index < 3, // First 3 are stable
+      matchedUserIds: matchedUserIds.get(track.id),
+      score: scores.get(track.id),
     }));
 
     return queueItems;
   }
 
   /**
-   * Get candidate tracks from Spotify by fetching top tracks from common artists
-   * Strategy: Fetch top tracks from selected artists and shuffle for variety
+   * Get candidate tracks from the candidate sources, mixed by the host's quotas
+   * and looked up in the session's market
    */
-  private async getCandidateTracks(
-    commonArtists: string[],
-    commonGenres: string[],
-    tasteProfiles: TasteProfile[],
-    count: number
-  ): Promise<Track[]> {
-    const allTracks: Track[] = [];
-
-    // Select artists based on common artists and user profiles
-    const selectedArtists = this.selectArtists(commonArtists, tasteProfiles);
-
-    console.log(`Fetching top tracks from ${selectedArtists.length} artists`);
-
-    // Fetch top tracks from each selected artist
-    // We'll fetch from enough artists to get the desired count
-    const artistsToFetch = Math.min(selectedArtists.length, Math.ceil(count / 8)); // ~8 tracks per artist
-
-    for (let i = 0; i < artistsToFetch; i++) {
-      const artistId = selectedArtists[i];
-      try {
-        const tracks = await this.spotifyService.searchTracksByArtist(artistId, 10);
-        allTracks.push(...tracks);
-        console.log(`Got ${tracks.length} top tracks from artist ${artistId} (${i + 1}/${artistsToFetch})`);
-      } catch (error) {
-        console.error(`Failed to get tracks for artist ${artistId}:`, error);
+  private async getCandidateTracks(session: Session, count: number): Promise<Track[]> {
+    if (!session.profile) return [];
+
+    // A genre the room voted for is searched first
+    const vibe = session.vibeBias;
+    const profile = vibe?.kind === "genre" && vibe.genre
+      ? {
+        ...session.profile,
+        commonGenres: [vibe.genre, ...session.profile.commonGenres.filter((genre) => genre !== vibe.genre)],
       }
-    }
+      : session.profile;
 
-    // Shuffle tracks to mix variety from different artists
-    const shuffled = this.shuffleArray(allTracks);
-
-    console.log(`Successfully collected ${shuffled.length} candidate tracks from ${artistsToFetch} artists`);
-    return shuffled.slice(0, count);
-  }
-
-  /**
-   * Shuffle array using Fisher-Yates algorithm
-   */
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    const quotas = { ...DEFAULT_CANDIDATE_QUOTAS, ...session.settings.candidateQuotas };
+    if (!session.seedPlaylist) {
+      // Without a seed playlist its share goes to the other sources
+      quotas["seed-playlist"] = 0;
     }
-    return shuffled;
+    const context = {
+      spotify: this.spotifyService,
+      session,
+      profile,
+      market: session.market ?? DEFAULT_MARKET,
+    };
+
+    return collectCandidates(this.candidateProviders, quotas, context, count);
   }
 
   /**
-   * Chunk array into smaller arrays
+   * Build audio feature scoring from participants' top tracks
+   * Returns undefined when no features are available, so scoring skips them
    */
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
+  private getAudioFeatureScoring(
+    tasteProfiles: TasteProfile[],
+    features: Map<string, AudioFeatures>
+  ): AudioFeatureScoring | undefined {
+    const target = buildSessionFeatureTarget(tasteProfiles, features);
+
+    if (!target) {
+      console.log("No audio features for participants' top tracks, scoring without them");
+      return undefined;
     }
-    return chunks;
+
+    console.log(`Scoring with audio features (${features.size} tracks known)`);
+    return { target, features, weight: DEFAULT_AUDIO_FEATURE_WEIGHT };
   }
 
   /**
-   * Select artists to fetch tracks from
-   * Prioritizes common artists, then adds unique artists from each user
+   * Sequence the generated tracks that will land after the stable window
+   * Tracks filling empty stable slots keep their score order; the rest follow
+   * the energy arc, continuing smoothly from the last stable track
    */
-  private selectArtists(
-    commonArtists: string[],
-    tasteProfiles: TasteProfile[]
-  ): string[] {
-    const artists: string[] = [];
-
-    // Prioritize common artists (take up to 10 for single-user, scales down with more users)
-    if (commonArtists.length > 0) {
-      artists.push(...commonArtists.slice(0, 10));
-    }
-
-    // Add unique artists from each user
-    if (artists.length < 15) {
-      for (const profile of tasteProfiles) {
-        const uniqueArtists = profile.topArtists
-          .map((a) => a.id)
-          .filter((id) => !artists.includes(id));
-
-        // Add multiple unique artists per user
-        const artistsToAdd = uniqueArtists.slice(0, 3);
-        artists.push(...artistsToAdd);
-
-        if (artists.length >= 15) break;
-      }
-    }
-
-    return artists.slice(0, 15);
+  private sequenceAfterStable(
+    tracks: Track[],
+    stableTracks: Track[],
+    features: Map<string, AudioFeatures>,
+    arc: EnergyArc
+  ): Track[] {
+    const stableFill = tracks.slice(0, Math.max(0, STABLE_TRACK_COUNT - stableTracks.length));
+    const rest = tracks.slice(stableFill.length);
+
+    const lastStable = stableFill.length > 0
+      ? stableFill[stableFill.length - 1]
+      : stableTracks[stableTracks.length - 1];
+
+    return [
+      ...stableFill,
+      ...sequenceTracks(
+        rest,
+        features,
+        arc,
+        lastStable ? features.get(lastStable.id) : undefined
+      ),
+    ];
   }
 
-
   /**
    * Merge new queue with stable tracks from existing queue
-   * Always ensures first 3 tracks are marked as stable
+   * Always ensures first 3 tracks are marked as stable. Upcoming tracks people
+   * picked (added by hand, approved requests or voted up) keep their place
+   * ahead of the new tracks, unless the new queue places them itself, in which
+   * case they keep who added them. New tracks already in the stable window
+   * are dropped
    */
   mergeWithStableQueue(
     existingQueue: QueueItem[],
-    newQueue: QueueItem[]
+    newQueue: QueueItem[],
+    votes: QueueVote[] = []
   ): QueueItem[] {
     // Take up to first 3 tracks from existing queue
     const stableTracks = existingQueue.slice(0, 3);
 
+    // Keep upcoming tracks that didn't come from the algorithm or the room wants
+    const tallies = tallyQueueVotes(votes);
+    const pickedTracks = new Map(
+      existingQueue
+        .slice(3)
+        .filter((item) => item.addedBy !== "algorithm" || (tallies.get(item.track.id)?.net ?? 0) > 0)
+        .map((item) => [item.track.id, item])
+    );
+    const newTrackIds = new Set(newQueue.map((item) => item.track.id));
+    const keptTracks = Array.from(pickedTracks.values())
+      .filter((item) => !newTrackIds.has(item.track.id));
+
+    // A picked track the new queue brings back takes the new place, not the credit
+    const stableTrackIds = new Set(stableTracks.map((item) => item.track.id));
+    const freshQueue = newQueue
+      .filter((item) => !stableTrackIds.has(item.track.id))
+      .map((item) => pickedTracks.get(item.track.id) ?? item);
+
     // Calculate how many new tracks we need to fill the stable window
     const neededForStable = Math.max(0, 3 - stableTracks.length);
 
     // Split new queue into stable fill and remaining
-    const stableFill = newQueue.slice(0, neededForStable);
-    const remainingNew = newQueue.slice(neededForStable);
+    const stableFill = freshQueue.slice(0, neededForStable);
+    const remainingNew = freshQueue.slice(neededForStable);
 
     // Mark first 3 tracks (from existing + new) as stable
     const merged = [
@@ -195,11 +293,16 @@ export class QueueGenerationService {
         position: stableTracks.length + index,
         isStable: true,
       })),
-      ...remainingNew.map((item, index) => ({
+      ...keptTracks.map((item, index) => ({
         ...item,
         position: stableTracks.length + stableFill.length + index,
         isStable: false,
       })),
+      ...remainingNew.map((item, index) => ({
+        ...item,
+        position: stableTracks.length + stableFill.length + keptTracks.length + index,
+        isStable: false,
+      })),
     ];
 
     return merged;
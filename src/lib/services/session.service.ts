@@ -1,11 +1,25 @@
-import { Session, Participant, SessionSettings } from "@/types";
+import { Session, Participant, SessionSettings, SessionProfile, ParticipantAirtime, QueueItem, SeedPlaylist, SessionSnapshot, Track } from "@/types";
 import { SessionStore } from "../session/store.interface";
+import { getTokenVault } from "../session";
 import { generateSessionCode } from "../utils/session-code";
 import { logErrorDetails } from "../utils/api-error-handler";
 import { nanoid } from "nanoid";
 import { TasteAnalysisService } from "./taste-analysis.service";
 import { QueueGenerationService } from "./queue-generation.service";
-import { MAX_QUEUE_SIZE } from "../constants";
+import { SpotifyService } from "./spotify.service";
+import {
+  MAX_QUEUE_SIZE,
+  DEFAULT_PROFILE_DEPTH,
+  SEED_PLAYLIST_MAX_TRACKS,
+  SEED_PLAYLIST_QUEUE_TRACKS,
+  DEFAULT_SKIP_THRESHOLD_MODE,
+  DEFAULT_SKIP_THRESHOLD_PERCENT,
+} from "../constants";
+import { calculateAirtimeShares } from "../algorithm/fairness";
+import { closeSession } from "../session-lifecycle";
+import { buildSeedPlaylist, buildSeedTasteProfile } from "../utils/playlist-seed";
+import { rankSessionQueue } from "../utils/queue";
+import { createSessionSnapshot } from "../session/snapshot";
 
 /**
  * Service for managing sessions
@@ -14,6 +28,7 @@ export class SessionService {
   private store: SessionStore;
   private tasteAnalysisService: TasteAnalysisService;
   private queueGenerationService: QueueGenerationService;
+  private spotifyService: SpotifyService;
   private accessToken: string;
 
   constructor(store: SessionStore, accessToken: string) {
@@ -21,10 +36,13 @@ export class SessionService {
     this.accessToken = accessToken;
     this.tasteAnalysisService = new TasteAnalysisService(accessToken);
     this.queueGenerationService = new QueueGenerationService(accessToken);
+    this.spotifyService = new SpotifyService(accessToken);
   }
 
   /**
    * Create a new session
+   * With a seed playlist, its first tracks start the queue straight away and
+   * the playlist joins the taste profile
    */
   async createSession(
     hostId: string,
@@ -32,6 +50,7 @@ export class SessionService {
     options?: {
       settings?: Partial<SessionSettings>;
       customCode?: string; // Optional custom join code (premium feature)
+      seedPlaylistId?: string; // Spotify playlist to seed the queue from
     }
   ): Promise<Session> {
     const sessionId = nanoid();
@@ -49,9 +68,15 @@ export class SessionService {
       code = await this.generateUniqueCode();
     }
 
+    const seeded = options?.seedPlaylistId
+      ? await this.loadSeedPlaylist(options.seedPlaylistId, hostId)
+      : null;
+
     const defaultSettings: SessionSettings = {
       voteToSkip: true,
-      skipThreshold: Math.ceil(1 / 2), // 50% of participants
+      skipThreshold: 1, // Only used in "count" mode
+      skipThresholdMode: DEFAULT_SKIP_THRESHOLD_MODE,
+      skipThresholdPercent: DEFAULT_SKIP_THRESHOLD_PERCENT,
       ...options?.settings,
     };
 
@@ -69,8 +94,9 @@ export class SessionService {
       hostId,
       participants: [host],
       djs: [hostId],
+      deviceOwnerId: hostId,
       settings: defaultSettings,
-      queue: [],
+      queue: seeded ? this.createSeedQueue(seeded.tracks, hostId) : [],
       playedTracks: [],
       votes: {
         skip: [],
@@ -79,8 +105,10 @@ export class SessionService {
       createdAt: Date.now(),
       updatedAt: Date.now(),
       lastParticipantChange: Date.now(),
+      seedPlaylist: seeded?.seed,
     };
 
+    // A fresh ID, so nothing else can be writing this session yet
     await this.store.set(sessionId, session);
 
     // Generate initial profile and queue in background
@@ -93,48 +121,63 @@ export class SessionService {
   }
 
   /**
-   * Join an existing session
+   * Export a session as a portable snapshot (host only)
    */
-  async joinSession(
-    code: string,
-    userId: string,
-    userName: string
-  ): Promise<Session> {
-    const session = await this.store.getByCode(code);
+  async exportSession(sessionId: string, userId: string): Promise<SessionSnapshot> {
+    const session = await this.store.get(sessionId);
 
     if (!session) {
       throw new Error("Session not found");
     }
 
-    // Check if user is already in session
-    const existingParticipant = session.participants.find(
-      (p) => p.userId === userId
-    );
-
-    if (existingParticipant) {
-      return session;
+    if (session.hostId !== userId) {
+      throw new Error("Only the host can export the session");
     }
 
-    // Add participant
-    const participant: Participant = {
-      userId,
-      name: userName,
-      joinedAt: Date.now(),
-      isHost: false,
-      isDJ: false,
-    };
+    return createSessionSnapshot(session);
+  }
 
-    session.participants.push(participant);
-    session.updatedAt = Date.now();
-    session.lastParticipantChange = Date.now();
+  /**
+   * Recreate a session from a snapshot under a new ID and code
+   * The importing user is its only participant, host, DJ and device owner.
+   * A snapshot can list anyone, and listed participants would have their taste
+   * read with their own stored tokens, so everyone else rejoins by code and the
+   * taste profile is rebuilt from who is actually there.
+   */
+  async importSession(
+    snapshot: SessionSnapshot,
+    userId: string,
+    userName: string
+  ): Promise<Session> {
+    const imported = structuredClone(snapshot.session);
+    const now = Date.now();
 
-    // Update skip threshold based on new participant count
-    if (session.settings.voteToSkip) {
-      session.settings.skipThreshold = Math.ceil(
-        session.participants.length / 2
-      );
-    }
+    const session: Session = {
+      ...imported,
+      id: nanoid(),
+      code: await this.generateUniqueCode(),
+      hostId: userId,
+      participants: [{
+        userId,
+        name: userName,
+        joinedAt: now,
+        isHost: true,
+        isDJ: true,
+      }],
+      djs: [userId],
+      profile: undefined,
+      deviceOwnerId: userId,
+      activeDeviceId: undefined,
+      activeDeviceName: undefined,
+      activeDeviceType: undefined,
+      // Nothing plays here until a DJ starts playback, so there's nothing to vote on
+      currentPlay: undefined,
+      votes: { skip: [], like: imported.votes.like, queue: imported.votes.queue },
+      updatedAt: now,
+      lastParticipantChange: now,
+    };
 
+    // A fresh ID, so nothing else can be writing this session yet
     await this.store.set(session.id, session);
 
     // Trigger profile update (background)
@@ -146,55 +189,129 @@ export class SessionService {
   }
 
   /**
-   * Leave a session
+   * Join an existing session
    */
-  async leaveSession(sessionId: string, userId: string): Promise<void> {
-    const session = await this.store.get(sessionId);
+  async joinSession(
+    code: string,
+    userId: string,
+    userName: string
+  ): Promise<Session> {
+    const found = await this.store.getByCode(code);
 
-    if (!session) {
+    if (!found) {
       throw new Error("Session not found");
     }
 
-    // Remove participant
-    session.participants = session.participants.filter(
-      (p) => p.userId !== userId
-    );
+    // Check if user is already in session
+    if (found.participants.some((p) => p.userId === userId)) {
+      return found;
+    }
 
-    // Remove from DJs if applicable
-    session.djs = session.djs.filter((id) => id !== userId);
+    // Add participant to the latest session, so concurrent writes are kept
+    let joined = false;
 
-    // Remove user's votes
-    session.votes.skip = session.votes.skip.filter((v) => v.userId !== userId);
-    session.votes.like = session.votes.like.filter((v) => v.userId !== userId);
+    const session = await this.store.update(found.id, (s) => {
+      joined = !s.participants.some((p) => p.userId === userId);
+      if (!joined) return;
 
-    session.updatedAt = Date.now();
-    session.lastParticipantChange = Date.now();
+      const participant: Participant = {
+        userId,
+        name: userName,
+        joinedAt: Date.now(),
+        isHost: false,
+        isDJ: false,
+      };
 
-    // If host left and there are still participants, assign new host
-    if (userId === session.hostId && session.participants.length > 0) {
-      const newHost = session.participants[0];
-      session.hostId = newHost.userId;
-      newHost.isHost = true;
-      newHost.isDJ = true;
-      if (!session.djs.includes(newHost.userId)) {
-        session.djs.push(newHost.userId);
-      }
+      s.participants.push(participant);
+      s.updatedAt = Date.now();
+      s.lastParticipantChange = Date.now();
+    });
+
+    if (!session) {
+      throw new Error("Session not found");
     }
 
-    // If no participants left, delete session
-    if (session.participants.length === 0) {
-      await this.store.delete(sessionId);
-      return;
+    if (joined) {
+      // Trigger profile update (background)
+      this.updateSessionProfile(session.id).catch((err) =>
+        console.error("Failed to update session profile:", err)
+      );
     }
 
-    // Update skip threshold
-    if (session.settings.voteToSkip) {
-      session.settings.skipThreshold = Math.ceil(
-        session.participants.length / 2
+    return session;
+  }
+
+  /**
+   * Leave a session
+   */
+  async leaveSession(sessionId: string, userId: string): Promise<void> {
+    const session = await this.store.update(sessionId, (s) => {
+      const wasDeviceOwner = this.getDeviceOwnerId(s) === userId;
+
+      // Remove participant, remembering them for the recap
+      const leaving = s.participants.find((p) => p.userId === userId);
+      if (leaving) {
+        s.pastParticipants = [
+          ...(s.pastParticipants ?? []).filter((p) => p.userId !== userId),
+          leaving,
+        ];
+      }
+      s.participants = s.participants.filter(
+        (p) => p.userId !== userId
       );
+
+      // Remove from DJs if applicable
+      s.djs = s.djs.filter((id) => id !== userId);
+
+      // Remove user's votes
+      s.votes.skip = s.votes.skip.filter((v) => v.userId !== userId);
+      s.votes.like = s.votes.like.filter((v) => v.userId !== userId);
+      if (s.votes.queue) {
+        s.votes.queue = s.votes.queue.filter((v) => v.userId !== userId);
+      }
+
+      // Drop their pending track requests
+      if (s.trackRequests) {
+        s.trackRequests = s.trackRequests.filter((r) => r.requestedBy !== userId);
+      }
+
+      // Take back their pick on an open poll
+      if (s.poll && !s.poll.closedAt) {
+        s.poll.votes = s.poll.votes.filter((v) => v.userId !== userId);
+      }
+
+      s.updatedAt = Date.now();
+      s.lastParticipantChange = Date.now();
+
+      // If host left and there are still participants, assign new host
+      if (userId === s.hostId && s.participants.length > 0) {
+        const newHost = s.participants[0];
+        s.hostId = newHost.userId;
+        newHost.isHost = true;
+        newHost.isDJ = true;
+        if (!s.djs.includes(newHost.userId)) {
+          s.djs.push(newHost.userId);
+        }
+      }
+
+      // The active device went with its owner; playback moves to the host's account
+      if (wasDeviceOwner && s.participants.length > 0) {
+        s.deviceOwnerId = s.hostId;
+        s.activeDeviceId = undefined;
+        s.activeDeviceName = undefined;
+        s.activeDeviceType = undefined;
+      }
+    });
+
+    if (!session) {
+      throw new Error("Session not found");
     }
 
-    await this.store.set(sessionId, session);
+    // If no participants left, end the session
+    if (session.participants.length === 0) {
+      await closeSession(sessionId, this.store, "everyone-left");
+      return;
+    }
 
     // Trigger profile update (background)
     this.updateSessionProfile(sessionId).catch((err) =>
@@ -218,6 +335,7 @@ export class SessionService {
 
   /**
    * Delete a session (host only)
+   * Participants are notified and removed from the session room
    */
   async deleteSession(sessionId: string, userId: string): Promise<void> {
     const session = await this.store.get(sessionId);
@@ -230,17 +348,14 @@ export class SessionService {
       throw new Error("Only the host can delete the session");
     }
 
-    await this.store.delete(sessionId);
+    await closeSession(sessionId, this.store, "deleted-by-host");
   }
 
   /**
-   * Update session settings (host only)
+   * End a session for everyone (host only)
+   * Goes through the same path as idle expiry, so participants are notified
    */
-  async updateSettings(
-    sessionId: string,
-    userId: string,
-    settings: Partial<SessionSettings>
-  ): Promise<Session> {
+  async endSession(sessionId: string, userId: string): Promise<void> {
     const session = await this.store.get(sessionId);
 
     if (!session) {
@@ -248,17 +363,36 @@ export class SessionService {
     }
 
     if (session.hostId !== userId) {
-      throw new Error("Only the host can update settings");
+      throw new Error("Only the host can end the session");
     }
 
-    session.settings = {
-      ...session.settings,
-      ...settings,
-    };
+    await closeSession(sessionId, this.store, "ended-by-host");
+  }
+
+  /**
+   * Update session settings (host only)
+   */
+  async updateSettings(
+    sessionId: string,
+    userId: string,
+    settings: Partial<SessionSettings>
+  ): Promise<Session> {
+    const session = await this.store.update(sessionId, (s) => {
+      if (s.hostId !== userId) {
+        throw new Error("Only the host can update settings");
+      }
 
-    session.updatedAt = Date.now();
+      s.settings = {
+        ...s.settings,
+        ...settings,
+      };
 
-    await this.store.set(sessionId, session);
+      s.updatedAt = Date.now();
+    });
+
+    if (!session) {
+      throw new Error("Session not found");
+    }
 
     return session;
   }
@@ -272,50 +406,86 @@ export class SessionService {
     targetUserId: string,
     action: "add" | "remove"
   ): Promise<Session> {
-    const session = await this.store.get(sessionId);
+    const session = await this.store.update(sessionId, (s) => {
+      if (s.hostId !== hostId) {
+        throw new Error("Only the host can manage DJ privileges");
+      }
+
+      // Can't remove host's DJ privileges
+      if (targetUserId === hostId && action === "remove") {
+        throw new Error("Cannot remove DJ privileges from host");
+      }
+
+      // Check if target user is in session
+      const participant = s.participants.find(
+        (p) => p.userId === targetUserId
+      );
+
+      if (!participant) {
+        throw new Error("User not in session");
+      }
+
+      if (action === "add") {
+        if (!s.djs.includes(targetUserId)) {
+          s.djs.push(targetUserId);
+          participant.isDJ = true;
+        }
+      } else {
+        s.djs = s.djs.filter((id) => id !== targetUserId);
+        participant.isDJ = false;
+      }
+
+      s.updatedAt = Date.now();
+    });
 
     if (!session) {
       throw new Error("Session not found");
     }
 
-    if (session.hostId !== hostId) {
-      throw new Error("Only the host can manage DJ privileges");
-    }
-
-    // Can't remove host's DJ privileges
-    if (targetUserId === hostId && action === "remove") {
-      throw new Error("Cannot remove DJ privileges from host");
-    }
+    return session;
+  }
 
-    // Check if target user is in session
-    const participant = session.participants.find(
-      (p) => p.userId === targetUserId
-    );
+  /**
+   * Seed the session from a playlist, or clear the seed with null (DJ only)
+   * An empty queue starts with the playlist's first tracks; otherwise the
+   * playlist only shapes the profile and candidates from the next regeneration
+   */
+  async setSeedPlaylist(
+    sessionId: string,
+    userId: string,
+    playlistId: string | null
+  ): Promise<Session> {
+    const session = await this.store.get(sessionId);
 
-    if (!participant) {
-      throw new Error("User not in session");
+    if (!session) {
+      throw new Error("Session not found");
     }
 
-    if (action === "add") {
-      if (!session.djs.includes(targetUserId)) {
-        session.djs.push(targetUserId);
-        participant.isDJ = true;
-      }
-    } else {
-      session.djs = session.djs.filter((id) => id !== targetUserId);
-      participant.isDJ = false;
+    if (!this.isDJ(session, userId)) {
+      throw new Error("Only DJs can change the seed playlist");
     }
 
-    session.updatedAt = Date.now();
+    const seeded = playlistId ? await this.loadSeedPlaylist(playlistId, userId) : null;
 
-    await this.store.set(sessionId, session);
+    const updated = await this.store.update(sessionId, (s) => {
+      s.seedPlaylist = seeded?.seed;
+      if (seeded && s.queue.length === 0) {
+        s.queue = this.createSeedQueue(seeded.tracks, userId);
+      }
+      s.updatedAt = Date.now();
+    });
 
-    return session;
+    if (!updated) {
+      throw new Error("Session not found");
+    }
+
+    return updated;
   }
 
   /**
    * Update session profile based on participants
-   * Reuses existing taste profiles when participants haven't changed
+   * Reuses existing taste profiles when participants haven't changed and they
+   * were fetched deep enough, re-blending them with the current settings
    */
   async updateSessionProfile(sessionId: string): Promise<void> {
     const session = await this.store.get(sessionId);
@@ -340,28 +510,47 @@ export class SessionService {
         existingUserIds.size !== currentUserIds.size ||
         !Array.from(currentUserIds).every(id => existingUserIds.has(id));
 
-      if (participantsChanged || tasteProfiles.length === 0) {
-        console.log(`Participants changed or no existing profiles, regenerating for session ${sessionId}`);
-        const profile = await this.tasteAnalysisService.generateSessionProfile(
-          session.participants
+      // A deeper profile needs fetching again; a shallower one is re-blended
+      const depth = session.settings.profileDepth ?? DEFAULT_PROFILE_DEPTH;
+      const tooShallow = tasteProfiles.some((p) => p.timeRanges && (p.depth ?? DEFAULT_PROFILE_DEPTH) < depth);
+
+      // The seed playlist is cheap to rebuild, so it is never reused
+      const seedProfile = session.seedPlaylist ? buildSeedTasteProfile(session.seedPlaylist) : undefined;
+
+      let profile: SessionProfile;
+
+      if (participantsChanged || tooShallow || tasteProfiles.length === 0) {
+        console.log(`Participants or profile depth changed, or no existing profiles, regenerating for session ${sessionId}`);
+        profile = await this.tasteAnalysisService.generateSessionProfile(
+          session.participants,
+          session.settings,
+          seedProfile
         );
-        session.profile = profile;
       } else {
-        console.log(`Reusing existing taste profiles for session ${sessionId}, only updating common artists/genres`);
-        // Reuse existing taste profiles, just update common artists/genres
-        const commonArtistObjects = this.tasteAnalysisService.findCommonArtists(tasteProfiles);
-        const commonArtists = commonArtistObjects.map((a) => a.id);
-        const commonGenres = this.tasteAnalysisService.findCommonGenres(tasteProfiles);
+        console.log(`Reusing existing taste profiles for session ${sessionId}, only updating the blend and common artists/genres`);
+        // Reuse existing taste profiles, just update the blend and common artists/genres
+        const blendedProfiles = tasteProfiles.map((p) =>
+          this.tasteAnalysisService.blendProfile(p, session.settings)
+        );
+        const { commonArtists, commonGenres } = await this.tasteAnalysisService.findCommonGround(
+          seedProfile ? [...blendedProfiles, seedProfile] : blendedProfiles,
+          session.settings
+        );
 
-        session.profile = {
+        profile = {
           commonArtists,
           commonGenres,
-          tasteProfiles, // Reuse existing profiles
+          tasteProfiles: blendedProfiles, // Reuse existing profiles
+          seedProfile,
         };
       }
 
-      session.updatedAt = Date.now();
-      await this.store.set(sessionId, session);
+      // Only write the profile back - the rest of the session may have changed
+      // while taste data was being fetched
+      await this.store.update(sessionId, (s) => {
+        s.profile = profile;
+        s.updatedAt = Date.now();
+      });
       console.log(`Successfully updated profile for session ${sessionId}`);
     } catch (error) {
       logErrorDetails("Update Session Profile", error);
@@ -369,6 +558,40 @@ export class SessionService {
     }
   }
 
+  /**
+   * Read a playlist to seed a session from, with the requesting user's token
+   */
+  private async loadSeedPlaylist(
+    playlistId: string,
+    userId: string
+  ): Promise<{ seed: SeedPlaylist; tracks: Track[] }> {
+    const [playlist, tracks] = await Promise.all([
+      this.spotifyService.getPlaylist(playlistId),
+      this.spotifyService.getPlaylistTracks(playlistId, SEED_PLAYLIST_MAX_TRACKS),
+    ]);
+
+    if (tracks.length === 0) {
+      throw new Error("The playlist has no playable tracks");
+    }
+
+    return { seed: buildSeedPlaylist(playlist, tracks, userId), tracks };
+  }
+
+  /**
+   * Queue the opening tracks of a seed playlist, credited to whoever picked it
+   */
+  private createSeedQueue(tracks: Track[], userId: string): QueueItem[] {
+    const uniqueTracks = Array.from(new Map(tracks.map((track) => [track.id, track])).values());
+
+    return uniqueTracks.slice(0, SEED_PLAYLIST_QUEUE_TRACKS).map((track, index) => ({
+      track,
+      position: index,
+      addedBy: userId,
+      addedAt: Date.now(),
+      isStable: true,
+    }));
+  }
+
   /**
    * Validate custom code format
    * - Must be 4-12 characters
@@ -418,6 +641,32 @@ export class SessionService {
     return session.djs.includes(userId);
   }
 
+  /**
+   * Get the user whose Spotify account plays the session's music
+   */
+  getDeviceOwnerId(session: Session): string {
+    return session.deviceOwnerId ?? session.hostId;
+  }
+
+  /**
+   * Get the access token playback commands run with
+   * Playback always targets the device owner's account, whichever DJ asks, so
+   * DJs never need a device of their own. The owner's token comes from the
+   * token vault unless they are the one asking.
+   */
+  async getPlaybackAccessToken(session: Session, requesterId: string): Promise<string> {
+    const ownerId = this.getDeviceOwnerId(session);
+    if (ownerId === requesterId) {
+      return this.accessToken;
+    }
+
+    const accessToken = await getTokenVault().getAccessToken(ownerId);
+    if (!accessToken) {
+      throw new Error("The host needs to sign in again before playback can be controlled");
+    }
+    return accessToken;
+  }
+
   /**
    * Check if user is in session
    */
@@ -425,6 +674,21 @@ export class SessionService {
     return session.participants.some((p) => p.userId === userId);
   }
 
+  /**
+   * Get each participant's share of recent airtime
+   */
+  getAirtime(session: Session): ParticipantAirtime[] {
+    const shares = calculateAirtimeShares(
+      session.recentPlays ?? [],
+      session.participants.map((p) => p.userId)
+    );
+
+    return session.participants.map((p) => ({
+      userId: p.userId,
+      share: shares.get(p.userId) ?? 0,
+    }));
+  }
+
   /**
    * Initialize session profile and queue in background
    * Called asynchronously after session creation to avoid timeout
@@ -433,6 +697,14 @@ export class SessionService {
     console.log(`[SessionInit] Starting background initialization for session ${sessionId}`);
 
     try {
+      // Look up the host's market so candidates are playable where they are
+      const market = await this.queueGenerationService.detectMarket();
+      if (market) {
+        await this.store.update(sessionId, (s) => {
+          s.market = market;
+        });
+      }
+
       // Generate initial profile
       await this.updateSessionProfile(sessionId);
       console.log(`[SessionInit] Profile generated for session ${sessionId}`);
@@ -444,15 +716,18 @@ export class SessionService {
           session,
           MAX_QUEUE_SIZE
         );
-        session.queue = initialQueue;
-        session.updatedAt = Date.now();
-        await this.store.set(sessionId, session);
+        // Keep any seed playlist tracks already queued at the front
+        const updated = await this.store.update(sessionId, (s) => {
+          s.queue = this.queueGenerationService.mergeWithStableQueue(s.queue, initialQueue, s.votes.queue);
+          rankSessionQueue(s);
+          s.updatedAt = Date.now();
+        });
         console.log(`[SessionInit] Generated initial queue with ${initialQueue.length} tracks for session ${sessionId}`);
 
         // Import and broadcast queue update
         const { broadcastToSession } = await import("../websocket/server");
         const { WS_EVENTS } = await import("../websocket/events");
-        broadcastToSession(sessionId, WS_EVENTS.QUEUE_UPDATED, initialQueue);
+        broadcastToSession(sessionId, WS_EVENTS.QUEUE_UPDATED, updated?.queue ?? initialQueue);
         console.log(`[SessionInit] Broadcasted queue update for session ${sessionId}`);
       }
     } catch (error) {
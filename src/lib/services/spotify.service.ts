@@ -1,5 +1,5 @@
 import { createSpotifyClient, spotifyRateLimiter } from "@/lib/utils/spotify-client";
-import type { SpotifyTrack, AudioFeatures, SpotifyArtist, Track, SpotifyDevice, PlaybackState } from "@/types";
+import type { SpotifyTrack, AudioFeatures, SpotifyArtist, Track, SpotifyDevice, SpotifyPlaylist, SpotifyPlaylistSummary, PlaybackState, TimeRange } from "@/types";
 
 /**
  * Options for play method
@@ -32,6 +32,9 @@ interface AddToQueueOptions {
   device_id?: string;
 }
 
+// Market used when the host's country is unknown
+export const DEFAULT_MARKET = "US";
+
 /**
  * Spotify service for interacting with the Spotify Web API
  */
@@ -42,10 +45,21 @@ export class SpotifyService {
     this.accessToken = accessToken;
   }
 
+  /**
+   * Get the market (country) of the current user's account
+   */
+  async getUserMarket(): Promise<string | null> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getMe();
+      return response.body.country ?? null;
+    });
+  }
+
   /**
    * Get user's top tracks
    */
-  async getUserTopTracks(limit = 50, timeRange: "short_term" | "medium_term" | "long_term" = "medium_term"): Promise<SpotifyTrack[]> {
+  async getUserTopTracks(limit = 50, timeRange: TimeRange = "medium_term"): Promise<SpotifyTrack[]> {
     return spotifyRateLimiter.execute(async () => {
       const client = createSpotifyClient(this.accessToken);
       const response = await client.getMyTopTracks({ limit, time_range: timeRange });
@@ -60,7 +74,7 @@ export class SpotifyService {
   /**
    * Get user's top artists
    */
-  async getUserTopArtists(limit = 50, timeRange: "short_term" | "medium_term" | "long_term" = "medium_term"): Promise<SpotifyArtist[]> {
+  async getUserTopArtists(limit = 50, timeRange: TimeRange = "medium_term"): Promise<SpotifyArtist[]> {
     return spotifyRateLimiter.execute(async () => {
       const client = createSpotifyClient(this.accessToken);
       const response = await client.getMyTopArtists({ limit, time_range: timeRange });
@@ -122,10 +136,10 @@ export class SpotifyService {
   /**
    * Search for tracks by artist ID
    */
-  async searchTracksByArtist(artistId: string, limit = 20): Promise<Track[]> {
+  async searchTracksByArtist(artistId: string, limit = 20, market = DEFAULT_MARKET): Promise<Track[]> {
     return spotifyRateLimiter.execute(async () => {
       const client = createSpotifyClient(this.accessToken);
-      const response = await client.getArtistTopTracks(artistId, "US");
+      const response = await client.getArtistTopTracks(artistId, market);
       const tracks = response.body.tracks;
       if (!Array.isArray(tracks)) {
         return [];
@@ -134,14 +148,29 @@ export class SpotifyService {
     });
   }
 
+  /**
+   * Get artists similar to an artist
+   */
+  async getRelatedArtists(artistId: string): Promise<SpotifyArtist[]> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getArtistRelatedArtists(artistId);
+      const artists = response.body.artists;
+      if (!Array.isArray(artists)) {
+        return [];
+      }
+      return artists;
+    });
+  }
+
   /**
    * Search for tracks by genre using search query
    */
-  async searchTracksByGenre(genre: string, limit = 20): Promise<Track[]> {
+  async searchTracksByGenre(genre: string, limit = 20, market?: string): Promise<Track[]> {
     return spotifyRateLimiter.execute(async () => {
       const client = createSpotifyClient(this.accessToken);
       const query = `genre:"${genre}"`;
-      const response = await client.searchTracks(query, { limit });
+      const response = await client.searchTracks(query, market ? { limit, market } : { limit });
       const items = response.body.tracks?.items;
       if (!Array.isArray(items)) {
         return [];
@@ -150,6 +179,55 @@ export class SpotifyService {
     });
   }
 
+  /**
+   * Get full track objects by ID (Spotify API limit: 50 per request)
+   * Tracks unavailable in the market are left out
+   */
+  async getTracks(trackIds: string[], market?: string): Promise<Track[]> {
+    const tracks: Track[] = [];
+
+    for (const chunk of this.chunkArray(trackIds, 50)) {
+      const found = await spotifyRateLimiter.execute(async () => {
+        const client = createSpotifyClient(this.accessToken);
+        const response = await client.getTracks(chunk, market ? { market } : undefined);
+        return (response.body.tracks ?? []).filter((t: Track | null): t is Track => t !== null);
+      });
+      tracks.push(...found);
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Get IDs of an artist's albums, newest first
+   */
+  async getArtistAlbumIds(artistId: string, limit = 10, market = DEFAULT_MARKET): Promise<string[]> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getArtistAlbums(artistId, { include_groups: "album", limit, market });
+      const items = response.body.items;
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      return items.map((album: { id: string }) => album.id);
+    });
+  }
+
+  /**
+   * Get the track IDs of an album in running order
+   */
+  async getAlbumTrackIds(albumId: string, market = DEFAULT_MARKET): Promise<string[]> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getAlbumTracks(albumId, { limit: 50, market });
+      const items = response.body.items;
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      return items.map((track: { id: string }) => track.id);
+    });
+  }
+
   /**
    * Get available devices
    */
@@ -253,6 +331,111 @@ export class SpotifyService {
     });
   }
 
+  /**
+   * Get the current user's playlists, including followed and collaborative ones
+   */
+  async getUserPlaylists(limit = 50): Promise<SpotifyPlaylistSummary[]> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getUserPlaylists({ limit });
+      const items = response.body.items;
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      return items.map((playlist: SpotifyPlaylistSummary) => this.toPlaylistSummary(playlist));
+    });
+  }
+
+  /**
+   * Get a playlist's details (without its tracks)
+   */
+  async getPlaylist(playlistId: string): Promise<SpotifyPlaylistSummary> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.getPlaylist(playlistId, {
+        fields: "id,name,uri,external_urls,images,owner(id,display_name),tracks(total)",
+      });
+      return this.toPlaylistSummary(response.body);
+    });
+  }
+
+  /**
+   * Get a playlist's tracks in order (Spotify API limit: 100 per request)
+   * Episodes, local files and tracks unavailable in the market are left out
+   */
+  async getPlaylistTracks(playlistId: string, maxTracks = 100, market?: string): Promise<Track[]> {
+    const tracks: Track[] = [];
+
+    for (let offset = 0; offset < maxTracks; offset += 100) {
+      const page = await spotifyRateLimiter.execute(async () => {
+        const client = createSpotifyClient(this.accessToken);
+        const response = await client.getPlaylistTracks(playlistId, {
+          limit: Math.min(100, maxTracks - offset),
+          offset,
+          ...(market ? { market } : {}),
+        });
+        return response.body;
+      });
+
+      const items: { track: (Track & { type?: string; is_local?: boolean }) | null }[] = page.items ?? [];
+      for (const { track } of items) {
+        if (track && track.id && track.type !== "episode" && !track.is_local) {
+          tracks.push(track);
+        }
+      }
+
+      if (!page.next) break;
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Create a playlist on the current user's account
+   */
+  async createPlaylist(
+    name: string,
+    options: { description?: string; public?: boolean } = {}
+  ): Promise<SpotifyPlaylist> {
+    return spotifyRateLimiter.execute(async () => {
+      const client = createSpotifyClient(this.accessToken);
+      const response = await client.createPlaylist(name, {
+        description: options.description,
+        public: options.public ?? false,
+      });
+      const { id, name: playlistName, uri, external_urls } = response.body;
+      return { id, name: playlistName, uri, external_urls };
+    });
+  }
+
+  /**
+   * Append tracks to a playlist in order (Spotify API limit: 100 per request)
+   */
+  async addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<void> {
+    for (const chunk of this.chunkArray(trackUris, 100)) {
+      await spotifyRateLimiter.execute(async () => {
+        const client = createSpotifyClient(this.accessToken);
+        await client.addTracksToPlaylist(playlistId, chunk);
+      });
+    }
+  }
+
+  /**
+   * Helper: Keep the playlist fields the app uses
+   */
+  private toPlaylistSummary(playlist: SpotifyPlaylistSummary): SpotifyPlaylistSummary {
+    const { id, name, uri, external_urls, images, owner, tracks } = playlist;
+    return {
+      id,
+      name,
+      uri,
+      external_urls,
+      images: images ?? [],
+      owner: { id: owner?.id, display_name: owner?.display_name },
+      tracks: { total: tracks?.total ?? 0 },
+    };
+  }
+
   /**
    * Helper: Chunk array into smaller arrays
    */
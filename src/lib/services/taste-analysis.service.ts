@@ -1,169 +1,211 @@
 import { SpotifyService } from "./spotify.service";
-import type { TasteProfile, SpotifyArtist, Participant } from "@/types";
+import { getTokenVault, type TokenVault } from "../session";
+import { blendTasteProfile } from "../algorithm/taste-blend";
+import { findQuorumArtists, findQuorumGenres } from "../algorithm/common-ground";
+import { DEFAULT_COMMON_GROUND_QUORUM, DEFAULT_PROFILE_DEPTH, DEFAULT_TASTE_BLEND } from "../constants";
+import type { TasteProfile, SpotifyArtist, Participant, SessionProfile, SessionSettings, TimeRange } from "@/types";
+
+const TIME_RANGES: TimeRange[] = ["short_term", "medium_term", "long_term"];
+
+// Favourites per participant whose related artists are looked up
+const RELATED_SEED_ARTISTS = 5;
+
+/**
+ * Session settings that shape taste profiles
+ */
+export type TasteProfileOptions = Pick<SessionSettings, "tasteBlend" | "profileDepth" | "commonGroundQuorum">;
 
 /**
  * Service for analyzing user music taste based on Spotify data
+ * Each user's top items are read with their own token from the token vault;
+ * the requesting user's token is only used for catalogue lookups
  */
 export class TasteAnalysisService {
   private spotifyService: SpotifyService;
-  private cache: Map<string, { profile: TasteProfile; timestamp: number }> = new Map();
+  private tokenVault: TokenVault;
+  private cache: Map<string, { profile: TasteProfile; timestamp: number }> = new Map(); // Keyed by user and depth
   private readonly cacheTTL = 60 * 60 * 1000; // 1 hour
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, tokenVault?: TokenVault) {
     this.spotifyService = new SpotifyService(accessToken);
+    this.tokenVault = tokenVault ?? getTokenVault();
   }
 
   /**
    * Analyze a user's taste profile
+   * Fetches the top tracks and artists of every time range, then blends them
+   * as the session prefers. Throws when the user has no usable token.
    */
-  async analyzeUserTaste(userId: string): Promise<TasteProfile> {
+  async analyzeUserTaste(userId: string, options: TasteProfileOptions = {}): Promise<TasteProfile> {
+    const depth = options.profileDepth ?? DEFAULT_PROFILE_DEPTH;
+    const blend = options.tasteBlend ?? DEFAULT_TASTE_BLEND;
+    const cacheKey = `${userId}:${depth}`;
+
     // Check cache
-    const cached = this.cache.get(userId);
+    const cached = this.cache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
       console.log(`Using cached taste profile for user ${userId}`);
-      return cached.profile;
+      return blendTasteProfile(cached.profile, blend, depth);
     }
 
-    console.log(`Fetching taste profile for user ${userId}...`);
-    // Fetch user's top tracks and artists (reduced from 50 to 20 for performance)
-    const [topTracks, topArtists] = await Promise.all([
-      this.spotifyService.getUserTopTracks(20, "medium_term"),
-      this.spotifyService.getUserTopArtists(20, "medium_term"),
-    ]);
-    console.log(`Successfully fetched ${topTracks.length} tracks and ${topArtists.length} artists for user ${userId}`);
-
-    // Extract track IDs
-    const trackIds = topTracks.map((t) => t.id);
-
-    // Extract top genres from artists
-    const topGenres = this.extractTopGenres(topArtists);
+    console.log(`Fetching taste profile for user ${userId} (depth ${depth})...`);
+    const userSpotifyService = await this.getUserSpotifyService(userId);
+    const ranges = await Promise.all(
+      TIME_RANGES.map(async (range) => {
+        const [topTracks, topArtists] = await Promise.all([
+          userSpotifyService.getUserTopTracks(depth, range),
+          userSpotifyService.getUserTopArtists(depth, range),
+        ]);
+        return [range, { topTracks: topTracks.map((t) => t.id), topArtists }] as const;
+      })
+    );
+    const timeRanges = Object.fromEntries(ranges) as TasteProfile["timeRanges"];
+    console.log(`Successfully fetched top tracks and artists for ${ranges.length} time ranges for user ${userId}`);
 
     const profile: TasteProfile = {
       userId,
-      topTracks: trackIds,
-      topArtists,
-      topGenres,
+      topTracks: [],
+      topArtists: [],
+      topGenres: [],
       lastUpdated: Date.now(),
+      timeRanges,
+      depth,
     };
 
-    // Cache the profile
-    this.cache.set(userId, { profile, timestamp: Date.now() });
+    // Cache the raw time ranges; the blend is cheap to recompute
+    this.cache.set(cacheKey, { profile, timestamp: Date.now() });
 
-    return profile;
+    return blendTasteProfile(profile, blend, depth);
   }
 
   /**
-   * Find common artists between multiple users
-   * Made public to allow session service to reuse taste profiles
+   * Spotify service acting as the given user
    */
-  public findCommonArtists(profiles: TasteProfile[]): SpotifyArtist[] {
-    if (profiles.length === 0) return [];
-    if (profiles.length === 1) return profiles[0].topArtists;
-
-    // Get artist IDs from first profile
-    const firstArtistIds = new Set(profiles[0].topArtists.map((a) => a.id));
-
-    // Find artists that appear in all profiles
-    const commonArtistIds = new Set<string>();
-
-    for (const artistId of firstArtistIds) {
-      const appearsInAll = profiles.every((profile) =>
-        profile.topArtists.some((a) => a.id === artistId)
-      );
-
-      if (appearsInAll) {
-        commonArtistIds.add(artistId);
-      }
+  private async getUserSpotifyService(userId: string): Promise<SpotifyService> {
+    const accessToken = await this.tokenVault.getAccessToken(userId);
+    if (!accessToken) {
+      throw new Error(`No Spotify token available for user ${userId}`);
     }
+    return new SpotifyService(accessToken);
+  }
 
-    // Return artist objects
-    return profiles[0].topArtists.filter((a) => commonArtistIds.has(a.id));
+  /**
+   * Re-blend an already fetched profile, e.g. after the session's blend changed
+   */
+  public blendProfile(profile: TasteProfile, options: TasteProfileOptions = {}): TasteProfile {
+    return blendTasteProfile(
+      profile,
+      options.tasteBlend ?? DEFAULT_TASTE_BLEND,
+      options.profileDepth ?? profile.depth ?? DEFAULT_PROFILE_DEPTH
+    );
   }
 
   /**
-   * Find common genres between multiple users
+   * Find artists a quorum of users would enjoy
+   * Works on the blended top artists, optionally expanded with related artists
    * Made public to allow session service to reuse taste profiles
    */
-  public findCommonGenres(profiles: TasteProfile[]): string[] {
-    if (profiles.length === 0) return [];
-    if (profiles.length === 1) return profiles[0].topGenres;
-
-    // Count genre occurrences
-    const genreCounts = new Map<string, number>();
-
-    for (const profile of profiles) {
-      const uniqueGenres = new Set(profile.topGenres);
-      for (const genre of uniqueGenres) {
-        genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1);
-      }
-    }
+  public findCommonArtists(
+    profiles: TasteProfile[],
+    quorum = DEFAULT_COMMON_GROUND_QUORUM,
+    relatedArtists?: Map<string, SpotifyArtist[]>
+  ): SpotifyArtist[] {
+    return findQuorumArtists(profiles, quorum, relatedArtists);
+  }
 
-    // Find genres that appear in at least 50% of profiles
-    const threshold = Math.ceil(profiles.length / 2);
-    const commonGenres: string[] = [];
+  /**
+   * Find genres a quorum of users share, matching similar genre names
+   * Made public to allow session service to reuse taste profiles
+   */
+  public findCommonGenres(profiles: TasteProfile[], quorum = DEFAULT_COMMON_GROUND_QUORUM): string[] {
+    return findQuorumGenres(profiles, quorum);
+  }
 
-    for (const [genre, count] of genreCounts.entries()) {
-      if (count >= threshold) {
-        commonGenres.push(genre);
-      }
-    }
+  /**
+   * Find the common artists and genres of a group
+   * Looks up artists related to each user's favourites so near misses still
+   * count as overlap
+   */
+  async findCommonGround(
+    profiles: TasteProfile[],
+    options: TasteProfileOptions = {}
+  ): Promise<{ commonArtists: string[]; commonGenres: string[] }> {
+    const quorum = options.commonGroundQuorum ?? DEFAULT_COMMON_GROUND_QUORUM;
+    const relatedArtists = profiles.length > 1
+      ? await this.fetchRelatedArtists(profiles)
+      : new Map<string, SpotifyArtist[]>();
 
-    // Sort by count (descending)
-    return commonGenres.sort(
-      (a, b) => (genreCounts.get(b) || 0) - (genreCounts.get(a) || 0)
-    );
+    return {
+      commonArtists: this.findCommonArtists(profiles, quorum, relatedArtists).map((a) => a.id),
+      commonGenres: this.findCommonGenres(profiles, quorum),
+    };
   }
 
   /**
    * Generate a session profile by aggregating participant taste profiles
+   * Participants whose taste can't be read (e.g. no stored token) are left out
+   * rather than filled in with someone else's data. A seed playlist's profile
+   * counts towards common ground like another participant.
    */
-  async generateSessionProfile(participants: Participant[]): Promise<{
-    commonArtists: string[];
-    commonGenres: string[];
-    tasteProfiles: TasteProfile[];
-  }> {
+  async generateSessionProfile(
+    participants: Participant[],
+    options: TasteProfileOptions = {},
+    seedProfile?: TasteProfile
+  ): Promise<SessionProfile> {
     console.log(`Generating session profile for ${participants.length} participants`);
 
     // Get taste profiles for all participants
     console.log(`Fetching taste profiles...`);
-    const tasteProfiles = await Promise.all(
-      participants.map((p) => this.analyzeUserTaste(p.userId))
+    const results = await Promise.all(
+      participants.map(async (p) => {
+        try {
+          return await this.analyzeUserTaste(p.userId, options);
+        } catch (error) {
+          console.error(`Failed to analyze taste for user ${p.userId}:`, error);
+          return null;
+        }
+      })
     );
-    console.log(`Successfully fetched ${tasteProfiles.length} taste profiles`);
+    const tasteProfiles = results.filter((profile): profile is TasteProfile => profile !== null);
+    console.log(`Successfully fetched ${tasteProfiles.length} of ${participants.length} taste profiles`);
 
     // Find common artists and genres
     console.log(`Finding common artists and genres...`);
-    const commonArtistObjects = this.findCommonArtists(tasteProfiles);
-    const commonArtists = commonArtistObjects.map((a) => a.id);
-    const commonGenres = this.findCommonGenres(tasteProfiles);
+    const { commonArtists, commonGenres } = await this.findCommonGround(
+      seedProfile ? [...tasteProfiles, seedProfile] : tasteProfiles,
+      options
+    );
     console.log(`Found ${commonArtists.length} common artists and ${commonGenres.length} common genres`);
 
     return {
       commonArtists,
       commonGenres,
       tasteProfiles,
+      seedProfile,
     };
   }
 
   /**
-   * Extract top genres from artists
+   * Look up related artists for each user's top favourites
+   * Lookups that fail are skipped; common ground then relies on direct overlap
    */
-  private extractTopGenres(artists: SpotifyArtist[], limit = 10): string[] {
-    const genreCounts = new Map<string, number>();
-
-    // Count genre occurrences
-    for (const artist of artists) {
-      if (!artist.genres) continue;
-      for (const genre of artist.genres) {
-        genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1);
-      }
-    }
+  private async fetchRelatedArtists(profiles: TasteProfile[]): Promise<Map<string, SpotifyArtist[]>> {
+    const seedIds = Array.from(new Set(
+      profiles.flatMap((p) => p.topArtists.slice(0, RELATED_SEED_ARTISTS).map((a) => a.id))
+    ));
+
+    const related = new Map<string, SpotifyArtist[]>();
+    await Promise.all(
+      seedIds.map(async (artistId) => {
+        try {
+          related.set(artistId, await this.spotifyService.getRelatedArtists(artistId));
+        } catch (error) {
+          console.error(`Failed to get related artists for ${artistId}:`, error);
+        }
+      })
+    );
 
-    // Sort by count and return top N
-    return Array.from(genreCounts.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, limit)
-      .map(([genre]) => genre);
+    return related;
   }
 
   /**
@@ -171,7 +213,11 @@ export class TasteAnalysisService {
    */
   clearCache(userId?: string): void {
     if (userId) {
-      this.cache.delete(userId);
+      for (const key of Array.from(this.cache.keys())) {
+        if (key.startsWith(`${userId}:`)) {
+          this.cache.delete(key);
+        }
+      }
     } else {
       this.cache.clear();
     }
@@ -0,0 +1,181 @@
+import type { Session, SessionEndReason, SessionSummary } from "@/types";
+import type { SessionStore } from "./session/store.interface";
+import { cancelPendingRegeneration } from "./queue-background-regen";
+import { isSessionPlaying, unwatchSessionPlayback } from "./playback-monitor";
+import { broadcastToSession } from "./websocket/server";
+import { WS_EVENTS } from "./websocket/events";
+import { getRecapArchive, buildSessionRecap } from "./archive";
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES, SESSION_SWEEP_INTERVAL_MS } from "./constants";
+
+/**
+ * Session lifecycle
+ *
+ * Sessions end when the host ends or deletes them, or when nothing has happened
+ * in them for the idle timeout. All go through closeSession, so pending work is
+ * cancelled, participants are told and the store's code and user indexes are
+ * cleaned up the same way.
+ *
+ * The idle sweeper runs in the server process next to the playback monitor,
+ * which lets it treat a session that is still playing as active. It must be
+ * given getStore(), the instance the API routes share, so it judges idleness
+ * from the sessions as they are now.
+ */
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+/**
+ * Idle timeout in milliseconds
+ * Read from SESSION_IDLE_TIMEOUT_MINUTES, falling back to the default
+ */
+export function getIdleTimeoutMs(): number {
+  const minutes = Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES);
+  const timeoutMinutes = Number.isFinite(minutes) && minutes > 0
+    ? minutes
+    : DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES;
+
+  return timeoutMinutes * 60 * 1000;
+}
+
+/**
+ * Timestamp of the latest activity in a session
+ * Any write bumps updatedAt; played tracks and participant changes are
+ * checked too in case a write didn't
+ */
+export function getLastActivity(session: Session): number {
+  const lastPlayedAt = session.recentPlays?.reduce((latest, play) => Math.max(latest, play.playedAt), 0) ?? 0;
+
+  return Math.max(session.updatedAt, session.lastParticipantChange, lastPlayedAt);
+}
+
+/**
+ * Check whether a session has been idle for longer than the timeout
+ * Sessions the playback monitor sees playing are never idle
+ */
+export function isSessionIdle(
+  session: Session,
+  now: number = Date.now(),
+  idleTimeoutMs: number = getIdleTimeoutMs()
+): boolean {
+  if (isSessionPlaying(session.id)) return false;
+
+  return now - getLastActivity(session) > idleTimeoutMs;
+}
+
+/**
+ * Summarize a session for the ended screen
+ */
+export function summarizeSession(session: Session, now: number = Date.now()): SessionSummary {
+  return {
+    durationMs: Math.max(0, now - session.createdAt),
+    tracksPlayed: session.playedTracks.length,
+    participantCount: session.participants.length,
+  };
+}
+
+/**
+ * End a session for everyone
+ * Cancels pending queue regeneration, stops playback monitoring, archives a
+ * recap, deletes the session with its indexes and tells connected
+ * participants why it ended. The WebSocket server removes every socket from
+ * the session room once the session_ended event goes out.
+ */
+export async function closeSession(
+  sessionId: string,
+  store: SessionStore,
+  reason: SessionEndReason
+): Promise<void> {
+  const session = await store.get(sessionId);
+
+  await cancelPendingRegeneration(sessionId);
+  await unwatchSessionPlayback(sessionId);
+
+  // A lost recap shouldn't keep the session alive
+  if (session) {
+    try {
+      await getRecapArchive().save(buildSessionRecap(session, reason));
+    } catch (error) {
+      console.error(`[SessionLifecycle] Failed to archive recap for session ${sessionId}:`, error);
+    }
+  }
+
+  await store.delete(sessionId);
+
+  await broadcastToSession(sessionId, WS_EVENTS.SESSION_ENDED, {
+    reason,
+    summary: session ? summarizeSession(session) : undefined,
+  });
+
+  console.log(`[SessionLifecycle] Ended session ${sessionId} (${reason})`);
+}
+
+/**
+ * End every idle session
+ * @returns IDs of the sessions that were ended
+ */
+export async function sweepIdleSessions(
+  store: SessionStore,
+  now: number = Date.now()
+): Promise<string[]> {
+  const idleTimeoutMs = getIdleTimeoutMs();
+  const sessions = await store.list();
+  const ended: string[] = [];
+
+  for (const session of sessions) {
+    if (!isSessionIdle(session, now, idleTimeoutMs)) continue;
+
+    try {
+      await closeSession(session.id, store, "idle");
+      ended.push(session.id);
+    } catch (error) {
+      console.error(`[SessionLifecycle] Failed to end idle session ${session.id}:`, error);
+    }
+  }
+
+  if (ended.length > 0) {
+    console.log(`[SessionLifecycle] Swept ${ended.length} idle session(s)`);
+  }
+
+  return ended;
+}
+
+/**
+ * Start sweeping idle sessions periodically (call once from the server process)
+ */
+export function startSessionSweeper(
+  store: SessionStore,
+  intervalMs: number = SESSION_SWEEP_INTERVAL_MS
+): void {
+  if (sweepTimer) {
+    console.log("[SessionLifecycle] Sweeper already started");
+    return;
+  }
+
+  sweepTimer = setInterval(() => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweepInProgress) return;
+    sweepInProgress = true;
+
+    sweepIdleSessions(store)
+      .catch((error) => {
+        console.error("[SessionLifecycle] Idle sweep failed:", error);
+      })
+      .finally(() => {
+        sweepInProgress = false;
+      });
+  }, intervalMs);
+  sweepTimer.unref();
+
+  console.log(`[SessionLifecycle] Sweeper started (idle timeout ${getIdleTimeoutMs() / 60000} min)`);
+}
+
+/**
+ * Stop the idle sweeper
+ */
+export function stopSessionSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  sweepInProgress = false;
+}
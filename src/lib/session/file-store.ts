@@ -0,0 +1,452 @@
+import { Session } from "@/types";
+import { SessionStore, SessionMutator } from "./store.interface";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A change to the store, as written to the journal
+ * Every entry carries the full new state of what it touches, so replaying one
+ * that is already reflected in the snapshot is harmless
+ */
+type JournalEntry =
+  | { op: "set"; sessionId: string; session: Session; expiresAt: number }
+  | { op: "delete"; sessionId: string }
+  | { op: "setTokens"; userId: string; encrypted: string; expiresAt: number }
+  | { op: "deleteTokens"; userId: string };
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Full store contents, as written to the snapshot file
+ */
+interface StoreSnapshot {
+  sessions: Record<string, Expiring<Session>>;
+  codes: Record<string, string>;
+  tokens: Record<string, Expiring<string>>;
+}
+
+/**
+ * File-backed session store implementation
+ * For single-node deployments without Redis: sessions survive restarts and
+ * deploys. Data lives in memory and every change is appended to a journal
+ * (flushed to disk before the write resolves); the journal is folded into a
+ * snapshot file from time to time, written to a temp file and renamed over
+ * the old one so a crash never leaves a half-written snapshot.
+ * NOTE: Only one store may use a data directory at a time. A lock file holds
+ * the directory, and opening a second store on it (in this process or
+ * another) fails, since each would keep its own copy of the data and compact
+ * over the other's journal. Use getStore() to share the one instance.
+ */
+export class FileStore implements SessionStore {
+  private sessions: Map<string, Expiring<Session>> = new Map();
+  private codeToId: Map<string, string> = new Map();
+  private userIndex: Map<string, Set<string>> = new Map();
+  private userTokens: Map<string, Expiring<string>> = new Map();
+
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private readonly lockPath: string;
+  private readonly ttl = 60 * 60 * 24 * 1000; // 24 hours, as in RedisStore
+  private readonly tokensTtl = 60 * 60 * 24 * 30 * 1000; // 30 days, refresh tokens outlive sessions
+  private readonly compactAfter = 500; // Journal entries before folding into the snapshot
+
+  private loading: Promise<void> | null = null;
+  private journal: fs.FileHandle | null = null;
+  private journalEntries = 0;
+  private writes: Promise<void> = Promise.resolve();
+  private locked = false;
+
+  constructor(dataDir?: string) {
+    const dir = dataDir || process.env.SESSION_STORE_DIR || path.join(process.cwd(), ".data", "sessions");
+    this.snapshotPath = path.join(dir, "sessions.json");
+    this.journalPath = path.join(dir, "journal.log");
+    this.lockPath = path.join(dir, ".lock");
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    await this.ensureLoaded();
+    const entry = this.getLive(sessionId);
+    return entry ? structuredClone(entry.value) : null;
+  }
+
+  async getByCode(code: string): Promise<Session | null> {
+    await this.ensureLoaded();
+    const sessionId = this.codeToId.get(code);
+    if (!sessionId) return null;
+    return this.get(sessionId);
+  }
+
+  /**
+   * Overwriting a session bumps its version, as update() does, so a copy read
+   * before this write never counts as current
+   */
+  async set(sessionId: string, session: Session): Promise<void> {
+    await this.ensureLoaded();
+    const previous = this.getLive(sessionId);
+    await this.write(
+      sessionId,
+      previous ? { ...session, version: (previous.value.version ?? 0) + 1 } : session
+    );
+  }
+
+  /**
+   * Mutators are synchronous and the change lands in memory before the
+   * journal write is awaited, so updates never interleave or need to retry
+   */
+  async update(sessionId: string, mutator: SessionMutator): Promise<Session | null> {
+    await this.ensureLoaded();
+    const current = this.getLive(sessionId);
+    if (!current) return null;
+
+    // Mutate a copy so a throwing mutator leaves the stored session untouched
+    const draft = structuredClone(current.value);
+    mutator(draft);
+    draft.version = (current.value.version ?? 0) + 1;
+
+    await this.write(sessionId, draft);
+    return draft;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.sessions.has(sessionId)) return;
+
+    this.removeSession(sessionId);
+    await this.append({ op: "delete", sessionId });
+  }
+
+  async list(): Promise<Session[]> {
+    await this.ensureLoaded();
+    return Array.from(this.sessions.keys())
+      .map((sessionId) => this.getLive(sessionId))
+      .filter((entry): entry is Expiring<Session> => entry !== null)
+      .map((entry) => structuredClone(entry.value));
+  }
+
+  async exists(sessionId: string): Promise<boolean> {
+    await this.ensureLoaded();
+    return this.getLive(sessionId) !== null;
+  }
+
+  async getByUserId(userId: string): Promise<Session[]> {
+    await this.ensureLoaded();
+    const sessionIds = Array.from(this.userIndex.get(userId) ?? []);
+    return sessionIds
+      .map((sessionId) => this.getLive(sessionId))
+      .filter((entry): entry is Expiring<Session> => entry !== null)
+      .map((entry) => structuredClone(entry.value));
+  }
+
+  async getUserTokens(userId: string): Promise<string | null> {
+    await this.ensureLoaded();
+    const entry = this.userTokens.get(userId);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.userTokens.delete(userId);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async setUserTokens(userId: string, encrypted: string): Promise<void> {
+    await this.ensureLoaded();
+    const expiresAt = Date.now() + this.tokensTtl;
+
+    this.userTokens.set(userId, { value: encrypted, expiresAt });
+    await this.append({ op: "setTokens", userId, encrypted, expiresAt });
+  }
+
+  async deleteUserTokens(userId: string): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.userTokens.has(userId)) return;
+
+    this.userTokens.delete(userId);
+    await this.append({ op: "deleteTokens", userId });
+  }
+
+  /**
+   * Flush pending writes, close the journal and release the data directory
+   * (useful for cleanup)
+   */
+  async close(): Promise<void> {
+    await this.loading?.catch(() => undefined);
+    await this.writes;
+    await this.journal?.close();
+    this.journal = null;
+    this.loading = null;
+
+    if (this.locked) {
+      heldLocks.delete(this.lockPath);
+      await fs.rm(this.lockPath, { force: true });
+      this.locked = false;
+    }
+  }
+
+  /**
+   * Store a copy of a session in memory straight away, then journal it
+   * Each write refreshes the session's TTL, as a Redis SET with EX does
+   */
+  private write(sessionId: string, session: Session): Promise<void> {
+    const stored = structuredClone(session);
+    const expiresAt = Date.now() + this.ttl;
+
+    this.putSession(sessionId, stored, expiresAt);
+    return this.append({ op: "set", sessionId, session: stored, expiresAt });
+  }
+
+  /**
+   * Get a session entry unless it has expired, dropping it if it has
+   * Expired sessions are left out of the next snapshot, so the drop isn't journaled
+   */
+  private getLive(sessionId: string): Expiring<Session> | null {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.removeSession(sessionId);
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store a session and bring its code and user indexes in line
+   */
+  private putSession(sessionId: string, session: Session, expiresAt: number): void {
+    this.unindexCode(sessionId);
+    this.unindexUsers(sessionId);
+    this.sessions.set(sessionId, { value: session, expiresAt });
+    this.codeToId.set(session.code, sessionId);
+
+    for (const participant of session.participants) {
+      const sessionIds = this.userIndex.get(participant.userId) ?? new Set<string>();
+      sessionIds.add(sessionId);
+      this.userIndex.set(participant.userId, sessionIds);
+    }
+  }
+
+  private removeSession(sessionId: string): void {
+    this.unindexCode(sessionId);
+    this.unindexUsers(sessionId);
+    this.sessions.delete(sessionId);
+  }
+
+  private unindexCode(sessionId: string): void {
+    const previous = this.sessions.get(sessionId);
+    if (previous && this.codeToId.get(previous.value.code) === sessionId) {
+      this.codeToId.delete(previous.value.code);
+    }
+  }
+
+  private unindexUsers(sessionId: string): void {
+    const previous = this.sessions.get(sessionId);
+    if (!previous) return;
+
+    for (const participant of previous.value.participants) {
+      const sessionIds = this.userIndex.get(participant.userId);
+      sessionIds?.delete(sessionId);
+      if (sessionIds?.size === 0) this.userIndex.delete(participant.userId);
+    }
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    switch (entry.op) {
+      case "set":
+        this.putSession(entry.sessionId, entry.session, entry.expiresAt);
+        break;
+      case "delete":
+        this.removeSession(entry.sessionId);
+        break;
+      case "setTokens":
+        this.userTokens.set(entry.userId, { value: entry.encrypted, expiresAt: entry.expiresAt });
+        break;
+      case "deleteTokens":
+        this.userTokens.delete(entry.userId);
+        break;
+    }
+  }
+
+  /**
+   * Write a change to the journal, compacting once it has grown enough
+   * Writes are chained so journal order always matches the order of changes
+   */
+  private append(entry: JournalEntry): Promise<void> {
+    const line = JSON.stringify(entry) + "\n";
+
+    const write = this.writes.then(async () => {
+      const journal = await this.openJournal();
+      await journal.appendFile(line, "utf8");
+      await journal.datasync();
+
+      if (++this.journalEntries >= this.compactAfter) {
+        await this.compact();
+      }
+    });
+
+    // A failed write rejects its caller but mustn't block the ones after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async openJournal(): Promise<fs.FileHandle> {
+    if (!this.journal) {
+      this.journal = await fs.open(this.journalPath, "a");
+    }
+    return this.journal;
+  }
+
+  /**
+   * Load the snapshot and replay the journal on top of it, once
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    await fs.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+    await this.lock();
+
+    const snapshot = await readIfExists(this.snapshotPath);
+    if (snapshot) {
+      const data = JSON.parse(snapshot) as StoreSnapshot;
+      for (const [sessionId, entry] of Object.entries(data.sessions)) {
+        this.putSession(sessionId, entry.value, entry.expiresAt);
+      }
+      for (const [code, sessionId] of Object.entries(data.codes)) {
+        if (this.sessions.has(sessionId)) this.codeToId.set(code, sessionId);
+      }
+      for (const [userId, entry] of Object.entries(data.tokens)) {
+        this.userTokens.set(userId, entry);
+      }
+    }
+
+    const journal = await readIfExists(this.journalPath);
+    if (journal) {
+      const lines = journal.split("\n").filter((line) => line.trim() !== "");
+      lines.forEach((line, index) => {
+        try {
+          this.applyEntry(JSON.parse(line) as JournalEntry);
+        } catch {
+          // Only the last write can be torn by a crash; it never resolved, so drop it
+          if (index === lines.length - 1) {
+            console.warn("[FileStore] Ignoring incomplete last journal entry");
+            return;
+          }
+          throw new Error(`Corrupt session journal entry at line ${index + 1}`);
+        }
+      });
+    }
+
+    // Fencing tokens come from the in-memory regeneration coordinator, which
+    // starts counting again on every boot. A fence left from the last run
+    // would make the session drop every regeneration until the count caught up
+    for (const entry of Array.from(this.sessions.values())) {
+      delete entry.value.regenerationFence;
+    }
+
+    // Start from a clean snapshot and an empty journal
+    await this.compact();
+  }
+
+  /**
+   * Take the data directory's lock file, or fail if another store holds it
+   * A lock left by a process that has died is taken over
+   */
+  private async lock(): Promise<void> {
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockPath, String(process.pid), { flag: "wx" });
+        heldLocks.add(this.lockPath);
+        this.locked = true;
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const pid = Number(await readIfExists(this.lockPath));
+      if (isLockHolderAlive(pid, this.lockPath)) {
+        throw new Error(
+          `Session data directory ${path.dirname(this.lockPath)} is already in use by process ${pid}`
+        );
+      }
+
+      console.warn(`[FileStore] Taking over stale lock left by process ${pid}`);
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Fold the journal into the snapshot file, leaving out expired data
+   */
+  private async compact(): Promise<void> {
+    const now = Date.now();
+    const snapshot: StoreSnapshot = { sessions: {}, codes: {}, tokens: {} };
+
+    for (const [sessionId, entry] of Array.from(this.sessions.entries())) {
+      if (entry.expiresAt > now) snapshot.sessions[sessionId] = entry;
+    }
+    for (const [code, sessionId] of Array.from(this.codeToId.entries())) {
+      if (snapshot.sessions[sessionId]) snapshot.codes[code] = sessionId;
+    }
+    for (const [userId, entry] of Array.from(this.userTokens.entries())) {
+      if (entry.expiresAt > now) snapshot.tokens[userId] = entry;
+    }
+
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const file = await fs.open(tempPath, "w");
+    try {
+      await file.writeFile(JSON.stringify(snapshot), "utf8");
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await fs.rename(tempPath, this.snapshotPath);
+
+    // Entries already in the snapshot would replay harmlessly, so a crash
+    // before the truncate loses nothing
+    await this.journal?.close();
+    this.journal = await fs.open(this.journalPath, "w");
+    this.journalEntries = 0;
+  }
+}
+
+// Lock files held by stores in this process. Kept on globalThis so the copy of
+// this module loaded by server.ts and the one bundled into the routes agree
+const globalForFileStore = globalThis as typeof globalThis & { fileStoreLocks?: Set<string> };
+const heldLocks = (globalForFileStore.fileStoreLocks ??= new Set<string>());
+
+/**
+ * Check whether the process named in a lock file still holds it
+ * A lock with this process's id is only live if a store here took it; after a
+ * restart in a container the new process often gets the old one's id
+ */
+function isLockHolderAlive(pid: number, lockPath: string): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  if (pid === process.pid) return heldLocks.has(lockPath);
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive, but owned by another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
@@ -1,6 +1,8 @@
 import { SessionStore } from "./store.interface";
 import { InMemoryStore } from "./memory-store";
 import { RedisStore } from "./redis-store";
+import { FileStore } from "./file-store";
+import { TokenVault } from "./token-vault";
 
 /**
  * Get the session store based on environment configuration
@@ -13,20 +15,41 @@ export function getSessionStore(): SessionStore {
     return new RedisStore();
   }
 
+  if (storeType === "file") {
+    console.log("Using file session store");
+    return new FileStore();
+  }
+
   console.log("Using in-memory session store");
   return new InMemoryStore();
 }
 
-// Export a singleton instance
-let storeInstance: SessionStore | null = null;
+// server.ts loads this module through tsx while the API routes run their own
+// bundled copy, so the singletons live on globalThis to be shared by both.
+// Otherwise the playback monitor, idle sweeper and socket handlers would read
+// a different (empty or stale) store from the one the routes write to
+const globalForSession = globalThis as typeof globalThis & {
+  sessionStore?: SessionStore;
+  tokenVault?: TokenVault;
+};
 
 export function getStore(): SessionStore {
-  if (!storeInstance) {
-    storeInstance = getSessionStore();
+  if (!globalForSession.sessionStore) {
+    globalForSession.sessionStore = getSessionStore();
+  }
+  return globalForSession.sessionStore;
+}
+
+/**
+ * Get the token vault, kept in the same backend as sessions
+ */
+export function getTokenVault(): TokenVault {
+  if (!globalForSession.tokenVault) {
+    globalForSession.tokenVault = new TokenVault(getStore());
   }
-  return storeInstance;
+  return globalForSession.tokenVault;
 }
 
 // Export types and implementations
 export type { SessionStore };
-export { InMemoryStore, RedisStore };
+export { InMemoryStore, RedisStore, FileStore, TokenVault };
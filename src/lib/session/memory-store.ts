@@ -1,27 +1,66 @@
 import { Session } from "@/types";
-import { SessionStore } from "./store.interface";
+import { SessionStore, SessionMutator } from "./store.interface";
 
 /**
  * In-memory session store implementation
- * Good for development and MVP with small user base
+ * Good for development and MVP with small user base. Sessions are copied in
+ * and out, so callers can't change stored data without a write - as with the
+ * other stores.
  * NOTE: Data is lost on server restart
  */
 export class InMemoryStore implements SessionStore {
   private sessions: Map<string, Session> = new Map();
   private codeToId: Map<string, string> = new Map();
+  private userTokens: Map<string, string> = new Map();
 
   async get(sessionId: string): Promise<Session | null> {
-    return this.sessions.get(sessionId) || null;
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
   }
 
   async getByCode(code: string): Promise<Session | null> {
     const sessionId = this.codeToId.get(code);
     if (!sessionId) return null;
-    return this.sessions.get(sessionId) || null;
+    return this.get(sessionId);
   }
 
+  /**
+   * Overwriting a session bumps its version, as update() does, so a copy read
+   * before this write never counts as current
+   */
   async set(sessionId: string, session: Session): Promise<void> {
-    this.sessions.set(sessionId, session);
+    const previous = this.sessions.get(sessionId);
+    this.write(
+      sessionId,
+      previous ? { ...session, version: (previous.version ?? 0) + 1 } : session
+    );
+  }
+
+  /**
+   * Mutators are synchronous, so the read-modify-write cannot interleave with
+   * another update in a single process and never needs to retry
+   */
+  async update(sessionId: string, mutator: SessionMutator): Promise<Session | null> {
+    const current = this.sessions.get(sessionId);
+    if (!current) return null;
+
+    // Mutate a copy so a throwing mutator leaves the stored session untouched
+    const draft = structuredClone(current);
+    mutator(draft);
+    draft.version = (current.version ?? 0) + 1;
+
+    this.write(sessionId, draft);
+    return draft;
+  }
+
+  private write(sessionId: string, session: Session): void {
+    // A changed code stops resolving to the session
+    const previous = this.sessions.get(sessionId);
+    if (previous && previous.code !== session.code) {
+      this.codeToId.delete(previous.code);
+    }
+
+    this.sessions.set(sessionId, structuredClone(session));
     this.codeToId.set(session.code, sessionId);
   }
 
@@ -34,7 +73,7 @@ export class InMemoryStore implements SessionStore {
   }
 
   async list(): Promise<Session[]> {
-    return Array.from(this.sessions.values());
+    return Array.from(this.sessions.values()).map((session) => structuredClone(session));
   }
 
   async exists(sessionId: string): Promise<boolean> {
@@ -43,8 +82,20 @@ export class InMemoryStore implements SessionStore {
 
   async getByUserId(userId: string): Promise<Session[]> {
     const sessions = Array.from(this.sessions.values());
-    return sessions.filter((session) =>
-      session.participants.some((p) => p.userId === userId)
-    );
+    return sessions
+      .filter((session) => session.participants.some((p) => p.userId === userId))
+      .map((session) => structuredClone(session));
+  }
+
+  async getUserTokens(userId: string): Promise<string | null> {
+    return this.userTokens.get(userId) || null;
+  }
+
+  async setUserTokens(userId: string, encrypted: string): Promise<void> {
+    this.userTokens.set(userId, encrypted);
+  }
+
+  async deleteUserTokens(userId: string): Promise<void> {
+    this.userTokens.delete(userId);
   }
 }
@@ -1,6 +1,6 @@
 import { Session } from "@/types";
-import { SessionStore } from "./store.interface";
-import Redis from "ioredis";
+import { SessionStore, SessionMutator } from "./store.interface";
+import Redis, { type ChainableCommander } from "ioredis";
 
 /**
  * Type guard to validate Session data from Redis
@@ -20,6 +20,41 @@ function isValidSession(data: unknown): data is Session {
   );
 }
 
+/**
+ * Compare-and-set script for optimistic session updates
+ * KEYS[1] = session key, KEYS[2] = version key
+ * ARGV[1] = expected version, ARGV[2] = session JSON, ARGV[3] = new version, ARGV[4] = TTL
+ * Returns 1 on success, 0 on version conflict, -1 if the session no longer exists
+ */
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return -1
+end
+local current = redis.call("GET", KEYS[2]) or "0"
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[4])
+redis.call("SET", KEYS[2], ARGV[3], "EX", ARGV[4])
+return 1
+`;
+
+/**
+ * Overwrite script for set(), checked against the version it was based on
+ * KEYS[1] = session key, KEYS[2] = version key
+ * ARGV[1] = expected version, ARGV[2] = session JSON, ARGV[3] = new version, ARGV[4] = TTL
+ * Returns 1 on success, 0 on version conflict
+ */
+const VERSIONED_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[2]) or "0"
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[4])
+redis.call("SET", KEYS[2], ARGV[3], "EX", ARGV[4])
+return 1
+`;
+
 /**
  * Redis session store implementation
  * For production use with persistent, scalable storage
@@ -29,8 +64,12 @@ export class RedisStore implements SessionStore {
   private readonly keyPrefix = "session:";
   private readonly codePrefix = "code:";
   private readonly userPrefix = "user:";
+  private readonly versionPrefix = "version:";
+  private readonly tokensPrefix = "tokens:";
   private readonly sessionsSet = "sessions:active"; // Set to track all active sessions
   private readonly ttl = 60 * 60 * 24; // 24 hours
+  private readonly tokensTtl = 60 * 60 * 24 * 30; // 30 days, refresh tokens outlive sessions
+  private readonly maxUpdateAttempts = 5;
 
   constructor(redisUrl?: string) {
     this.redis = new Redis(redisUrl || process.env.REDIS_URL || "redis://localhost:6379", {
@@ -72,29 +111,81 @@ export class RedisStore implements SessionStore {
     return this.get(sessionId);
   }
 
+  /**
+   * Overwriting a session bumps its version, as update() does, so an update
+   * racing this write retries against it instead of writing over it
+   */
   async set(sessionId: string, session: Session): Promise<void> {
-    const data = JSON.stringify(session);
-
-    // Use pipeline for atomic operations
-    const pipeline = this.redis.pipeline();
-
-    // Store session data
-    pipeline.set(this.keyPrefix + sessionId, data, "EX", this.ttl);
+    for (let attempt = 1; attempt <= this.maxUpdateAttempts; attempt++) {
+      const previous = await this.get(sessionId);
+      const expectedVersion = previous ? previous.version ?? 0 : 0;
+      const stored = previous ? { ...session, version: expectedVersion + 1 } : session;
+
+      const result = await this.redis.eval(
+        VERSIONED_SET_SCRIPT,
+        2,
+        this.keyPrefix + sessionId,
+        this.versionPrefix + sessionId,
+        String(expectedVersion),
+        JSON.stringify(stored),
+        String(stored.version ?? 0),
+        String(this.ttl)
+      );
+
+      if (result === 1) {
+        const pipeline = this.redis.pipeline();
+        if (previous) {
+          this.removeStaleIndexes(pipeline, sessionId, previous, stored);
+        }
+        this.addIndexes(pipeline, sessionId, stored);
+        await pipeline.exec();
+        return;
+      }
 
-    // Map code to session ID
-    pipeline.set(this.codePrefix + session.code, sessionId, "EX", this.ttl);
+      console.log(`[RedisStore] Version conflict setting session ${sessionId} (attempt ${attempt}/${this.maxUpdateAttempts})`);
+    }
 
-    // Add to active sessions set
-    pipeline.sadd(this.sessionsSet, sessionId);
-    pipeline.expire(this.sessionsSet, this.ttl);
+    throw new Error(`Failed to set session ${sessionId} after ${this.maxUpdateAttempts} attempts due to concurrent modifications`);
+  }
 
-    // Index sessions by user ID for each participant
-    for (const participant of session.participants) {
-      pipeline.sadd(this.userPrefix + participant.userId, sessionId);
-      pipeline.expire(this.userPrefix + participant.userId, this.ttl);
+  async update(sessionId: string, mutator: SessionMutator): Promise<Session | null> {
+    for (let attempt = 1; attempt <= this.maxUpdateAttempts; attempt++) {
+      const previous = await this.get(sessionId);
+      if (!previous) return null;
+
+      const session = structuredClone(previous);
+      const expectedVersion = session.version ?? 0;
+      mutator(session);
+      session.version = expectedVersion + 1;
+
+      const result = await this.redis.eval(
+        COMPARE_AND_SET_SCRIPT,
+        2,
+        this.keyPrefix + sessionId,
+        this.versionPrefix + sessionId,
+        String(expectedVersion),
+        JSON.stringify(session),
+        String(session.version),
+        String(this.ttl)
+      );
+
+      if (result === -1) return null;
+
+      if (result === 1) {
+        const pipeline = this.redis.pipeline();
+        this.removeStaleIndexes(pipeline, sessionId, previous, session);
+        this.addIndexes(pipeline, sessionId, session);
+        await pipeline.exec();
+        return session;
+      }
+
+      console.log(`[RedisStore] Version conflict updating session ${sessionId} (attempt ${attempt}/${this.maxUpdateAttempts})`);
+
+      // Small randomized backoff so competing writers don't retry in lockstep
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20 * attempt));
     }
 
-    await pipeline.exec();
+    throw new Error(`Failed to update session ${sessionId} after ${this.maxUpdateAttempts} attempts due to concurrent modifications`);
   }
 
   async delete(sessionId: string): Promise<void> {
@@ -109,6 +200,9 @@ export class RedisStore implements SessionStore {
     // Delete code mapping
     pipeline.del(this.codePrefix + session.code);
 
+    // Delete version counter
+    pipeline.del(this.versionPrefix + sessionId);
+
     // Remove from active sessions set
     pipeline.srem(this.sessionsSet, sessionId);
 
@@ -131,7 +225,12 @@ export class RedisStore implements SessionStore {
       sessionIds.map(id => this.get(id))
     );
 
-    // Filter out null sessions (expired or deleted)
+    // Drop sessions that expired without being deleted from the set
+    const expiredIds = sessionIds.filter((_, i) => sessions[i] === null);
+    if (expiredIds.length > 0) {
+      await this.redis.srem(this.sessionsSet, ...expiredIds);
+    }
+
     return sessions.filter((s): s is Session => s !== null);
   }
 
@@ -148,7 +247,57 @@ export class RedisStore implements SessionStore {
       sessionIds.map((id) => this.get(id))
     );
 
-    return sessions.filter((s): s is Session => s !== null);
+    // The index is written after the session, so it can briefly lag behind it
+    return sessions.filter((s): s is Session =>
+      s !== null && s.participants.some((p) => p.userId === userId)
+    );
+  }
+
+  async getUserTokens(userId: string): Promise<string | null> {
+    return this.redis.get(this.tokensPrefix + userId);
+  }
+
+  async setUserTokens(userId: string, encrypted: string): Promise<void> {
+    await this.redis.set(this.tokensPrefix + userId, encrypted, "EX", this.tokensTtl);
+  }
+
+  async deleteUserTokens(userId: string): Promise<void> {
+    await this.redis.del(this.tokensPrefix + userId);
+  }
+
+  /**
+   * Queue code, active-set and per-user index writes onto a pipeline
+   */
+  private addIndexes(pipeline: ChainableCommander, sessionId: string, session: Session): void {
+    // Map code to session ID
+    pipeline.set(this.codePrefix + session.code, sessionId, "EX", this.ttl);
+
+    // Add to active sessions set
+    pipeline.sadd(this.sessionsSet, sessionId);
+    pipeline.expire(this.sessionsSet, this.ttl);
+
+    // Index sessions by user ID for each participant
+    for (const participant of session.participants) {
+      pipeline.sadd(this.userPrefix + participant.userId, sessionId);
+      pipeline.expire(this.userPrefix + participant.userId, this.ttl);
+    }
+  }
+
+  /**
+   * Queue removal of index entries the session no longer matches: its old
+   * code, and users who stopped being participants
+   */
+  private removeStaleIndexes(pipeline: ChainableCommander, sessionId: string, previous: Session, session: Session): void {
+    if (previous.code !== session.code) {
+      pipeline.del(this.codePrefix + previous.code);
+    }
+
+    const participantIds = new Set(session.participants.map((p) => p.userId));
+    for (const participant of previous.participants) {
+      if (!participantIds.has(participant.userId)) {
+        pipeline.srem(this.userPrefix + participant.userId, sessionId);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,315 @@
+import { z } from "zod";
+import {
+  ENERGY_ARCS,
+  TASTE_BLENDS,
+  MIN_PROFILE_DEPTH,
+  MAX_PROFILE_DEPTH,
+  CANDIDATE_SOURCES,
+  MAX_CANDIDATE_QUOTA,
+  SKIP_THRESHOLD_MODES,
+  MAX_SKIP_VOTE_WEIGHT,
+  MAX_SKIP_VOTE_DELAY_SECONDS,
+  QUEUE_VOTE_TYPES,
+  MAX_QUEUE_VOTE_SCORE_WEIGHT,
+  MAX_TRACK_REQUEST_LIMIT,
+  POLL_OPTION_KINDS,
+  MIN_POLL_OPTIONS,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_QUESTION_LENGTH,
+} from "../constants";
+import type { PortableSession, Session, SessionSnapshot } from "@/types";
+
+/**
+ * Session snapshots
+ *
+ * A snapshot is a self-contained JSON copy of a session that can be imported
+ * into another environment or store backend. Unlike the store's own checks,
+ * imports are untrusted, so every part of the session is validated. Bump the
+ * version when the format changes in a way older snapshots can't be read as.
+ */
+
+export const SESSION_SNAPSHOT_FORMAT = "blendroom-session";
+export const SESSION_SNAPSHOT_VERSION = 1;
+
+const id = z.string().min(1);
+const timestamp = z.number().int().nonnegative();
+
+const imageSchema = z.object({
+  url: z.string(),
+  height: z.number(),
+  width: z.number(),
+});
+
+const externalUrlsSchema = z.object({
+  spotify: z.string(),
+});
+
+const artistSchema = z.object({
+  id,
+  name: z.string(),
+  uri: z.string(),
+  external_urls: externalUrlsSchema,
+  genres: z.array(z.string()).optional(),
+});
+
+const audioFeaturesSchema = z.object({
+  id,
+  danceability: z.number(),
+  energy: z.number(),
+  valence: z.number(),
+  tempo: z.number(),
+  acousticness: z.number(),
+  instrumentalness: z.number(),
+  speechiness: z.number(),
+  loudness: z.number(),
+  key: z.number().int(),
+  mode: z.number().int(),
+  time_signature: z.number().int(),
+});
+
+const trackSchema = z.object({
+  id,
+  name: z.string(),
+  uri: z.string(),
+  duration_ms: z.number().nonnegative(),
+  artists: z.array(artistSchema),
+  album: z.object({
+    id,
+    name: z.string(),
+    images: z.array(imageSchema),
+    uri: z.string(),
+    external_urls: externalUrlsSchema,
+  }),
+  external_urls: externalUrlsSchema,
+  preview_url: z.string().nullable(),
+  audioFeatures: audioFeaturesSchema.optional(),
+});
+
+const timeRangeTasteSchema = z.object({
+  topTracks: z.array(id),
+  topArtists: z.array(artistSchema),
+});
+
+const tasteProfileSchema = z.object({
+  userId: id,
+  topTracks: z.array(id),
+  topArtists: z.array(artistSchema),
+  topGenres: z.array(z.string()),
+  lastUpdated: timestamp,
+  timeRanges: z.object({
+    short_term: timeRangeTasteSchema.optional(),
+    medium_term: timeRangeTasteSchema.optional(),
+    long_term: timeRangeTasteSchema.optional(),
+  }).optional(),
+  depth: z.number().int().min(MIN_PROFILE_DEPTH).max(MAX_PROFILE_DEPTH).optional(),
+});
+
+const participantSchema = z.object({
+  userId: id,
+  name: z.string(),
+  image: z.string().optional(),
+  joinedAt: timestamp,
+  isHost: z.boolean(),
+  isDJ: z.boolean(),
+  tasteProfile: tasteProfileSchema.optional(),
+});
+
+const queueItemSchema = z.object({
+  track: trackSchema,
+  position: z.number().int().nonnegative(),
+  addedBy: id,
+  addedAt: timestamp,
+  isStable: z.boolean(),
+  matchedUserIds: z.array(id).optional(),
+  score: z.number().optional(),
+});
+
+const trackRequestSchema = z.object({
+  id,
+  track: trackSchema,
+  requestedBy: id,
+  requestedAt: timestamp,
+});
+
+const playedItemSchema = z.object({
+  trackId: id,
+  userIds: z.array(id),
+  artistIds: z.array(id).optional(),
+  durationMs: z.number().nonnegative(),
+  playedAt: timestamp,
+});
+
+const recapPlaySchema = z.object({
+  track: z.object({
+    id,
+    name: z.string(),
+    artists: z.array(z.object({ id, name: z.string() })),
+    albumName: z.string(),
+    imageUrl: z.string().optional(),
+    durationMs: z.number().nonnegative(),
+    uri: z.string(),
+  }),
+  playedAt: timestamp,
+  addedBy: id,
+  matchedUserIds: z.array(id).optional(),
+  likedBy: z.array(id),
+  skippedBy: z.array(id),
+});
+
+const voteSchema = z.object({
+  userId: id,
+  trackId: id,
+  timestamp,
+});
+
+const skipVoteSchema = voteSchema.extend({
+  playId: id.optional(),
+});
+
+const queueVoteSchema = voteSchema.extend({
+  type: z.enum(QUEUE_VOTE_TYPES),
+});
+
+const playInstanceSchema = z.object({
+  id,
+  trackId: id,
+  startedAt: timestamp,
+});
+
+const feedbackEntrySchema = z.object({
+  kind: z.enum(["like", "skip"]),
+  trackId: id,
+  artistIds: z.array(id),
+  genres: z.array(z.string()),
+  userIds: z.array(id),
+  timestamp,
+});
+
+const pollOptionSchema = z.object({
+  id,
+  kind: z.enum(POLL_OPTION_KINDS),
+  label: z.string(),
+  genre: z.string().optional(),
+  energyArc: z.enum(ENERGY_ARCS).optional(),
+  track: trackSchema.optional(),
+});
+
+const pollSchema = z.object({
+  id,
+  question: z.string().min(1).max(MAX_POLL_QUESTION_LENGTH),
+  options: z.array(pollOptionSchema).min(MIN_POLL_OPTIONS).max(MAX_POLL_OPTIONS),
+  votes: z.array(z.object({ userId: id, optionId: id, timestamp })),
+  createdBy: id,
+  createdAt: timestamp,
+  closedAt: timestamp.optional(),
+  winnerId: id.optional(),
+});
+
+const settingsSchema = z.object({
+  voteToSkip: z.boolean(),
+  skipThreshold: z.number().int().min(1),
+  skipThresholdMode: z.enum(SKIP_THRESHOLD_MODES).optional(),
+  skipThresholdPercent: z.number().int().min(1).max(100).optional(),
+  djVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+  hostVoteWeight: z.number().int().min(1).max(MAX_SKIP_VOTE_WEIGHT).optional(),
+  hostSkipOverride: z.boolean().optional(),
+  skipVoteDelaySeconds: z.number().int().min(0).max(MAX_SKIP_VOTE_DELAY_SECONDS).optional(),
+  queueVoteScoreWeight: z.number().min(0).max(MAX_QUEUE_VOTE_SCORE_WEIGHT).optional(),
+  trackRequestLimit: z.number().int().min(1).max(MAX_TRACK_REQUEST_LIMIT).optional(),
+  autoApproveRequests: z.boolean().optional(),
+  energyArc: z.enum(ENERGY_ARCS).optional(),
+  tasteBlend: z.enum(TASTE_BLENDS).optional(),
+  profileDepth: z.number().int().min(MIN_PROFILE_DEPTH).max(MAX_PROFILE_DEPTH).optional(),
+  commonGroundQuorum: z.number().gt(0).max(1).optional(),
+  candidateQuotas: z.record(z.enum(CANDIDATE_SOURCES), z.number().min(0).max(MAX_CANDIDATE_QUOTA)).optional(),
+});
+
+const seedPlaylistSchema = z.object({
+  id,
+  name: z.string(),
+  imageUrl: z.string().optional(),
+  trackIds: z.array(id),
+  topArtists: z.array(artistSchema),
+  addedBy: id,
+  addedAt: timestamp,
+});
+
+const portableSessionSchema: z.ZodType<PortableSession> = z.object({
+  id,
+  code: id,
+  hostId: id,
+  participants: z.array(participantSchema).min(1),
+  pastParticipants: z.array(participantSchema).optional(),
+  djs: z.array(id),
+  settings: settingsSchema,
+  queue: z.array(queueItemSchema),
+  trackRequests: z.array(trackRequestSchema).optional(),
+  playedTracks: z.array(id),
+  recentPlays: z.array(playedItemSchema).optional(),
+  playHistory: z.array(recapPlaySchema).optional(),
+  votes: z.object({
+    skip: z.array(skipVoteSchema),
+    like: z.array(voteSchema),
+    queue: z.array(queueVoteSchema).optional(),
+  }),
+  currentPlay: playInstanceSchema.optional(),
+  feedback: z.array(feedbackEntrySchema).optional(),
+  poll: pollSchema.optional(),
+  vibeBias: pollOptionSchema.optional(),
+  profile: z.object({
+    commonArtists: z.array(id),
+    commonGenres: z.array(z.string()),
+    tasteProfiles: z.array(tasteProfileSchema),
+    seedProfile: tasteProfileSchema.optional(),
+  }).optional(),
+  seedPlaylist: seedPlaylistSchema.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  lastParticipantChange: timestamp,
+  activeDeviceId: z.string().optional(),
+  activeDeviceName: z.string().optional(),
+  activeDeviceType: z.string().optional(),
+  deviceOwnerId: id.optional(),
+  market: z.string().length(2).optional(),
+}).superRefine((session, ctx) => {
+  const participantIds = new Set(session.participants.map((p) => p.userId));
+
+  if (!participantIds.has(session.hostId)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["hostId"], message: "Host must be a participant" });
+  }
+
+  session.djs.forEach((userId, index) => {
+    if (!participantIds.has(userId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["djs", index], message: "DJs must be participants" });
+    }
+  });
+});
+
+/**
+ * Schema of a snapshot file, for validating imports
+ */
+export const sessionSnapshotSchema: z.ZodType<SessionSnapshot> = z.object({
+  format: z.literal(SESSION_SNAPSHOT_FORMAT),
+  version: z.literal(SESSION_SNAPSHOT_VERSION, {
+    errorMap: () => ({ message: `Unsupported snapshot version (expected ${SESSION_SNAPSHOT_VERSION})` }),
+  }),
+  exportedAt: timestamp,
+  session: portableSessionSchema,
+});
+
+/**
+ * Take a snapshot of a session
+ * The store's concurrency bookkeeping is left out; it means nothing elsewhere
+ */
+export function createSessionSnapshot(session: Session, exportedAt: number = Date.now()): SessionSnapshot {
+  const portable: Session = structuredClone(session);
+  delete portable.version;
+  delete portable.regenerationFence;
+
+  return {
+    format: SESSION_SNAPSHOT_FORMAT,
+    version: SESSION_SNAPSHOT_VERSION,
+    exportedAt,
+    session: portable,
+  };
+}
@@ -1,8 +1,15 @@
 import { Session } from "@/types";
 
+/**
+ * Mutation applied to a session inside SessionStore.update
+ * Must be synchronous and free of side effects: it may run more than once
+ * when a concurrent write is detected. Throw to abort the update.
+ */
+export type SessionMutator = (session: Session) => void;
+
 /**
  * Session store interface for managing session data
- * Implementations: InMemoryStore, RedisStore
+ * Implementations: InMemoryStore, RedisStore, FileStore
  */
 export interface SessionStore {
   /**
@@ -17,9 +24,19 @@ export interface SessionStore {
 
   /**
    * Set/update a session
+   * Unconditional overwrite - prefer update() for read-modify-write changes.
+   * Overwriting an existing session bumps its version, so concurrent update()
+   * calls retry against this write rather than undo it
    */
   set(sessionId: string, session: Session): Promise<void>;
 
+  /**
+   * Atomically read, mutate and write a session using optimistic concurrency
+   * Retries the mutator against fresh data when the session's version changed
+   * underneath it. Returns the updated session, or null if it does not exist.
+   */
+  update(sessionId: string, mutator: SessionMutator): Promise<Session | null>;
+
   /**
    * Delete a session
    */
@@ -39,4 +56,19 @@ export interface SessionStore {
    * Get sessions by user ID (find all sessions a user is in)
    */
   getByUserId(userId: string): Promise<Session[]>;
+
+  /**
+   * Get a user's encrypted Spotify tokens (see TokenVault)
+   */
+  getUserTokens(userId: string): Promise<string | null>;
+
+  /**
+   * Store a user's encrypted Spotify tokens
+   */
+  setUserTokens(userId: string, encrypted: string): Promise<void>;
+
+  /**
+   * Remove a user's stored Spotify tokens
+   */
+  deleteUserTokens(userId: string): Promise<void>;
 }
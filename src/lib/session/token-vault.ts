@@ -0,0 +1,130 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { SessionStore } from "./store.interface";
+
+/**
+ * Spotify tokens kept for a user
+ */
+export interface VaultedTokens {
+  accessToken: string;
+  refreshToken?: string;
+  accessTokenExpires: number;     // Timestamp
+}
+
+// Refresh a little early so a token doesn't expire mid-request
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const CIPHER = "aes-256-gcm";
+
+/**
+ * Server-side store of each user's Spotify tokens
+ * Lets the server act on behalf of participants who aren't making the current
+ * request, e.g. to read every participant's top tracks for a session profile.
+ * Tokens are encrypted with a key derived from NEXTAUTH_SECRET before they
+ * reach the session store backend.
+ */
+export class TokenVault {
+  private store: SessionStore;
+  private key: Buffer | null = null;
+  private lastSaved: Map<string, string> = new Map(); // userId -> access token saved by this process
+
+  constructor(store: SessionStore) {
+    this.store = store;
+  }
+
+  /**
+   * Save a user's tokens
+   * Skips the write when this process already saved the same access token
+   */
+  async save(userId: string, tokens: VaultedTokens): Promise<void> {
+    if (this.lastSaved.get(userId) === tokens.accessToken) return;
+
+    await this.store.setUserTokens(userId, this.encrypt(JSON.stringify(tokens)));
+    this.lastSaved.set(userId, tokens.accessToken);
+  }
+
+  /**
+   * Load a user's tokens as stored, expired or not
+   */
+  async load(userId: string): Promise<VaultedTokens | null> {
+    const encrypted = await this.store.getUserTokens(userId);
+    if (!encrypted) return null;
+
+    try {
+      return JSON.parse(this.decrypt(encrypted)) as VaultedTokens;
+    } catch (error) {
+      console.error(`[TokenVault] Could not read stored tokens for user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a usable access token for a user, refreshing it when expired
+   * Returns null when the user has no stored tokens or the refresh fails
+   */
+  async getAccessToken(userId: string): Promise<string | null> {
+    const tokens = await this.load(userId);
+    if (!tokens) return null;
+
+    if (Date.now() < tokens.accessTokenExpires - EXPIRY_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+
+    console.log(`[TokenVault] Refreshing expired token for user ${userId}`);
+    const { refreshAccessToken } = await import("@/auth");
+    const refreshed = await refreshAccessToken({ ...tokens });
+
+    if (refreshed.error || typeof refreshed.accessToken !== "string") {
+      console.error(`[TokenVault] Token refresh failed for user ${userId}`);
+      return null;
+    }
+
+    await this.save(userId, {
+      accessToken: refreshed.accessToken,
+      refreshToken: typeof refreshed.refreshToken === "string" ? refreshed.refreshToken : tokens.refreshToken,
+      accessTokenExpires: typeof refreshed.accessTokenExpires === "number" ? refreshed.accessTokenExpires : Date.now(),
+    });
+
+    return refreshed.accessToken;
+  }
+
+  /**
+   * Forget a user's tokens
+   */
+  async remove(userId: string): Promise<void> {
+    this.lastSaved.delete(userId);
+    await this.store.deleteUserTokens(userId);
+  }
+
+  /**
+   * Encrypt as base64 "iv.tag.ciphertext"
+   */
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, this.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+  }
+
+  private decrypt(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+    if (!iv || !tag || !ciphertext) {
+      throw new Error("Malformed token data");
+    }
+
+    const decipher = createDecipheriv(CIPHER, this.getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  }
+
+  private getKey(): Buffer {
+    if (!this.key) {
+      const secret = process.env.NEXTAUTH_SECRET;
+      if (!secret) {
+        throw new Error("NEXTAUTH_SECRET is required to encrypt stored tokens");
+      }
+      this.key = createHash("sha256").update(secret).digest();
+    }
+    return this.key;
+  }
+}
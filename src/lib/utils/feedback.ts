@@ -0,0 +1,116 @@
+import type { FeedbackEntry, RecapPlay, Session } from "@/types";
+
+const FEEDBACK_LIMIT = 200;
+
+/**
+ * Record a like or a successful skip in the session's feedback history
+ * Artists come from the queue or the recent plays (the playing track is the
+ * last one recorded), genres from the participants' top artists. Spotify
+ * tracks carry no genres, so genre feedback only covers tracks by artists in
+ * someone's profile, the same genres candidates are scored on. Tracks the
+ * session knows nothing about are ignored. The track's latest play in the
+ * play history is credited too. Call from inside a SessionStore.update mutator.
+ */
+export function recordFeedback(
+  session: Session,
+  kind: FeedbackEntry["kind"],
+  trackId: string,
+  userIds: string[]
+): void {
+  markPlayHistory(session, kind, trackId, userIds);
+
+  const artistIds = findTrackArtistIds(session, trackId);
+  if (!artistIds) return;
+
+  session.feedback = [
+    ...(session.feedback ?? []),
+    {
+      kind,
+      trackId,
+      artistIds,
+      genres: findArtistGenres(session, artistIds),
+      userIds,
+      timestamp: Date.now(),
+    },
+  ].slice(-FEEDBACK_LIMIT);
+}
+
+/**
+ * Remove a participant's like of a track from the feedback history
+ * Call from inside a SessionStore.update mutator.
+ */
+export function removeLikeFeedback(session: Session, trackId: string, userId: string): void {
+  const play = findLatestPlay(session, trackId);
+  if (play) {
+    play.likedBy = play.likedBy.filter((id) => id !== userId);
+  }
+
+  if (!session.feedback) return;
+
+  session.feedback = session.feedback.filter(
+    (entry) => !(entry.kind === "like" && entry.trackId === trackId && entry.userIds.includes(userId))
+  );
+}
+
+/**
+ * Take back a skip recorded for a track, when the skip didn't go through
+ * Call from inside a SessionStore.update mutator.
+ */
+export function removeSkipFeedback(session: Session, trackId: string, userIds: string[]): void {
+  const play = findLatestPlay(session, trackId);
+  if (play) {
+    play.skippedBy = play.skippedBy.filter((id) => !userIds.includes(id));
+  }
+
+  if (!session.feedback) return;
+
+  session.feedback = session.feedback.filter(
+    (entry) => !(entry.kind === "skip" && entry.trackId === trackId &&
+      entry.userIds.length === userIds.length &&
+      entry.userIds.every((id) => userIds.includes(id)))
+  );
+}
+
+/**
+ * Credit a like or skip to the latest play of the track in the play history
+ */
+function markPlayHistory(
+  session: Session,
+  kind: FeedbackEntry["kind"],
+  trackId: string,
+  userIds: string[]
+): void {
+  const play = findLatestPlay(session, trackId);
+  if (!play) return;
+
+  const key = kind === "like" ? "likedBy" : "skippedBy";
+  play[key] = Array.from(new Set([...play[key], ...userIds]));
+}
+
+function findLatestPlay(session: Session, trackId: string): RecapPlay | undefined {
+  return (session.playHistory ?? []).filter((play) => play.track.id === trackId).pop();
+}
+
+function findTrackArtistIds(session: Session, trackId: string): string[] | null {
+  const queued = session.queue.find((item) => item.track.id === trackId);
+  if (queued) {
+    return queued.track.artists.map((artist) => artist.id);
+  }
+
+  const played = (session.recentPlays ?? []).filter((play) => play.trackId === trackId).pop();
+  return played?.artistIds ?? null;
+}
+
+function findArtistGenres(session: Session, artistIds: string[]): string[] {
+  const genres = new Set<string>();
+
+  for (const profile of session.profile?.tasteProfiles ?? []) {
+    for (const artist of profile.topArtists) {
+      if (artistIds.includes(artist.id)) {
+        artist.genres?.forEach((genre) => genres.add(genre));
+      }
+    }
+  }
+
+  return Array.from(genres);
+}
@@ -1,37 +1,89 @@
-import type { Session, PlaybackState } from "@/types";
+import type { PlaybackState, Session } from "@/types";
 import type { SessionStore } from "@/lib/session/store.interface";
 import { SpotifyService } from "@/lib/services/spotify.service";
 import { checkAndRepopulateQueue } from "@/lib/queue-auto-repopulate";
 import { broadcastToSession } from "@/lib/websocket/server";
-import { normalizeQueue } from "./queue";
+import { getVoteWindow } from "@/lib/algorithm/skip-threshold";
+import { normalizeQueue, recordPlayedItem } from "./queue";
+
+/**
+ * Drop skip votes cast before the current play started
+ * Call from inside a SessionStore.update mutator once the track has changed
+ */
+export function expireSkipVotes(session: Session): void {
+  const playId = session.currentPlay?.id;
+  session.votes.skip = session.votes.skip.filter(
+    (vote) => playId !== undefined && vote.playId === playId
+  );
+}
+
+/**
+ * Tell participants when skip voting opens on the current play
+ */
+export function broadcastVoteWindow(session: Session): void {
+  const window = getVoteWindow(session);
+  if (window && session.settings.voteToSkip) {
+    broadcastToSession(session.id, "vote_window", window);
+  }
+}
 
 /**
  * Handle track completion (natural progression, manual skip, or vote-to-skip)
  * - Removes current track from queue
  * - Normalizes queue positions and stable flags
+ * - Expires skip votes cast during the previous play
  * - Triggers auto-repopulation if needed
  * - Broadcasts WebSocket events to all participants
+ *
+ * @param expectedTrackId Only complete if this track is still at the head of the queue,
+ *   so concurrent reports of the same transition advance the queue once
+ * @param expectedPlayId Only complete if this play (null for none) is still the current one.
+ *   Each reporter sends the play it saw before the change, so a report that arrives after
+ *   another source already advanced is a no-op even when the same track is queued next again
+ * @returns false if the session is gone or the expected track was already completed
  */
 export async function handleTrackCompletion(
   sessionId: string,
-  session: Session,
   store: SessionStore,
-  accessToken: string
-): Promise<void> {
+  accessToken: string,
+  expectedTrackId?: string,
+  expectedPlayId?: string | null
+): Promise<boolean> {
+  let completed = false;
+
   // Remove first track from queue and add to played tracks
-  if (session.queue.length > 0) {
-    const completedTrack = session.queue.shift();
+  const session = await store.update(sessionId, (s) => {
+    completed = false;
+
+    if (expectedTrackId && s.queue[0]?.track.id !== expectedTrackId) {
+      return;
+    }
+
+    if (expectedPlayId !== undefined && (s.currentPlay?.id ?? null) !== expectedPlayId) {
+      return;
+    }
+
+    const completedTrack = s.queue.shift();
     if (completedTrack) {
-      session.playedTracks.push(completedTrack.track.id);
+      recordPlayedItem(s, completedTrack);
+
+      // Normalize queue positions and stable flags
+      s.queue = normalizeQueue(s.queue);
+    } else {
+      // Whatever plays now didn't come from the queue
+      s.currentPlay = undefined;
     }
 
-    // Normalize queue positions and stable flags
-    session.queue = normalizeQueue(session.queue);
-  }
+    // Pending votes were for the track that just ended
+    expireSkipVotes(s);
+
+    s.updatedAt = Date.now();
+    completed = true;
+  });
 
-  // Save updated session
-  session.updatedAt = Date.now();
-  await store.set(sessionId, session);
+  if (!session || !completed) {
+    return false;
+  }
 
   // Check if queue needs repopulation
   await checkAndRepopulateQueue(session, store, accessToken);
@@ -50,4 +102,8 @@ export async function handleTrackCompletion(
   if (updatedSession) {
     broadcastToSession(sessionId, "queue_updated", updatedSession.queue);
   }
+
+  broadcastVoteWindow(session);
+
+  return true;
 }
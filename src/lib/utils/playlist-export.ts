@@ -0,0 +1,41 @@
+import type { Session, SessionRecap, RecapPlay, PlaylistExportSelection } from "@/types";
+
+/**
+ * Track URIs to export from a live session, without duplicates
+ * Played tracks come from the play history, or the played IDs for plays
+ * older than the history keeps
+ */
+export function getSessionExportUris(session: Session, selection: PlaylistExportSelection): string[] {
+  const history = session.playHistory ?? [];
+
+  if (selection === "liked") {
+    return toUniqueUris(likedPlays(history).map((play) => play.track.id));
+  }
+
+  const playedIds = session.playedTracks.length >= history.length
+    ? session.playedTracks
+    : history.map((play) => play.track.id);
+
+  const queuedIds = selection === "played-and-queue"
+    ? session.queue.map((item) => item.track.id)
+    : [];
+
+  return toUniqueUris([...playedIds, ...queuedIds]);
+}
+
+/**
+ * Track URIs to export from an ended session's recap, without duplicates
+ * The queue is gone by then, so played-and-queue exports what was played
+ */
+export function getRecapExportUris(recap: SessionRecap, selection: PlaylistExportSelection): string[] {
+  const plays = selection === "liked" ? likedPlays(recap.plays) : recap.plays;
+  return toUniqueUris(plays.map((play) => play.track.id));
+}
+
+function likedPlays(plays: RecapPlay[]): RecapPlay[] {
+  return plays.filter((play) => play.likedBy.length > 0);
+}
+
+function toUniqueUris(trackIds: string[]): string[] {
+  return Array.from(new Set(trackIds)).map((id) => `spotify:track:${id}`);
+}
@@ -0,0 +1,76 @@
+import type { SeedPlaylist, SpotifyArtist, SpotifyPlaylistSummary, TasteProfile, Track } from "@/types";
+
+// Artists kept from a seed playlist, most frequent first
+const SEED_TOP_ARTISTS = 20;
+
+/**
+ * Extract a playlist ID from a Spotify playlist link, URI or bare ID
+ * Returns null when the input isn't one of those
+ */
+export function parsePlaylistId(input: string): string | null {
+  const value = input.trim();
+
+  const uriMatch = value.match(/^spotify:playlist:([A-Za-z0-9]+)$/);
+  if (uriMatch) return uriMatch[1];
+
+  const urlMatch = value.match(
+    /^(?:https?:\/\/)?open\.spotify\.com\/(?:intl-[a-z-]+\/)?playlist\/([A-Za-z0-9]+)\/?(?:[?#].*)?$/i
+  );
+  if (urlMatch) return urlMatch[1];
+
+  return /^[A-Za-z0-9]{16,32}$/.test(value) ? value : null;
+}
+
+/**
+ * Build a session's seed playlist from the playlist and its tracks
+ */
+export function buildSeedPlaylist(
+  playlist: SpotifyPlaylistSummary,
+  tracks: Track[],
+  addedBy: string,
+  addedAt: number = Date.now()
+): SeedPlaylist {
+  const trackIds = Array.from(new Set(tracks.map((track) => track.id)));
+
+  // Rank artists by how many of the playlist's tracks they're on
+  const artistCounts = new Map<string, { artist: SpotifyArtist; count: number }>();
+  for (const track of tracks) {
+    for (const artist of track.artists) {
+      const entry = artistCounts.get(artist.id);
+      if (entry) {
+        entry.count++;
+      } else {
+        artistCounts.set(artist.id, { artist, count: 1 });
+      }
+    }
+  }
+  const topArtists = Array.from(artistCounts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, SEED_TOP_ARTISTS)
+    .map((entry) => entry.artist);
+
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    imageUrl: playlist.images[0]?.url,
+    trackIds,
+    topArtists,
+    addedBy,
+    addedAt,
+  };
+}
+
+/**
+ * Taste profile of a seed playlist
+ * Lets the playlist take part in common ground and scoring like another
+ * participant would; its user ID never matches a real participant
+ */
+export function buildSeedTasteProfile(seed: SeedPlaylist): TasteProfile {
+  return {
+    userId: `playlist:${seed.id}`,
+    topTracks: seed.trackIds,
+    topArtists: seed.topArtists,
+    topGenres: Array.from(new Set(seed.topArtists.flatMap((artist) => artist.genres ?? []))),
+    lastUpdated: seed.addedAt,
+  };
+}
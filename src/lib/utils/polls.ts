@@ -0,0 +1,58 @@
+import { pickPollWinner } from "@/lib/algorithm/polls";
+import type { Poll, PollOption, Session } from "@/types";
+
+/**
+ * Record a participant's pick on the session's open poll
+ * Voting again changes the pick. Call from inside a SessionStore.update mutator.
+ */
+export function castPollVote(session: Session, userId: string, pollId: string, optionId: string): Poll {
+  const poll = session.poll;
+  if (!poll || poll.id !== pollId) {
+    throw new Error("Poll not found");
+  }
+  if (poll.closedAt) {
+    throw new Error("Poll is closed");
+  }
+  if (!poll.options.some((option) => option.id === optionId)) {
+    throw new Error("Option not found");
+  }
+
+  poll.votes = [
+    ...poll.votes.filter((vote) => vote.userId !== userId),
+    { userId, optionId, timestamp: Date.now() },
+  ];
+
+  return poll;
+}
+
+/**
+ * Close the session's open poll and keep its winner for the next queue generation
+ * A poll nobody voted on leaves any earlier bias alone. Call from inside a
+ * SessionStore.update mutator.
+ */
+export function closePoll(session: Session): Poll {
+  const poll = session.poll;
+  if (!poll || poll.closedAt) {
+    throw new Error("No poll is open");
+  }
+
+  const winner = pickPollWinner(poll);
+  poll.closedAt = Date.now();
+  poll.winnerId = winner?.id;
+  if (winner) {
+    session.vibeBias = winner;
+  }
+
+  return poll;
+}
+
+/**
+ * Drop the poll bias once a generated queue has been written
+ * Only clears the bias the queue was generated with, so a poll closed during
+ * generation still steers the next one. Call from inside a SessionStore.update mutator.
+ */
+export function consumeVibeBias(session: Session, used: PollOption | undefined): void {
+  if (used && session.vibeBias?.id === used.id) {
+    session.vibeBias = undefined;
+  }
+}
@@ -1,4 +1,6 @@
-import type { QueueItem } from "@/types";
+import { nanoid } from "nanoid";
+import { rankQueueByVotes } from "../algorithm/queue-votes";
+import type { QueueItem, RecapTrack, Session, Track, TrackRequest } from "@/types";
 
 /**
  * Normalize queue item positions and stable flags after modifications
@@ -11,3 +13,97 @@ export function normalizeQueue(queue: QueueItem[]): QueueItem[] {
     isStable: index < 3,
   }));
 }
+
+/**
+ * Rank the session's upcoming tracks by their queue votes
+ * Drops votes on tracks that have left the queue first, and leaves the order
+ * alone when nobody has voted. Call from inside a SessionStore.update mutator,
+ * after anything that rebuilds the queue.
+ */
+export function rankSessionQueue(session: Session): void {
+  if (!session.votes.queue) return;
+
+  const queuedTrackIds = new Set(session.queue.map((item) => item.track.id));
+  const votes = session.votes.queue.filter((vote) => queuedTrackIds.has(vote.trackId));
+  session.votes.queue = votes;
+
+  if (votes.length === 0) return;
+
+  session.queue = normalizeQueue(
+    rankQueueByVotes(session.queue, votes, session.settings.queueVoteScoreWeight ?? 0)
+  );
+}
+
+/**
+ * Add an approved track request to the end of the queue
+ * Credited to whoever asked for it. Call from inside a SessionStore.update mutator.
+ */
+export function queueRequestedTrack(session: Session, request: TrackRequest): QueueItem {
+  const item: QueueItem = {
+    track: request.track,
+    position: session.queue.length,
+    addedBy: request.requestedBy,
+    addedAt: Date.now(),
+    isStable: false,
+  };
+
+  session.queue.push(item);
+  return item;
+}
+
+const RECENT_PLAYS_LIMIT = 20;
+const PLAY_HISTORY_LIMIT = 500;
+
+/**
+ * Record a queue item as played and start a new play instance for it
+ * Clears its queue votes. Credits the track to the participants it matched, or to whoever added it
+ * by hand. Call from inside a SessionStore.update mutator.
+ */
+export function recordPlayedItem(session: Session, item: QueueItem): void {
+  session.playedTracks.push(item.track.id);
+  session.currentPlay = { id: nanoid(), trackId: item.track.id, startedAt: Date.now() };
+
+  // Queue votes only matter while a track is upcoming
+  if (session.votes.queue) {
+    session.votes.queue = session.votes.queue.filter((vote) => vote.trackId !== item.track.id);
+  }
+
+  const userIds = item.matchedUserIds ?? (item.addedBy !== "algorithm" ? [item.addedBy] : []);
+  session.recentPlays = [
+    ...(session.recentPlays ?? []),
+    {
+      trackId: item.track.id,
+      userIds,
+      artistIds: item.track.artists.map((artist) => artist.id),
+      durationMs: item.track.duration_ms,
+      playedAt: Date.now(),
+    },
+  ].slice(-RECENT_PLAYS_LIMIT);
+
+  session.playHistory = [
+    ...(session.playHistory ?? []),
+    {
+      track: toRecapTrack(item.track),
+      playedAt: Date.now(),
+      addedBy: item.addedBy,
+      matchedUserIds: item.matchedUserIds,
+      likedBy: [],
+      skippedBy: [],
+    },
+  ].slice(-PLAY_HISTORY_LIMIT);
+}
+
+/**
+ * Keep only what a recap shows of a track, so the history stays small
+ */
+export function toRecapTrack(track: Track): RecapTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map((artist) => ({ id: artist.id, name: artist.name })),
+    albumName: track.album?.name ?? "",
+    imageUrl: track.album?.images?.[0]?.url,
+    durationMs: track.duration_ms,
+    uri: track.uri,
+  };
+}
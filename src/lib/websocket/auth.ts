@@ -0,0 +1,44 @@
+import type { IncomingMessage } from "http";
+import { getToken } from "next-auth/jwt";
+
+/**
+ * Parse a Cookie header into name/value pairs
+ */
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Work out who opened a socket from the next-auth session cookie sent with
+ * the handshake. Returns undefined for signed-out or unreadable sessions.
+ */
+export async function getSocketUserId(request: IncomingMessage): Promise<string | undefined> {
+  try {
+    // getToken reads pages-router requests: an IncomingMessage with parsed cookies
+    const req = Object.assign(request, {
+      cookies: parseCookieHeader(request.headers.cookie),
+    });
+    const token = await getToken({ req });
+
+    return token?.sub ?? undefined;
+  } catch (error) {
+    console.error("[WebSocket] Failed to read session from handshake:", error);
+    return undefined;
+  }
+}
@@ -11,6 +11,8 @@ export const WS_EVENTS = {
 
   // Queue events
   QUEUE_UPDATED: 'queue_updated',
+  REQUEST_CREATED: 'request_created',
+  REQUEST_RESOLVED: 'request_resolved',
 
   // Playback events
   PLAYBACK_STATE_CHANGED: 'playback_state_changed',
@@ -18,6 +20,12 @@ export const WS_EVENTS = {
 
   // Vote events
   VOTE_UPDATED: 'vote_updated',
+  VOTE_WINDOW: 'vote_window',
+  QUEUE_VOTES_UPDATED: 'queue_votes_updated',
+
+  // Poll events
+  POLL_UPDATED: 'poll_updated',
+  POLL_CLOSED: 'poll_closed',
 
   // DJ events
   DJ_ASSIGNED: 'dj_assigned',
@@ -33,6 +41,7 @@ export const WS_EVENTS = {
   // Client to Server Events
   JOIN_SESSION: 'join_session',
   LEAVE_SESSION: 'leave_session',
+  POLL_VOTE: 'poll_vote',
 } as const;
 
 // Type for event names
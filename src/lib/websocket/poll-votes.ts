@@ -0,0 +1,37 @@
+import type { SessionStore } from "@/lib/session/store.interface";
+import { castPollVote } from "@/lib/utils/polls";
+import type { Poll } from "@/types";
+
+/**
+ * Record a poll vote sent over a socket
+ * Returns the updated poll to broadcast, or why the vote was refused
+ */
+export async function recordSocketPollVote(
+  store: SessionStore,
+  userId: string | undefined,
+  data: { sessionId: string; pollId: string; optionId: string }
+): Promise<{ poll: Poll } | { error: string }> {
+  if (!userId) {
+    return { error: "Sign in to vote" };
+  }
+
+  try {
+    let poll: Poll | undefined;
+    const updated = await store.update(data.sessionId, (s) => {
+      if (!s.participants.some((p) => p.userId === userId)) {
+        throw new Error("Not a participant of this session");
+      }
+
+      poll = castPollVote(s, userId, data.pollId, data.optionId);
+      s.updatedAt = Date.now();
+    });
+
+    if (!updated || !poll) {
+      return { error: "Session not found" };
+    }
+
+    return { poll };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Failed to vote" };
+  }
+}
@@ -4,6 +4,9 @@ import { Server as SocketIOServer } from "socket.io";
 import type { ServerToClientEvents, ClientToServerEvents, SocketData } from "@/types/websocket";
 import { WS_EVENTS } from "./events";
 import { subscribeToPattern, publishEvent } from "@/lib/redis-events";
+import { getStore } from "@/lib/session";
+import { getSocketUserId } from "./auth";
+import { recordSocketPollVote } from "./poll-votes";
 
 let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData> | null = null;
 
@@ -14,9 +17,15 @@ const VALID_EVENTS: readonly (keyof ServerToClientEvents)[] = [
   'participant_joined',
   'participant_left',
   'queue_updated',
+  'request_created',
+  'request_resolved',
   'playback_state_changed',
   'track_skipped',
   'vote_updated',
+  'vote_window',
+  'queue_votes_updated',
+  'poll_updated',
+  'poll_closed',
   'dj_assigned',
   'dj_removed',
   'session_settings_updated',
@@ -31,6 +40,17 @@ function isValidEvent(event: string): event is keyof ServerToClientEvents {
   return VALID_EVENTS.includes(event as keyof ServerToClientEvents);
 }
 
+/**
+ * Remove every socket from a session's room once the session has ended
+ * Clients stay connected, they just stop receiving the dead session's events
+ */
+function evictSessionRoom(sessionId: string): void {
+  if (!io) return;
+
+  io.in(sessionId).socketsLeave(sessionId);
+  console.log(`[WebSocket] Removed all sockets from ended session: ${sessionId}`);
+}
+
 /**
  * Initialize Socket.IO server
  */
@@ -49,6 +69,16 @@ export function initializeSocketIO(server: HTTPServer | HTTPSServer) {
     transports: ["websocket", "polling"],
   });
 
+  // Identify the signed-in user from the session cookie. Signed-out sockets can
+  // still follow a session, they just can't vote
+  io.use(async (socket, next) => {
+    const userId = await getSocketUserId(socket.request);
+    if (userId) {
+      socket.data.userId = userId;
+    }
+    next();
+  });
+
   io.on("connection", (socket) => {
     console.log(`[WebSocket] Client connected: ${socket.id}`);
 
@@ -77,6 +107,21 @@ export function initializeSocketIO(server: HTTPServer | HTTPSServer) {
       console.log(`[WebSocket] Socket ${socket.id} left session: ${sessionId}`);
     });
 
+    // Handle poll votes, broadcasting the new results to the room. getStore()
+    // is the instance the poll routes use, even from server.ts's module copy
+    socket.on(WS_EVENTS.POLL_VOTE, async (data, callback) => {
+      const outcome = await recordSocketPollVote(getStore(), socket.data.userId, data);
+
+      if ("error" in outcome) {
+        console.warn(`[WebSocket] Poll vote from ${socket.id} refused: ${outcome.error}`);
+        if (callback) callback({ success: false, error: outcome.error });
+        return;
+      }
+
+      broadcastToSession(data.sessionId, WS_EVENTS.POLL_UPDATED, outcome.poll);
+      if (callback) callback({ success: true });
+    });
+
     // Handle disconnection
     socket.on("disconnect", (reason) => {
       console.log(`[WebSocket] Client disconnected: ${socket.id}, reason: ${reason}`);
@@ -110,6 +155,10 @@ export function initializeSocketIO(server: HTTPServer | HTTPSServer) {
       if (io) {
         io.to(sessionId).emit(eventName, data);
         console.log(`[WebSocket] Broadcasted ${eventName} to session ${sessionId} via Redis`);
+
+        if (eventName === WS_EVENTS.SESSION_ENDED) {
+          evictSessionRoom(sessionId);
+        }
       }
     } catch (error) {
       console.error("[WebSocket] Error handling Redis message:", error);
@@ -153,6 +202,10 @@ export async function broadcastToSession<E extends keyof ServerToClientEvents>(
     if (io) {
       io.to(sessionId).emit(event, ...args);
       console.log(`[WebSocket] Fallback: Direct broadcast ${event} to session: ${sessionId}`);
+
+      if (event === WS_EVENTS.SESSION_ENDED) {
+        evictSessionRoom(sessionId);
+      }
     } else {
       console.warn(`[WebSocket] Cannot broadcast ${event}: Redis publish failed and Socket.IO not initialized`);
     }
@@ -7,4 +7,6 @@ export * from './user';
 export * from './session';
 export * from './queue';
 export * from './vote';
+export * from './poll';
 export * from './websocket';
+export * from './recap';
@@ -0,0 +1,47 @@
+/**
+ * Room poll types
+ */
+
+import { Track } from './spotify';
+import { EnergyArc } from './session';
+
+/**
+ * What a poll option steers the next queue generation towards
+ */
+export type PollOptionKind =
+  | 'genre'                        // One of the session's common genres
+  | 'energy-arc'                   // An energy arc preset
+  | 'track';                       // A specific track, queued right after the stable window
+
+export interface PollOption {
+  id: string;
+  kind: PollOptionKind;
+  label: string;                   // What participants see
+  genre?: string;                  // Set for 'genre' options
+  energyArc?: EnergyArc;           // Set for 'energy-arc' options
+  track?: Track;                   // Set for 'track' options
+}
+
+/**
+ * One participant's pick, changed by voting again
+ */
+export interface PollVote {
+  userId: string;
+  optionId: string;
+  timestamp: number;
+}
+
+/**
+ * A question a DJ put to the room, such as "more dance or more chill?"
+ * Stays on the session after closing so everyone can see how it went
+ */
+export interface Poll {
+  id: string;
+  question: string;
+  options: PollOption[];
+  votes: PollVote[];
+  createdBy: string;               // userId of the DJ
+  createdAt: number;               // Timestamp
+  closedAt?: number;               // Timestamp, unset while voting is open
+  winnerId?: string;               // Option with the most votes, unset if nobody voted
+}
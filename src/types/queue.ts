@@ -10,6 +10,41 @@ export interface QueueItem {
   addedBy: string | 'algorithm';  // userId or 'algorithm'
   addedAt: number;                 // Timestamp
   isStable: boolean;               // True for next 3 tracks
+  matchedUserIds?: string[];       // Participants whose taste an algorithm pick matched
+  score?: number;                  // Algorithm score an algorithm pick was chosen with
+}
+
+/**
+ * A track a participant asked for, waiting for a DJ to approve or reject it
+ */
+export interface TrackRequest {
+  id: string;
+  track: Track;
+  requestedBy: string;             // userId
+  requestedAt: number;             // Timestamp
+}
+
+export type TrackRequestStatus =
+  | 'approved'                     // Added to the end of the queue
+  | 'rejected'
+  | 'duplicate';                   // Approved, but the track was already queued
+
+export interface PlayedItem {
+  trackId: string;
+  userIds: string[];               // Participants the track is credited to
+  artistIds?: string[];
+  durationMs: number;
+  playedAt: number;                // Timestamp
+}
+
+/**
+ * One play of a track, started whenever the playback layer moves on
+ * Skip votes are bound to it, so they never carry over to a later play of the same track
+ */
+export interface PlayInstance {
+  id: string;
+  trackId: string;
+  startedAt: number;               // Timestamp
 }
 
 export interface QueueState {
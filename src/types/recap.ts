@@ -0,0 +1,49 @@
+/**
+ * Session recap types, archived when a session ends
+ */
+
+import { SessionEndReason } from './session';
+
+/**
+ * The parts of a Spotify track a recap needs to show it
+ */
+export interface RecapTrack {
+  id: string;
+  name: string;
+  artists: Array<{ id: string; name: string }>;
+  albumName: string;
+  imageUrl?: string;
+  durationMs: number;
+  uri: string;
+}
+
+/**
+ * A track as it was played in a session
+ */
+export interface RecapPlay {
+  track: RecapTrack;
+  playedAt: number;                // Timestamp
+  addedBy: string | 'algorithm';   // userId or 'algorithm'
+  matchedUserIds?: string[];       // Participants whose taste an algorithm pick matched
+  likedBy: string[];
+  skippedBy: string[];             // Voters of a successful vote-to-skip
+}
+
+export interface RecapParticipant {
+  userId: string;
+  name: string;
+  image?: string;
+  wasHost: boolean;
+}
+
+export interface SessionRecap {
+  sessionId: string;
+  code: string;
+  hostId: string;
+  participants: RecapParticipant[];  // Everyone who was in the session, including those who left
+  plays: RecapPlay[];
+  startedAt: number;               // Timestamp
+  endedAt: number;                 // Timestamp
+  durationMs: number;
+  endReason: SessionEndReason;
+}
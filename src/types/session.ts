@@ -3,20 +3,106 @@
  */
 
 import { Participant, TasteProfile } from './user';
-import { QueueItem } from './queue';
-import { VoteState } from './vote';
+import { SpotifyArtist } from './spotify';
+import { QueueItem, PlayedItem, PlayInstance, TrackRequest } from './queue';
+import { VoteState, FeedbackEntry } from './vote';
+import { RecapPlay } from './recap';
+import { Poll, PollOption } from './poll';
 
 export type { Participant };
 
+/**
+ * Shape of the energy curve generated tracks are sequenced along
+ */
+export type EnergyArc = "flat" | "warm-up" | "peak-and-cooldown";
+
+/**
+ * How participants' short, medium and long term taste is weighted
+ */
+export type TasteBlend = "recent" | "balanced" | "all-time";
+
+/**
+ * Where queue candidates come from
+ */
+export type CandidateSource =
+  | "artist-top-tracks"           // Top tracks of common artists
+  | "genre-search"                // Search by common genres
+  | "album-deep-cuts"             // Album tracks beyond the hits
+  | "participant-top-tracks"      // Participants' own top tracks
+  | "liked-neighbours"            // Top tracks of artists related to liked tracks
+  | "seed-playlist";              // Tracks of the session's seed playlist
+
+/**
+ * How the number of skip votes a track needs is worked out
+ */
+export type SkipThresholdMode =
+  | "count"                       // A fixed number of votes
+  | "percent-present"             // A share of everyone in the session
+  | "percent-active";             // A share of participants active lately
+
+/**
+ * Why a session ended
+ */
+export type SessionEndReason =
+  | "idle"                        // Swept after the idle timeout
+  | "ended-by-host"               // Host ended it for everyone
+  | "deleted-by-host"             // Host deleted it
+  | "everyone-left";              // Last participant left
+
+/**
+ * Which tracks of a session go into an exported playlist
+ */
+export type PlaylistExportSelection =
+  | "played"                      // Everything played, in order
+  | "played-and-queue"            // Everything played, then what is still queued
+  | "liked";                      // Only played tracks someone liked
+
+/**
+ * What a session amounted to, shown to participants once it ends
+ */
+export interface SessionSummary {
+  durationMs: number;
+  tracksPlayed: number;
+  participantCount: number;
+}
+
 export interface SessionSettings {
   voteToSkip: boolean;
-  skipThreshold: number;           // Number of votes needed
+  skipThreshold: number;           // Number of votes needed in "count" mode
+  skipThresholdMode?: SkipThresholdMode;  // How the threshold is worked out (unset means "count")
+  skipThresholdPercent?: number;   // Share of participants needed in the percent modes, 1-100 (default 50)
+  djVoteWeight?: number;           // Votes a DJ's skip vote counts as (default 1)
+  hostVoteWeight?: number;         // Votes the host's skip vote counts as (default the DJ weight)
+  hostSkipOverride?: boolean;      // The host's skip vote skips the track straight away
+  skipVoteDelaySeconds?: number;   // Minimum listening time before skip voting opens (default 0)
+  queueVoteScoreWeight?: number;   // Net votes a point of algorithm score is worth when ranking the queue (default 0, votes only)
+  trackRequestLimit?: number;      // Pending track requests a participant can have at once (default 3)
+  autoApproveRequests?: boolean;   // Requested tracks go straight into the queue
+  energyArc?: EnergyArc;           // Ordering of generated tracks (default "flat")
+  tasteBlend?: TasteBlend;         // Lately vs all-time favourites (default "balanced")
+  profileDepth?: number;           // Top tracks/artists fetched per time range (default 20)
+  commonGroundQuorum?: number;     // Share of participants that makes common ground (default 0.5)
+  candidateQuotas?: Partial<Record<CandidateSource, number>>;  // Relative share of candidates per source
+}
+
+/**
+ * Spotify playlist a session's queue is seeded from
+ */
+export interface SeedPlaylist {
+  id: string;
+  name: string;
+  imageUrl?: string;
+  trackIds: string[];              // Playlist order, duplicates removed
+  topArtists: SpotifyArtist[];     // Most frequent artists first
+  addedBy: string;                 // User ID of the host or DJ who picked it
+  addedAt: number;                 // Timestamp
 }
 
 export interface SessionProfile {
   commonArtists: string[];         // Artist IDs
   commonGenres: string[];
   tasteProfiles: TasteProfile[];
+  seedProfile?: TasteProfile;      // Seed playlist's taste, scored like another participant
 }
 
 export interface Session {
@@ -24,18 +110,51 @@ export interface Session {
   code: string;                    // Unique join code
   hostId: string;
   participants: Participant[];
+  pastParticipants?: Participant[]; // Participants who left, for the recap
   djs: string[];                   // User IDs with DJ privileges
   settings: SessionSettings;
   queue: QueueItem[];
+  trackRequests?: TrackRequest[];  // Tracks participants asked for, waiting for a DJ
   playedTracks: string[];          // Track IDs that have already been played
+  recentPlays?: PlayedItem[];      // Attribution of the latest played tracks, for fairness
+  playHistory?: RecapPlay[];       // Every played track with who added, liked or skipped it, for the recap
   votes: VoteState;
+  currentPlay?: PlayInstance;      // What is playing now; skip votes are bound to it
+  feedback?: FeedbackEntry[];      // Likes and skips that outlive the votes, for scoring
+  poll?: Poll;                     // Latest room poll, open or closed
+  vibeBias?: PollOption;           // Winning poll option, steers the next queue generation only
   profile?: SessionProfile;        // Aggregated taste profile
+  seedPlaylist?: SeedPlaylist;     // Playlist the host or a DJ seeded the queue from
   createdAt: number;               // Timestamp
   updatedAt: number;               // Timestamp
   lastParticipantChange: number;   // Timestamp for debouncing regen
   activeDeviceId?: string;         // For device playback mode
   activeDeviceName?: string;       // Display name of active device
   activeDeviceType?: string;       // Type of active device (Computer, Smartphone, Speaker, etc.)
+  deviceOwnerId?: string;          // User whose account playback runs on (defaults to the host)
+  market?: string;                 // Host's Spotify country, for track availability
+  version?: number;                // Optimistic concurrency counter, bumped by SessionStore.update
+  regenerationFence?: number;      // Highest regeneration lease token that has written the queue
+}
+
+/**
+ * A session as stored, without the store's bookkeeping
+ */
+export type PortableSession = Omit<Session, "version" | "regenerationFence">;
+
+/**
+ * Versioned JSON copy of a session, for moving it between environments
+ */
+export interface SessionSnapshot {
+  format: "blendroom-session";
+  version: number;                 // Snapshot format version
+  exportedAt: number;              // Timestamp
+  session: PortableSession;
+}
+
+export interface ParticipantAirtime {
+  userId: string;
+  share: number;                   // 0-1 share of recent airtime credited to them
 }
 
 export interface CreateSessionInput {
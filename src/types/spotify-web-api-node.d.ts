@@ -122,12 +122,59 @@ declare module "spotify-web-api-node" {
       trackIds: string[]
     ): Promise<{ body: SpotifyApi.MultipleAudioFeaturesResponse }>;
 
+    // Track and album methods
+    getTracks(
+      trackIds: string[],
+      options?: { market?: string }
+    ): Promise<{ body: { tracks: (SpotifyApi.TrackObjectFull | null)[] } }>;
+
+    getAlbumTracks(
+      albumId: string,
+      options?: { limit?: number; offset?: number; market?: string }
+    ): Promise<{ body: { items: SpotifyApi.TrackObjectSimplified[] } }>;
+
     // Artist methods
+    getArtistAlbums(
+      artistId: string,
+      options?: { include_groups?: string; limit?: number; offset?: number; market?: string }
+    ): Promise<{ body: { items: SpotifyApi.AlbumObjectSimplified[] } }>;
+
     getArtistTopTracks(
       artistId: string,
       country: string
     ): Promise<{ body: { tracks: SpotifyApi.TrackObjectFull[] } }>;
 
+    getArtistRelatedArtists(
+      artistId: string
+    ): Promise<{ body: SpotifyApi.ArtistsRelatedArtistsResponse }>;
+
+    // Playlist methods
+    getUserPlaylists(options?: {
+      limit?: number;
+      offset?: number;
+    }): Promise<{ body: SpotifyApi.ListOfCurrentUsersPlaylistsResponse }>;
+
+    getPlaylist(
+      playlistId: string,
+      options?: { fields?: string; market?: string }
+    ): Promise<{ body: SpotifyApi.SinglePlaylistResponse }>;
+
+    getPlaylistTracks(
+      playlistId: string,
+      options?: { limit?: number; offset?: number; fields?: string; market?: string }
+    ): Promise<{ body: SpotifyApi.PlaylistTrackResponse }>;
+
+    createPlaylist(
+      name: string,
+      options?: { description?: string; public?: boolean; collaborative?: boolean }
+    ): Promise<{ body: SpotifyApi.CreatePlaylistResponse }>;
+
+    addTracksToPlaylist(
+      playlistId: string,
+      tracks: string[],
+      options?: { position?: number }
+    ): Promise<{ body: SpotifyApi.AddTracksToPlaylistResponse }>;
+
     // Queue methods
     addToQueue(
       trackUri: string,
@@ -70,6 +70,29 @@ export interface SpotifyUser {
   };
 }
 
+export interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  uri: string;
+  external_urls: {
+    spotify: string;
+  };
+}
+
+/**
+ * A playlist as listed in a user's library
+ */
+export interface SpotifyPlaylistSummary extends SpotifyPlaylist {
+  images: SpotifyImage[];
+  owner: {
+    id: string;
+    display_name?: string;
+  };
+  tracks: {
+    total: number;
+  };
+}
+
 export interface SpotifyDevice {
   id: string;
   name: string;
@@ -15,12 +15,24 @@ export interface User {
   tokenExpiresAt: number;
 }
 
+/**
+ * Spotify's top items windows: ~4 weeks, ~6 months, all time
+ */
+export type TimeRange = "short_term" | "medium_term" | "long_term";
+
+export interface TimeRangeTaste {
+  topTracks: string[];           // Track IDs, most listened first
+  topArtists: SpotifyArtist[];   // Most listened first
+}
+
 export interface TasteProfile {
   userId: string;
-  topTracks: string[];           // Track IDs
-  topArtists: SpotifyArtist[];
+  topTracks: string[];           // Track IDs, blended across time ranges
+  topArtists: SpotifyArtist[];   // Blended across time ranges
   topGenres: string[];
   lastUpdated: number;           // Timestamp
+  timeRanges?: Partial<Record<TimeRange, TimeRangeTaste>>;  // Raw top items per window
+  depth?: number;                // Top items fetched per time range
 }
 
 export interface Participant {
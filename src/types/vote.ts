@@ -1,8 +1,13 @@
 /**
- * Voting types for skip votes and track likes
+ * Voting types for skip votes, track likes and queue votes
  */
 
-export type VoteType = 'skip' | 'like';
+export type VoteType = 'skip' | 'like' | 'up' | 'down';
+
+/**
+ * Votes participants can cast on upcoming tracks
+ */
+export type QueueVoteType = Extract<VoteType, 'up' | 'down'>;
 
 export interface Vote {
   userId: string;
@@ -14,6 +19,7 @@ export interface Vote {
 export interface SkipVote {
   userId: string;
   trackId: string;
+  playId?: string;                 // Play instance the vote was cast during
   timestamp: number;
 }
 
@@ -23,7 +29,42 @@ export interface LikeVote {
   timestamp: number;
 }
 
+/**
+ * An up or down vote on an upcoming track, one per participant and track
+ */
+export interface QueueVote {
+  userId: string;
+  trackId: string;
+  type: QueueVoteType;
+  timestamp: number;
+}
+
+/**
+ * Lasting record of a like or a successful vote-to-skip
+ * Kept after the votes themselves are cleared so the algorithm can learn
+ * from tracks that have already played
+ */
+export interface FeedbackEntry {
+  kind: 'like' | 'skip';
+  trackId: string;
+  artistIds: string[];
+  genres: string[];
+  userIds: string[];               // Who liked it, or who voted to skip it
+  timestamp: number;
+}
+
+/**
+ * When skip voting opens on the current play, as sent in vote_window events
+ */
+export interface VoteWindow {
+  playId: string;
+  trackId: string;
+  opensAt: number;                 // Timestamp
+  opensInMs: number;               // Time left until it opens, so clients needn't trust their clocks
+}
+
 export interface VoteState {
   skip: SkipVote[];
   like: LikeVote[];
+  queue?: QueueVote[];             // Votes on upcoming tracks
 }
@@ -3,9 +3,11 @@
  */
 
 import { Participant } from './user';
-import { QueueItem } from './queue';
+import { QueueItem, TrackRequest, TrackRequestStatus } from './queue';
 import { PlaybackState } from './spotify';
-import { SessionSettings } from './session';
+import { SessionSettings, SessionEndReason, SessionSummary } from './session';
+import { QueueVote, VoteWindow } from './vote';
+import { Poll, PollOption } from './poll';
 
 export interface ServerToClientEvents {
   participant_joined: (participant: Participant) => void;
@@ -14,16 +16,26 @@ export interface ServerToClientEvents {
   playback_state_changed: (state: PlaybackState) => void;
   track_skipped: (data: { voteCount: number }) => void;
   vote_updated: (data: { type: 'skip' | 'like'; count: number; threshold?: number }) => void;
+  vote_window: (window: VoteWindow) => void;
+  queue_votes_updated: (votes: QueueVote[]) => void;
+  poll_updated: (poll: Poll) => void;
+  poll_closed: (data: { poll: Poll; winner?: PollOption }) => void;
+  request_created: (request: TrackRequest) => void;
+  request_resolved: (data: { status: TrackRequestStatus; request: TrackRequest }) => void;
   dj_assigned: (userId: string) => void;
   dj_removed: (userId: string) => void;
   session_settings_updated: (settings: SessionSettings) => void;
-  session_ended: () => void;
+  session_ended: (data: { reason: SessionEndReason; summary?: SessionSummary }) => void;
   error: (error: { message: string; code?: string }) => void;
 }
 
 export interface ClientToServerEvents {
   join_session: (sessionId: string, callback: (success: boolean) => void) => void;
   leave_session: (sessionId: string) => void;
+  poll_vote: (
+    data: { sessionId: string; pollId: string; optionId: string },
+    callback: (result: { success: boolean; error?: string }) => void
+  ) => void;
 }
 
 export interface SocketData {
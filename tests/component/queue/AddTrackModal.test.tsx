@@ -798,6 +798,78 @@ describe('AddTrackModal', () => {
     });
   });
 
+  describe('Requesting Tracks', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const searchFor = async () => {
+      fireEvent.change(screen.getByPlaceholderText('Search for a track...'), { target: { value: 'Test' } });
+
+      await act(async () => {
+        vi.advanceTimersByTime(500);
+        await Promise.resolve();
+      });
+    };
+
+    it('shows request wording in request mode', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ tracks: mockSearchResults }));
+
+      renderWithProviders(
+        <AddTrackModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          onTrackAdded={mockOnTrackAdded}
+          mode="request"
+        />
+      );
+
+      expect(screen.getByText('Request a Track')).toBeInTheDocument();
+
+      await searchFor();
+
+      expect(screen.getAllByRole('button', { name: /^request$/i })).toHaveLength(mockSearchResults.length);
+    });
+
+    it('sends a request instead of adding the track', async () => {
+      const onTrackRequested = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ tracks: mockSearchResults }))
+        .mockResolvedValueOnce(createMockResponse({ approved: false }));
+
+      renderWithProviders(
+        <AddTrackModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          onTrackAdded={mockOnTrackAdded}
+          mode="request"
+          onTrackRequested={onTrackRequested}
+        />
+      );
+
+      await searchFor();
+
+      await act(async () => {
+        fireEvent.click(screen.getAllByRole('button', { name: /^request$/i })[0]);
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(`/api/queue/${mockSessionId}/requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trackId: 'track-1' }),
+      });
+      expect(onTrackRequested).toHaveBeenCalledWith(false);
+      expect(mockOnTrackAdded).not.toHaveBeenCalled();
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+  });
+
   describe('Duration Formatting', () => {
     it('formats durations correctly', async () => {
       vi.useFakeTimers();
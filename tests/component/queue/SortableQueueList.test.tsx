@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { screen } from '@testing-library/react';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
 import { renderWithProviders } from '../../utils/component-test-utils';
+import { useFetchMock, createMockResponse } from '../../utils/mock-helpers';
 import { SortableQueueList } from '@/components/queue/SortableQueueList';
 
 // Mock lucide-react
@@ -8,6 +9,8 @@ vi.mock('lucide-react', () => ({
   GripVertical: ({ size }: { size?: number }) => (
     <svg data-testid="grip-icon" width={size} height={size} />
   ),
+  ChevronUp: () => <svg data-testid="chevron-up-icon" />,
+  ChevronDown: () => <svg data-testid="chevron-down-icon" />,
 }));
 
 // Mock @dnd-kit packages
@@ -50,6 +53,8 @@ vi.mock('@dnd-kit/utilities', () => ({
 }));
 
 describe('SortableQueueList', () => {
+  const mockFetch = useFetchMock();
+
   const mockQueue = [
     {
       track: {
@@ -435,4 +440,50 @@ describe('SortableQueueList', () => {
       expect(clickableTrack).not.toBeInTheDocument();
     });
   });
+
+  describe('Queue Votes', () => {
+    const votes = [
+      { userId: 'user-1', trackId: 'track-2', type: 'up' as const, timestamp: Date.now() },
+      { userId: 'user-2', trackId: 'track-2', type: 'up' as const, timestamp: Date.now() },
+      { userId: 'user-3', trackId: 'track-3', type: 'down' as const, timestamp: Date.now() },
+    ];
+
+    it('shows vote buttons on upcoming tracks only', () => {
+      renderWithProviders(<SortableQueueList {...defaultProps} votes={votes} userId="user-1" />);
+
+      expect(screen.queryByRole('button', { name: 'Upvote Track One' })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Upvote Track Two' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Downvote Track Three' })).toBeInTheDocument();
+    });
+
+    it('shows net votes and the user\'s own vote', () => {
+      renderWithProviders(<SortableQueueList {...defaultProps} votes={votes} userId="user-1" />);
+
+      expect(screen.getByTitle('2 up, 0 down')).toHaveTextContent('2');
+      expect(screen.getByTitle('0 up, 1 down')).toHaveTextContent('-1');
+      expect(screen.getByRole('button', { name: 'Upvote Track Two' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: 'Upvote Track Three' })).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('hides vote buttons without a user', () => {
+      renderWithProviders(<SortableQueueList {...defaultProps} votes={votes} />);
+
+      expect(screen.queryByRole('button', { name: /upvote/i })).not.toBeInTheDocument();
+    });
+
+    it('sends votes to the API', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ success: true }));
+
+      renderWithProviders(<SortableQueueList {...defaultProps} userId="user-1" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Downvote Track Three' }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/vote/queue', expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ sessionId: 'test-session', trackId: 'track-3', type: 'down' }),
+        }));
+      });
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { renderWithProviders } from '../../utils/component-test-utils';
+import { TrackRequestList } from '@/components/queue/TrackRequestList';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import { useFetchMock, useConsoleErrorSpy, createMockResponse } from '../../utils/mock-helpers';
+import type { TrackRequest } from '@/types';
+
+// Mock lucide-react
+vi.mock('lucide-react', () => ({
+  Check: () => <svg data-testid="check-icon" />,
+  X: () => <svg data-testid="x-icon" />,
+}));
+
+describe('TrackRequestList', () => {
+  const mockFetch = useFetchMock();
+  useConsoleErrorSpy();
+
+  const requests: TrackRequest[] = [
+    {
+      id: 'request-1',
+      track: createMockSpotifyTrack({ id: 'track-1', name: 'First Request' }),
+      requestedBy: 'guest-1',
+      requestedAt: Date.now(),
+    },
+    {
+      id: 'request-2',
+      track: createMockSpotifyTrack({ id: 'track-2', name: 'Second Request' }),
+      requestedBy: 'someone-who-left',
+      requestedAt: Date.now(),
+    },
+  ];
+
+  const defaultProps = {
+    requests,
+    sessionId: 'test-session',
+    isDJ: true,
+    participants: [{ userId: 'guest-1', name: 'Guest One' }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders nothing without requests', () => {
+    const { container } = renderWithProviders(<TrackRequestList {...defaultProps} requests={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows each request and who asked for it', () => {
+    renderWithProviders(<TrackRequestList {...defaultProps} />);
+
+    expect(screen.getByText('First Request')).toBeInTheDocument();
+    expect(screen.getByText('Requested by Guest One')).toBeInTheDocument();
+    expect(screen.getByText('Requested by Someone')).toBeInTheDocument();
+  });
+
+  it('hides approve and reject buttons from non-DJs', () => {
+    renderWithProviders(<TrackRequestList {...defaultProps} isDJ={false} />);
+
+    expect(screen.getByText('First Request')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /approve/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /reject/i })).not.toBeInTheDocument();
+  });
+
+  it('approves a request', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ status: 'approved' }));
+
+    renderWithProviders(<TrackRequestList {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Approve First Request' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/queue/test-session/requests/request-1', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'approve' }),
+      });
+    });
+  });
+
+  it('rejects a request', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ status: 'rejected' }));
+
+    renderWithProviders(<TrackRequestList {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reject Second Request' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/queue/test-session/requests/request-2', expect.objectContaining({
+        body: JSON.stringify({ action: 'reject' }),
+      }));
+    });
+  });
+
+  it('re-enables the buttons after a failed decision', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ error: 'Request not found' }, { ok: false }));
+
+    renderWithProviders(<TrackRequestList {...defaultProps} />);
+
+    const approve = screen.getByRole('button', { name: 'Approve First Request' });
+    fireEvent.click(approve);
+
+    await waitFor(() => {
+      expect(approve).not.toBeDisabled();
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExportPlaylistButton } from '@/components/session/ExportPlaylistButton';
+import { useFetchMock, createMockResponse } from '../../utils/mock-helpers';
+
+describe('ExportPlaylistButton', () => {
+  const mockFetch = useFetchMock();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('exports the selected tracks and links to the playlist', async () => {
+    const user = userEvent.setup();
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({
+        playlist: { id: 'playlist-1', name: 'Friday', url: 'https://open.spotify.com/playlist/playlist-1' },
+        trackCount: 12,
+      })
+    );
+
+    render(<ExportPlaylistButton sessionId="session-123" />);
+
+    await user.selectOptions(screen.getByLabelText(/tracks to export/i), 'liked');
+    await user.click(screen.getByRole('button', { name: /save as playlist/i }));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/session/session-123/export', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ tracks: 'liked' }),
+    }));
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: /open playlist/i })).toHaveAttribute(
+        'href',
+        'https://open.spotify.com/playlist/playlist-1'
+      );
+    });
+  });
+
+  it('shows the error when the export fails', async () => {
+    const user = userEvent.setup();
+    mockFetch.mockResolvedValueOnce(createMockResponse({ error: 'No tracks to export' }, { status: 400 }));
+
+    render(<ExportPlaylistButton sessionId="session-123" />);
+
+    await user.click(screen.getByRole('button', { name: /save as playlist/i }));
+
+    expect(await screen.findByText('No tracks to export')).toBeInTheDocument();
+  });
+
+  it('only offers the given selections', () => {
+    render(<ExportPlaylistButton sessionId="session-123" selections={['played', 'liked']} />);
+
+    expect(screen.getAllByRole('option').map((option) => option.getAttribute('value'))).toEqual(['played', 'liked']);
+  });
+});
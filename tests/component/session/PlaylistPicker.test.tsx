@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PlaylistPicker } from '@/components/session/PlaylistPicker';
+import { useFetchMock, createMockResponse } from '../../utils/mock-helpers';
+
+describe('PlaylistPicker', () => {
+  const mockFetch = useFetchMock();
+  const playlists = [
+    { id: 'playlist-1', name: 'Road trip', trackCount: 42, ownerName: 'Alice' },
+    { id: 'playlist-2', name: 'Dinner party', trackCount: 12 },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the user's playlists and picks one", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    mockFetch.mockResolvedValueOnce(createMockResponse({ playlists }));
+
+    render(<PlaylistPicker value="" onChange={onChange} />);
+
+    expect(await screen.findByText('Road trip')).toBeInTheDocument();
+    expect(screen.getByText('42 tracks · Alice')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Dinner party'));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/playlists');
+    expect(onChange).toHaveBeenCalledWith('playlist-2');
+  });
+
+  it('unpicks the selected playlist', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    mockFetch.mockResolvedValueOnce(createMockResponse({ playlists }));
+
+    render(<PlaylistPicker value="playlist-1" onChange={onChange} />);
+
+    const option = await screen.findByRole('option', { selected: true });
+    expect(option).toHaveTextContent('Road trip');
+
+    await user.click(screen.getByText('Road trip'));
+
+    expect(onChange).toHaveBeenCalledWith('');
+  });
+
+  it('accepts a pasted playlist link', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    mockFetch.mockResolvedValueOnce(createMockResponse({ playlists: [] }));
+
+    render(<PlaylistPicker value="" onChange={onChange} />);
+
+    expect(await screen.findByText(/don't have any playlists/i)).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText(/paste a playlist link/i), 'x');
+
+    expect(onChange).toHaveBeenCalledWith('x');
+  });
+
+  it('shows an error when playlists cannot be loaded', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ error: 'Insufficient client scope' }, { status: 403 }));
+
+    render(<PlaylistPicker value="" onChange={vi.fn()} />);
+
+    expect(await screen.findByText('Insufficient client scope')).toBeInTheDocument();
+    expect(screen.getByLabelText(/paste a playlist link/i)).toBeInTheDocument();
+  });
+});
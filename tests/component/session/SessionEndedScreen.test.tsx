@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import SessionEndedScreen from "@/components/session/SessionEndedScreen";
+
+describe("SessionEndedScreen", () => {
+  it("explains why the session ended", () => {
+    render(<SessionEndedScreen sessionId="session-123" reason="deleted-by-host" />);
+
+    expect(screen.getByText("Session ended")).toBeInTheDocument();
+    expect(screen.getByText("The host deleted the session.")).toBeInTheDocument();
+  });
+
+  it("shows an idle message", () => {
+    render(<SessionEndedScreen sessionId="session-123" reason="idle" />);
+
+    expect(screen.getByText(/period of inactivity/i)).toBeInTheDocument();
+  });
+
+  it("shows the session summary", () => {
+    render(
+      <SessionEndedScreen
+        sessionId="session-123"
+        reason="ended-by-host"
+        summary={{ durationMs: 125 * 60 * 1000, tracksPlayed: 31, participantCount: 6 }}
+      />
+    );
+
+    expect(screen.getByText("31")).toBeInTheDocument();
+    expect(screen.getByText("6")).toBeInTheDocument();
+    expect(screen.getByText("2h 5m")).toBeInTheDocument();
+  });
+
+  it("leaves out the summary when there is none", () => {
+    render(<SessionEndedScreen sessionId="session-123" reason="ended-by-host" />);
+
+    expect(screen.queryByText("Tracks played")).not.toBeInTheDocument();
+  });
+
+  it("links back home", () => {
+    render(<SessionEndedScreen sessionId="session-123" reason="ended-by-host" />);
+
+    expect(screen.getByRole("link", { name: /back to home/i })).toHaveAttribute("href", "/");
+  });
+
+  it("links to the recap", () => {
+    render(<SessionEndedScreen sessionId="session-123" reason="everyone-left" />);
+
+    expect(screen.getByRole("link", { name: /view recap/i })).toHaveAttribute("href", "/session/session-123/recap");
+  });
+});
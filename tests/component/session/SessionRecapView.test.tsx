@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import SessionRecapView from "@/components/session/SessionRecapView";
+import type { RecapPlay, SessionRecap } from "@/types";
+
+function createPlay(overrides: Partial<RecapPlay> = {}): RecapPlay {
+  return {
+    track: {
+      id: "track-1",
+      name: "First Song",
+      artists: [{ id: "artist-1", name: "The Band" }],
+      albumName: "Album",
+      durationMs: 180000,
+      uri: "spotify:track:track-1",
+    },
+    playedAt: Date.now(),
+    addedBy: "algorithm",
+    likedBy: [],
+    skippedBy: [],
+    ...overrides,
+  };
+}
+
+function createRecap(overrides: Partial<SessionRecap> = {}): SessionRecap {
+  return {
+    sessionId: "session-123",
+    code: "ABC123",
+    hostId: "host-123",
+    participants: [
+      { userId: "host-123", name: "Hana", wasHost: true },
+      { userId: "user-1", name: "Sam", wasHost: false },
+    ],
+    plays: [],
+    startedAt: Date.now() - 3600000,
+    endedAt: Date.now(),
+    durationMs: 3600000,
+    endReason: "ended-by-host",
+    ...overrides,
+  };
+}
+
+describe("SessionRecapView", () => {
+  it("shows the session totals", () => {
+    render(<SessionRecapView recap={createRecap({ plays: [createPlay()] })} />);
+
+    expect(screen.getByText("Tracks played").nextSibling).toHaveTextContent("1");
+    expect(screen.getByText("Listeners").nextSibling).toHaveTextContent("2");
+    expect(screen.getByText("1h 0m")).toBeInTheDocument();
+  });
+
+  it("lists everyone who was there", () => {
+    render(<SessionRecapView recap={createRecap()} />);
+
+    expect(screen.getByText("Hana")).toBeInTheDocument();
+    expect(screen.getByText("Sam")).toBeInTheDocument();
+  });
+
+  it("shows who added each track and how it went down", () => {
+    const recap = createRecap({
+      plays: [
+        createPlay({ addedBy: "user-1", likedBy: ["host-123", "user-1"] }),
+        createPlay({
+          track: { ...createPlay().track, id: "track-2", name: "Second Song" },
+          matchedUserIds: ["host-123"],
+          skippedBy: ["user-1"],
+        }),
+      ],
+    });
+
+    render(<SessionRecapView recap={recap} />);
+
+    expect(screen.getByText("First Song")).toBeInTheDocument();
+    expect(screen.getByText(/Added by Sam/)).toBeInTheDocument();
+    expect(screen.getByText("♥ 2")).toBeInTheDocument();
+    expect(screen.getByText(/Picked for Hana/)).toBeInTheDocument();
+    expect(screen.getByText("Skipped")).toBeInTheDocument();
+  });
+
+  it("says when nothing was played", () => {
+    render(<SessionRecapView recap={createRecap()} />);
+
+    expect(screen.getByText(/No tracks were played/)).toBeInTheDocument();
+  });
+});
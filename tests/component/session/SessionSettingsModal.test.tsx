@@ -24,6 +24,15 @@ describe('SessionSettingsModal', () => {
     skipThreshold: 3,
   };
 
+  const defaultQuotas = {
+    'artist-top-tracks': 2,
+    'genre-search': 1,
+    'album-deep-cuts': 1,
+    'participant-top-tracks': 1,
+    'liked-neighbours': 1,
+    'seed-playlist': 2,
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
@@ -96,7 +105,7 @@ describe('SessionSettingsModal', () => {
       expect(screen.getByText('Vote to Skip')).toBeInTheDocument();
       expect(screen.getByText('Allow participants to vote for skipping tracks')).toBeInTheDocument();
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       expect(checkbox).not.toBeChecked();
     });
 
@@ -116,7 +125,7 @@ describe('SessionSettingsModal', () => {
         />
       );
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       expect(checkbox).toBeChecked();
     });
 
@@ -217,7 +226,7 @@ describe('SessionSettingsModal', () => {
         />
       );
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       expect(checkbox).not.toBeChecked();
 
       await user.click(checkbox);
@@ -240,7 +249,7 @@ describe('SessionSettingsModal', () => {
 
       expect(screen.queryByText('Skip Threshold')).not.toBeInTheDocument();
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       expect(screen.getByText('Skip Threshold')).toBeInTheDocument();
@@ -265,7 +274,7 @@ describe('SessionSettingsModal', () => {
 
       expect(screen.getByText('Skip Threshold')).toBeInTheDocument();
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       expect(screen.queryByText('Skip Threshold')).not.toBeInTheDocument();
@@ -287,7 +296,7 @@ describe('SessionSettingsModal', () => {
       const saveButton = screen.getByRole('button', { name: /save changes/i });
       expect(saveButton).toBeDisabled();
 
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       expect(saveButton).not.toBeDisabled();
@@ -364,6 +373,369 @@ describe('SessionSettingsModal', () => {
     });
   });
 
+  describe('Skip Threshold Mode', () => {
+    it('shows a percentage slider in percentage modes', async () => {
+      const user = userEvent.setup({ delay: null });
+      const enabledSettings: SessionSettings = {
+        voteToSkip: true,
+        skipThreshold: 3,
+      };
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={enabledSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByRole('slider', { name: /votes needed/i })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /active/i }));
+
+      expect(screen.queryByRole('slider', { name: /votes needed/i })).not.toBeInTheDocument();
+      expect(screen.getByRole('slider', { name: /share of participants needed/i })).toHaveValue('50');
+      expect(screen.getByText('50%')).toBeInTheDocument();
+    });
+
+    it('saves the mode, weights and host override', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      const enabledSettings: SessionSettings = {
+        voteToSkip: true,
+        skipThreshold: 3,
+        skipThresholdMode: 'percent-present',
+        skipThresholdPercent: 50,
+      };
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={enabledSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      // Label queries: role queries with names are slow on a form this size
+      fireEvent.change(screen.getByLabelText('Share of participants needed'), {
+        target: { value: '75' },
+      });
+      fireEvent.change(screen.getByLabelText('DJs'), { target: { value: '2' } });
+      fireEvent.change(screen.getByLabelText('Host'), { target: { value: '3' } });
+      fireEvent.click(screen.getByLabelText(/host override/i));
+      fireEvent.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            voteToSkip: true,
+            skipThreshold: 3,
+            skipThresholdMode: 'percent-present',
+            skipThresholdPercent: 75,
+            djVoteWeight: 2,
+            hostVoteWeight: 3,
+            hostSkipOverride: true,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'flat',
+            tasteBlend: 'balanced',
+            profileDepth: 20,
+            candidateQuotas: defaultQuotas,
+          }),
+        });
+      });
+    });
+
+    it('saves the minimum listening time', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ voteToSkip: true, skipThreshold: 3 }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      fireEvent.change(screen.getByRole('combobox', { name: /minimum listening time/i }), { target: { value: '30' } });
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, expect.objectContaining({
+          body: expect.stringContaining('"skipVoteDelaySeconds":30'),
+        }));
+      });
+    });
+
+    it('saves the queue ranking', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ voteToSkip: true, skipThreshold: 3 }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      fireEvent.change(screen.getByRole('combobox', { name: /queue ranking/i }), { target: { value: '5' } });
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, expect.objectContaining({
+          body: expect.stringContaining('"queueVoteScoreWeight":5'),
+        }));
+      });
+    });
+
+    it('saves the track request settings', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ voteToSkip: true, skipThreshold: 3 }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      fireEvent.change(screen.getByRole('combobox', { name: /pending requests per person/i }), { target: { value: '5' } });
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, expect.objectContaining({
+          body: expect.stringContaining('"trackRequestLimit":5,"autoApproveRequests":false'),
+        }));
+      });
+    });
+
+    it('hides the request limit when requests are auto-approved', () => {
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ voteToSkip: true, skipThreshold: 3, autoApproveRequests: true }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByRole('checkbox', { name: /auto-approve/i })).toBeChecked();
+      expect(screen.queryByRole('combobox', { name: /pending requests per person/i })).not.toBeInTheDocument();
+    });
+
+    it('defaults the host weight to the DJ weight', () => {
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ voteToSkip: true, skipThreshold: 3, djVoteWeight: 2 }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByRole('combobox', { name: /host/i })).toHaveValue('2');
+      expect(screen.getByRole('button', { name: /save changes/i })).toBeDisabled();
+    });
+  });
+
+  describe('Energy Arc', () => {
+    it('highlights the current arc, defaulting to steady', () => {
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={mockCurrentSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: /steady/i })).toHaveClass('border-spotify-green');
+    });
+
+    it('saves the selected arc', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={mockCurrentSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /peak & cooldown/i }));
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            voteToSkip: false,
+            skipThreshold: 3,
+            skipThresholdMode: 'count',
+            skipThresholdPercent: 50,
+            djVoteWeight: 1,
+            hostVoteWeight: 1,
+            hostSkipOverride: false,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'peak-and-cooldown',
+            tasteBlend: 'balanced',
+            profileDepth: 20,
+            candidateQuotas: defaultQuotas,
+          }),
+        });
+      });
+    });
+  });
+
+  describe('Taste Profile', () => {
+    it('highlights the current blend, defaulting to balanced', () => {
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={mockCurrentSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: /balanced/i })).toHaveClass('border-spotify-green');
+      expect(screen.getByLabelText(/profile depth/i)).toHaveValue('20');
+    });
+
+    it('saves the selected blend and depth', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={mockCurrentSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /lately/i }));
+      await user.selectOptions(screen.getByLabelText(/profile depth/i), '50');
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            voteToSkip: false,
+            skipThreshold: 3,
+            skipThresholdMode: 'count',
+            skipThresholdPercent: 50,
+            djVoteWeight: 1,
+            hostVoteWeight: 1,
+            hostSkipOverride: false,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'flat',
+            tasteBlend: 'recent',
+            profileDepth: 50,
+            candidateQuotas: defaultQuotas,
+          }),
+        });
+      });
+    });
+  });
+
+  describe('Track Sources', () => {
+    it('shows each source at its current quota', () => {
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={{ ...mockCurrentSettings, candidateQuotas: { 'genre-search': 0 } }}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      expect(screen.getByLabelText(/shared artists' hits/i)).toHaveValue('2');
+      expect(screen.getByLabelText(/shared genres/i)).toHaveValue('0');
+      expect(screen.getByLabelText(/album deep cuts/i)).toHaveValue('1');
+    });
+
+    it('saves the adjusted quotas', async () => {
+      const user = userEvent.setup({ delay: null });
+      mockFetch.mockResolvedValue(createMockResponse({}));
+
+      renderWithProviders(
+        <SessionSettingsModal
+          isOpen={true}
+          onClose={mockOnClose}
+          sessionId={mockSessionId}
+          currentSettings={mockCurrentSettings}
+          onSettingsUpdated={mockOnSettingsUpdated}
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/album deep cuts/i), 'Lots');
+      await user.selectOptions(screen.getByLabelText(/like what we liked/i), 'Off');
+      await user.click(screen.getByRole('button', { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(`/api/session/${mockSessionId}/settings`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            voteToSkip: false,
+            skipThreshold: 3,
+            skipThresholdMode: 'count',
+            skipThresholdPercent: 50,
+            djVoteWeight: 1,
+            hostVoteWeight: 1,
+            hostSkipOverride: false,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'flat',
+            tasteBlend: 'balanced',
+            profileDepth: 20,
+            candidateQuotas: { ...defaultQuotas, 'album-deep-cuts': 4, 'liked-neighbours': 0 },
+          }),
+        });
+      });
+    });
+  });
+
   describe('Cancel Button', () => {
     it('renders cancel button', () => {
       renderWithProviders(
@@ -416,7 +788,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save - this triggers the async save operation
@@ -457,7 +829,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Enable vote to skip
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -471,6 +843,19 @@ describe('SessionSettingsModal', () => {
           body: JSON.stringify({
             voteToSkip: true,
             skipThreshold: 3,
+            skipThresholdMode: 'count',
+            skipThresholdPercent: 50,
+            djVoteWeight: 1,
+            hostVoteWeight: 1,
+            hostSkipOverride: false,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'flat',
+            tasteBlend: 'balanced',
+            profileDepth: 20,
+            candidateQuotas: defaultQuotas,
           }),
         });
       });
@@ -512,6 +897,19 @@ describe('SessionSettingsModal', () => {
           body: JSON.stringify({
             voteToSkip: true,
             skipThreshold: 8,
+            skipThresholdMode: 'count',
+            skipThresholdPercent: 50,
+            djVoteWeight: 1,
+            hostVoteWeight: 1,
+            hostSkipOverride: false,
+            skipVoteDelaySeconds: 0,
+            queueVoteScoreWeight: 0,
+            trackRequestLimit: 3,
+            autoApproveRequests: false,
+            energyArc: 'flat',
+            tasteBlend: 'balanced',
+            profileDepth: 20,
+            candidateQuotas: defaultQuotas,
           }),
         });
       });
@@ -532,7 +930,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -559,7 +957,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -589,7 +987,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -618,7 +1016,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -647,7 +1045,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -678,7 +1076,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -705,7 +1103,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
 
       // Click save
@@ -771,7 +1169,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Make a change
-      const checkbox = screen.getByRole('checkbox');
+      const checkbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       await user.click(checkbox);
       expect(checkbox).toBeChecked();
 
@@ -802,7 +1200,7 @@ describe('SessionSettingsModal', () => {
       );
 
       // Should be back to initial state
-      const reopenedCheckbox = screen.getByRole('checkbox');
+      const reopenedCheckbox = screen.getByRole('checkbox', { name: /vote to skip/i });
       expect(reopenedCheckbox).not.toBeChecked();
     });
   });
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { renderWithProviders } from '../../utils/component-test-utils';
+import { CreatePollModal } from '@/components/voting/CreatePollModal';
+import { useFetchMock, useConsoleErrorSpy, createMockResponse } from '../../utils/mock-helpers';
+
+// Mock lucide-react
+vi.mock('lucide-react', () => ({
+  Loader2: ({ className }: { className?: string }) => <svg className={className} data-testid="loader-icon" />,
+  X: ({ className }: { className?: string }) => <svg className={className} data-testid="x-icon" />,
+}));
+
+describe('CreatePollModal', () => {
+  const mockFetch = useFetchMock();
+  useConsoleErrorSpy();
+
+  const mockOnClose = vi.fn();
+  const mockOnPollCreated = vi.fn();
+
+  const defaultProps = {
+    isOpen: true,
+    onClose: mockOnClose,
+    sessionId: 'test-session',
+    genres: ['house', 'ambient'],
+    tracks: [{ id: 'track-1', name: 'Dancing Queen', artists: [{ name: 'ABBA' }] }],
+    onPollCreated: mockOnPollCreated,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('offers common genres, energy arcs and upcoming tracks', () => {
+    renderWithProviders(<CreatePollModal {...defaultProps} />);
+
+    expect(screen.getByLabelText('house')).toBeInTheDocument();
+    expect(screen.getByLabelText('Warm-up')).toBeInTheDocument();
+    expect(screen.getByLabelText('Dancing Queen – ABBA')).toBeInTheDocument();
+  });
+
+  it('needs a question and at least two options', () => {
+    renderWithProviders(<CreatePollModal {...defaultProps} />);
+
+    const start = screen.getByRole('button', { name: 'Start Poll' });
+    fireEvent.change(screen.getByLabelText('Question'), { target: { value: 'What next?' } });
+    fireEvent.click(screen.getByLabelText('house'));
+    expect(start).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('ambient'));
+    expect(start).not.toBeDisabled();
+  });
+
+  it('allows at most four options', () => {
+    renderWithProviders(<CreatePollModal {...defaultProps} />);
+
+    ['house', 'ambient', 'Steady', 'Warm-up'].forEach((label) => fireEvent.click(screen.getByLabelText(label)));
+
+    expect(screen.getByLabelText('Peak & cooldown')).toBeDisabled();
+    expect(screen.getByLabelText('house')).not.toBeDisabled();
+  });
+
+  it('starts the poll', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ poll: {} }));
+
+    renderWithProviders(<CreatePollModal {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Question'), { target: { value: ' More dance or more chill? ' } });
+    fireEvent.click(screen.getByLabelText('house'));
+    fireEvent.click(screen.getByLabelText('Warm-up'));
+    fireEvent.click(screen.getByLabelText('Dancing Queen – ABBA'));
+    fireEvent.click(screen.getByRole('button', { name: 'Start Poll' }));
+
+    await waitFor(() => {
+      expect(mockOnClose).toHaveBeenCalled();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/session/test-session/poll', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        question: 'More dance or more chill?',
+        options: [
+          { kind: 'genre', genre: 'house' },
+          { kind: 'energy-arc', energyArc: 'warm-up' },
+          { kind: 'track', trackId: 'track-1' },
+        ],
+      }),
+    });
+    expect(mockOnPollCreated).toHaveBeenCalled();
+  });
+
+  it('shows the error and stays open when the poll is refused', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ error: 'A poll is already open' }, { ok: false }));
+
+    renderWithProviders(<CreatePollModal {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Question'), { target: { value: 'What next?' } });
+    fireEvent.click(screen.getByLabelText('house'));
+    fireEvent.click(screen.getByLabelText('ambient'));
+    fireEvent.click(screen.getByRole('button', { name: 'Start Poll' }));
+
+    expect(await screen.findByText('A poll is already open')).toBeInTheDocument();
+    expect(mockOnClose).not.toHaveBeenCalled();
+  });
+});
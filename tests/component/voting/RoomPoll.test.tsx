@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import type { Socket } from 'socket.io-client';
+import { renderWithProviders } from '../../utils/component-test-utils';
+import { RoomPoll } from '@/components/voting/RoomPoll';
+import { useFetchMock, useConsoleErrorSpy, createMockResponse } from '../../utils/mock-helpers';
+import type { Poll } from '@/types';
+import type { ServerToClientEvents, ClientToServerEvents } from '@/types/websocket';
+
+// Mock lucide-react
+vi.mock('lucide-react', () => ({
+  BarChart3: () => <svg data-testid="chart-icon" />,
+}));
+
+describe('RoomPoll', () => {
+  const mockFetch = useFetchMock();
+  useConsoleErrorSpy();
+
+  const mockSocket = { emit: vi.fn() };
+  const socket = mockSocket as unknown as Socket<ServerToClientEvents, ClientToServerEvents>;
+
+  const createPoll = (overrides?: Partial<Poll>): Poll => ({
+    id: 'poll-1',
+    question: 'More dance or more chill?',
+    options: [
+      { id: 'dance', kind: 'genre', label: 'dance', genre: 'dance' },
+      { id: 'chill', kind: 'genre', label: 'chill', genre: 'chill' },
+    ],
+    votes: [
+      { userId: 'user-1', optionId: 'chill', timestamp: 0 },
+      { userId: 'user-2', optionId: 'chill', timestamp: 0 },
+      { userId: 'user-3', optionId: 'dance', timestamp: 0 },
+      { userId: 'user-4', optionId: 'chill', timestamp: 0 },
+    ],
+    createdBy: 'dj-1',
+    createdAt: 0,
+    ...overrides,
+  });
+
+  const defaultProps = {
+    sessionId: 'test-session',
+    poll: createPoll(),
+    userId: 'user-1',
+    isDJ: false,
+    socket,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the question and live results', () => {
+    renderWithProviders(<RoomPoll {...defaultProps} />);
+
+    expect(screen.getByText('More dance or more chill?')).toBeInTheDocument();
+    expect(screen.getByTitle('3 of 4 votes')).toHaveTextContent('75%');
+    expect(screen.getByTitle('1 of 4 votes')).toHaveTextContent('25%');
+    expect(screen.getByText('4 votes so far')).toBeInTheDocument();
+  });
+
+  it("marks the user's own pick", () => {
+    renderWithProviders(<RoomPoll {...defaultProps} />);
+
+    expect(screen.getByRole('button', { name: /chill/ })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: /dance/ })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('votes over the socket', () => {
+    renderWithProviders(<RoomPoll {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /dance/ }));
+
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      'poll_vote',
+      { sessionId: 'test-session', pollId: 'poll-1', optionId: 'dance' },
+      expect.any(Function)
+    );
+  });
+
+  it('shows why a vote was refused', async () => {
+    mockSocket.emit.mockImplementation((_event, _data, callback) => callback({ success: false, error: 'Poll is closed' }));
+
+    renderWithProviders(<RoomPoll {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /dance/ }));
+
+    expect(await screen.findByText('Poll is closed')).toBeInTheDocument();
+  });
+
+  it('lets DJs close the poll', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ poll: createPoll({ closedAt: 1 }) }));
+
+    renderWithProviders(<RoomPoll {...defaultProps} isDJ />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close Poll' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/session/test-session/poll/close', { method: 'POST' });
+    });
+  });
+
+  it('hides the close button from non-DJs', () => {
+    renderWithProviders(<RoomPoll {...defaultProps} />);
+
+    expect(screen.queryByRole('button', { name: 'Close Poll' })).not.toBeInTheDocument();
+  });
+
+  it('shows the winner and stops voting once closed', () => {
+    renderWithProviders(
+      <RoomPoll {...defaultProps} isDJ poll={createPoll({ closedAt: 1, winnerId: 'chill' })} />
+    );
+
+    expect(screen.getByText('chill won and steers the next queue refresh')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /dance/ })).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'Close Poll' })).not.toBeInTheDocument();
+  });
+});
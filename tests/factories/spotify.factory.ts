@@ -1,5 +1,5 @@
 import { faker } from '@faker-js/faker';
-import type { SpotifyTrack, SpotifyArtist, SpotifyAlbum, SpotifyDevice, SpotifyImage } from '@/types/spotify';
+import type { SpotifyTrack, SpotifyArtist, SpotifyAlbum, SpotifyDevice, SpotifyImage, SpotifyPlaylistSummary } from '@/types/spotify';
 
 export function createMockSpotifyImage(overrides?: Partial<SpotifyImage>): SpotifyImage {
   return {
@@ -60,6 +60,28 @@ export function createMockSpotifyTrack(overrides?: Partial<SpotifyTrack>): Spoti
   };
 }
 
+export function createMockSpotifyPlaylist(overrides?: Partial<SpotifyPlaylistSummary>): SpotifyPlaylistSummary {
+  const playlistId = faker.string.alphanumeric(22);
+
+  return {
+    id: playlistId,
+    name: faker.music.genre(),
+    uri: `spotify:playlist:${playlistId}`,
+    external_urls: {
+      spotify: `https://open.spotify.com/playlist/${playlistId}`,
+    },
+    images: [createMockSpotifyImage()],
+    owner: {
+      id: faker.string.alphanumeric(10),
+      display_name: faker.person.firstName(),
+    },
+    tracks: {
+      total: faker.number.int({ min: 1, max: 100 }),
+    },
+    ...overrides,
+  };
+}
+
 export function createMockSpotifyDevice(overrides?: Partial<SpotifyDevice>): SpotifyDevice {
   const deviceTypes = ['Computer', 'Smartphone', 'Speaker', 'TV', 'AVR', 'STB', 'AudioDongle', 'GameConsole', 'CastVideo', 'CastAudio', 'Automobile'];
   const deviceNames = {
@@ -3,11 +3,16 @@ import { POST as PlayPOST } from '@/app/api/playback/play/route';
 import { POST as PausePOST } from '@/app/api/playback/pause/route';
 import { POST as SkipPOST } from '@/app/api/playback/skip/route';
 import { POST as InitPOST } from '@/app/api/playback/init/route';
+import { POST as TrackChangePOST } from '@/app/api/playback/track-change/route';
 import { getServerSession } from 'next-auth';
 import { SessionService } from '@/lib/services/session.service';
 import { SpotifyService } from '@/lib/services/spotify.service';
 import { createMockSession } from '../../../factories/session.factory';
+import { createMockUpdate, MockSessionStore } from '../../../mocks/mock-store';
 import { createMockSpotifyTrack, createMockSpotifyDevice, createMockSpotifyDevices } from '../../../factories/spotify.factory';
+import { watchSessionPlayback } from '@/lib/playback-monitor';
+import { handleTrackCompletion } from '@/lib/utils/playback';
+import { broadcastToSession } from '@/lib/websocket/server';
 import { NextRequest } from 'next/server';
 
 // Mock dependencies
@@ -34,6 +39,10 @@ vi.mock('@/lib/queue-auto-repopulate', () => ({
   checkAndRepopulateQueue: vi.fn(),
 }));
 
+vi.mock('@/lib/playback-monitor', () => ({
+  watchSessionPlayback: vi.fn(),
+}));
+
 describe('POST /api/playback/play', () => {
   const mockAccessToken = 'mock-access-token';
   const mockUserId = 'user-123';
@@ -42,6 +51,7 @@ describe('POST /api/playback/play', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue(mockAccessToken);
   });
 
   const createRequest = (body: unknown) => {
@@ -186,6 +196,9 @@ describe('POST /api/playback/play', () => {
       ],
     });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -210,6 +223,60 @@ describe('POST /api/playback/play', () => {
       [`spotify:track:${mockTrack.id}`],
       0
     );
+    expect(watchSessionPlayback).toHaveBeenCalledWith(mockSessionId);
+  });
+
+  it('starts a new play of the track and opens voting on it', async () => {
+    const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      activeDeviceId: 'device-123',
+      queue: [
+        {
+          track: mockTrack,
+          position: 0,
+          addedBy: mockUserId,
+          addedAt: Date.now(),
+          isStable: true,
+        },
+      ],
+      currentPlay: { id: 'play-1', trackId: 'track-123', startedAt: Date.now() - 300000 },
+      votes: {
+        skip: [
+          { userId: 'user-1', trackId: 'track-123', playId: 'play-1', timestamp: Date.now() },
+        ],
+        like: [],
+      },
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.play).mockResolvedValue(undefined);
+    vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue({
+      is_playing: true,
+      item: mockTrack,
+    } as never);
+
+    await PlayPOST(createRequest({ sessionId: mockSessionId }));
+
+    expect(mockSession.currentPlay).toMatchObject({ trackId: 'track-123' });
+    expect(mockSession.currentPlay?.id).not.toBe('play-1');
+    expect(mockSession.votes.skip).toEqual([]);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'vote_window', {
+      playId: mockSession.currentPlay?.id,
+      trackId: 'track-123',
+      opensAt: mockSession.currentPlay?.startedAt,
+      opensInMs: 0,
+    });
   });
 
   it('starts playback with custom device', async () => {
@@ -229,6 +296,9 @@ describe('POST /api/playback/play', () => {
       ],
     });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -255,6 +325,90 @@ describe('POST /api/playback/play', () => {
     );
   });
 
+  it("plays on the device owner's account when another DJ asks", async () => {
+    const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      activeDeviceId: 'host-device',
+      queue: [
+        {
+          track: mockTrack,
+          position: 0,
+          addedBy: mockUserId,
+          addedAt: Date.now(),
+          isStable: true,
+        },
+      ],
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue('host-access-token');
+    vi.mocked(SpotifyService.prototype.play).mockResolvedValue(undefined);
+    vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue({
+      is_playing: true,
+      item: mockTrack,
+    } as never);
+
+    const request = createRequest({ sessionId: mockSessionId });
+    const response = await PlayPOST(request);
+
+    expect(response.status).toBe(200);
+    expect(SessionService.prototype.getPlaybackAccessToken).toHaveBeenCalledWith(mockSession, mockUserId);
+    expect(SpotifyService).toHaveBeenCalledWith('host-access-token');
+    expect(SpotifyService).not.toHaveBeenCalledWith(mockAccessToken);
+    expect(SpotifyService.prototype.play).toHaveBeenCalledWith(
+      'host-device',
+      [`spotify:track:${mockTrack.id}`],
+      0
+    );
+    expect(watchSessionPlayback).toHaveBeenCalledWith(mockSessionId);
+  });
+
+  it("returns 400 when the device owner's token is unavailable", async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      queue: [
+        {
+          track: createMockSpotifyTrack(),
+          position: 0,
+          addedBy: mockUserId,
+          addedAt: Date.now(),
+          isStable: true,
+        },
+      ],
+    });
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockRejectedValue(
+      new Error('The host needs to sign in again before playback can be controlled')
+    );
+
+    const request = createRequest({ sessionId: mockSessionId });
+    const response = await PlayPOST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('The host needs to sign in again before playback can be controlled');
+    expect(SpotifyService.prototype.play).not.toHaveBeenCalled();
+  });
+
   it('returns 404 when no active device found', async () => {
     const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
     const mockSession = createMockSession({
@@ -366,6 +520,7 @@ describe('POST /api/playback/pause', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue(mockAccessToken);
   });
 
   const createRequest = (body: unknown) => {
@@ -549,6 +704,7 @@ describe('POST /api/playback/skip', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue(mockAccessToken);
   });
 
   const createRequest = (body: unknown) => {
@@ -648,6 +804,7 @@ describe('POST /api/playback/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       get: vi.fn().mockResolvedValue(mockSession),
       set: vi.fn(),
     };
@@ -674,6 +831,83 @@ describe('POST /api/playback/skip', () => {
     expect(SpotifyService.prototype.skipToNext).toHaveBeenCalledWith('device-123');
   });
 
+  it('opens voting on the track skipped to', async () => {
+    const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      activeDeviceId: 'device-123',
+      settings: { voteToSkip: true, skipThreshold: 2, skipVoteDelaySeconds: 20 },
+      queue: [
+        {
+          track: mockTrack,
+          position: 0,
+          addedBy: mockUserId,
+          addedAt: Date.now(),
+          isStable: true,
+        },
+      ],
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({
+      update: createMockUpdate(mockSession),
+      get: vi.fn().mockResolvedValue(mockSession),
+    } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.skipToNext).mockResolvedValue(undefined);
+    vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue({
+      is_playing: true,
+    } as never);
+
+    await SkipPOST(createRequest({ sessionId: mockSessionId }));
+
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'vote_window', expect.objectContaining({
+      trackId: 'track-123',
+      opensAt: (mockSession.currentPlay?.startedAt ?? 0) + 20000,
+    }));
+  });
+
+  it("skips on the device owner's account when another DJ asks", async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      activeDeviceId: 'host-device',
+      queue: [],
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({
+      update: createMockUpdate(mockSession),
+      get: vi.fn().mockResolvedValue(mockSession),
+    } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue('host-access-token');
+    vi.mocked(SpotifyService.prototype.skipToNext).mockResolvedValue(undefined);
+
+    const request = createRequest({ sessionId: mockSessionId });
+    const response = await SkipPOST(request);
+
+    expect(response.status).toBe(200);
+    expect(SpotifyService).toHaveBeenCalledWith('host-access-token');
+    expect(SpotifyService.prototype.skipToNext).toHaveBeenCalledWith('host-device');
+    expect(watchSessionPlayback).toHaveBeenCalledWith(mockSessionId);
+  });
+
   it('skips track with custom device', async () => {
     const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
     const mockSession = createMockSession({
@@ -692,6 +926,7 @@ describe('POST /api/playback/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       get: vi.fn().mockResolvedValue(mockSession),
       set: vi.fn(),
     };
@@ -727,6 +962,7 @@ describe('POST /api/playback/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       get: vi.fn().mockResolvedValue(mockSession),
       set: vi.fn(),
     };
@@ -760,6 +996,7 @@ describe('POST /api/playback/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       get: vi.fn().mockResolvedValue(mockSession),
       set: vi.fn(),
     };
@@ -790,6 +1027,7 @@ describe('POST /api/playback/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       get: vi.fn().mockResolvedValue(mockSession),
       set: vi.fn(),
     };
@@ -821,6 +1059,7 @@ describe('POST /api/playback/init', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue(mockAccessToken);
   });
 
   const createRequest = (body: unknown) => {
@@ -960,6 +1199,7 @@ describe('POST /api/playback/init', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -1057,3 +1297,83 @@ describe('POST /api/playback/init', () => {
     expect(data.error).toBe('Internal server error');
   });
 });
+
+describe('POST /api/playback/track-change', () => {
+  const mockAccessToken = 'mock-access-token';
+  const mockUserId = 'user-123';
+  const mockSessionId = 'session-123';
+  let store: MockSessionStore;
+
+  const queueItem = (trackId: string) => ({
+    track: createMockSpotifyTrack({ id: trackId }),
+    position: 0,
+    addedBy: 'algorithm',
+    addedAt: Date.now(),
+    isStable: true,
+  });
+
+  const createRequest = (body: unknown) => {
+    return new NextRequest('http://localhost:3000/api/playback/track-change', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    // The same track queued twice in a row, so only the play tells reports apart
+    store = new MockSessionStore();
+    await store.set(mockSessionId, createMockSession({
+      id: mockSessionId,
+      queue: [queueItem('track-2'), queueItem('track-2'), queueItem('track-3')],
+      currentPlay: { id: 'play-1', trackId: 'track-1', startedAt: 0 },
+    }));
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue(store as never);
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: 'Test User' },
+      accessToken: mockAccessToken,
+    } as never);
+    vi.mocked(SessionService.prototype.getSession).mockImplementation((id: string) => store.get(id));
+    vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValue(mockAccessToken);
+    vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue({ is_playing: true } as never);
+  });
+
+  it('returns 400 when the report does not say which play ended', async () => {
+    const response = await TrackChangePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-2' }));
+
+    expect(response.status).toBe(400);
+    expect((await store.get(mockSessionId))?.queue).toHaveLength(3);
+  });
+
+  it('advances the queue and returns the new play', async () => {
+    const response = await TrackChangePOST(
+      createRequest({ sessionId: mockSessionId, trackId: 'track-2', playId: 'play-1' })
+    );
+    const data = await response.json();
+    const stored = await store.get(mockSessionId);
+
+    expect(response.status).toBe(200);
+    expect(stored?.queue).toHaveLength(2);
+    expect(stored?.currentPlay).toMatchObject({ trackId: 'track-2' });
+    expect(data.playId).toBe(stored?.currentPlay?.id);
+  });
+
+  it('advances once when the monitor and a client report the same change', async () => {
+    await handleTrackCompletion(mockSessionId, store, mockAccessToken, 'track-2', 'play-1');
+    const newPlayId = (await store.get(mockSessionId))?.currentPlay?.id;
+
+    const response = await TrackChangePOST(
+      createRequest({ sessionId: mockSessionId, trackId: 'track-2', playId: 'play-1' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.playId).toBe(newPlayId);
+    expect((await store.get(mockSessionId))?.queue).toHaveLength(2);
+  });
+});
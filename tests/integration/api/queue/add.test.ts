@@ -4,6 +4,7 @@ import { getServerSession } from 'next-auth';
 import { SessionService } from '@/lib/services/session.service';
 import { SpotifyService } from '@/lib/services/spotify.service';
 import { createMockSession } from '../../../factories/session.factory';
+import { createMockUpdate } from '../../../mocks/mock-store';
 import { createMockSpotifyTrack } from '../../../factories/spotify.factory';
 import { NextRequest } from 'next/server';
 
@@ -157,6 +158,9 @@ describe('POST /api/queue/[sessionId]/add', () => {
 
     const mockTrack = createMockSpotifyTrack({ id: 'track-123', name: 'Test Track' });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -197,6 +201,9 @@ describe('POST /api/queue/[sessionId]/add', () => {
 
     const mockTrack = createMockSpotifyTrack({ id: 'track-123' });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -229,6 +236,9 @@ describe('POST /api/queue/[sessionId]/add', () => {
       duration_ms: 180000,
     });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -0,0 +1,337 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as RequestPOST } from '@/app/api/queue/[sessionId]/requests/route';
+import { POST as DecidePOST } from '@/app/api/queue/[sessionId]/requests/[requestId]/route';
+import { getServerSession } from 'next-auth';
+import { SessionService } from '@/lib/services/session.service';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { createMockSession, createMockSessionSettings } from '../../../factories/session.factory';
+import { createMockUpdate } from '../../../mocks/mock-store';
+import { createMockSpotifyTrack } from '../../../factories/spotify.factory';
+import { NextRequest } from 'next/server';
+import type { Session, TrackRequest } from '@/types';
+
+// Mock dependencies
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getStore: vi.fn(() => ({
+    get: vi.fn(),
+    set: vi.fn(),
+    getByCode: vi.fn(),
+  })),
+}));
+
+vi.mock('@/lib/services/session.service');
+vi.mock('@/lib/services/spotify.service');
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+const mockAccessToken = 'mock-access-token';
+const mockUserId = 'user-123';
+const mockUserName = 'Test User';
+const mockSessionId = 'session-123';
+
+const signIn = () => {
+  vi.mocked(getServerSession).mockResolvedValue({
+    user: { id: mockUserId, name: mockUserName },
+    accessToken: mockAccessToken,
+  } as never);
+};
+
+const useSession = async (mockSession: Session) => {
+  const { getStore } = await import('@/lib/session');
+  vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+  vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+};
+
+const createTrackRequest = (overrides?: Partial<TrackRequest>): TrackRequest => ({
+  id: 'request-1',
+  track: createMockSpotifyTrack({ id: 'track-123', name: 'Requested Track' }),
+  requestedBy: 'guest-1',
+  requestedAt: Date.now(),
+  ...overrides,
+});
+
+describe('POST /api/queue/[sessionId]/requests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createRequest = (body: unknown) => {
+    return new NextRequest(`http://localhost:3000/api/queue/${mockSessionId}/requests`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  const params = { params: Promise.resolve({ sessionId: mockSessionId }) };
+
+  const setup = async (overrides?: Partial<Session>) => {
+    const mockSession = createMockSession({ id: mockSessionId, queue: [], ...overrides });
+
+    signIn();
+    await useSession(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.searchTracks).mockResolvedValue([
+      createMockSpotifyTrack({ id: 'track-123', name: 'Test Track' }),
+    ]);
+
+    return mockSession;
+  };
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 when trackId is missing', async () => {
+    signIn();
+
+    const response = await RequestPOST(createRequest({}), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid request body');
+  });
+
+  it('returns 403 when user is not a participant', async () => {
+    await setup();
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(false);
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Not a participant of this session');
+  });
+
+  it('returns 404 when track not found on Spotify', async () => {
+    await setup();
+    vi.mocked(SpotifyService.prototype.searchTracks).mockResolvedValue([]);
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Track not found');
+  });
+
+  it('files a request for the DJs without touching the queue', async () => {
+    const mockSession = await setup();
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.approved).toBe(false);
+    expect(data.request).toMatchObject({
+      id: expect.any(String),
+      track: { id: 'track-123', name: 'Test Track' },
+      requestedBy: mockUserId,
+      requestedAt: expect.any(Number),
+    });
+    expect(mockSession.trackRequests).toEqual([data.request]);
+    expect(mockSession.queue).toEqual([]);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'request_created', data.request);
+  });
+
+  it('adds the track straight away when requests are auto-approved', async () => {
+    const mockSession = await setup({
+      settings: createMockSessionSettings({ autoApproveRequests: true }),
+    });
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(data.approved).toBe(true);
+    expect(mockSession.trackRequests).toBeUndefined();
+    expect(mockSession.queue).toEqual([
+      expect.objectContaining({ track: expect.objectContaining({ id: 'track-123' }), addedBy: mockUserId, position: 0 }),
+    ]);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'queue_updated', mockSession.queue);
+    expect(broadcastToSession).not.toHaveBeenCalledWith(mockSessionId, 'request_created', expect.anything());
+  });
+
+  it('returns 400 when the track has already been requested', async () => {
+    await setup({ trackRequests: [createTrackRequest()] });
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Track has already been requested');
+  });
+
+  it('returns 400 when the track is already in the queue', async () => {
+    await setup({
+      queue: [{
+        track: createMockSpotifyTrack({ id: 'track-123' }),
+        position: 0,
+        addedBy: 'algorithm',
+        addedAt: Date.now(),
+        isStable: true,
+      }],
+    });
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Track is already in the queue');
+  });
+
+  it('returns 400 once the user has too many pending requests', async () => {
+    const mockSession = await setup({
+      settings: createMockSessionSettings({ trackRequestLimit: 2 }),
+      trackRequests: [
+        createTrackRequest({ id: 'request-1', track: createMockSpotifyTrack({ id: 'track-1' }), requestedBy: mockUserId }),
+        createTrackRequest({ id: 'request-2', track: createMockSpotifyTrack({ id: 'track-2' }), requestedBy: mockUserId }),
+      ],
+    });
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('You can only have 2 pending requests at a time');
+    expect(mockSession.trackRequests).toHaveLength(2);
+  });
+
+  it('does not count other people\'s requests against the limit', async () => {
+    const mockSession = await setup({
+      settings: createMockSessionSettings({ trackRequestLimit: 1 }),
+      trackRequests: [createTrackRequest({ track: createMockSpotifyTrack({ id: 'track-1' }) })],
+    });
+
+    const response = await RequestPOST(createRequest({ trackId: 'track-123' }), params);
+
+    expect(response.status).toBe(200);
+    expect(mockSession.trackRequests).toHaveLength(2);
+  });
+});
+
+describe('POST /api/queue/[sessionId]/requests/[requestId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createRequest = (requestId: string, body: unknown) => {
+    return new NextRequest(`http://localhost:3000/api/queue/${mockSessionId}/requests/${requestId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  const paramsFor = (requestId: string) => ({ params: Promise.resolve({ sessionId: mockSessionId, requestId }) });
+
+  const setup = async (overrides?: Partial<Session>) => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      djs: [mockUserId],
+      queue: [],
+      trackRequests: [createTrackRequest()],
+      ...overrides,
+    });
+
+    signIn();
+    await useSession(mockSession);
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+
+    return mockSession;
+  };
+
+  it('returns 400 for an unknown action', async () => {
+    signIn();
+
+    const response = await DecidePOST(createRequest('request-1', { action: 'maybe' }), paramsFor('request-1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid request body');
+  });
+
+  it('returns 403 when user is not a DJ', async () => {
+    const mockSession = await setup();
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(false);
+
+    const response = await DecidePOST(createRequest('request-1', { action: 'approve' }), paramsFor('request-1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Only DJs can approve or reject requests');
+    expect(mockSession.trackRequests).toHaveLength(1);
+  });
+
+  it('returns 404 for a request that does not exist', async () => {
+    await setup();
+
+    const response = await DecidePOST(createRequest('request-9', { action: 'approve' }), paramsFor('request-9'));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Request not found');
+  });
+
+  it('adds an approved track to the end of the queue, credited to the requester', async () => {
+    const mockSession = await setup();
+    const [request] = mockSession.trackRequests!;
+
+    const response = await DecidePOST(createRequest('request-1', { action: 'approve' }), paramsFor('request-1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('approved');
+    expect(mockSession.trackRequests).toEqual([]);
+    expect(mockSession.queue).toEqual([
+      expect.objectContaining({ track: request.track, addedBy: 'guest-1', position: 0, isStable: false }),
+    ]);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'queue_updated', mockSession.queue);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'request_resolved', { status: 'approved', request });
+  });
+
+  it('settles a request for a track that is already queued as a duplicate', async () => {
+    const queued = {
+      track: createMockSpotifyTrack({ id: 'track-123' }),
+      position: 0,
+      addedBy: mockUserId,
+      addedAt: Date.now(),
+      isStable: true,
+    };
+    const mockSession = await setup({ queue: [queued] });
+    const [request] = mockSession.trackRequests!;
+
+    const response = await DecidePOST(createRequest('request-1', { action: 'approve' }), paramsFor('request-1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe('duplicate');
+    expect(mockSession.trackRequests).toEqual([]);
+    expect(mockSession.queue).toEqual([queued]);
+    expect(broadcastToSession).not.toHaveBeenCalledWith(mockSessionId, 'queue_updated', expect.anything());
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'request_resolved', { status: 'duplicate', request });
+  });
+
+  it('drops a rejected request without touching the queue', async () => {
+    const mockSession = await setup();
+    const [request] = mockSession.trackRequests!;
+
+    const response = await DecidePOST(createRequest('request-1', { action: 'reject' }), paramsFor('request-1'));
+    const data = await response.json();
+
+    expect(data.status).toBe('rejected');
+    expect(mockSession.trackRequests).toEqual([]);
+    expect(mockSession.queue).toEqual([]);
+    expect(broadcastToSession).not.toHaveBeenCalledWith(mockSessionId, 'queue_updated', expect.anything());
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'request_resolved', { status: 'rejected', request });
+  });
+});
@@ -251,6 +251,42 @@ describe('POST /api/session/create', () => {
     expect(data.error).toBe('Invalid request body');
   });
 
+  it('seeds the session from a playlist link', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.createSession).mockResolvedValue(createMockSession());
+
+    const request = createRequest({
+      seedPlaylist: 'https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M?si=abc',
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(SessionService.prototype.createSession).toHaveBeenCalledWith(
+      mockUserId,
+      mockUserName,
+      { seedPlaylistId: '37i9dQZF1DXcBWIGoYBM5M' }
+    );
+  });
+
+  it('returns 400 for a seed playlist that is not a playlist link', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    const request = createRequest({ seedPlaylist: 'https://open.spotify.com/album/1A2GTWGtFfWp7KSQTwWOyo' });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid playlist link');
+    expect(SessionService.prototype.createSession).not.toHaveBeenCalled();
+  });
+
   it('handles service errors gracefully', async () => {
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
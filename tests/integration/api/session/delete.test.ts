@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { DELETE } from '@/app/api/session/[id]/route';
+import { getServerSession } from 'next-auth';
+import { getStore } from '@/lib/session';
+import { initializeSocketIO } from '@/lib/websocket/server';
+import { createMockSession, createMockParticipant } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+import type { Server as HTTPServer } from 'http';
+
+// Runs the real broadcast path: the route publishes session_ended, the
+// WebSocket server receives it over (fake) Redis pub/sub, emits it to the room
+// and removes every socket from it
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+const pubsub = vi.hoisted(() => {
+  const subscribers: Array<{ pattern: string; callback: (channel: string, message: string) => void }> = [];
+  return {
+    subscribers,
+    publishEvent: async (channel: string, data: unknown) => {
+      for (const { pattern, callback } of subscribers) {
+        if (channel.startsWith(pattern.replace('*', ''))) {
+          callback(channel, JSON.stringify(data));
+        }
+      }
+    },
+  };
+});
+
+vi.mock('@/lib/redis-events', () => ({
+  publishEvent: pubsub.publishEvent,
+  subscribeToPattern: (pattern: string, callback: (channel: string, message: string) => void) => {
+    pubsub.subscribers.push({ pattern, callback });
+  },
+}));
+
+const mockRoom = vi.hoisted(() => ({
+  emit: vi.fn(),
+  socketsLeave: vi.fn(),
+}));
+
+vi.mock('socket.io', () => ({
+  Server: vi.fn(function () {
+    return {
+      use: vi.fn(),
+      on: vi.fn(),
+      to: vi.fn(() => mockRoom),
+      in: vi.fn(() => mockRoom),
+    };
+  }),
+}));
+
+vi.mock('@/lib/queue-background-regen', () => ({
+  cancelPendingRegeneration: vi.fn(),
+}));
+
+const mockArchive = vi.hoisted(() => ({
+  save: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@/lib/archive', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/archive')>()),
+  getRecapArchive: () => mockArchive,
+}));
+
+describe('DELETE /api/session/[id]', () => {
+  const hostId = 'host-123';
+  const guestId = 'guest-123';
+  const sessionId = 'session-123';
+
+  const signInAs = (userId: string) => {
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: userId, name: 'Someone' },
+      accessToken: 'mock-access-token',
+    } as never);
+  };
+
+  const deleteRequest = () =>
+    new NextRequest(`http://localhost:3000/api/session/${sessionId}`, { method: 'DELETE' });
+  const params = { params: Promise.resolve({ id: sessionId }) };
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    initializeSocketIO({} as HTTPServer);
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await getStore().set(sessionId, createMockSession({
+      id: sessionId,
+      hostId,
+      djs: [hostId],
+      participants: [
+        createMockParticipant({ userId: hostId, isHost: true, isDJ: true }),
+        createMockParticipant({ userId: guestId }),
+      ],
+    }));
+  });
+
+  afterEach(async () => {
+    await getStore().delete(sessionId);
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await DELETE(deleteRequest(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 403 for anyone but the host and keeps the room', async () => {
+    signInAs(guestId);
+
+    const response = await DELETE(deleteRequest(), params);
+
+    expect(response.status).toBe(403);
+    expect(await getStore().exists(sessionId)).toBe(true);
+    expect(mockRoom.emit).not.toHaveBeenCalled();
+    expect(mockRoom.socketsLeave).not.toHaveBeenCalled();
+  });
+
+  it('tells the room the host deleted the session', async () => {
+    signInAs(hostId);
+
+    const response = await DELETE(deleteRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(await getStore().exists(sessionId)).toBe(false);
+    expect(mockRoom.emit).toHaveBeenCalledWith('session_ended', {
+      reason: 'deleted-by-host',
+      summary: expect.objectContaining({ participantCount: 2 }),
+    });
+  });
+
+  it('removes every socket from the session room', async () => {
+    signInAs(hostId);
+
+    await DELETE(deleteRequest(), params);
+
+    expect(mockRoom.socketsLeave).toHaveBeenCalledWith(sessionId);
+    expect(mockRoom.emit.mock.invocationCallOrder[0]).toBeLessThan(mockRoom.socketsLeave.mock.invocationCallOrder[0]);
+  });
+});
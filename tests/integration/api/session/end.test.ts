@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { POST as EndPOST } from '@/app/api/session/[id]/end/route';
+import { GET as SessionGET } from '@/app/api/session/[id]/route';
+import { getServerSession } from 'next-auth';
+import { getStore } from '@/lib/session';
+import { startSessionSweeper, stopSessionSweeper } from '@/lib/session-lifecycle';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { createMockSession, createMockParticipant } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+
+// The routes and the sweeper share the real (in-memory) session store here,
+// as they do in the running server
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+vi.mock('@/lib/redis-events', () => ({
+  publishEvent: vi.fn(),
+  subscribeToPattern: vi.fn(),
+}));
+
+vi.mock('@/lib/queue-background-regen', () => ({
+  cancelPendingRegeneration: vi.fn(),
+}));
+
+const mockArchive = vi.hoisted(() => ({
+  save: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@/lib/archive', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/archive')>()),
+  getRecapArchive: () => mockArchive,
+}));
+
+const MINUTE = 60 * 1000;
+const hostId = 'host-123';
+const guestId = 'guest-123';
+
+const signInAs = (userId: string) => {
+  vi.mocked(getServerSession).mockResolvedValue({
+    user: { id: userId, name: 'Someone' },
+    accessToken: 'mock-access-token',
+  } as never);
+};
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const seedSession = async (id: string, updatedAt: number = Date.now()) => {
+  const session = createMockSession({
+    id,
+    hostId,
+    djs: [hostId],
+    participants: [
+      createMockParticipant({ userId: hostId, isHost: true, isDJ: true }),
+      createMockParticipant({ userId: guestId }),
+    ],
+    createdAt: updatedAt,
+    updatedAt,
+    lastParticipantChange: updatedAt,
+  });
+  await getStore().set(id, session);
+  return session;
+};
+
+describe('POST /api/session/[id]/end', () => {
+  const endRequest = (id: string) =>
+    new NextRequest(`http://localhost:3000/api/session/${id}/end`, { method: 'POST' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await EndPOST(endRequest('session-1'), params('session-1'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 404 for an unknown session', async () => {
+    signInAs(hostId);
+
+    const response = await EndPOST(endRequest('missing'), params('missing'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 403 for anyone but the host', async () => {
+    await seedSession('session-guest');
+    signInAs(guestId);
+
+    const response = await EndPOST(endRequest('session-guest'), params('session-guest'));
+
+    expect(response.status).toBe(403);
+    expect(await getStore().exists('session-guest')).toBe(true);
+  });
+
+  it('ends the session for everyone', async () => {
+    const session = await seedSession('session-host');
+    signInAs(hostId);
+
+    const response = await EndPOST(endRequest('session-host'), params('session-host'));
+
+    expect(response.status).toBe(200);
+    expect(await getStore().get('session-host')).toBeNull();
+    expect(await getStore().getByCode(session.code)).toBeNull();
+    expect((await getStore().getByUserId(guestId)).map((s) => s.id)).not.toContain('session-host');
+    expect(mockArchive.save).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 'session-host',
+      endReason: 'ended-by-host',
+    }));
+    expect(broadcastToSession).toHaveBeenCalledWith('session-host', 'session_ended', {
+      reason: 'ended-by-host',
+      summary: expect.objectContaining({ participantCount: 2 }),
+    });
+  });
+});
+
+describe('idle sweeper', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stopSessionSweeper();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('ends idle sessions in the store the routes read and keeps active ones', async () => {
+    await seedSession('session-idle', Date.now() - 120 * MINUTE);
+    await seedSession('session-active');
+
+    startSessionSweeper(getStore(), MINUTE);
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    expect(broadcastToSession).toHaveBeenCalledWith('session-idle', 'session_ended', expect.objectContaining({
+      reason: 'idle',
+    }));
+    expect(broadcastToSession).not.toHaveBeenCalledWith('session-active', 'session_ended', expect.anything());
+
+    signInAs(guestId);
+    const idle = await SessionGET(new NextRequest('http://localhost:3000/api/session/session-idle'), params('session-idle'));
+    const active = await SessionGET(new NextRequest('http://localhost:3000/api/session/session-active'), params('session-active'));
+
+    expect(idle.status).toBe(404);
+    expect(active.status).toBe(200);
+  });
+});
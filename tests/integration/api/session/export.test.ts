@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/app/api/session/[id]/export/route';
+import { getServerSession } from 'next-auth';
+import { SessionService } from '@/lib/services/session.service';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { createMockSession } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+import type { SessionRecap } from '@/types';
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getStore: vi.fn(() => ({})),
+}));
+
+const mockArchive = vi.hoisted(() => ({
+  save: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@/lib/archive', () => ({
+  getRecapArchive: () => mockArchive,
+}));
+
+vi.mock('@/lib/services/session.service');
+vi.mock('@/lib/services/spotify.service');
+
+describe('POST /api/session/[id]/export', () => {
+  const mockAccessToken = 'mock-access-token';
+  const mockUserId = 'user-123';
+  const params = { params: Promise.resolve({ id: 'session-123' }) };
+
+  const createRequest = (body: unknown) => {
+    return new NextRequest('http://localhost:3000/api/session/session-123/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: 'Test User' },
+      accessToken: mockAccessToken,
+    } as never);
+    vi.mocked(SpotifyService.prototype.createPlaylist).mockResolvedValue({
+      id: 'playlist-1',
+      name: 'Session ABC123',
+      uri: 'spotify:playlist:playlist-1',
+      external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+    });
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await POST(createRequest({}), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 for an unknown track selection', async () => {
+    const response = await POST(createRequest({ tracks: 'everything' }), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('exports played tracks of a live session to the requester\'s account', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(
+      createMockSession({ id: 'session-123', code: 'ABC123', playedTracks: ['a', 'b'] })
+    );
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+    const response = await POST(createRequest({ name: 'Friday night' }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(SpotifyService).toHaveBeenCalledWith(mockAccessToken);
+    expect(SpotifyService.prototype.createPlaylist).toHaveBeenCalledWith('Friday night', expect.objectContaining({ public: false }));
+    expect(SpotifyService.prototype.addTracksToPlaylist).toHaveBeenCalledWith('playlist-1', ['spotify:track:a', 'spotify:track:b']);
+    expect(data).toEqual({
+      playlist: { id: 'playlist-1', name: 'Session ABC123', url: 'https://open.spotify.com/playlist/playlist-1' },
+      trackCount: 2,
+    });
+  });
+
+  it('returns 403 for non-participants', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(createMockSession({ id: 'session-123' }));
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(false);
+
+    const response = await POST(createRequest({}), params);
+
+    expect(response.status).toBe(403);
+    expect(SpotifyService.prototype.createPlaylist).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when there is nothing to export', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(
+      createMockSession({ id: 'session-123', playedTracks: [] })
+    );
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+    const response = await POST(createRequest({}), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('No tracks to export');
+  });
+
+  it('exports an ended session from its recap', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(null);
+    mockArchive.get.mockResolvedValue({
+      sessionId: 'session-123',
+      code: 'ABC123',
+      participants: [{ userId: mockUserId, name: 'Test User', wasHost: false }],
+      plays: [
+        {
+          track: { id: 'a', name: 'A', artists: [], albumName: '', durationMs: 1000, uri: 'spotify:track:a' },
+          playedAt: 1000,
+          addedBy: 'algorithm',
+          likedBy: [mockUserId],
+          skippedBy: [],
+        },
+      ],
+      startedAt: 1000,
+    } as unknown as SessionRecap);
+
+    const response = await POST(createRequest({ tracks: 'liked' }), params);
+
+    expect(response.status).toBe(200);
+    expect(SpotifyService.prototype.addTracksToPlaylist).toHaveBeenCalledWith('playlist-1', ['spotify:track:a']);
+  });
+
+  it('returns 404 when the session and its recap are gone', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(null);
+    mockArchive.get.mockResolvedValue(null);
+
+    const response = await POST(createRequest({}), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('passes Spotify errors through', async () => {
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(
+      createMockSession({ id: 'session-123', playedTracks: ['a'] })
+    );
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(SpotifyService.prototype.createPlaylist).mockRejectedValue({
+      statusCode: 403,
+      body: { error: { status: 403, message: 'Insufficient client scope' } },
+    });
+
+    const response = await POST(createRequest({}), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Insufficient client scope');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getServerSession } from 'next-auth';
+import { createMockSession, createMockParticipant } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+import type { Server as HTTPServer } from 'http';
+import type { Poll } from '@/types';
+
+// server.ts (through tsx) and the route bundles each load their own copy of
+// the modules, so a poll vote cast over the socket must land in the store the
+// poll routes read
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/redis-events', () => ({
+  publishEvent: vi.fn(),
+  subscribeToPattern: vi.fn(),
+}));
+
+const socketServer = vi.hoisted(() => ({
+  onConnection: undefined as ((socket: unknown) => void) | undefined,
+}));
+
+vi.mock('socket.io', () => ({
+  Server: vi.fn(function () {
+    return {
+      use: vi.fn(),
+      on: vi.fn((event: string, handler: (socket: unknown) => void) => {
+        if (event === 'connection') socketServer.onConnection = handler;
+      }),
+      to: vi.fn(() => ({ emit: vi.fn() })),
+    };
+  }),
+}));
+
+describe('poll votes cast over the socket', () => {
+  const globalForSession = globalThis as typeof globalThis & { sessionStore?: unknown };
+  const sessionId = 'session-123';
+  const djId = 'dj-123';
+  const guestId = 'guest-123';
+
+  const poll: Poll = {
+    id: 'poll-1',
+    question: 'More dance or more chill?',
+    options: [
+      { id: 'dance', kind: 'genre', label: 'dance', genre: 'dance' },
+      { id: 'chill', kind: 'genre', label: 'chill', genre: 'chill' },
+    ],
+    votes: [],
+    createdBy: djId,
+    createdAt: 0,
+  };
+
+  const connectSocket = (userId: string) => {
+    const handlers = new Map<string, (...args: unknown[]) => unknown>();
+    socketServer.onConnection!({
+      id: 'socket-1',
+      data: { userId },
+      on: (event: string, handler: (...args: unknown[]) => unknown) => handlers.set(event, handler),
+      join: vi.fn(),
+      leave: vi.fn(),
+    });
+    return handlers;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    delete globalForSession.sessionStore;
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    delete globalForSession.sessionStore;
+    vi.restoreAllMocks();
+  });
+
+  it('counts toward the result the close route declares', async () => {
+    const { initializeSocketIO } = await import('@/lib/websocket/server');
+    initializeSocketIO({} as HTTPServer);
+
+    vi.resetModules();
+    const { POST: ClosePOST } = await import('@/app/api/session/[id]/poll/close/route');
+    const { getStore } = await import('@/lib/session');
+
+    await getStore().set(sessionId, createMockSession({
+      id: sessionId,
+      hostId: djId,
+      djs: [djId],
+      participants: [
+        createMockParticipant({ userId: djId, isHost: true, isDJ: true }),
+        createMockParticipant({ userId: guestId }),
+      ],
+      poll,
+    }));
+
+    const callback = vi.fn();
+    const handlers = connectSocket(guestId);
+    await handlers.get('poll_vote')!({ sessionId, pollId: 'poll-1', optionId: 'chill' }, callback);
+
+    expect(callback).toHaveBeenCalledWith({ success: true });
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: djId, name: 'DJ' },
+      accessToken: 'mock-access-token',
+    } as never);
+    const response = await ClosePOST(
+      new NextRequest(`http://localhost:3000/api/session/${sessionId}/poll/close`, { method: 'POST' }),
+      { params: Promise.resolve({ id: sessionId }) }
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.winner).toMatchObject({ id: 'chill' });
+    expect(data.poll.votes).toEqual([expect.objectContaining({ userId: guestId, optionId: 'chill' })]);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as CreatePOST } from '@/app/api/session/[id]/poll/route';
+import { POST as ClosePOST } from '@/app/api/session/[id]/poll/close/route';
+import { getServerSession } from 'next-auth';
+import { SessionService } from '@/lib/services/session.service';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { createMockSession } from '../../../factories/session.factory';
+import { createMockUpdate } from '../../../mocks/mock-store';
+import { createMockSpotifyTrack } from '../../../factories/spotify.factory';
+import { NextRequest } from 'next/server';
+import type { Poll, Session } from '@/types';
+
+// Mock dependencies
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getStore: vi.fn(() => ({
+    get: vi.fn(),
+    set: vi.fn(),
+    getByCode: vi.fn(),
+  })),
+}));
+
+vi.mock('@/lib/services/session.service');
+vi.mock('@/lib/services/spotify.service');
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+const mockAccessToken = 'mock-access-token';
+const mockUserId = 'user-123';
+const mockSessionId = 'session-123';
+
+const params = { params: Promise.resolve({ id: mockSessionId }) };
+
+const setup = async (overrides?: Partial<Session>) => {
+  const mockSession = createMockSession({
+    id: mockSessionId,
+    djs: [mockUserId],
+    profile: { commonArtists: [], commonGenres: ['house', 'ambient'], tasteProfiles: [] },
+    ...overrides,
+  });
+
+  vi.mocked(getServerSession).mockResolvedValue({
+    user: { id: mockUserId, name: 'Test User' },
+    accessToken: mockAccessToken,
+  } as never);
+
+  const { getStore } = await import('@/lib/session');
+  vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+  vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+  vi.mocked(SessionService.prototype.isDJ).mockReturnValue(true);
+
+  return mockSession;
+};
+
+const createOpenPoll = (overrides?: Partial<Poll>): Poll => ({
+  id: 'poll-1',
+  question: 'More dance or more chill?',
+  options: [
+    { id: 'house', kind: 'genre', label: 'house', genre: 'house' },
+    { id: 'ambient', kind: 'genre', label: 'ambient', genre: 'ambient' },
+  ],
+  votes: [],
+  createdBy: mockUserId,
+  createdAt: Date.now(),
+  ...overrides,
+});
+
+describe('POST /api/session/[id]/poll', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createRequest = (body: unknown) => {
+    return new NextRequest(`http://localhost:3000/api/session/${mockSessionId}/poll`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  const genreOptions = [
+    { kind: 'genre', genre: 'house' },
+    { kind: 'genre', genre: 'ambient' },
+  ];
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await CreatePOST(createRequest({ question: 'What next?', options: genreOptions }), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 with fewer than 2 or more than 4 options', async () => {
+    await setup();
+
+    const tooFew = await CreatePOST(createRequest({ question: 'What next?', options: genreOptions.slice(0, 1) }), params);
+    const tooMany = await CreatePOST(createRequest({
+      question: 'What next?',
+      options: [...genreOptions, ...genreOptions, { kind: 'energy-arc', energyArc: 'flat' }],
+    }), params);
+
+    expect(tooFew.status).toBe(400);
+    expect((await tooFew.json()).error).toBe('Invalid request body');
+    expect(tooMany.status).toBe(400);
+  });
+
+  it('returns 403 when user is not a DJ', async () => {
+    const mockSession = await setup();
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(false);
+
+    const response = await CreatePOST(createRequest({ question: 'What next?', options: genreOptions }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Only DJs can create polls');
+    expect(mockSession.poll).toBeUndefined();
+  });
+
+  it('opens a poll and broadcasts it', async () => {
+    const mockSession = await setup();
+
+    const response = await CreatePOST(createRequest({
+      question: 'More dance or more chill?',
+      options: [...genreOptions, { kind: 'energy-arc', energyArc: 'warm-up' }],
+    }), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.poll).toMatchObject({
+      id: expect.any(String),
+      question: 'More dance or more chill?',
+      options: [
+        { id: expect.any(String), kind: 'genre', label: 'house', genre: 'house' },
+        { id: expect.any(String), kind: 'genre', label: 'ambient', genre: 'ambient' },
+        { id: expect.any(String), kind: 'energy-arc', label: 'Warm-up', energyArc: 'warm-up' },
+      ],
+      votes: [],
+      createdBy: mockUserId,
+    });
+    expect(mockSession.poll).toEqual(data.poll);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'poll_updated', data.poll);
+  });
+
+  it('looks up track options on Spotify', async () => {
+    const mockSession = await setup({ market: 'SE' });
+    const track = createMockSpotifyTrack({
+      id: 'track-1',
+      name: 'Dancing Queen',
+      artists: [{ id: 'abba', name: 'ABBA', uri: 'spotify:artist:abba', external_urls: { spotify: '' } }],
+    });
+    vi.mocked(SpotifyService.prototype.getTracks).mockResolvedValue([track]);
+
+    const response = await CreatePOST(createRequest({
+      question: 'Which one next?',
+      options: [{ kind: 'track', trackId: 'track-1' }, { kind: 'genre', genre: 'house' }],
+    }), params);
+
+    expect(response.status).toBe(200);
+    expect(SpotifyService.prototype.getTracks).toHaveBeenCalledWith(['track-1'], 'SE');
+    expect(mockSession.poll?.options[0]).toMatchObject({ kind: 'track', label: 'Dancing Queen – ABBA', track });
+  });
+
+  it('returns 404 for a track Spotify does not know', async () => {
+    await setup();
+    vi.mocked(SpotifyService.prototype.getTracks).mockResolvedValue([]);
+
+    const response = await CreatePOST(createRequest({
+      question: 'Which one next?',
+      options: [{ kind: 'track', trackId: 'missing' }, { kind: 'genre', genre: 'house' }],
+    }), params);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('Track not found');
+  });
+
+  it('returns 400 for a genre that is not common ground', async () => {
+    const mockSession = await setup();
+
+    const response = await CreatePOST(createRequest({
+      question: 'What next?',
+      options: [{ kind: 'genre', genre: 'polka' }, { kind: 'genre', genre: 'house' }],
+    }), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('"polka" is not one of the session\'s common genres');
+    expect(mockSession.poll).toBeUndefined();
+  });
+
+  it('returns 400 for repeated options', async () => {
+    await setup();
+
+    const response = await CreatePOST(createRequest({
+      question: 'What next?',
+      options: [{ kind: 'genre', genre: 'house' }, { kind: 'genre', genre: 'house' }],
+    }), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Poll options must be different');
+  });
+
+  it('returns 400 while another poll is open', async () => {
+    const openPoll = createOpenPoll();
+    const mockSession = await setup({ poll: openPoll });
+
+    const response = await CreatePOST(createRequest({ question: 'What next?', options: genreOptions }), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('A poll is already open');
+    expect(mockSession.poll).toBe(openPoll);
+  });
+
+  it('replaces a closed poll', async () => {
+    const mockSession = await setup({ poll: createOpenPoll({ closedAt: Date.now() }) });
+
+    const response = await CreatePOST(createRequest({ question: 'What next?', options: genreOptions }), params);
+
+    expect(response.status).toBe(200);
+    expect(mockSession.poll?.id).not.toBe('poll-1');
+  });
+});
+
+describe('POST /api/session/[id]/poll/close', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createRequest = () => {
+    return new NextRequest(`http://localhost:3000/api/session/${mockSessionId}/poll/close`, {
+      method: 'POST',
+    });
+  };
+
+  it('returns 403 when user is not a DJ', async () => {
+    await setup({ poll: createOpenPoll() });
+    vi.mocked(SessionService.prototype.isDJ).mockReturnValue(false);
+
+    const response = await ClosePOST(createRequest(), params);
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe('Only DJs can close polls');
+  });
+
+  it('returns 400 without an open poll', async () => {
+    await setup();
+
+    const response = await ClosePOST(createRequest(), params);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('No poll is open');
+  });
+
+  it('closes the poll and keeps the winner for the next generation', async () => {
+    const mockSession = await setup({
+      poll: createOpenPoll({
+        votes: [
+          { userId: 'guest-1', optionId: 'ambient', timestamp: Date.now() },
+          { userId: 'guest-2', optionId: 'ambient', timestamp: Date.now() },
+          { userId: mockUserId, optionId: 'house', timestamp: Date.now() },
+        ],
+      }),
+    });
+
+    const response = await ClosePOST(createRequest(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.winner).toMatchObject({ id: 'ambient', genre: 'ambient' });
+    expect(mockSession.poll).toMatchObject({ closedAt: expect.any(Number), winnerId: 'ambient' });
+    expect(mockSession.vibeBias).toEqual(data.winner);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'poll_closed', {
+      poll: mockSession.poll,
+      winner: mockSession.vibeBias,
+    });
+  });
+
+  it('closes a poll nobody voted on without a winner', async () => {
+    const mockSession = await setup({ poll: createOpenPoll() });
+
+    const response = await ClosePOST(createRequest(), params);
+    const data = await response.json();
+
+    expect(data.winner).toBeNull();
+    expect(mockSession.vibeBias).toBeUndefined();
+  });
+});
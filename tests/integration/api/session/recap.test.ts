@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/session/[id]/recap/route';
+import { getServerSession } from 'next-auth';
+import { NextRequest } from 'next/server';
+import type { SessionRecap } from '@/types';
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+const mockArchive = vi.hoisted(() => ({
+  save: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@/lib/archive', () => ({
+  getRecapArchive: () => mockArchive,
+}));
+
+describe('GET /api/session/[id]/recap', () => {
+  const recap: SessionRecap = {
+    sessionId: 'session-123',
+    code: 'ABC123',
+    hostId: 'host-123',
+    participants: [
+      { userId: 'host-123', name: 'Host', wasHost: true },
+      { userId: 'user-123', name: 'Guest', wasHost: false },
+    ],
+    plays: [],
+    startedAt: 1000,
+    endedAt: 5000,
+    durationMs: 4000,
+    endReason: 'ended-by-host',
+  };
+
+  const request = () => new NextRequest('http://localhost:3000/api/session/session-123/recap');
+  const params = { params: Promise.resolve({ id: 'session-123' }) };
+
+  const signInAs = (userId: string) => {
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: userId, name: 'Someone' },
+      accessToken: 'mock-access-token',
+    } as never);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 404 when there is no recap', async () => {
+    signInAs('user-123');
+    mockArchive.get.mockResolvedValue(null);
+
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 403 to people who were not in the session', async () => {
+    signInAs('stranger');
+    mockArchive.get.mockResolvedValue(recap);
+
+    const response = await GET(request(), params);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('returns the recap to participants', async () => {
+    signInAs('user-123');
+    mockArchive.get.mockResolvedValue(recap);
+
+    const response = await GET(request(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockArchive.get).toHaveBeenCalledWith('session-123');
+    expect(data.recap).toEqual(recap);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PUT, DELETE } from '@/app/api/session/[id]/seed-playlist/route';
+import { getServerSession } from 'next-auth';
+import { SessionService } from '@/lib/services/session.service';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { createMockSession } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getStore: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+vi.mock('@/lib/queue-background-regen', () => ({
+  triggerBackgroundRegeneration: vi.fn(),
+}));
+
+vi.mock('@/lib/services/session.service');
+
+describe('/api/session/[id]/seed-playlist', () => {
+  const mockAccessToken = 'mock-access-token';
+  const mockUserId = 'user-123';
+  const params = { params: Promise.resolve({ id: 'session-123' }) };
+  const seedPlaylist = {
+    id: '37i9dQZF1DXcBWIGoYBM5M',
+    name: 'Road trip',
+    trackIds: ['a', 'b'],
+    topArtists: [],
+    addedBy: mockUserId,
+    addedAt: Date.now(),
+  };
+
+  const createRequest = (method: string, body?: unknown) => {
+    return new NextRequest('http://localhost:3000/api/session/session-123/seed-playlist', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: 'Test User' },
+      accessToken: mockAccessToken,
+    } as never);
+    vi.mocked(SessionService.prototype.updateSessionProfile).mockResolvedValue(undefined);
+  });
+
+  describe('PUT', () => {
+    it('returns 401 when not authenticated', async () => {
+      vi.mocked(getServerSession).mockResolvedValue(null);
+
+      const response = await PUT(createRequest('PUT', { playlist: seedPlaylist.id }), params);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('returns 400 for a link that is not a playlist', async () => {
+      const response = await PUT(
+        createRequest('PUT', { playlist: 'https://open.spotify.com/track/37i9dQZF1DXcBWIGoYBM5M' }),
+        params
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid playlist link');
+      expect(SessionService.prototype.setSeedPlaylist).not.toHaveBeenCalled();
+    });
+
+    it('seeds the session and shares the queue', async () => {
+      const updated = createMockSession({ id: 'session-123', seedPlaylist });
+      vi.mocked(SessionService.prototype.setSeedPlaylist).mockResolvedValue(updated);
+
+      const response = await PUT(
+        createRequest('PUT', { playlist: `https://open.spotify.com/playlist/${seedPlaylist.id}?si=abc` }),
+        params
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(SessionService.prototype.setSeedPlaylist).toHaveBeenCalledWith('session-123', mockUserId, seedPlaylist.id);
+      expect(data.seedPlaylist).toEqual(seedPlaylist);
+      expect(broadcastToSession).toHaveBeenCalledWith('session-123', 'queue_updated', updated.queue);
+      expect(SessionService.prototype.updateSessionProfile).toHaveBeenCalledWith('session-123');
+    });
+
+    it('returns 403 for non-DJs', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(SessionService.prototype.setSeedPlaylist).mockRejectedValue(
+        new Error('Only DJs can change the seed playlist')
+      );
+
+      const response = await PUT(createRequest('PUT', { playlist: seedPlaylist.id }), params);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('returns 404 when the session does not exist', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(SessionService.prototype.setSeedPlaylist).mockRejectedValue(new Error('Session not found'));
+
+      const response = await PUT(createRequest('PUT', { playlist: seedPlaylist.id }), params);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('passes Spotify errors through', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(SessionService.prototype.setSeedPlaylist).mockRejectedValue({
+        statusCode: 404,
+        body: { error: { status: 404, message: 'Resource not found' } },
+      });
+
+      const response = await PUT(createRequest('PUT', { playlist: seedPlaylist.id }), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Resource not found');
+    });
+  });
+
+  describe('DELETE', () => {
+    it('clears the seed playlist', async () => {
+      vi.mocked(SessionService.prototype.setSeedPlaylist).mockResolvedValue(createMockSession({ id: 'session-123' }));
+
+      const response = await DELETE(createRequest('DELETE'), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(SessionService.prototype.setSeedPlaylist).toHaveBeenCalledWith('session-123', mockUserId, null);
+      expect(data.seedPlaylist).toBeNull();
+    });
+  });
+});
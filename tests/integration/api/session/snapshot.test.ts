@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/session/[id]/snapshot/route';
+import { POST } from '@/app/api/session/import/route';
+import { getServerSession } from 'next-auth';
+import { SessionService } from '@/lib/services/session.service';
+import { createSessionSnapshot } from '@/lib/session/snapshot';
+import { createMockSession } from '../../../factories/session.factory';
+import { NextRequest } from 'next/server';
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getStore: vi.fn(() => ({})),
+}));
+
+vi.mock('@/lib/services/session.service');
+
+describe('session snapshot routes', () => {
+  const mockAccessToken = 'mock-access-token';
+  const mockUserId = 'user-123';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: 'Test User' },
+      accessToken: mockAccessToken,
+    } as never);
+  });
+
+  describe('GET /api/session/[id]/snapshot', () => {
+    const params = { params: Promise.resolve({ id: 'session-123' }) };
+    const request = () => new NextRequest('http://localhost:3000/api/session/session-123/snapshot');
+
+    it('returns 401 when not authenticated', async () => {
+      vi.mocked(getServerSession).mockResolvedValue(null);
+
+      const response = await GET(request(), params);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('downloads the snapshot as a JSON file', async () => {
+      const snapshot = createSessionSnapshot(createMockSession({ id: 'session-123', code: 'ABC123' }), 5000);
+      vi.mocked(SessionService.prototype.exportSession).mockResolvedValue(snapshot);
+
+      const response = await GET(request(), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="session-ABC123.json"');
+      expect(data).toEqual(snapshot);
+      expect(SessionService.prototype.exportSession).toHaveBeenCalledWith('session-123', mockUserId);
+    });
+
+    it('returns 403 for anyone but the host', async () => {
+      vi.mocked(SessionService.prototype.exportSession).mockRejectedValue(
+        new Error('Only the host can export the session')
+      );
+
+      const response = await GET(request(), params);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('returns 404 when the session does not exist', async () => {
+      vi.mocked(SessionService.prototype.exportSession).mockRejectedValue(new Error('Session not found'));
+
+      const response = await GET(request(), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/session/import', () => {
+    const createRequest = (body: unknown) => {
+      return new NextRequest('http://localhost:3000/api/session/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    };
+
+    it('returns 401 when not authenticated', async () => {
+      vi.mocked(getServerSession).mockResolvedValue(null);
+
+      const response = await POST(createRequest({}));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('returns 400 for a file that is not a snapshot', async () => {
+      const response = await POST(createRequest({ hello: 'world' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid session snapshot');
+      expect(data.details).toBeDefined();
+      expect(SessionService.prototype.importSession).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for a snapshot from an unsupported version', async () => {
+      const snapshot = { ...createSessionSnapshot(createMockSession()), version: 2 };
+
+      const response = await POST(createRequest(snapshot));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('recreates the session hosted by the importer', async () => {
+      const snapshot = createSessionSnapshot(createMockSession({ id: 'old-session', code: 'OLD999' }));
+      vi.mocked(SessionService.prototype.importSession).mockResolvedValue(
+        createMockSession({ id: 'new-session', code: 'NEW123', hostId: mockUserId })
+      );
+
+      const response = await POST(createRequest(snapshot));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.session).toMatchObject({ id: 'new-session', code: 'NEW123', hostId: mockUserId });
+      expect(SessionService.prototype.importSession).toHaveBeenCalledWith(snapshot, mockUserId, 'Test User');
+    });
+  });
+});
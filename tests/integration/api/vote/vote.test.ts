@@ -1,10 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { POST as LikePOST } from '@/app/api/vote/like/route';
 import { POST as SkipPOST } from '@/app/api/vote/skip/route';
+import { POST as QueueVotePOST } from '@/app/api/vote/queue/route';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { normalizeQueue } from '@/lib/utils/queue';
 import { getServerSession } from 'next-auth';
 import { SessionService } from '@/lib/services/session.service';
 import { SpotifyService } from '@/lib/services/spotify.service';
 import { createMockSession } from '../../../factories/session.factory';
+import { createMockUpdate } from '../../../mocks/mock-store';
 import { createMockSpotifyTrack } from '../../../factories/spotify.factory';
 import { NextRequest } from 'next/server';
 
@@ -182,6 +186,7 @@ describe('POST /api/vote/like', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -204,6 +209,44 @@ describe('POST /api/vote/like', () => {
     expect(data.likeCount).toBe(1);
   });
 
+  it('records the like in the feedback history', async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+      ],
+      recentPlays: [
+        { trackId: mockTrackId, userIds: [], artistIds: ['artist-1'], durationMs: 200000, playedAt: Date.now() },
+      ],
+      votes: {
+        like: [],
+        skip: [],
+      },
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+    await LikePOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+    expect(mockSession.feedback).toEqual([
+      expect.objectContaining({ kind: 'like', trackId: mockTrackId, artistIds: ['artist-1'], userIds: [mockUserId] }),
+    ]);
+
+    // Unliking takes the like back out of the history
+    await LikePOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+    expect(mockSession.feedback).toEqual([]);
+  });
+
   it('removes like vote when already liked (unlike)', async () => {
     const mockSession = createMockSession({
       id: mockSessionId,
@@ -220,6 +263,7 @@ describe('POST /api/vote/like', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -261,6 +305,7 @@ describe('POST /api/vote/like', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -300,6 +345,7 @@ describe('POST /api/vote/like', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -525,6 +571,9 @@ describe('POST /api/vote/skip', () => {
       },
     });
 
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
     vi.mocked(getServerSession).mockResolvedValue({
       user: { id: mockUserId, name: mockUserName },
       accessToken: mockAccessToken,
@@ -561,6 +610,7 @@ describe('POST /api/vote/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -605,6 +655,7 @@ describe('POST /api/vote/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
       get: vi.fn().mockResolvedValue(mockSession),
     };
@@ -631,6 +682,130 @@ describe('POST /api/vote/skip', () => {
     expect(SpotifyService.prototype.skipToNext).toHaveBeenCalledWith('device-123');
   });
 
+  it('keeps the skip in the feedback history after clearing the votes', async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+      ],
+      settings: {
+        voteToSkip: true,
+        skipThreshold: 2,
+      },
+      recentPlays: [
+        { trackId: mockTrackId, userIds: [], artistIds: ['artist-1'], durationMs: 200000, playedAt: Date.now() },
+      ],
+      votes: {
+        skip: [
+          { userId: 'user-2', trackId: mockTrackId, timestamp: Date.now() },
+        ],
+        like: [],
+      },
+      activeDeviceId: 'device-123',
+    });
+
+    const { getStore } = await import('@/lib/session');
+    const mockStore = {
+      update: createMockUpdate(mockSession),
+      get: vi.fn().mockResolvedValue(mockSession),
+    };
+    vi.mocked(getStore).mockReturnValue(mockStore as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.skipToNext).mockResolvedValue(undefined);
+
+    await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+    expect(mockSession.votes.skip).toEqual([]);
+    expect(mockSession.feedback).toEqual([
+      expect.objectContaining({
+        kind: 'skip',
+        trackId: mockTrackId,
+        artistIds: ['artist-1'],
+        userIds: ['user-2', mockUserId],
+      }),
+    ]);
+  });
+
+  describe('when the skip does not go through', () => {
+    const setupThresholdVote = async () => {
+      const mockSession = createMockSession({
+        id: mockSessionId,
+        participants: [
+          { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+        ],
+        settings: {
+          voteToSkip: true,
+          skipThreshold: 2,
+        },
+        recentPlays: [
+          { trackId: mockTrackId, userIds: [], artistIds: ['artist-1'], durationMs: 200000, playedAt: Date.now() },
+        ],
+        playHistory: [{
+          track: { id: mockTrackId, name: 'Track', artists: [], albumName: '', durationMs: 200000, uri: 'spotify:track:1' },
+          playedAt: Date.now(),
+          addedBy: 'algorithm',
+          likedBy: [],
+          skippedBy: [],
+        }],
+        votes: {
+          skip: [
+            { userId: 'user-2', trackId: mockTrackId, timestamp: Date.now() },
+          ],
+          like: [],
+        },
+        activeDeviceId: 'device-123',
+      });
+
+      const { getStore } = await import('@/lib/session');
+      vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
+      vi.mocked(getServerSession).mockResolvedValue({
+        user: { id: mockUserId, name: mockUserName },
+        accessToken: mockAccessToken,
+      } as never);
+
+      vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+      vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+      return mockSession;
+    };
+
+    it('puts the votes back and takes back the skip when Spotify refuses', async () => {
+      const mockSession = await setupThresholdVote();
+      vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockResolvedValueOnce('owner-token');
+      vi.mocked(SpotifyService.prototype.skipToNext).mockRejectedValueOnce(new Error('No active device found'));
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('No active device found');
+      expect(mockSession.votes.skip.map((v) => v.userId)).toEqual(['user-2', mockUserId]);
+      expect(mockSession.feedback).toEqual([]);
+      expect(mockSession.playHistory?.[0].skippedBy).toEqual([]);
+      expect(broadcastToSession).not.toHaveBeenCalledWith(mockSessionId, 'track_skipped', expect.anything());
+    });
+
+    it('puts the votes back when the playback token cannot be had', async () => {
+      const mockSession = await setupThresholdVote();
+      vi.mocked(SessionService.prototype.getPlaybackAccessToken).mockRejectedValueOnce(new Error('Device owner needs to sign in again'));
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+      expect(response.status).toBe(400);
+      expect(SpotifyService.prototype.skipToNext).not.toHaveBeenCalled();
+      expect(mockSession.votes.skip).toHaveLength(2);
+      expect(mockSession.feedback).toEqual([]);
+    });
+  });
+
   it('skips track immediately when threshold is 1', async () => {
     const mockSession = createMockSession({
       id: mockSessionId,
@@ -650,6 +825,7 @@ describe('POST /api/vote/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
       get: vi.fn().mockResolvedValue(mockSession),
     };
@@ -696,6 +872,7 @@ describe('POST /api/vote/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -719,6 +896,236 @@ describe('POST /api/vote/skip', () => {
     expect(data.threshold).toBe(3);
   });
 
+  it('works out a percentage threshold from the current participants', async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+        { userId: 'user-2', name: 'User 2', isHost: false, isDJ: false, joinedAt: Date.now() },
+        { userId: 'user-3', name: 'User 3', isHost: false, isDJ: false, joinedAt: Date.now() },
+        { userId: 'user-4', name: 'User 4', isHost: false, isDJ: false, joinedAt: Date.now() },
+        { userId: 'user-5', name: 'User 5', isHost: false, isDJ: false, joinedAt: Date.now() },
+      ],
+      settings: {
+        voteToSkip: true,
+        skipThreshold: 1,
+        skipThresholdMode: 'percent-present',
+        skipThresholdPercent: 50,
+      },
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+    const { broadcastToSession } = await import('@/lib/websocket/server');
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+    const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+    const data = await response.json();
+
+    expect(data.skipped).toBe(false);
+    expect(data.voteCount).toBe(1);
+    expect(data.threshold).toBe(3);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'vote_updated', {
+      type: 'skip',
+      count: 1,
+      threshold: 3,
+    });
+  });
+
+  it('weights DJ votes', async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: false, isDJ: true, joinedAt: Date.now() },
+      ],
+      djs: [mockUserId],
+      settings: {
+        voteToSkip: true,
+        skipThreshold: 3,
+        djVoteWeight: 2,
+      },
+      votes: {
+        skip: [
+          { userId: 'user-2', trackId: mockTrackId, timestamp: Date.now() },
+        ],
+        like: [],
+      },
+      activeDeviceId: 'device-123',
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({
+      update: createMockUpdate(mockSession),
+      get: vi.fn().mockResolvedValue(mockSession),
+    } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.skipToNext).mockResolvedValue(undefined);
+
+    const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+    const data = await response.json();
+
+    expect(data.skipped).toBe(true);
+    expect(data.voteCount).toBe(3);
+    expect(data.threshold).toBe(3);
+  });
+
+  it('skips track straight away on a host override', async () => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      hostId: mockUserId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: true, isDJ: true, joinedAt: Date.now() },
+      ],
+      djs: [mockUserId],
+      settings: {
+        voteToSkip: true,
+        skipThreshold: 5,
+        hostSkipOverride: true,
+      },
+      activeDeviceId: 'device-123',
+    });
+
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({
+      update: createMockUpdate(mockSession),
+      get: vi.fn().mockResolvedValue(mockSession),
+    } as never);
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+    vi.mocked(SpotifyService.prototype.skipToNext).mockResolvedValue(undefined);
+
+    const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+    const data = await response.json();
+
+    expect(data.skipped).toBe(true);
+    expect(data.voteCount).toBe(1);
+    expect(data.threshold).toBe(5);
+    expect(SpotifyService.prototype.skipToNext).toHaveBeenCalledWith('device-123');
+  });
+
+  describe('vote windows', () => {
+    const setUp = async (overrides: Parameters<typeof createMockSession>[0]) => {
+      const mockSession = createMockSession({
+        id: mockSessionId,
+        participants: [
+          { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+        ],
+        ...overrides,
+      });
+
+      const { getStore } = await import('@/lib/session');
+      vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+
+      vi.mocked(getServerSession).mockResolvedValue({
+        user: { id: mockUserId, name: mockUserName },
+        accessToken: mockAccessToken,
+      } as never);
+
+      vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+      vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+      return mockSession;
+    };
+
+    it('binds the vote to the current play', async () => {
+      const mockSession = await setUp({
+        settings: { voteToSkip: true, skipThreshold: 2 },
+        currentPlay: { id: 'play-2', trackId: mockTrackId, startedAt: Date.now() - 60000 },
+        votes: {
+          skip: [
+            { userId: 'user-2', trackId: mockTrackId, playId: 'play-1', timestamp: Date.now() - 300000 },
+          ],
+          like: [],
+        },
+      });
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+      const data = await response.json();
+
+      // The vote from the earlier play of the track doesn't count
+      expect(data.skipped).toBe(false);
+      expect(data.voteCount).toBe(1);
+      expect(mockSession.votes.skip).toContainEqual(
+        expect.objectContaining({ userId: mockUserId, playId: 'play-2' })
+      );
+    });
+
+    it('lets the user vote again on a new play of the same track', async () => {
+      await setUp({
+        settings: { voteToSkip: true, skipThreshold: 2 },
+        currentPlay: { id: 'play-2', trackId: mockTrackId, startedAt: Date.now() - 60000 },
+        votes: {
+          skip: [
+            { userId: mockUserId, trackId: mockTrackId, playId: 'play-1', timestamp: Date.now() - 300000 },
+          ],
+          like: [],
+        },
+      });
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+      expect(response.status).toBe(200);
+    });
+
+    it('returns 400 for a track that is not playing', async () => {
+      await setUp({
+        settings: { voteToSkip: true, skipThreshold: 2 },
+        currentPlay: { id: 'play-1', trackId: 'other-track', startedAt: Date.now() - 60000 },
+      });
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Voting is closed for this track');
+    });
+
+    it('returns 400 before the minimum listening time has passed', async () => {
+      const mockSession = await setUp({
+        settings: { voteToSkip: true, skipThreshold: 2, skipVoteDelaySeconds: 30 },
+        currentPlay: { id: 'play-1', trackId: mockTrackId, startedAt: Date.now() - 10000 },
+      });
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Voting on this track hasn't opened yet");
+      expect(mockSession.votes.skip).toEqual([]);
+    });
+
+    it('accepts votes once the minimum listening time has passed', async () => {
+      await setUp({
+        settings: { voteToSkip: true, skipThreshold: 2, skipVoteDelaySeconds: 30 },
+        currentPlay: { id: 'play-1', trackId: mockTrackId, startedAt: Date.now() - 45000 },
+      });
+
+      const response = await SkipPOST(createRequest({ sessionId: mockSessionId, trackId: mockTrackId }));
+
+      expect(response.status).toBe(200);
+    });
+  });
+
   it('handles Spotify API errors when skipping', async () => {
     const mockSession = createMockSession({
       id: mockSessionId,
@@ -737,6 +1144,7 @@ describe('POST /api/vote/skip', () => {
 
     const { getStore } = await import('@/lib/session');
     const mockStore = {
+      update: createMockUpdate(mockSession),
       set: vi.fn(),
     };
     vi.mocked(getStore).mockReturnValue(mockStore as never);
@@ -774,3 +1182,205 @@ describe('POST /api/vote/skip', () => {
     expect(data.error).toBe('Internal server error');
   });
 });
+
+describe('POST /api/vote/queue', () => {
+  const mockAccessToken = 'mock-access-token';
+  const mockUserId = 'user-123';
+  const mockUserName = 'Test User';
+  const mockSessionId = 'session-123';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createRequest = (body: unknown) => {
+    return new NextRequest('http://localhost:3000/api/vote/queue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  };
+
+  const queueOf = (...trackIds: string[]) => normalizeQueue(trackIds.map((id) => ({
+    track: createMockSpotifyTrack({ id }),
+    position: 0,
+    addedBy: 'algorithm',
+    addedAt: Date.now(),
+    isStable: false,
+  })));
+
+  // Session with three stable tracks followed by track-4, track-5 and track-6
+  const setup = (overrides?: Parameters<typeof createMockSession>[0]) => {
+    const mockSession = createMockSession({
+      id: mockSessionId,
+      participants: [
+        { userId: mockUserId, name: mockUserName, isHost: false, isDJ: false, joinedAt: Date.now() },
+      ],
+      queue: queueOf('track-1', 'track-2', 'track-3', 'track-4', 'track-5', 'track-6'),
+      ...overrides,
+    });
+
+    vi.mocked(getServerSession).mockResolvedValue({
+      user: { id: mockUserId, name: mockUserName },
+      accessToken: mockAccessToken,
+    } as never);
+
+    vi.mocked(SessionService.prototype.getSession).mockResolvedValue(mockSession);
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(true);
+
+    return mockSession;
+  };
+
+  const useStore = async (mockSession: ReturnType<typeof createMockSession>) => {
+    const { getStore } = await import('@/lib/session');
+    vi.mocked(getStore).mockReturnValue({ update: createMockUpdate(mockSession) } as never);
+  };
+
+  const trackOrder = (session: ReturnType<typeof createMockSession>) => session.queue.map((item) => item.track.id);
+
+  it('returns 401 when not authenticated', async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-4', type: 'up' }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 for an unknown vote type', async () => {
+    setup();
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-4', type: 'sideways' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid request body');
+  });
+
+  it('returns 403 when user is not a participant', async () => {
+    setup();
+    vi.mocked(SessionService.prototype.isParticipant).mockReturnValue(false);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-4', type: 'up' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe('Not a participant of this session');
+  });
+
+  it('returns 400 for a track that is not in the queue', async () => {
+    await useStore(setup());
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-9', type: 'up' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Track is not in the queue');
+  });
+
+  it('returns 400 for a stable track', async () => {
+    const mockSession = setup();
+    await useStore(mockSession);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-2', type: 'up' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Cannot vote on stable tracks (first 3 in queue)');
+    expect(mockSession.votes.queue).toBeUndefined();
+  });
+
+  it('moves an upvoted track to the front of the upcoming queue', async () => {
+    const mockSession = setup();
+    await useStore(mockSession);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-6', type: 'up' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ success: true, vote: 'up', up: 1, down: 0, net: 1 });
+    expect(trackOrder(mockSession)).toEqual(['track-1', 'track-2', 'track-3', 'track-6', 'track-4', 'track-5']);
+    expect(mockSession.queue.map((item) => item.position)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(mockSession.queue[3].isStable).toBe(false);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'queue_updated', mockSession.queue);
+    expect(broadcastToSession).toHaveBeenCalledWith(mockSessionId, 'queue_votes_updated', [
+      expect.objectContaining({ userId: mockUserId, trackId: 'track-6', type: 'up' }),
+    ]);
+  });
+
+  it('moves a downvoted track to the back of the queue', async () => {
+    const mockSession = setup();
+    await useStore(mockSession);
+
+    await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-4', type: 'down' }));
+
+    expect(trackOrder(mockSession)).toEqual(['track-1', 'track-2', 'track-3', 'track-5', 'track-6', 'track-4']);
+  });
+
+  it('takes the vote back when voting the same way again', async () => {
+    const mockSession = setup({
+      votes: {
+        skip: [],
+        like: [],
+        queue: [{ userId: mockUserId, trackId: 'track-6', type: 'up', timestamp: Date.now() }],
+      },
+    });
+    await useStore(mockSession);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-6', type: 'up' }));
+    const data = await response.json();
+
+    expect(data).toMatchObject({ vote: null, up: 0, down: 0, net: 0 });
+    expect(mockSession.votes.queue).toEqual([]);
+  });
+
+  it('switches the vote when voting the other way', async () => {
+    const mockSession = setup({
+      votes: {
+        skip: [],
+        like: [],
+        queue: [
+          { userId: mockUserId, trackId: 'track-5', type: 'up', timestamp: Date.now() },
+          { userId: 'user-456', trackId: 'track-5', type: 'up', timestamp: Date.now() },
+        ],
+      },
+    });
+    await useStore(mockSession);
+
+    const response = await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-5', type: 'down' }));
+    const data = await response.json();
+
+    expect(data).toMatchObject({ vote: 'down', up: 1, down: 1, net: 0 });
+  });
+
+  it('drops votes on tracks that have left the queue', async () => {
+    const mockSession = setup({
+      votes: {
+        skip: [],
+        like: [],
+        queue: [{ userId: 'user-456', trackId: 'played-track', type: 'up', timestamp: Date.now() }],
+      },
+    });
+    await useStore(mockSession);
+
+    await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-4', type: 'up' }));
+
+    expect(mockSession.votes.queue?.map((vote) => vote.trackId)).toEqual(['track-4']);
+  });
+
+  it('blends votes with the algorithm score when the host asks for it', async () => {
+    const queue = queueOf('track-1', 'track-2', 'track-3', 'track-4', 'track-5');
+    queue[3].score = 0.9;
+    queue[4].score = 0.1;
+
+    const mockSession = setup({
+      queue,
+      settings: { voteToSkip: true, skipThreshold: 2, queueVoteScoreWeight: 2 },
+    });
+    await useStore(mockSession);
+
+    // One vote is not enough to beat a 0.8 score lead worth 1.6 votes
+    await QueueVotePOST(createRequest({ sessionId: mockSessionId, trackId: 'track-5', type: 'up' }));
+
+    expect(trackOrder(mockSession)).toEqual(['track-1', 'track-2', 'track-3', 'track-4', 'track-5']);
+  });
+});
@@ -1,11 +1,13 @@
 import type { Session } from '@/types/session';
-import type { SessionStore } from '@/lib/session/store.interface';
+import type { SessionStore, SessionMutator } from '@/lib/session/store.interface';
+import { vi } from 'vitest';
 
 /**
  * In-memory session store for testing
  */
 export class MockSessionStore implements SessionStore {
   private sessions: Map<string, Session> = new Map();
+  private userTokens: Map<string, string> = new Map();
 
   async get(sessionId: string): Promise<Session | null> {
     return this.sessions.get(sessionId) || null;
@@ -15,6 +17,17 @@ export class MockSessionStore implements SessionStore {
     this.sessions.set(sessionId, session);
   }
 
+  async update(sessionId: string, mutator: SessionMutator): Promise<Session | null> {
+    const current = this.sessions.get(sessionId);
+    if (!current) return null;
+
+    const draft = structuredClone(current);
+    mutator(draft);
+    draft.version = (current.version ?? 0) + 1;
+    this.sessions.set(sessionId, draft);
+    return draft;
+  }
+
   async delete(sessionId: string): Promise<void> {
     this.sessions.delete(sessionId);
   }
@@ -51,12 +64,36 @@ export class MockSessionStore implements SessionStore {
     return sessions;
   }
 
+  async getUserTokens(userId: string): Promise<string | null> {
+    return this.userTokens.get(userId) || null;
+  }
+
+  async setUserTokens(userId: string, encrypted: string): Promise<void> {
+    this.userTokens.set(userId, encrypted);
+  }
+
+  async deleteUserTokens(userId: string): Promise<void> {
+    this.userTokens.delete(userId);
+  }
+
   // Test helpers
   clear(): void {
     this.sessions.clear();
+    this.userTokens.clear();
   }
 
   size(): number {
     return this.sessions.size;
   }
 }
+
+/**
+ * Creates a mock `update` that applies the mutator to the given session in place,
+ * for route tests that stub the store with plain objects
+ */
+export function createMockUpdate(session: Session) {
+  return vi.fn(async (_sessionId: string, mutator: SessionMutator) => {
+    mutator(session);
+    return session;
+  });
+}
@@ -4,8 +4,11 @@ import {
   calculateFeatureDistance,
   matchesProfile,
   blendFeatures,
+  calculateFeatureSimilarity,
+  buildSessionFeatureTarget,
 } from '@/lib/algorithm/audio-features';
-import type { AudioFeatures } from '@/types';
+import type { AudioFeatures, TasteProfile } from '@/types';
+import fixtureFeatures from '../../fixtures/audio-features.json';
 
 describe('Audio Features Algorithm', () => {
   const createMockFeatures = (overrides?: Partial<AudioFeatures>): AudioFeatures => ({
@@ -409,4 +412,72 @@ describe('Audio Features Algorithm', () => {
       expect(blended.danceability).toBe(0.5);
     });
   });
+
+  describe('calculateFeatureSimilarity', () => {
+    it('returns 1 for identical features', () => {
+      const features = createMockFeatures();
+      expect(calculateFeatureSimilarity(features, features)).toBe(1);
+    });
+
+    it('is higher for closer features', () => {
+      const target = createMockFeatures({ energy: 0.8 });
+      const close = createMockFeatures({ energy: 0.7 });
+      const far = createMockFeatures({ energy: 0.1 });
+
+      expect(calculateFeatureSimilarity(close, target)).toBeGreaterThan(
+        calculateFeatureSimilarity(far, target)
+      );
+    });
+
+    it('stays within 0 and 1 for out-of-range values', () => {
+      const a = createMockFeatures({ tempo: 300, loudness: 10 });
+      const b = createMockFeatures({ tempo: 20, loudness: -80 });
+
+      const similarity = calculateFeatureSimilarity(a, b);
+      expect(similarity).toBeGreaterThanOrEqual(0);
+      expect(similarity).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe('buildSessionFeatureTarget', () => {
+    const features = new Map((fixtureFeatures as AudioFeatures[]).map((f) => [f.id, f]));
+
+    const createProfile = (userId: string, topTracks: string[]): TasteProfile => ({
+      userId,
+      topTracks,
+      topArtists: [],
+      topGenres: [],
+      lastUpdated: Date.now(),
+    });
+
+    it('returns null when no top track features are known', () => {
+      const target = buildSessionFeatureTarget([createProfile('user-1', ['unknown'])], features);
+      expect(target).toBeNull();
+    });
+
+    it('weights participants equally regardless of how many tracks they have', () => {
+      const target = buildSessionFeatureTarget(
+        [
+          createProfile('user-1', ['upbeat-top-1', 'upbeat-top-2']),
+          createProfile('user-2', ['chill-top-1']),
+        ],
+        features
+      );
+
+      const upbeatAverage = (0.88 + 0.91) / 2;
+      expect(target?.energy).toBeCloseTo((upbeatAverage + 0.28) / 2, 5);
+    });
+
+    it('ignores participants without known features', () => {
+      const target = buildSessionFeatureTarget(
+        [
+          createProfile('user-1', ['chill-top-1', 'chill-top-2']),
+          createProfile('user-2', ['unknown']),
+        ],
+        features
+      );
+
+      expect(target?.energy).toBeCloseTo(0.25, 5);
+    });
+  });
 });
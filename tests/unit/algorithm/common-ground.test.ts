@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateGenreSimilarity,
+  findQuorumArtists,
+  findQuorumGenres,
+  getRequiredSupport,
+} from '@/lib/algorithm/common-ground';
+import { createMockSpotifyArtist } from '../../factories/spotify.factory';
+import type { TasteProfile } from '@/types';
+
+describe('Common Ground Algorithm', () => {
+  const artist = (id: string) => createMockSpotifyArtist({ id, name: id });
+
+  const createProfile = (userId: string, artistIds: string[], genres: string[] = []): TasteProfile => ({
+    userId,
+    topTracks: [],
+    topArtists: artistIds.map(artist),
+    topGenres: genres,
+    lastUpdated: Date.now(),
+  });
+
+  describe('getRequiredSupport', () => {
+    it('needs everyone in a session of one', () => {
+      expect(getRequiredSupport(1, 0.5)).toBe(1);
+    });
+
+    it('needs at least two participants otherwise', () => {
+      expect(getRequiredSupport(2, 0.5)).toBe(2);
+      expect(getRequiredSupport(3, 0.1)).toBe(2);
+    });
+
+    it('rounds the quorum up', () => {
+      expect(getRequiredSupport(5, 0.5)).toBe(3);
+      expect(getRequiredSupport(4, 0.75)).toBe(3);
+    });
+  });
+
+  describe('findQuorumArtists', () => {
+    it('returns every top artist for one participant', () => {
+      const profile = createProfile('user-1', ['artist-1', 'artist-2']);
+
+      expect(findQuorumArtists([profile], 0.5)).toHaveLength(2);
+    });
+
+    it('keeps artists enough participants listed, most shared first', () => {
+      const profiles = [
+        createProfile('user-1', ['artist-1', 'artist-2']),
+        createProfile('user-2', ['artist-2', 'artist-3']),
+        createProfile('user-3', ['artist-2', 'artist-1']),
+        createProfile('user-4', ['artist-4']),
+      ];
+
+      expect(findQuorumArtists(profiles, 0.5).map((a) => a.id)).toEqual(['artist-2', 'artist-1']);
+    });
+
+    it('gives half support for artists related to a favourite', () => {
+      const profiles = [
+        createProfile('user-1', ['artist-1']),
+        createProfile('user-2', ['artist-2']),
+        createProfile('user-3', ['artist-3']),
+      ];
+      const related = new Map([
+        ['artist-2', [artist('artist-1')]],
+        ['artist-3', [artist('artist-1')]],
+      ]);
+
+      // 1 + 0.5 + 0.5 meets the two participants needed
+      expect(findQuorumArtists(profiles, 0.5, related).map((a) => a.id)).toEqual(['artist-1']);
+    });
+
+    it('does not let related artists alone reach a small quorum', () => {
+      const profiles = [
+        createProfile('user-1', ['artist-1']),
+        createProfile('user-2', ['artist-2']),
+      ];
+      const related = new Map([
+        ['artist-1', [artist('artist-9')]],
+        ['artist-2', [artist('artist-9')]],
+      ]);
+
+      expect(findQuorumArtists(profiles, 0.5, related)).toEqual([]);
+    });
+  });
+
+  describe('calculateGenreSimilarity', () => {
+    it('scores identical genres 1', () => {
+      expect(calculateGenreSimilarity('indie rock', 'indie rock')).toBe(1);
+    });
+
+    it('scores shared words', () => {
+      expect(calculateGenreSimilarity('indie rock', 'modern indie rock')).toBeCloseTo(2 / 3);
+    });
+
+    it('scores unrelated genres 0', () => {
+      expect(calculateGenreSimilarity('jazz', 'death metal')).toBe(0);
+    });
+  });
+
+  describe('findQuorumGenres', () => {
+    it('treats similar genre names as overlap', () => {
+      const profiles = [
+        createProfile('user-1', [], ['indie rock']),
+        createProfile('user-2', [], ['modern indie rock']),
+      ];
+
+      // 1 + 2/3 falls short of two; the same genres with a third fan reach it
+      expect(findQuorumGenres(profiles, 0.5)).toEqual([]);
+
+      const withThird = [...profiles, createProfile('user-3', [], ['indie rock'])];
+      expect(findQuorumGenres(withThird, 0.5)).toEqual(['indie rock', 'modern indie rock']);
+    });
+
+    it('ignores genres that only share a minor word', () => {
+      const profiles = [
+        createProfile('user-1', [], ['deep house']),
+        createProfile('user-2', [], ['deep soul blues']),
+      ];
+
+      expect(findQuorumGenres(profiles, 0.5)).toEqual([]);
+    });
+  });
+});
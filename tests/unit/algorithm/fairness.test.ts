@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAirtimeShares, calculateFairnessBoost } from '@/lib/algorithm/fairness';
+import type { PlayedItem } from '@/types';
+
+describe('Fairness Algorithm', () => {
+  const createPlay = (userIds: string[], durationMs = 200000): PlayedItem => ({
+    trackId: `track-${Math.random()}`,
+    userIds,
+    durationMs,
+    playedAt: Date.now(),
+  });
+
+  describe('calculateAirtimeShares', () => {
+    it('returns an empty map without credited plays', () => {
+      expect(calculateAirtimeShares([], ['user-1', 'user-2']).size).toBe(0);
+      expect(calculateAirtimeShares([createPlay([])], ['user-1']).size).toBe(0);
+    });
+
+    it('weights shares by track duration', () => {
+      const shares = calculateAirtimeShares(
+        [createPlay(['user-1'], 300000), createPlay(['user-2'], 100000)],
+        ['user-1', 'user-2']
+      );
+
+      expect(shares.get('user-1')).toBeCloseTo(0.75);
+      expect(shares.get('user-2')).toBeCloseTo(0.25);
+    });
+
+    it('splits a track credited to several participants', () => {
+      const shares = calculateAirtimeShares(
+        [createPlay(['user-1', 'user-2']), createPlay(['user-1'])],
+        ['user-1', 'user-2']
+      );
+
+      expect(shares.get('user-1')).toBeCloseTo(0.75);
+      expect(shares.get('user-2')).toBeCloseTo(0.25);
+    });
+
+    it('gives participants without airtime a zero share', () => {
+      const shares = calculateAirtimeShares([createPlay(['user-1'])], ['user-1', 'user-2']);
+
+      expect(shares.get('user-2')).toBe(0);
+    });
+
+    it('ignores credit for people who have left', () => {
+      const shares = calculateAirtimeShares(
+        [createPlay(['user-1']), createPlay(['departed'])],
+        ['user-1', 'user-2']
+      );
+
+      expect(shares.get('user-1')).toBe(1);
+      expect(shares.has('departed')).toBe(false);
+    });
+  });
+
+  describe('calculateFairnessBoost', () => {
+    const shares = new Map([
+      ['user-1', 0.8],
+      ['user-2', 0.2],
+      ['user-3', 0],
+    ]);
+
+    it('is highest for participants with no airtime', () => {
+      expect(calculateFairnessBoost(['user-3'], shares)).toBe(1);
+    });
+
+    it('is partial for under-served participants', () => {
+      expect(calculateFairnessBoost(['user-2'], shares)).toBeCloseTo(0.4);
+    });
+
+    it('is zero for over-served participants', () => {
+      expect(calculateFairnessBoost(['user-1'], shares)).toBe(0);
+    });
+
+    it('uses the most under-served matched participant', () => {
+      expect(calculateFairnessBoost(['user-1', 'user-3'], shares)).toBe(1);
+    });
+
+    it('does not apply to solo sessions', () => {
+      expect(calculateFairnessBoost(['user-1'], new Map([['user-1', 0]]))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildFeedbackWeights, calculateFeedbackScore } from '@/lib/algorithm/feedback';
+import type { FeedbackEntry } from '@/types';
+
+describe('Feedback Algorithm', () => {
+  const now = 10 * 60 * 60 * 1000;
+  const hour = 60 * 60 * 1000;
+
+  const createEntry = (overrides?: Partial<FeedbackEntry>): FeedbackEntry => ({
+    kind: 'like',
+    trackId: 'track-1',
+    artistIds: ['artist-1'],
+    genres: ['indie'],
+    userIds: ['user-1'],
+    timestamp: now,
+    ...overrides,
+  });
+
+  describe('buildFeedbackWeights', () => {
+    it('returns empty weights without feedback', () => {
+      const weights = buildFeedbackWeights([], now);
+
+      expect(weights.artists.size).toBe(0);
+      expect(weights.genres.size).toBe(0);
+    });
+
+    it('weights likes positively and skips negatively', () => {
+      const weights = buildFeedbackWeights([
+        createEntry(),
+        createEntry({ kind: 'skip', artistIds: ['artist-2'], genres: ['metal'] }),
+      ], now);
+
+      expect(weights.artists.get('artist-1')).toBe(1);
+      expect(weights.artists.get('artist-2')).toBe(-1);
+      expect(weights.genres.get('indie')).toBe(1);
+      expect(weights.genres.get('metal')).toBe(-1);
+    });
+
+    it('halves the influence of feedback every hour', () => {
+      const weights = buildFeedbackWeights([createEntry({ timestamp: now - 2 * hour })], now);
+
+      expect(weights.artists.get('artist-1')).toBeCloseTo(0.25);
+    });
+
+    it('lets recent skips outweigh old likes', () => {
+      const weights = buildFeedbackWeights([
+        createEntry({ timestamp: now - 3 * hour }),
+        createEntry({ kind: 'skip', timestamp: now }),
+      ], now);
+
+      expect(weights.artists.get('artist-1')).toBeLessThan(0);
+    });
+
+    it('clamps repeated feedback to the range', () => {
+      const weights = buildFeedbackWeights([createEntry(), createEntry(), createEntry()], now);
+
+      expect(weights.artists.get('artist-1')).toBe(1);
+    });
+  });
+
+  describe('calculateFeedbackScore', () => {
+    const weights = {
+      artists: new Map([['artist-1', 1], ['artist-2', -0.5]]),
+      genres: new Map([['indie', 1], ['metal', -1]]),
+    };
+
+    it('returns 0 for unknown artists and genres', () => {
+      expect(calculateFeedbackScore(['artist-9'], ['polka'], weights)).toBe(0);
+    });
+
+    it('uses the strongest artist signal', () => {
+      expect(calculateFeedbackScore(['artist-2', 'artist-1'], [], weights)).toBeCloseTo(0.7);
+    });
+
+    it('averages the genre signals', () => {
+      expect(calculateFeedbackScore([], ['indie', 'metal'], weights)).toBeCloseTo(0);
+      expect(calculateFeedbackScore([], ['metal'], weights)).toBeCloseTo(-0.3);
+    });
+  });
+});
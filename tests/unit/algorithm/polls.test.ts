@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { tallyPollVotes, pickPollWinner } from '@/lib/algorithm/polls';
+import type { Poll, PollVote } from '@/types';
+
+describe('Poll Algorithm', () => {
+  const vote = (userId: string, optionId: string): PollVote => ({ userId, optionId, timestamp: 0 });
+
+  const createPoll = (votes: PollVote[]): Poll => ({
+    id: 'poll-1',
+    question: 'More dance or more chill?',
+    options: [
+      { id: 'dance', kind: 'genre', label: 'dance', genre: 'dance' },
+      { id: 'chill', kind: 'genre', label: 'chill', genre: 'chill' },
+      { id: 'warm-up', kind: 'energy-arc', label: 'Warm-up', energyArc: 'warm-up' },
+    ],
+    votes,
+    createdBy: 'dj-1',
+    createdAt: 0,
+  });
+
+  describe('tallyPollVotes', () => {
+    it('counts votes per option, including options nobody picked', () => {
+      const tallies = tallyPollVotes(createPoll([
+        vote('user-1', 'chill'),
+        vote('user-2', 'chill'),
+        vote('user-3', 'dance'),
+      ]));
+
+      expect(Object.fromEntries(tallies)).toEqual({ dance: 1, chill: 2, 'warm-up': 0 });
+    });
+
+    it('ignores votes for options that are not on the poll', () => {
+      const tallies = tallyPollVotes(createPoll([vote('user-1', 'gone')]));
+
+      expect(tallies.has('gone')).toBe(false);
+    });
+  });
+
+  describe('pickPollWinner', () => {
+    it('picks the option with the most votes', () => {
+      const winner = pickPollWinner(createPoll([
+        vote('user-1', 'warm-up'),
+        vote('user-2', 'warm-up'),
+        vote('user-3', 'dance'),
+      ]));
+
+      expect(winner?.id).toBe('warm-up');
+    });
+
+    it('breaks ties in favour of the option listed first', () => {
+      const winner = pickPollWinner(createPoll([vote('user-1', 'chill'), vote('user-2', 'dance')]));
+
+      expect(winner?.id).toBe('dance');
+    });
+
+    it('has no winner without votes', () => {
+      expect(pickPollWinner(createPoll([]))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { tallyQueueVotes, rankQueueByVotes } from '@/lib/algorithm/queue-votes';
+import { normalizeQueue } from '@/lib/utils/queue';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { QueueItem, QueueVote, QueueVoteType } from '@/types';
+
+describe('Queue Votes Algorithm', () => {
+  const item = (id: string, score?: number): QueueItem => ({
+    track: createMockSpotifyTrack({ id }),
+    position: 0,
+    addedBy: 'algorithm',
+    addedAt: 0,
+    isStable: false,
+    score,
+  });
+
+  const vote = (userId: string, trackId: string, type: QueueVoteType): QueueVote => ({
+    userId,
+    trackId,
+    type,
+    timestamp: 0,
+  });
+
+  const order = (queue: QueueItem[]) => queue.map((q) => q.track.id);
+
+  describe('tallyQueueVotes', () => {
+    it('counts up and down votes per track', () => {
+      const tallies = tallyQueueVotes([
+        vote('user-1', 'track-1', 'up'),
+        vote('user-2', 'track-1', 'up'),
+        vote('user-3', 'track-1', 'down'),
+        vote('user-1', 'track-2', 'down'),
+      ]);
+
+      expect(tallies.get('track-1')).toEqual({ up: 2, down: 1, net: 1 });
+      expect(tallies.get('track-2')).toEqual({ up: 0, down: 1, net: -1 });
+      expect(tallies.has('track-3')).toBe(false);
+    });
+  });
+
+  describe('rankQueueByVotes', () => {
+    const queue = normalizeQueue(['s-1', 's-2', 's-3', 'track-1', 'track-2', 'track-3'].map((id) => item(id)));
+
+    it('keeps the order without votes', () => {
+      expect(order(rankQueueByVotes(queue, []))).toEqual(order(queue));
+    });
+
+    it('ranks upcoming tracks by net votes', () => {
+      const ranked = rankQueueByVotes(queue, [
+        vote('user-1', 'track-3', 'up'),
+        vote('user-2', 'track-3', 'up'),
+        vote('user-1', 'track-2', 'up'),
+        vote('user-1', 'track-1', 'down'),
+      ]);
+
+      expect(order(ranked)).toEqual(['s-1', 's-2', 's-3', 'track-3', 'track-2', 'track-1']);
+    });
+
+    it('never moves stable tracks', () => {
+      const ranked = rankQueueByVotes(queue, [
+        vote('user-1', 's-1', 'down'),
+        vote('user-1', 'track-3', 'up'),
+      ]);
+
+      expect(order(ranked).slice(0, 3)).toEqual(['s-1', 's-2', 's-3']);
+    });
+
+    it('ignores the algorithm score by default', () => {
+      const scored = normalizeQueue([item('s-1'), item('s-2'), item('s-3'), item('track-1', 0.1), item('track-2', 0.9)]);
+
+      expect(order(rankQueueByVotes(scored, []))).toEqual(['s-1', 's-2', 's-3', 'track-1', 'track-2']);
+    });
+
+    it('blends in the algorithm score by its weight', () => {
+      const scored = normalizeQueue([item('s-1'), item('s-2'), item('s-3'), item('track-1', 0.1), item('track-2', 0.9)]);
+      const votes = [vote('user-1', 'track-1', 'up')];
+
+      expect(order(rankQueueByVotes(scored, [], 1)).slice(3)).toEqual(['track-2', 'track-1']);
+      expect(order(rankQueueByVotes(scored, votes, 1)).slice(3)).toEqual(['track-1', 'track-2']);
+      expect(order(rankQueueByVotes(scored, votes, 2)).slice(3)).toEqual(['track-2', 'track-1']);
+    });
+
+    it('gives tracks added by hand the average score', () => {
+      const scored = normalizeQueue([item('s-1'), item('s-2'), item('s-3'), item('track-1', 0.2), item('hand-picked'), item('track-2', 0.6)]);
+
+      expect(order(rankQueueByVotes(scored, [], 1)).slice(3)).toEqual(['track-2', 'hand-picked', 'track-1']);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { scoreTracks, sortByScore } from '@/lib/algorithm/scoring';
-import { createMockSpotifyTrack } from '../../factories/spotify.factory';
-import type { Track, TasteProfile, LikeVote } from '@/types';
+import { createMockSpotifyTrack, createMockSpotifyArtist } from '../../factories/spotify.factory';
+import type { Track, TasteProfile, LikeVote, AudioFeatures } from '@/types';
+import fixtureFeatures from '../../fixtures/audio-features.json';
 
 describe('Scoring Algorithm', () => {
   const createMockTasteProfile = (overrides?: Partial<TasteProfile>): TasteProfile => ({
@@ -286,6 +287,127 @@ describe('Scoring Algorithm', () => {
     });
   });
 
+  describe('scoreTracks with audio features', () => {
+    const features = new Map((fixtureFeatures as AudioFeatures[]).map((f) => [f.id, f]));
+    const target = features.get('upbeat-top-1')!;
+
+    it('scores tracks closer to the session sound higher', () => {
+      const upbeat = createMockSpotifyTrack({ id: 'upbeat-candidate' });
+      const chill = createMockSpotifyTrack({ id: 'chill-candidate' });
+
+      const scored = scoreTracks([upbeat, chill], [], [], [], [], { audio: { target, features, weight: 0.2 } });
+
+      expect(scored[0].score).toBeGreaterThan(scored[1].score);
+    });
+
+    it('exposes the audio match and its weight in reasons', () => {
+      const track = createMockSpotifyTrack({ id: 'upbeat-candidate' });
+
+      const scored = scoreTracks([track], [], [], [], [], { audio: { target, features, weight: 0.25 } });
+
+      expect(scored[0].reasons.some((r) => /^Audio match: \d+% \(weight 25%\)$/.test(r))).toBe(true);
+    });
+
+    it('skips the audio component for tracks without features', () => {
+      const track = createMockSpotifyTrack({ id: 'no-features' });
+
+      const withAudio = scoreTracks([track], [], [], [], [], { audio: { target, features, weight: 0.2 } });
+      const withoutAudio = scoreTracks([track], [], [], [], []);
+
+      expect(withAudio[0].score).toBe(withoutAudio[0].score);
+      expect(withAudio[0].reasons.some((r) => r.includes('Audio match'))).toBe(false);
+    });
+  });
+
+  describe('scoreTracks fairness', () => {
+    const artist = (id: string) => createMockSpotifyArtist({ id, name: id });
+
+    const profiles: TasteProfile[] = [
+      createMockTasteProfile({ userId: 'user-1', topArtists: [{ ...artist('artist-1'), genres: [] }] }),
+      createMockTasteProfile({ userId: 'user-2', topArtists: [{ ...artist('artist-2'), genres: [] }] }),
+    ];
+
+    it('reports which participants a track matched', () => {
+      const track = createMockSpotifyTrack({ id: 'track-1', artists: [artist('artist-2')] });
+
+      const scored = scoreTracks([track], profiles, [], [], []);
+
+      expect(scored[0].matchedUserIds).toEqual(['user-2']);
+    });
+
+    it('boosts tracks for participants short of airtime', () => {
+      const forUser1 = createMockSpotifyTrack({ id: 'track-1', artists: [artist('artist-1')] });
+      const forUser2 = createMockSpotifyTrack({ id: 'track-2', artists: [artist('artist-2')] });
+      const airtimeShares = new Map([['user-1', 1], ['user-2', 0]]);
+
+      const scored = scoreTracks([forUser1, forUser2], profiles, [], [], [], { airtimeShares });
+
+      expect(scored[1].score).toBeGreaterThan(scored[0].score);
+      expect(scored[1].reasons).toContain('Fairness boost: +15%');
+      expect(scored[0].reasons.some((r) => r.includes('Fairness'))).toBe(false);
+    });
+  });
+
+  describe('scoreTracks feedback history', () => {
+    const artist = (id: string) => createMockSpotifyArtist({ id, name: id });
+
+    it('boosts liked artists and penalises skipped ones', () => {
+      const liked = createMockSpotifyTrack({ id: 'track-1', artists: [artist('artist-1')] });
+      const skipped = createMockSpotifyTrack({ id: 'track-2', artists: [artist('artist-2')] });
+      const neutral = createMockSpotifyTrack({ id: 'track-3', artists: [artist('artist-3')] });
+      const feedback = {
+        artists: new Map([['artist-1', 1], ['artist-2', -1]]),
+        genres: new Map<string, number>(),
+      };
+
+      const scored = scoreTracks([liked, skipped, neutral], [], [], [], [], { feedback });
+
+      expect(scored[0].score).toBeGreaterThan(scored[2].score);
+      expect(scored[1].score).toBeLessThan(scored[2].score);
+      expect(scored[0].reasons).toContain('Feedback history: +14%');
+      expect(scored[1].reasons).toContain('Feedback history: -14%');
+      expect(scored[2].reasons.some((r) => r.includes('Feedback'))).toBe(false);
+    });
+
+    it('uses genres known from the taste profiles', () => {
+      const profiles = [
+        createMockTasteProfile({ topArtists: [{ ...artist('artist-1'), genres: ['shoegaze'] }] }),
+      ];
+      const track = createMockSpotifyTrack({ id: 'track-1', artists: [artist('artist-1')] });
+      const feedback = {
+        artists: new Map<string, number>(),
+        genres: new Map([['shoegaze', -1]]),
+      };
+
+      const scored = scoreTracks([track], profiles, [], [], [], { feedback });
+
+      expect(scored[0].reasons).toContain('Feedback history: -6%');
+    });
+  });
+
+  describe('scoreTracks voted vibe', () => {
+    const artist = (id: string) => createMockSpotifyArtist({ id, name: id });
+
+    it('boosts tracks in the genre the room voted for', () => {
+      const profiles = [
+        createMockTasteProfile({
+          topArtists: [
+            { ...artist('artist-1'), genres: ['house'] },
+            { ...artist('artist-2'), genres: ['ambient'] },
+          ],
+        }),
+      ];
+      const house = createMockSpotifyTrack({ id: 'track-1', artists: [artist('artist-1')] });
+      const ambient = createMockSpotifyTrack({ id: 'track-2', artists: [artist('artist-2')] });
+
+      const scored = scoreTracks([house, ambient], profiles, [], [], [], { vibeGenre: 'house' });
+
+      expect(scored[0].score).toBeGreaterThan(scored[1].score);
+      expect(scored[0].reasons).toContain('Voted vibe: +30%');
+      expect(scored[1].reasons.some((r) => r.includes('Voted vibe'))).toBe(false);
+    });
+  });
+
   describe('sortByScore', () => {
     it('sorts tracks in descending order by score', () => {
       const tracks: Array<{ track: Track; score: number; reasons: string[] }> = [
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { sequenceTracks, buildEnergyCurve } from '@/lib/algorithm/sequencing';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { AudioFeatures } from '@/types';
+
+describe('Sequencing Algorithm', () => {
+  const createFeatures = (id: string, energy: number, overrides?: Partial<AudioFeatures>): AudioFeatures => ({
+    id,
+    danceability: 0.6,
+    energy,
+    valence: 0.5,
+    tempo: 90 + energy * 60, // Tempo follows energy
+    acousticness: 0.3,
+    instrumentalness: 0.1,
+    speechiness: 0.05,
+    loudness: -12 + energy * 8,
+    key: 0,
+    mode: 1,
+    time_signature: 4,
+    ...overrides,
+  });
+
+  const energies = [0.9, 0.2, 0.6, 0.4, 0.8];
+  const tracks = energies.map((_, i) => createMockSpotifyTrack({ id: `track-${i}` }));
+  const features = new Map(energies.map((energy, i) => [`track-${i}`, createFeatures(`track-${i}`, energy)]));
+
+  const energyOrder = (sequenced: typeof tracks) =>
+    sequenced.map((t) => features.get(t.id)!.energy);
+
+  describe('buildEnergyCurve', () => {
+    it('holds the middle of the range for flat', () => {
+      expect(buildEnergyCurve('flat', 3, 0.2, 0.8).every((e) => Math.abs(e - 0.5) < 1e-9)).toBe(true);
+    });
+
+    it('rises from min to max for warm-up', () => {
+      const curve = buildEnergyCurve('warm-up', 5, 0.2, 0.8);
+      expect(curve[0]).toBeCloseTo(0.2);
+      expect(curve[4]).toBeCloseTo(0.8);
+      expect(curve).toEqual([...curve].sort((a, b) => a - b));
+    });
+
+    it('peaks late and cools down for peak-and-cooldown', () => {
+      const curve = buildEnergyCurve('peak-and-cooldown', 11, 0, 1);
+      const peakIndex = curve.indexOf(Math.max(...curve));
+
+      expect(peakIndex).toBe(7);
+      expect(curve[0]).toBeCloseTo(0);
+      expect(curve[10]).toBeCloseTo(0);
+    });
+  });
+
+  describe('sequenceTracks', () => {
+    it('orders tracks by rising energy for warm-up', () => {
+      const sequenced = sequenceTracks(tracks, features, 'warm-up');
+      expect(energyOrder(sequenced)).toEqual([0.2, 0.4, 0.6, 0.8, 0.9]);
+    });
+
+    it('builds up then winds down for peak-and-cooldown', () => {
+      const sequenced = energyOrder(sequenceTracks(tracks, features, 'peak-and-cooldown'));
+      const peakIndex = sequenced.indexOf(0.9);
+
+      expect(peakIndex).toBeGreaterThan(0);
+      expect(peakIndex).toBeLessThan(sequenced.length - 1);
+      expect(sequenced[0]).toBeLessThan(0.9);
+      expect(sequenced[sequenced.length - 1]).toBeLessThan(0.9);
+    });
+
+    it('avoids big jumps for flat', () => {
+      const sequenced = energyOrder(sequenceTracks(tracks, features, 'flat'));
+      const scoreOrderJumps = energies.slice(1).reduce((sum, e, i) => sum + Math.abs(e - energies[i]), 0);
+      const sequencedJumps = sequenced.slice(1).reduce((sum, e, i) => sum + Math.abs(e - sequenced[i]), 0);
+
+      expect(sequencedJumps).toBeLessThan(scoreOrderJumps);
+    });
+
+    it('continues smoothly from the previous track', () => {
+      const sequenced = sequenceTracks(tracks, features, 'flat', createFeatures('previous', 0.95));
+      expect(features.get(sequenced[0].id)!.energy).toBe(0.9);
+    });
+
+    it('prefers close keys between similar tracks', () => {
+      const keyTracks = ['near', 'far'].map((id) => createMockSpotifyTrack({ id }));
+      const keyFeatures = new Map([
+        ['near', createFeatures('near', 0.5, { key: 1 })],
+        ['far', createFeatures('far', 0.5, { key: 6 })],
+      ]);
+
+      const sequenced = sequenceTracks(keyTracks.reverse(), keyFeatures, 'flat', createFeatures('previous', 0.5, { key: 0 }));
+      expect(sequenced[0].id).toBe('near');
+    });
+
+    it('keeps tracks without features at the end in their original order', () => {
+      const unknownA = createMockSpotifyTrack({ id: 'unknown-a' });
+      const unknownB = createMockSpotifyTrack({ id: 'unknown-b' });
+
+      const sequenced = sequenceTracks([unknownA, ...tracks, unknownB], features, 'warm-up');
+
+      expect(sequenced).toHaveLength(7);
+      expect(sequenced.slice(-2).map((t) => t.id)).toEqual(['unknown-a', 'unknown-b']);
+    });
+
+    it('returns the order unchanged without features', () => {
+      expect(sequenceTracks(tracks, new Map(), 'warm-up')).toEqual(tracks);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getActiveParticipantIds,
+  calculateSkipThreshold,
+  getSkipVoteWeight,
+  getVoteWindow,
+  getSkipVotesForTrack,
+  tallySkipVotes,
+} from '@/lib/algorithm/skip-threshold';
+import { createMockSession, createMockParticipant, createMockSessionSettings } from '../../factories/session.factory';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { Session, SessionSettings } from '@/types';
+
+describe('Skip Threshold Algorithm', () => {
+  const now = 10 * 60 * 60 * 1000;
+  const minute = 60 * 1000;
+  const longAgo = now - 2 * 60 * minute;
+
+  // Host plus `guests` participants, all of whom joined long ago
+  const createSession = (guests: number, settings?: Partial<SessionSettings>, overrides?: Partial<Session>): Session => {
+    const participants = [
+      createMockParticipant({ userId: 'host', isHost: true, isDJ: true, joinedAt: longAgo }),
+      ...Array.from({ length: guests }, (_, i) => createMockParticipant({ userId: `user-${i + 1}`, joinedAt: longAgo })),
+    ];
+
+    return createMockSession({
+      hostId: 'host',
+      participants,
+      djs: ['host'],
+      settings: createMockSessionSettings(settings),
+      ...overrides,
+    });
+  };
+
+  const skipVote = (userId: string, trackId = 'track-1', timestamp = now) => ({ userId, trackId, timestamp });
+  const play = { id: 'play-2', trackId: 'track-1', startedAt: now - minute };
+
+  describe('getActiveParticipantIds', () => {
+    it('returns nobody when no one has done anything lately', () => {
+      expect(getActiveParticipantIds(createSession(3), now)).toEqual([]);
+    });
+
+    it('counts recent joins, votes, feedback and added tracks', () => {
+      const session = createSession(4);
+      session.participants[1].joinedAt = now - 5 * minute;
+      session.votes.skip.push(skipVote('user-2', 'track-1', now - minute));
+      session.feedback = [{
+        kind: 'like',
+        trackId: 'track-1',
+        artistIds: [],
+        genres: [],
+        userIds: ['user-3'],
+        timestamp: now - 10 * minute,
+      }];
+      session.queue.push({
+        track: createMockSpotifyTrack(),
+        position: 0,
+        addedBy: 'user-4',
+        addedAt: now - 20 * minute,
+        isStable: false,
+      });
+
+      expect(getActiveParticipantIds(session, now)).toEqual(['user-1', 'user-2', 'user-3', 'user-4']);
+    });
+
+    it('ignores activity outside the window', () => {
+      const session = createSession(1);
+      session.votes.like.push({ userId: 'user-1', trackId: 'track-1', timestamp: now - 31 * minute });
+
+      expect(getActiveParticipantIds(session, now)).toEqual([]);
+    });
+
+    it('ignores people who have left', () => {
+      const session = createSession(1);
+      session.votes.skip.push(skipVote('someone-who-left'));
+
+      expect(getActiveParticipantIds(session, now)).toEqual([]);
+    });
+  });
+
+  describe('calculateSkipThreshold', () => {
+    it('uses the fixed count when no mode is set', () => {
+      expect(calculateSkipThreshold(createSession(5, { skipThreshold: 3 }), now)).toBe(3);
+    });
+
+    it('never asks for fewer than one vote', () => {
+      expect(calculateSkipThreshold(createSession(0, { skipThresholdMode: 'count', skipThreshold: 0 }), now)).toBe(1);
+      expect(calculateSkipThreshold(createSession(0, { skipThresholdMode: 'percent-active' }), now)).toBe(1);
+    });
+
+    it('takes a share of everyone present, rounding up', () => {
+      const settings = { skipThresholdMode: 'percent-present' as const, skipThresholdPercent: 50 };
+
+      expect(calculateSkipThreshold(createSession(1, settings), now)).toBe(1);
+      expect(calculateSkipThreshold(createSession(2, settings), now)).toBe(2);
+      expect(calculateSkipThreshold(createSession(9, { ...settings, skipThresholdPercent: 75 }), now)).toBe(8);
+    });
+
+    it('defaults to half in percentage modes', () => {
+      expect(calculateSkipThreshold(createSession(5, { skipThresholdMode: 'percent-present' }), now)).toBe(3);
+    });
+
+    it('follows people joining and leaving', () => {
+      const session = createSession(3, { skipThresholdMode: 'percent-present' });
+      expect(calculateSkipThreshold(session, now)).toBe(2);
+
+      session.participants.push(createMockParticipant({ userId: 'user-4' }));
+      expect(calculateSkipThreshold(session, now)).toBe(3);
+
+      session.participants = session.participants.slice(0, 2);
+      expect(calculateSkipThreshold(session, now)).toBe(1);
+    });
+
+    it('takes a share of active participants only', () => {
+      const session = createSession(9, { skipThresholdMode: 'percent-active', skipThresholdPercent: 50 });
+      session.votes.like.push(
+        { userId: 'user-1', trackId: 'track-1', timestamp: now },
+        { userId: 'user-2', trackId: 'track-1', timestamp: now },
+        { userId: 'user-3', trackId: 'track-1', timestamp: now },
+        { userId: 'user-4', trackId: 'track-1', timestamp: now },
+      );
+
+      expect(calculateSkipThreshold(session, now)).toBe(2);
+    });
+  });
+
+  describe('getSkipVoteWeight', () => {
+    it('counts every vote once by default', () => {
+      const session = createSession(1, {}, { djs: ['host', 'user-1'] });
+
+      expect(getSkipVoteWeight(session, 'host')).toBe(1);
+      expect(getSkipVoteWeight(session, 'user-1')).toBe(1);
+    });
+
+    it('weights DJ votes', () => {
+      const session = createSession(2, { djVoteWeight: 2 }, { djs: ['host', 'user-1'] });
+
+      expect(getSkipVoteWeight(session, 'user-1')).toBe(2);
+      expect(getSkipVoteWeight(session, 'user-2')).toBe(1);
+    });
+
+    it('gives the host the DJ weight unless a host weight is set', () => {
+      expect(getSkipVoteWeight(createSession(0, { djVoteWeight: 2 }), 'host')).toBe(2);
+      expect(getSkipVoteWeight(createSession(0, { djVoteWeight: 2, hostVoteWeight: 4 }), 'host')).toBe(4);
+    });
+  });
+
+  describe('getVoteWindow', () => {
+    it('returns null before any play has started', () => {
+      expect(getVoteWindow(createSession(1), now)).toBeNull();
+    });
+
+    it('opens straight away without a minimum listening time', () => {
+      const session = createSession(1, {}, { currentPlay: play });
+
+      expect(getVoteWindow(session, now)).toEqual({
+        playId: 'play-2',
+        trackId: 'track-1',
+        opensAt: now - minute,
+        opensInMs: 0,
+      });
+    });
+
+    it('opens after the minimum listening time', () => {
+      const session = createSession(1, { skipVoteDelaySeconds: 90 }, { currentPlay: play });
+
+      expect(getVoteWindow(session, now)).toMatchObject({
+        opensAt: now + 30 * 1000,
+        opensInMs: 30 * 1000,
+      });
+    });
+  });
+
+  describe('getSkipVotesForTrack', () => {
+    it('keeps only votes cast during the current play', () => {
+      const session = createSession(3, {}, { currentPlay: play });
+      session.votes.skip.push(
+        { ...skipVote('user-1'), playId: 'play-1' },
+        { ...skipVote('user-2'), playId: 'play-2' },
+        skipVote('user-3'),
+      );
+
+      expect(getSkipVotesForTrack(session, 'track-1').map((vote) => vote.userId)).toEqual(['user-2']);
+    });
+
+    it('keeps votes from before plays were tracked', () => {
+      const session = createSession(1);
+      session.votes.skip.push(skipVote('user-1'));
+
+      expect(getSkipVotesForTrack(session, 'track-1')).toHaveLength(1);
+    });
+  });
+
+  describe('tallySkipVotes', () => {
+    it('counts only votes for the given track', () => {
+      const session = createSession(3, { skipThreshold: 2 });
+      session.votes.skip.push(skipVote('user-1'), skipVote('user-2', 'track-2'));
+
+      expect(tallySkipVotes(session, 'track-1', now)).toEqual({
+        count: 1,
+        threshold: 2,
+        overridden: false,
+        reached: false,
+      });
+    });
+
+    it('reaches the threshold with weighted votes', () => {
+      const session = createSession(3, { skipThreshold: 3, djVoteWeight: 2 }, { djs: ['host', 'user-1'] });
+      session.votes.skip.push(skipVote('user-1'), skipVote('user-2'));
+
+      expect(tallySkipVotes(session, 'track-1', now)).toMatchObject({ count: 3, reached: true });
+    });
+
+    it('skips straight away on a host override', () => {
+      const session = createSession(5, { skipThreshold: 5, hostSkipOverride: true });
+      session.votes.skip.push(skipVote('host'));
+
+      expect(tallySkipVotes(session, 'track-1', now)).toEqual({
+        count: 1,
+        threshold: 5,
+        overridden: true,
+        reached: true,
+      });
+    });
+
+    it('ignores votes from an earlier play of the same track', () => {
+      const session = createSession(3, { skipThreshold: 2 }, { currentPlay: play });
+      session.votes.skip.push(
+        { ...skipVote('user-1'), playId: 'play-1' },
+        { ...skipVote('user-2'), playId: 'play-2' },
+      );
+
+      expect(tallySkipVotes(session, 'track-1', now)).toMatchObject({ count: 1, reached: false });
+    });
+
+    it('treats the host as an ordinary voter without the override', () => {
+      const session = createSession(5, { skipThreshold: 5 });
+      session.votes.skip.push(skipVote('host'));
+
+      expect(tallySkipVotes(session, 'track-1', now)).toMatchObject({ overridden: false, reached: false });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { blendTasteProfile } from '@/lib/algorithm/taste-blend';
+import { createMockSpotifyArtist } from '../../factories/spotify.factory';
+import type { TasteProfile } from '@/types';
+
+describe('Taste Blend Algorithm', () => {
+  const artist = (id: string, genres: string[] = []) => createMockSpotifyArtist({ id, name: id, genres });
+
+  const createProfile = (overrides?: Partial<TasteProfile>): TasteProfile => ({
+    userId: 'user-1',
+    topTracks: [],
+    topArtists: [],
+    topGenres: [],
+    lastUpdated: Date.now(),
+    timeRanges: {
+      short_term: { topTracks: ['track-new'], topArtists: [artist('artist-new', ['hyperpop'])] },
+      medium_term: { topTracks: ['track-new', 'track-old'], topArtists: [artist('artist-new', ['hyperpop']), artist('artist-old', ['folk'])] },
+      long_term: { topTracks: ['track-old'], topArtists: [artist('artist-old', ['folk'])] },
+    },
+    ...overrides,
+  });
+
+  it('returns profiles without time ranges unchanged', () => {
+    const profile = createProfile({ timeRanges: undefined, topArtists: [artist('artist-1')] });
+
+    expect(blendTasteProfile(profile, 'recent', 20)).toBe(profile);
+  });
+
+  it('favours recent listening in the recent blend', () => {
+    const blended = blendTasteProfile(createProfile(), 'recent', 20);
+
+    expect(blended.topTracks).toEqual(['track-new', 'track-old']);
+    expect(blended.topArtists.map((a) => a.id)).toEqual(['artist-new', 'artist-old']);
+    expect(blended.topGenres).toEqual(['hyperpop', 'folk']);
+  });
+
+  it('favours long-time favourites in the all-time blend', () => {
+    const blended = blendTasteProfile(createProfile(), 'all-time', 20);
+
+    expect(blended.topTracks[0]).toBe('track-old');
+    expect(blended.topArtists[0].id).toBe('artist-old');
+    expect(blended.topGenres[0]).toBe('folk');
+  });
+
+  it('lets favourites in every range beat one-range favourites', () => {
+    const profile = createProfile({
+      timeRanges: {
+        short_term: { topTracks: ['track-fad', 'track-classic'], topArtists: [] },
+        medium_term: { topTracks: ['track-classic'], topArtists: [] },
+        long_term: { topTracks: ['track-classic'], topArtists: [] },
+      },
+    });
+
+    expect(blendTasteProfile(profile, 'recent', 20).topTracks[0]).toBe('track-classic');
+  });
+
+  it('keeps at most depth tracks and artists', () => {
+    const blended = blendTasteProfile(createProfile(), 'balanced', 1);
+
+    expect(blended.topTracks).toHaveLength(1);
+    expect(blended.topArtists).toHaveLength(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileRecapArchive, RedisRecapArchive, buildSessionRecap, type RecapArchive } from '@/lib/archive';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+import type { SessionRecap } from '@/types';
+
+vi.mock('ioredis', async () => {
+  const RedisMock = (await import('ioredis-mock')).default;
+  return { default: RedisMock };
+});
+
+function createRecap(overrides: Partial<SessionRecap> = {}): SessionRecap {
+  return {
+    sessionId: `session-${Math.random().toString(36).slice(2)}`,
+    code: 'ABC123',
+    hostId: 'host-123',
+    participants: [{ userId: 'host-123', name: 'Host', wasHost: true }],
+    plays: [],
+    startedAt: 1000,
+    endedAt: 5000,
+    durationMs: 4000,
+    endReason: 'ended-by-host',
+    ...overrides,
+  };
+}
+
+let directory = '';
+
+const implementations: Array<{
+  name: string;
+  create: () => Promise<RecapArchive>;
+  dispose: (archive: RecapArchive) => Promise<void>;
+}> = [
+  {
+    name: 'FileRecapArchive',
+    create: async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'recaps-'));
+      return new FileRecapArchive(directory);
+    },
+    dispose: async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    },
+  },
+  {
+    name: 'RedisRecapArchive',
+    create: async () => new RedisRecapArchive(),
+    dispose: async (archive) => {
+      await (archive as RedisRecapArchive).close();
+    },
+  },
+];
+
+describe.each(implementations)('$name', ({ create, dispose }) => {
+  let archive: RecapArchive;
+
+  beforeEach(async () => {
+    archive = await create();
+  });
+
+  afterEach(async () => {
+    await dispose(archive);
+  });
+
+  it('returns a saved recap', async () => {
+    const recap = createRecap();
+
+    await archive.save(recap);
+
+    expect(await archive.get(recap.sessionId)).toEqual(recap);
+  });
+
+  it('returns null for unknown sessions', async () => {
+    expect(await archive.get('missing-session')).toBeNull();
+  });
+
+  it('replaces an earlier recap of the same session', async () => {
+    const recap = createRecap();
+
+    await archive.save(recap);
+    await archive.save({ ...recap, endReason: 'idle' });
+
+    expect((await archive.get(recap.sessionId))?.endReason).toBe('idle');
+  });
+});
+
+describe('FileRecapArchive paths', () => {
+  it('never reads outside its directory', async () => {
+    const archive = new FileRecapArchive(path.join(os.tmpdir(), 'recaps-unused'));
+
+    expect(await archive.get('../../etc/passwd')).toBeNull();
+  });
+});
+
+describe('buildSessionRecap', () => {
+  it('includes participants who left, once each', () => {
+    const host = createMockParticipant({ userId: 'host-123', name: 'Host', isHost: true });
+    const guest = createMockParticipant({ userId: 'user-1', name: 'Guest' });
+    const session = createMockSession({
+      hostId: 'host-123',
+      participants: [host, guest],
+      pastParticipants: [
+        createMockParticipant({ userId: 'user-1', name: 'Guest' }),
+        createMockParticipant({ userId: 'user-2', name: 'Early Leaver' }),
+      ],
+    });
+
+    const recap = buildSessionRecap(session, 'idle');
+
+    expect(recap.participants.map((p) => p.userId).sort()).toEqual(['host-123', 'user-1', 'user-2']);
+    expect(recap.participants.find((p) => p.userId === 'host-123')?.wasHost).toBe(true);
+  });
+
+  it('carries the play history and timing', () => {
+    const play = {
+      track: { id: 'track-1', name: 'Track', artists: [], albumName: 'Album', durationMs: 1000, uri: 'spotify:track:track-1' },
+      playedAt: 2000,
+      addedBy: 'user-1',
+      likedBy: ['host-123'],
+      skippedBy: [],
+    };
+    const session = createMockSession({ createdAt: 1000, playHistory: [play] });
+
+    const recap = buildSessionRecap(session, 'ended-by-host', 61000);
+
+    expect(recap).toMatchObject({
+      sessionId: session.id,
+      plays: [play],
+      startedAt: 1000,
+      endedAt: 61000,
+      durationMs: 60000,
+      endReason: 'ended-by-host',
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  startPlaybackMonitor,
+  stopPlaybackMonitor,
+  monitorSession,
+  isMonitoringSession,
+  isSessionPlaying,
+  getNextPollDelay,
+  watchSessionPlayback,
+  unwatchSessionPlayback,
+} from '@/lib/playback-monitor';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { handleTrackCompletion } from '@/lib/utils/playback';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { publishEvent, subscribeToPattern } from '@/lib/redis-events';
+import { MockSessionStore } from '../../mocks/mock-store';
+import { createMockSession } from '../../factories/session.factory';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { TokenVault } from '@/lib/session/token-vault';
+import type { PlaybackState } from '@/types';
+
+vi.mock('@/lib/services/spotify.service');
+
+vi.mock('@/lib/utils/playback', () => ({
+  handleTrackCompletion: vi.fn(),
+}));
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+vi.mock('@/lib/redis-events', () => ({
+  publishEvent: vi.fn(),
+  subscribeToPattern: vi.fn(),
+}));
+
+function createPlaybackState(overrides: Partial<PlaybackState> = {}): PlaybackState {
+  return {
+    is_playing: true,
+    progress_ms: 0,
+    item: createMockSpotifyTrack({ duration_ms: 180000 }),
+    device: {
+      id: 'device-123',
+      is_active: true,
+      is_private_session: false,
+      is_restricted: false,
+      name: 'Speaker',
+      type: 'Speaker',
+      volume_percent: 50,
+    },
+    shuffle_state: false,
+    repeat_state: 'off',
+    ...overrides,
+  };
+}
+
+describe('Playback Monitor', () => {
+  const sessionId = 'session-123';
+  const accessToken = 'host-token';
+  let store: MockSessionStore;
+  let mockTokenVault: { getAccessToken: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    store = new MockSessionStore();
+    await store.set(sessionId, createMockSession({ id: sessionId, hostId: 'host-1', activeDeviceId: 'device-123' }));
+    mockTokenVault = { getAccessToken: vi.fn().mockResolvedValue(accessToken) };
+    startPlaybackMonitor(store, mockTokenVault as unknown as TokenVault);
+  });
+
+  afterEach(() => {
+    stopPlaybackMonitor();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('getNextPollDelay', () => {
+    it('polls slowly when paused', () => {
+      expect(getNextPollDelay(createPlaybackState({ is_playing: false }))).toBe(15000);
+    });
+
+    it('polls slowly when nothing is playing', () => {
+      expect(getNextPollDelay(createPlaybackState({ item: null }))).toBe(15000);
+    });
+
+    it('caps the interval mid-track', () => {
+      expect(getNextPollDelay(createPlaybackState({ progress_ms: 10000 }))).toBe(10000);
+    });
+
+    it('polls just after the expected end of the track', () => {
+      expect(getNextPollDelay(createPlaybackState({ progress_ms: 176000 }))).toBe(4750);
+    });
+
+    it('never polls faster than the minimum interval', () => {
+      expect(getNextPollDelay(createPlaybackState({ progress_ms: 180000 }))).toBe(1000);
+    });
+  });
+
+  describe('polling', () => {
+    it('broadcasts the playback state on every poll', async () => {
+      const state = createPlaybackState({ progress_ms: 10000 });
+      vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue(state);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(broadcastToSession).toHaveBeenCalledWith(sessionId, 'playback_state_changed', state);
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(broadcastToSession).toHaveBeenCalledTimes(2);
+      expect(handleTrackCompletion).not.toHaveBeenCalled();
+    });
+
+    it('completes the track once when playback moves to a new track', async () => {
+      const first = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-1', duration_ms: 180000 }), progress_ms: 178000 });
+      const second = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-2', duration_ms: 180000 }), progress_ms: 500 });
+      vi.mocked(SpotifyService.prototype.getPlaybackState)
+        .mockResolvedValueOnce(first)
+        .mockResolvedValue(second);
+      vi.mocked(handleTrackCompletion).mockResolvedValue(true);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(2750);
+
+      expect(handleTrackCompletion).toHaveBeenCalledTimes(1);
+      expect(handleTrackCompletion).toHaveBeenCalledWith(sessionId, store, accessToken, 'track-2', null);
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(handleTrackCompletion).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports the play it saw before the change, even after another source advanced', async () => {
+      await store.update(sessionId, (s) => {
+        s.currentPlay = { id: 'play-1', trackId: 'track-1', startedAt: 0 };
+      });
+      const first = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-1', duration_ms: 180000 }), progress_ms: 178000 });
+      const second = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-2', duration_ms: 180000 }), progress_ms: 178000 });
+      const third = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-3', duration_ms: 180000 }), progress_ms: 500 });
+      vi.mocked(SpotifyService.prototype.getPlaybackState)
+        .mockResolvedValueOnce(first)
+        .mockResolvedValueOnce(second)
+        .mockResolvedValue(third);
+      // A client fallback report lands first and starts the next play
+      vi.mocked(handleTrackCompletion).mockImplementationOnce(async () => {
+        await store.update(sessionId, (s) => {
+          s.currentPlay = { id: 'play-2', trackId: 'track-2', startedAt: 1 };
+        });
+        return false;
+      });
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(2750);
+
+      expect(handleTrackCompletion).toHaveBeenLastCalledWith(sessionId, store, accessToken, 'track-2', 'play-1');
+
+      await vi.advanceTimersByTimeAsync(2750);
+
+      expect(handleTrackCompletion).toHaveBeenLastCalledWith(sessionId, store, accessToken, 'track-3', 'play-2');
+    });
+
+    it('still broadcasts when the transition was already handled', async () => {
+      const first = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-1', duration_ms: 180000 }), progress_ms: 178000 });
+      const second = createPlaybackState({ item: createMockSpotifyTrack({ id: 'track-2', duration_ms: 180000 }), progress_ms: 500 });
+      vi.mocked(SpotifyService.prototype.getPlaybackState)
+        .mockResolvedValueOnce(first)
+        .mockResolvedValue(second);
+      vi.mocked(handleTrackCompletion).mockResolvedValue(false);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(2750);
+
+      expect(broadcastToSession).toHaveBeenLastCalledWith(sessionId, 'playback_state_changed', second);
+    });
+
+    it("polls with the device owner's token from the vault", async () => {
+      await store.update(sessionId, (s) => {
+        s.deviceOwnerId = 'owner-1';
+      });
+      vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue(createPlaybackState());
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockTokenVault.getAccessToken).toHaveBeenCalledWith('owner-1');
+      expect(SpotifyService).toHaveBeenCalledWith(accessToken);
+    });
+
+    it('reads the token again on every poll so refreshes are picked up', async () => {
+      vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue(createPlaybackState({ is_playing: false }));
+      mockTokenVault.getAccessToken
+        .mockResolvedValueOnce(accessToken)
+        .mockResolvedValue('refreshed-token');
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(15000);
+
+      expect(mockTokenVault.getAccessToken).toHaveBeenCalledWith('host-1');
+      expect(SpotifyService).toHaveBeenNthCalledWith(1, accessToken);
+      expect(SpotifyService).toHaveBeenNthCalledWith(2, 'refreshed-token');
+    });
+
+    it('counts a missing owner token as a failed poll', async () => {
+      mockTokenVault.getAccessToken.mockResolvedValue(null);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(SpotifyService.prototype.getPlaybackState).not.toHaveBeenCalled();
+      expect(isMonitoringSession(sessionId)).toBe(true);
+    });
+
+    it('reports whether the session was playing at the last poll', async () => {
+      vi.mocked(SpotifyService.prototype.getPlaybackState)
+        .mockResolvedValueOnce(createPlaybackState())
+        .mockResolvedValue(createPlaybackState({ is_playing: false }));
+
+      expect(isSessionPlaying(sessionId)).toBe(false);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(isSessionPlaying(sessionId)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(isSessionPlaying(sessionId)).toBe(false);
+    });
+
+    it('stops when the session no longer exists', async () => {
+      await store.delete(sessionId);
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(isMonitoringSession(sessionId)).toBe(false);
+      expect(SpotifyService.prototype.getPlaybackState).not.toHaveBeenCalled();
+    });
+
+    it('stops after repeated Spotify errors', async () => {
+      vi.mocked(SpotifyService.prototype.getPlaybackState).mockRejectedValue(new Error('Token expired'));
+
+      monitorSession(sessionId);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(isMonitoringSession(sessionId)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(SpotifyService.prototype.getPlaybackState).toHaveBeenCalledTimes(5);
+      expect(isMonitoringSession(sessionId)).toBe(false);
+    });
+  });
+
+  describe('watch requests', () => {
+    // Routes and the sweeper run in other processes, so requests arrive over Redis
+    const deliver = (message: unknown) => {
+      const [channel, handler] = vi.mocked(subscribeToPattern).mock.calls[0];
+      handler(channel, JSON.stringify(message));
+    };
+
+    it('publishes watch and unwatch requests on the watch channel', async () => {
+      await watchSessionPlayback(sessionId);
+      await unwatchSessionPlayback(sessionId);
+
+      const [channel] = vi.mocked(subscribeToPattern).mock.calls[0];
+      expect(publishEvent).toHaveBeenNthCalledWith(1, channel, { sessionId });
+      expect(publishEvent).toHaveBeenNthCalledWith(2, channel, { sessionId, stop: true });
+    });
+
+    it('starts and stops monitoring as requests arrive', async () => {
+      vi.mocked(SpotifyService.prototype.getPlaybackState).mockResolvedValue(createPlaybackState());
+
+      deliver({ sessionId });
+      expect(isMonitoringSession(sessionId)).toBe(true);
+
+      deliver({ sessionId, stop: true });
+      expect(isMonitoringSession(sessionId)).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(SpotifyService.prototype.getPlaybackState).not.toHaveBeenCalled();
+    });
+  });
+});
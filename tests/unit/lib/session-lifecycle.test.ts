@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getIdleTimeoutMs,
+  getLastActivity,
+  isSessionIdle,
+  summarizeSession,
+  closeSession,
+  sweepIdleSessions,
+  startSessionSweeper,
+  stopSessionSweeper,
+} from '@/lib/session-lifecycle';
+import { cancelPendingRegeneration } from '@/lib/queue-background-regen';
+import { isSessionPlaying, unwatchSessionPlayback } from '@/lib/playback-monitor';
+import { broadcastToSession } from '@/lib/websocket/server';
+import { getRecapArchive } from '@/lib/archive';
+import { MockSessionStore } from '../../mocks/mock-store';
+import { createMockSession } from '../../factories/session.factory';
+
+vi.mock('@/lib/queue-background-regen', () => ({
+  cancelPendingRegeneration: vi.fn(),
+}));
+
+vi.mock('@/lib/playback-monitor', () => ({
+  isSessionPlaying: vi.fn(() => false),
+  unwatchSessionPlayback: vi.fn(),
+}));
+
+vi.mock('@/lib/websocket/server', () => ({
+  broadcastToSession: vi.fn(),
+}));
+
+const mockArchive = vi.hoisted(() => ({
+  save: vi.fn(),
+  get: vi.fn(),
+}));
+
+vi.mock('@/lib/archive', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/archive')>()),
+  getRecapArchive: () => mockArchive,
+}));
+
+const MINUTE = 60 * 1000;
+
+describe('Session Lifecycle', () => {
+  const now = 1_000_000_000_000;
+  let store: MockSessionStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = new MockSessionStore();
+  });
+
+  afterEach(() => {
+    stopSessionSweeper();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('getIdleTimeoutMs', () => {
+    it('defaults to two hours', () => {
+      expect(getIdleTimeoutMs()).toBe(120 * MINUTE);
+    });
+
+    it('reads the timeout from the environment', () => {
+      vi.stubEnv('SESSION_IDLE_TIMEOUT_MINUTES', '30');
+
+      expect(getIdleTimeoutMs()).toBe(30 * MINUTE);
+    });
+
+    it('ignores invalid values', () => {
+      vi.stubEnv('SESSION_IDLE_TIMEOUT_MINUTES', 'soon');
+
+      expect(getIdleTimeoutMs()).toBe(120 * MINUTE);
+    });
+  });
+
+  describe('getLastActivity', () => {
+    it('uses the latest of updates, participant changes and plays', () => {
+      const session = createMockSession({
+        updatedAt: now - 30 * MINUTE,
+        lastParticipantChange: now - 20 * MINUTE,
+        recentPlays: [
+          { trackId: 'track-1', userIds: ['host-123'], durationMs: 180000, playedAt: now - 10 * MINUTE },
+          { trackId: 'track-2', userIds: ['host-123'], durationMs: 180000, playedAt: now - 40 * MINUTE },
+        ],
+      });
+
+      expect(getLastActivity(session)).toBe(now - 10 * MINUTE);
+    });
+  });
+
+  describe('isSessionIdle', () => {
+    it('is idle once the timeout has passed without activity', () => {
+      const session = createMockSession({ updatedAt: now - 61 * MINUTE, lastParticipantChange: 0 });
+
+      expect(isSessionIdle(session, now, 60 * MINUTE)).toBe(true);
+      expect(isSessionIdle(session, now, 90 * MINUTE)).toBe(false);
+    });
+
+    it('is never idle while playing', () => {
+      vi.mocked(isSessionPlaying).mockReturnValueOnce(true);
+      const session = createMockSession({ updatedAt: now - 300 * MINUTE, lastParticipantChange: 0 });
+
+      expect(isSessionIdle(session, now, 60 * MINUTE)).toBe(false);
+    });
+  });
+
+  describe('summarizeSession', () => {
+    it('counts played tracks, participants and duration', () => {
+      const session = createMockSession({
+        createdAt: now - 90 * MINUTE,
+        playedTracks: ['track-1', 'track-2', 'track-3'],
+      });
+
+      expect(summarizeSession(session, now)).toEqual({
+        durationMs: 90 * MINUTE,
+        tracksPlayed: 3,
+        participantCount: session.participants.length,
+      });
+    });
+  });
+
+  describe('closeSession', () => {
+    it('cancels work, deletes the session and notifies participants', async () => {
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123', playedTracks: ['track-1'] }));
+
+      await closeSession('session-1', store, 'ended-by-host');
+
+      expect(cancelPendingRegeneration).toHaveBeenCalledWith('session-1');
+      expect(unwatchSessionPlayback).toHaveBeenCalledWith('session-1');
+      expect(await store.get('session-1')).toBeNull();
+      expect(await store.getByCode('ABC123')).toBeNull();
+      expect(broadcastToSession).toHaveBeenCalledWith('session-1', 'session_ended', {
+        reason: 'ended-by-host',
+        summary: expect.objectContaining({ tracksPlayed: 1 }),
+      });
+    });
+
+    it('archives a recap of the session', async () => {
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+
+      await closeSession('session-1', store, 'idle');
+
+      expect(getRecapArchive().save).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-1', endReason: 'idle' })
+      );
+    });
+
+    it('still ends the session when archiving fails', async () => {
+      mockArchive.save.mockRejectedValueOnce(new Error('Disk full'));
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+
+      await closeSession('session-1', store, 'idle');
+
+      expect(await store.get('session-1')).toBeNull();
+      expect(broadcastToSession).toHaveBeenCalled();
+    });
+
+    it('still notifies participants when the session is already gone', async () => {
+      await closeSession('session-1', store, 'deleted-by-host');
+
+      expect(broadcastToSession).toHaveBeenCalledWith('session-1', 'session_ended', {
+        reason: 'deleted-by-host',
+        summary: undefined,
+      });
+    });
+  });
+
+  describe('sweepIdleSessions', () => {
+    it('ends only idle sessions', async () => {
+      await store.set('idle', createMockSession({ id: 'idle', code: 'IDLE01', updatedAt: now - 180 * MINUTE, lastParticipantChange: 0 }));
+      await store.set('active', createMockSession({ id: 'active', code: 'ACTV01', updatedAt: now - 5 * MINUTE, lastParticipantChange: 0 }));
+
+      const ended = await sweepIdleSessions(store, now);
+
+      expect(ended).toEqual(['idle']);
+      expect(await store.get('idle')).toBeNull();
+      expect(await store.get('active')).not.toBeNull();
+      expect(broadcastToSession).toHaveBeenCalledWith('idle', 'session_ended', expect.objectContaining({ reason: 'idle' }));
+    });
+
+    it('keeps sweeping when one session fails to end', async () => {
+      await store.set('first', createMockSession({ id: 'first', code: 'FIRST1', updatedAt: 0, lastParticipantChange: 0 }));
+      await store.set('second', createMockSession({ id: 'second', code: 'SECND1', updatedAt: 0, lastParticipantChange: 0 }));
+      vi.spyOn(store, 'delete').mockRejectedValueOnce(new Error('Store unavailable'));
+
+      const ended = await sweepIdleSessions(store, now);
+
+      expect(ended).toEqual(['second']);
+    });
+  });
+
+  describe('startSessionSweeper', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('sweeps on every interval', async () => {
+      await store.set('idle', createMockSession({ id: 'idle', updatedAt: 0, lastParticipantChange: 0 }));
+      const listSpy = vi.spyOn(store, 'list');
+
+      startSessionSweeper(store, MINUTE);
+      await vi.advanceTimersByTimeAsync(MINUTE);
+
+      expect(listSpy).toHaveBeenCalledTimes(1);
+      expect(await store.get('idle')).toBeNull();
+
+      await vi.advanceTimersByTimeAsync(MINUTE);
+
+      expect(listSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('only starts once', async () => {
+      const listSpy = vi.spyOn(store, 'list');
+
+      startSessionSweeper(store, MINUTE);
+      startSessionSweeper(store, MINUTE);
+      await vi.advanceTimersByTimeAsync(MINUTE);
+
+      expect(listSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryCoordinator } from '@/lib/regeneration/memory-coordinator';
+import { RedisCoordinator } from '@/lib/regeneration/redis-coordinator';
+import type { RegenerationCoordinator } from '@/lib/regeneration';
+
+vi.mock('ioredis', async () => {
+  const RedisMock = (await import('ioredis-mock')).default;
+  return { default: RedisMock };
+});
+
+const implementations: Array<{
+  name: string;
+  create: () => RegenerationCoordinator;
+  dispose: (coordinator: RegenerationCoordinator) => Promise<void>;
+}> = [
+  {
+    name: 'InMemoryCoordinator',
+    create: () => new InMemoryCoordinator(),
+    dispose: async () => {},
+  },
+  {
+    name: 'RedisCoordinator',
+    create: () => new RedisCoordinator(),
+    dispose: async (coordinator) => {
+      await (coordinator as RedisCoordinator).disconnect();
+    },
+  },
+];
+
+describe.each(implementations)('$name', ({ create, dispose }) => {
+  let coordinator: RegenerationCoordinator;
+  const sessionId = `session-${Math.random().toString(36).slice(2)}`;
+
+  beforeEach(() => {
+    coordinator = create();
+  });
+
+  afterEach(async () => {
+    await coordinator.cancel(sessionId);
+    await dispose(coordinator);
+  });
+
+  const waitFor = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe('debounce', () => {
+    it('runs only the latest task after the delay', async () => {
+      const first = vi.fn().mockResolvedValue(undefined);
+      const second = vi.fn().mockResolvedValue(undefined);
+
+      await coordinator.debounce(sessionId, 20, first);
+      await coordinator.debounce(sessionId, 20, second);
+
+      expect((await coordinator.getStatus(sessionId)).isPending).toBe(true);
+
+      await waitFor(60);
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+      expect((await coordinator.getStatus(sessionId)).isPending).toBe(false);
+    });
+
+    it('does not run a cancelled task', async () => {
+      const task = vi.fn().mockResolvedValue(undefined);
+
+      await coordinator.debounce(sessionId, 20, task);
+      await coordinator.cancel(sessionId);
+      await waitFor(60);
+
+      expect(task).not.toHaveBeenCalled();
+      expect((await coordinator.getStatus(sessionId)).isPending).toBe(false);
+    });
+  });
+
+  describe('locking', () => {
+    it('grants the lease to one holder at a time', async () => {
+      const token = await coordinator.acquireLock(sessionId, 1000);
+
+      expect(token).not.toBeNull();
+      expect(await coordinator.acquireLock(sessionId, 1000)).toBeNull();
+      expect((await coordinator.getStatus(sessionId)).isLocked).toBe(true);
+
+      await coordinator.releaseLock(sessionId, token!);
+
+      expect((await coordinator.getStatus(sessionId)).isLocked).toBe(false);
+    });
+
+    it('issues increasing fencing tokens', async () => {
+      const first = await coordinator.acquireLock(sessionId, 1000);
+      await coordinator.releaseLock(sessionId, first!);
+      const second = await coordinator.acquireLock(sessionId, 1000);
+
+      expect(second).toBeGreaterThan(first!);
+      await coordinator.releaseLock(sessionId, second!);
+    });
+
+    it('lets a new holder take over an expired lease', async () => {
+      const stale = await coordinator.acquireLock(sessionId, 20);
+      await waitFor(40);
+
+      const fresh = await coordinator.acquireLock(sessionId, 1000);
+      expect(fresh).toBeGreaterThan(stale!);
+
+      // The stale holder must not release the new lease
+      await coordinator.releaseLock(sessionId, stale!);
+      expect((await coordinator.getStatus(sessionId)).isLocked).toBe(true);
+
+      await coordinator.releaseLock(sessionId, fresh!);
+    });
+  });
+});
+
+describe('RedisCoordinator across instances', () => {
+  const sessionId = 'session-shared';
+  let nodeA: RedisCoordinator;
+  let nodeB: RedisCoordinator;
+
+  beforeEach(() => {
+    nodeA = new RedisCoordinator();
+    nodeB = new RedisCoordinator();
+  });
+
+  afterEach(async () => {
+    await nodeA.cancel(sessionId);
+    await nodeA.disconnect();
+    await nodeB.disconnect();
+  });
+
+  it('runs the debounced task only on the instance triggered last', async () => {
+    const taskA = vi.fn().mockResolvedValue(undefined);
+    const taskB = vi.fn().mockResolvedValue(undefined);
+
+    await nodeA.debounce(sessionId, 20, taskA);
+    await nodeB.debounce(sessionId, 20, taskB);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    expect(taskA).not.toHaveBeenCalled();
+    expect(taskB).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports status set by another instance', async () => {
+    const token = await nodeA.acquireLock(sessionId, 1000);
+
+    expect(await nodeB.acquireLock(sessionId, 1000)).toBeNull();
+    expect((await nodeB.getStatus(sessionId)).isLocked).toBe(true);
+
+    await nodeA.releaseLock(sessionId, token!);
+  });
+});
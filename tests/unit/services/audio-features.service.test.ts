@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SpotifyAudioFeaturesProvider,
+  StaticAudioFeaturesProvider,
+} from '@/lib/services/audio-features.service';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import type { AudioFeatures } from '@/types';
+import fixtureFeatures from '../../fixtures/audio-features.json';
+
+vi.mock('@/lib/services/spotify.service');
+
+describe('Audio features providers', () => {
+  const features = fixtureFeatures as AudioFeatures[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('SpotifyAudioFeaturesProvider', () => {
+    it('indexes features by track ID', async () => {
+      vi.mocked(SpotifyService.prototype.getAudioFeatures).mockResolvedValue(features.slice(0, 2));
+
+      const provider = new SpotifyAudioFeaturesProvider('token');
+      const result = await provider.getFeatures(['upbeat-top-1', 'upbeat-top-2']);
+
+      expect(result.get('upbeat-top-1')).toEqual(features[0]);
+      expect(result.size).toBe(2);
+    });
+
+    it('returns no features when the endpoint is unavailable', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(SpotifyService.prototype.getAudioFeatures).mockRejectedValue({ statusCode: 403 });
+
+      const provider = new SpotifyAudioFeaturesProvider('token');
+      const result = await provider.getFeatures(['upbeat-top-1']);
+
+      expect(result.size).toBe(0);
+    });
+
+    it('does not call Spotify for an empty request', async () => {
+      const provider = new SpotifyAudioFeaturesProvider('token');
+      await provider.getFeatures([]);
+
+      expect(SpotifyService.prototype.getAudioFeatures).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('StaticAudioFeaturesProvider', () => {
+    it('returns only the requested tracks it knows', async () => {
+      const provider = new StaticAudioFeaturesProvider(features);
+      const result = await provider.getFeatures(['chill-top-1', 'unknown']);
+
+      expect(Array.from(result.keys())).toEqual(['chill-top-1']);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  collectCandidates,
+  ArtistTopTracksProvider,
+  GenreSearchProvider,
+  AlbumDeepCutsProvider,
+  ParticipantTopTracksProvider,
+  LikedNeighboursProvider,
+  SeedPlaylistProvider,
+  type CandidateContext,
+  type CandidateProvider,
+} from '@/lib/services/candidate-sources';
+import { createMockSession } from '../../factories/session.factory';
+import { createMockSpotifyTrack, createMockSpotifyArtist } from '../../factories/spotify.factory';
+import type { CandidateSource, SessionProfile, TasteProfile, Track } from '@/types';
+
+function createTracks(prefix: string, count: number): Track[] {
+  return Array.from({ length: count }, (_, i) => createMockSpotifyTrack({ id: `${prefix}-${i}` }));
+}
+
+function createProfile(userId: string, overrides?: Partial<TasteProfile>): TasteProfile {
+  return {
+    userId,
+    topTracks: [],
+    topArtists: [],
+    topGenres: [],
+    lastUpdated: Date.now(),
+    ...overrides,
+  };
+}
+
+function createContext(
+  spotify: Record<string, unknown>,
+  profile: Partial<SessionProfile> = {},
+  sessionOverrides = {}
+): CandidateContext {
+  const sessionProfile: SessionProfile = {
+    commonArtists: [],
+    commonGenres: [],
+    tasteProfiles: [],
+    ...profile,
+  };
+  return {
+    spotify: spotify as never,
+    session: createMockSession({ profile: sessionProfile, ...sessionOverrides }),
+    profile: sessionProfile,
+    market: 'SE',
+  };
+}
+
+function createProvider(source: CandidateSource, tracks: Track[]): CandidateProvider {
+  return {
+    source,
+    getCandidates: vi.fn(async (_context: CandidateContext, count: number) => tracks.slice(0, count)),
+  };
+}
+
+describe('collectCandidates', () => {
+  const context = createContext({});
+
+  it('mixes sources by their relative quotas', async () => {
+    const artist = createProvider('artist-top-tracks', createTracks('artist', 20));
+    const genre = createProvider('genre-search', createTracks('genre', 20));
+
+    const candidates = await collectCandidates(
+      [artist, genre],
+      { 'artist-top-tracks': 3, 'genre-search': 1 },
+      context,
+      8
+    );
+
+    expect(candidates).toHaveLength(8);
+    expect(candidates.filter((t) => t.id.startsWith('artist'))).toHaveLength(6);
+    expect(candidates.filter((t) => t.id.startsWith('genre'))).toHaveLength(2);
+  });
+
+  it('skips sources with a zero quota', async () => {
+    const artist = createProvider('artist-top-tracks', createTracks('artist', 20));
+    const genre = createProvider('genre-search', createTracks('genre', 20));
+
+    const candidates = await collectCandidates(
+      [artist, genre],
+      { 'artist-top-tracks': 1, 'genre-search': 0 },
+      context,
+      5
+    );
+
+    expect(genre.getCandidates).not.toHaveBeenCalled();
+    expect(candidates.every((t) => t.id.startsWith('artist'))).toBe(true);
+  });
+
+  it('fills a short source from the others', async () => {
+    const artist = createProvider('artist-top-tracks', createTracks('artist', 20));
+    const genre = createProvider('genre-search', createTracks('genre', 1));
+
+    const candidates = await collectCandidates(
+      [artist, genre],
+      { 'artist-top-tracks': 1, 'genre-search': 1 },
+      context,
+      10
+    );
+
+    expect(candidates).toHaveLength(10);
+    expect(candidates.filter((t) => t.id.startsWith('genre'))).toHaveLength(1);
+  });
+
+  it('removes tracks found by more than one source', async () => {
+    const shared = createTracks('shared', 4);
+    const artist = createProvider('artist-top-tracks', shared);
+    const genre = createProvider('genre-search', shared);
+
+    const candidates = await collectCandidates(
+      [artist, genre],
+      { 'artist-top-tracks': 1, 'genre-search': 1 },
+      context,
+      8
+    );
+
+    expect(candidates.map((t) => t.id).sort()).toEqual(shared.map((t) => t.id).sort());
+  });
+
+  it('ignores sources that fail', async () => {
+    const artist = createProvider('artist-top-tracks', createTracks('artist', 10));
+    const failing: CandidateProvider = {
+      source: 'genre-search',
+      getCandidates: vi.fn().mockRejectedValue(new Error('Search failed')),
+    };
+
+    const candidates = await collectCandidates(
+      [artist, failing],
+      { 'artist-top-tracks': 1, 'genre-search': 1 },
+      context,
+      4
+    );
+
+    expect(candidates).toHaveLength(4);
+  });
+});
+
+describe('ArtistTopTracksProvider', () => {
+  it('fetches top tracks of common artists in the session market', async () => {
+    const spotify = { searchTracksByArtist: vi.fn().mockResolvedValue(createTracks('artist', 10)) };
+
+    const tracks = await new ArtistTopTracksProvider().getCandidates(
+      createContext(spotify, { commonArtists: ['artist-1', 'artist-2'] }),
+      8
+    );
+
+    expect(spotify.searchTracksByArtist).toHaveBeenCalledWith('artist-1', 10, 'SE');
+    expect(tracks).toHaveLength(8);
+  });
+});
+
+describe('GenreSearchProvider', () => {
+  it('searches the common genres', async () => {
+    const spotify = { searchTracksByGenre: vi.fn().mockResolvedValue(createTracks('genre', 5)) };
+
+    await new GenreSearchProvider().getCandidates(
+      createContext(spotify, { commonGenres: ['indie rock'] }),
+      5
+    );
+
+    expect(spotify.searchTracksByGenre).toHaveBeenCalledWith('indie rock', 5, 'SE');
+  });
+
+  it("falls back to participants' top genres", async () => {
+    const spotify = { searchTracksByGenre: vi.fn().mockResolvedValue([]) };
+
+    await new GenreSearchProvider().getCandidates(
+      createContext(spotify, {
+        tasteProfiles: [
+          createProfile('user-1', { topGenres: ['jazz'] }),
+          createProfile('user-2', { topGenres: ['techno'] }),
+        ],
+      }),
+      16
+    );
+
+    expect(spotify.searchTracksByGenre).toHaveBeenCalledWith('jazz', 8, 'SE');
+    expect(spotify.searchTracksByGenre).toHaveBeenCalledWith('techno', 8, 'SE');
+  });
+});
+
+describe('AlbumDeepCutsProvider', () => {
+  it('takes album tracks other than the opener', async () => {
+    const spotify = {
+      getArtistAlbumIds: vi.fn().mockResolvedValue(['album-1']),
+      getAlbumTrackIds: vi.fn().mockResolvedValue(['opener', 'deep-1', 'deep-2']),
+      getTracks: vi.fn(async (ids: string[]) => ids.map((id) => createMockSpotifyTrack({ id }))),
+    };
+
+    const tracks = await new AlbumDeepCutsProvider().getCandidates(
+      createContext(spotify, { commonArtists: ['artist-1'] }),
+      5
+    );
+
+    expect(spotify.getAlbumTrackIds).toHaveBeenCalledWith('album-1', 'SE');
+    expect(tracks.map((t) => t.id).sort()).toEqual(['deep-1', 'deep-2']);
+  });
+
+  it('returns nothing when artists have no albums', async () => {
+    const spotify = {
+      getArtistAlbumIds: vi.fn().mockResolvedValue([]),
+      getAlbumTrackIds: vi.fn(),
+      getTracks: vi.fn(),
+    };
+
+    const tracks = await new AlbumDeepCutsProvider().getCandidates(
+      createContext(spotify, { commonArtists: ['artist-1'] }),
+      5
+    );
+
+    expect(tracks).toEqual([]);
+    expect(spotify.getTracks).not.toHaveBeenCalled();
+  });
+});
+
+describe('ParticipantTopTracksProvider', () => {
+  it('takes top tracks evenly from each participant', async () => {
+    const spotify = {
+      getTracks: vi.fn(async (ids: string[]) => ids.map((id) => createMockSpotifyTrack({ id }))),
+    };
+
+    const tracks = await new ParticipantTopTracksProvider().getCandidates(
+      createContext(spotify, {
+        tasteProfiles: [
+          createProfile('user-1', { topTracks: ['a-1', 'a-2', 'a-3', 'a-4'] }),
+          createProfile('user-2', { topTracks: ['b-1', 'b-2', 'b-3', 'b-4'] }),
+        ],
+      }),
+      4
+    );
+
+    expect(tracks.filter((t) => t.id.startsWith('a'))).toHaveLength(2);
+    expect(tracks.filter((t) => t.id.startsWith('b'))).toHaveLength(2);
+    expect(spotify.getTracks).toHaveBeenCalledWith(expect.any(Array), 'SE');
+  });
+});
+
+describe('LikedNeighboursProvider', () => {
+  it('fetches tracks from artists related to liked tracks', async () => {
+    const spotify = {
+      getRelatedArtists: vi.fn().mockResolvedValue([createMockSpotifyArtist({ id: 'neighbour-1' })]),
+      searchTracksByArtist: vi.fn().mockResolvedValue(createTracks('neighbour', 8)),
+    };
+    const now = Date.now();
+
+    const tracks = await new LikedNeighboursProvider().getCandidates(
+      createContext(spotify, {}, {
+        feedback: [
+          { kind: 'like', trackId: 't-1', artistIds: ['liked-artist'], genres: [], userIds: ['user-1'], timestamp: now },
+          { kind: 'skip', trackId: 't-2', artistIds: ['skipped-artist'], genres: [], userIds: ['user-1'], timestamp: now },
+        ],
+      }),
+      8
+    );
+
+    expect(spotify.getRelatedArtists).toHaveBeenCalledTimes(1);
+    expect(spotify.getRelatedArtists).toHaveBeenCalledWith('liked-artist');
+    expect(spotify.searchTracksByArtist).toHaveBeenCalledWith('neighbour-1', 8, 'SE');
+    expect(tracks).toHaveLength(8);
+  });
+
+  it('returns nothing without likes', async () => {
+    const spotify = { getRelatedArtists: vi.fn(), searchTracksByArtist: vi.fn() };
+
+    const tracks = await new LikedNeighboursProvider().getCandidates(createContext(spotify), 8);
+
+    expect(tracks).toEqual([]);
+    expect(spotify.getRelatedArtists).not.toHaveBeenCalled();
+  });
+});
+
+describe('SeedPlaylistProvider', () => {
+  it("looks up tracks from the session's seed playlist", async () => {
+    const spotify = { getTracks: vi.fn().mockResolvedValue(createTracks('seed', 3)) };
+    const trackIds = ['seed-0', 'seed-1', 'seed-2', 'seed-3', 'seed-4'];
+
+    const tracks = await new SeedPlaylistProvider().getCandidates(
+      createContext(spotify, {}, {
+        seedPlaylist: { id: 'playlist-1', name: 'Road trip', trackIds, topArtists: [], addedBy: 'user-1', addedAt: Date.now() },
+      }),
+      3
+    );
+
+    const [requestedIds, market] = spotify.getTracks.mock.calls[0];
+    expect(requestedIds).toHaveLength(3);
+    expect(requestedIds.every((id: string) => trackIds.includes(id))).toBe(true);
+    expect(market).toBe('SE');
+    expect(tracks).toHaveLength(3);
+  });
+
+  it('returns nothing without a seed playlist', async () => {
+    const spotify = { getTracks: vi.fn() };
+
+    const tracks = await new SeedPlaylistProvider().getCandidates(createContext(spotify), 8);
+
+    expect(tracks).toEqual([]);
+    expect(spotify.getTracks).not.toHaveBeenCalled();
+  });
+});
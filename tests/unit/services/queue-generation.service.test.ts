@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QueueGenerationService } from '@/lib/services/queue-generation.service';
 import { SpotifyService } from '@/lib/services/spotify.service';
+import { StaticAudioFeaturesProvider } from '@/lib/services/audio-features.service';
+import { scoreTracks } from '@/lib/algorithm/scoring';
 import { createMockSession } from '../../factories/session.factory';
 import { createMockSpotifyTrack } from '../../factories/spotify.factory';
-import type { Track, TasteProfile, QueueItem } from '@/types';
+import type { CandidateProvider } from '@/lib/services/candidate-sources';
+import type { Track, TasteProfile, QueueItem, AudioFeatures, CandidateSource } from '@/types';
+import fixtureFeatures from '../../fixtures/audio-features.json';
 
 // Mock dependencies
 vi.mock('@/lib/services/spotify.service');
@@ -12,9 +16,11 @@ vi.mock('@/lib/algorithm/scoring', () => ({
     tracks.map((track: Track, index: number) => ({
       track,
       score: 100 - index, // Descending scores for testing
+      matchedUserIds: [],
     }))
   ),
   sortByScore: vi.fn((scored) => [...scored].sort((a, b) => b.score - a.score)),
+  DEFAULT_AUDIO_FEATURE_WEIGHT: 0.2,
 }));
 
 describe('QueueGenerationService', () => {
@@ -170,6 +176,332 @@ describe('QueueGenerationService', () => {
     });
   });
 
+  describe('audio feature scoring', () => {
+    const createSession = (topTracks: string[]) =>
+      createMockSession({
+        profile: {
+          commonArtists: ['artist-1'],
+          commonGenres: ['rock'],
+          tasteProfiles: [
+            { userId: 'user-1', topTracks, topArtists: [], topGenres: [], lastUpdated: Date.now() },
+          ],
+        },
+        queue: [],
+        playedTracks: [],
+      });
+
+    beforeEach(() => {
+      vi.mocked(SpotifyService.prototype.searchTracksByArtist).mockResolvedValue([
+        createMockSpotifyTrack({ id: 'upbeat-candidate' }),
+        createMockSpotifyTrack({ id: 'chill-candidate' }),
+      ]);
+    });
+
+    it('passes the blended session sound to scoring when features are available', async () => {
+      const provider = new StaticAudioFeaturesProvider(fixtureFeatures as AudioFeatures[]);
+      const featureService = new QueueGenerationService(TEST_ACCESS_TOKEN, provider);
+
+      await featureService.generateQueue(createSession(['upbeat-top-1', 'upbeat-top-2']), 2);
+
+      const audioScoring = vi.mocked(scoreTracks).mock.calls[0][5]?.audio;
+      expect(audioScoring?.weight).toBe(0.2);
+      expect(audioScoring?.target.energy).toBeCloseTo((0.88 + 0.91) / 2, 5);
+      expect(audioScoring?.features.has('upbeat-candidate')).toBe(true);
+    });
+
+    it('scores without audio features when none are available', async () => {
+      const featureService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]));
+
+      await featureService.generateQueue(createSession(['upbeat-top-1']), 2);
+
+      expect(vi.mocked(scoreTracks).mock.calls[0][5]?.audio).toBeUndefined();
+    });
+  });
+
+  describe('energy arc sequencing', () => {
+    const createStableItem = (id: string, position: number): QueueItem => ({
+      track: createMockSpotifyTrack({ id }),
+      position,
+      addedBy: 'algorithm',
+      addedAt: Date.now(),
+      isStable: true,
+    });
+
+    beforeEach(() => {
+      vi.mocked(SpotifyService.prototype.searchTracksByArtist).mockResolvedValue([
+        createMockSpotifyTrack({ id: 'upbeat-candidate' }),
+        createMockSpotifyTrack({ id: 'chill-candidate' }),
+      ]);
+    });
+
+    it('orders tracks after the stable window along the session arc', async () => {
+      const provider = new StaticAudioFeaturesProvider(fixtureFeatures as AudioFeatures[]);
+      const featureService = new QueueGenerationService(TEST_ACCESS_TOKEN, provider);
+
+      const session = createMockSession({
+        settings: { voteToSkip: true, skipThreshold: 2, energyArc: 'warm-up' },
+        profile: { commonArtists: ['artist-1'], commonGenres: [], tasteProfiles: [] },
+        queue: [createStableItem('stable-1', 0), createStableItem('stable-2', 1), createStableItem('stable-3', 2)],
+        playedTracks: [],
+      });
+
+      const queue = await featureService.generateQueue(session, 2);
+
+      expect(queue.map((item) => item.track.id)).toEqual(['chill-candidate', 'upbeat-candidate']);
+    });
+  });
+
+  describe('candidate sources', () => {
+    const createProvider = (source: CandidateSource): CandidateProvider => ({
+      source,
+      getCandidates: vi.fn(async (_context, count: number) =>
+        Array.from({ length: count }, (_, i) => createMockSpotifyTrack({ id: `${source}-${i}` }))
+      ),
+    });
+
+    const createSession = (overrides = {}) =>
+      createMockSession({
+        profile: { commonArtists: ['artist-1'], commonGenres: ['rock'], tasteProfiles: [] },
+        queue: [],
+        playedTracks: [],
+        ...overrides,
+      });
+
+    it('mixes candidates using the host quotas over the defaults', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const genre = createProvider('genre-search');
+      const deepCuts = createProvider('album-deep-cuts');
+      const sourceService = new QueueGenerationService(
+        TEST_ACCESS_TOKEN,
+        new StaticAudioFeaturesProvider([]),
+        [artist, genre, deepCuts]
+      );
+
+      const queue = await sourceService.generateQueue(
+        createSession({
+          settings: { voteToSkip: true, skipThreshold: 2, candidateQuotas: { 'genre-search': 2, 'album-deep-cuts': 0 } },
+        }),
+        4
+      );
+
+      expect(deepCuts.getCandidates).not.toHaveBeenCalled();
+      expect(queue).toHaveLength(4);
+      expect(queue.every((item) => !item.track.id.startsWith('album-deep-cuts'))).toBe(true);
+    });
+
+    it('only draws on the seed playlist once the session has one', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const seed = createProvider('seed-playlist');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist, seed]);
+
+      await sourceService.generateQueue(createSession(), 4);
+      expect(seed.getCandidates).not.toHaveBeenCalled();
+
+      await sourceService.generateQueue(
+        createSession({
+          seedPlaylist: {
+            id: 'playlist-1',
+            name: 'Road trip',
+            trackIds: ['seed-1'],
+            topArtists: [],
+            addedBy: 'user-1',
+            addedAt: Date.now(),
+          },
+        }),
+        4
+      );
+      expect(seed.getCandidates).toHaveBeenCalled();
+    });
+
+    it('scores against the seed playlist without crediting it', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+      const participantProfile = { userId: 'user-1', topTracks: [], topArtists: [], topGenres: [], lastUpdated: 0 };
+      const seedProfile = { userId: 'playlist:playlist-1', topTracks: ['seed-1'], topArtists: [], topGenres: [], lastUpdated: 0 };
+      vi.mocked(scoreTracks).mockImplementationOnce((tracks) =>
+        tracks.map((track) => ({ track, score: 1, reasons: [], matchedUserIds: ['user-1', 'playlist:playlist-1'] }))
+      );
+
+      const queue = await sourceService.generateQueue(
+        createSession({
+          profile: {
+            commonArtists: ['artist-1'],
+            commonGenres: [],
+            tasteProfiles: [participantProfile],
+            seedProfile,
+          },
+        }),
+        2
+      );
+
+      expect(vi.mocked(scoreTracks).mock.calls[0][1]).toEqual([participantProfile, seedProfile]);
+      expect(queue[0].matchedUserIds).toEqual(['user-1']);
+    });
+
+    it("looks candidates up in the session's market", async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+
+      await sourceService.generateQueue(createSession({ market: 'BR' }), 2);
+
+      expect(vi.mocked(artist.getCandidates).mock.calls[0][0].market).toBe('BR');
+    });
+
+    it('falls back to the default market', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+
+      await sourceService.generateQueue(createSession(), 2);
+
+      expect(vi.mocked(artist.getCandidates).mock.calls[0][0].market).toBe('US');
+    });
+  });
+
+  describe('room poll bias', () => {
+    const createProvider = (source: CandidateSource): CandidateProvider => ({
+      source,
+      getCandidates: vi.fn(async (_context, count: number) =>
+        Array.from({ length: count }, (_, i) => createMockSpotifyTrack({ id: `${source}-${i}` }))
+      ),
+    });
+
+    const createSession = (overrides = {}) =>
+      createMockSession({
+        profile: { commonArtists: ['artist-1'], commonGenres: ['rock', 'house'], tasteProfiles: [] },
+        queue: [],
+        playedTracks: [],
+        ...overrides,
+      });
+
+    it('searches and boosts the genre the room voted for', async () => {
+      const genre = createProvider('genre-search');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [genre]);
+
+      await sourceService.generateQueue(
+        createSession({ vibeBias: { id: 'option-1', kind: 'genre', label: 'house', genre: 'house' } }),
+        2
+      );
+
+      expect(vi.mocked(genre.getCandidates).mock.calls[0][0].profile.commonGenres).toEqual(['house', 'rock']);
+      expect(vi.mocked(scoreTracks).mock.calls[0][5]).toMatchObject({ vibeGenre: 'house' });
+    });
+
+    it('sequences along the arc the room voted for', async () => {
+      vi.mocked(SpotifyService.prototype.searchTracksByArtist).mockResolvedValue([
+        createMockSpotifyTrack({ id: 'upbeat-candidate' }),
+        createMockSpotifyTrack({ id: 'chill-candidate' }),
+      ]);
+      const featureService = new QueueGenerationService(
+        TEST_ACCESS_TOKEN,
+        new StaticAudioFeaturesProvider(fixtureFeatures as AudioFeatures[])
+      );
+      const stable = ['stable-1', 'stable-2', 'stable-3'].map((id, position): QueueItem => ({
+        track: createMockSpotifyTrack({ id }),
+        position,
+        addedBy: 'algorithm',
+        addedAt: Date.now(),
+        isStable: true,
+      }));
+
+      const queue = await featureService.generateQueue(
+        createSession({
+          settings: { voteToSkip: true, skipThreshold: 2, energyArc: 'peak-and-cooldown' },
+          vibeBias: { id: 'option-1', kind: 'energy-arc', label: 'Warm-up', energyArc: 'warm-up' },
+          queue: stable,
+        }),
+        2
+      );
+
+      expect(queue.map((item) => item.track.id)).toEqual(['chill-candidate', 'upbeat-candidate']);
+    });
+
+    it('leads with the track the room voted for', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+      const track = createMockSpotifyTrack({ id: 'voted-track' });
+
+      const queue = await sourceService.generateQueue(
+        createSession({ vibeBias: { id: 'option-1', kind: 'track', label: 'Voted', track } }),
+        3
+      );
+
+      expect(queue).toHaveLength(3);
+      expect(queue[0]).toMatchObject({ track: { id: 'voted-track' }, addedBy: 'algorithm', isStable: true });
+    });
+
+    it('does not also queue the voted track as a candidate', async () => {
+      const track = createMockSpotifyTrack({ id: 'voted-track' });
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [{
+        source: 'artist-top-tracks',
+        getCandidates: vi.fn(async () => [track, createMockSpotifyTrack({ id: 'other-track' })]),
+      }]);
+
+      const queue = await sourceService.generateQueue(
+        createSession({ vibeBias: { id: 'option-1', kind: 'track', label: 'Voted', track } }),
+        3
+      );
+
+      expect(queue.map((item) => item.track.id)).toEqual(['voted-track', 'other-track']);
+    });
+
+    it('moves a voted track already further down the queue up, keeping who added it', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+      const track = createMockSpotifyTrack({ id: 'voted-track' });
+      const existingQueue = ['stable-1', 'stable-2', 'stable-3', 'voted-track'].map((id, position): QueueItem => ({
+        track: id === 'voted-track' ? track : createMockSpotifyTrack({ id }),
+        position,
+        addedBy: id === 'voted-track' ? 'guest-1' : 'algorithm',
+        addedAt: Date.now(),
+        isStable: position < 3,
+      }));
+
+      const queue = await sourceService.generateQueue(
+        createSession({
+          vibeBias: { id: 'option-1', kind: 'track', label: 'Voted', track },
+          queue: existingQueue,
+        }),
+        3
+      );
+      const merged = sourceService.mergeWithStableQueue(existingQueue, queue);
+
+      expect(queue[0]).toMatchObject({ track: { id: 'voted-track' }, addedBy: 'guest-1' });
+      expect(merged.filter((item) => item.track.id === 'voted-track')).toHaveLength(1);
+      expect(merged[3].track.id).toBe('voted-track');
+    });
+
+    it('leaves out a voted track that has already played', async () => {
+      const artist = createProvider('artist-top-tracks');
+      const sourceService = new QueueGenerationService(TEST_ACCESS_TOKEN, new StaticAudioFeaturesProvider([]), [artist]);
+      const track = createMockSpotifyTrack({ id: 'voted-track' });
+
+      const queue = await sourceService.generateQueue(
+        createSession({
+          vibeBias: { id: 'option-1', kind: 'track', label: 'Voted', track },
+          playedTracks: ['voted-track'],
+        }),
+        3
+      );
+
+      expect(queue.map((item) => item.track.id)).not.toContain('voted-track');
+      expect(queue).toHaveLength(3);
+    });
+  });
+
+  describe('detectMarket', () => {
+    it("returns the account's market", async () => {
+      vi.mocked(SpotifyService.prototype.getUserMarket).mockResolvedValue('FR');
+
+      expect(await service.detectMarket()).toBe('FR');
+    });
+
+    it('returns null when the lookup fails', async () => {
+      vi.mocked(SpotifyService.prototype.getUserMarket).mockRejectedValue(new Error('Forbidden'));
+
+      expect(await service.detectMarket()).toBeNull();
+    });
+  });
+
   describe('mergeWithStableQueue', () => {
     it('preserves first 3 tracks from existing queue', () => {
       const existingQueue: QueueItem[] = Array.from({ length: 5 }, (_, i) => ({
@@ -266,6 +598,83 @@ describe('QueueGenerationService', () => {
       expect(merged.every((item) => item.isStable)).toBe(true);
     });
 
+    it('keeps upcoming tracks people picked ahead of the new tracks', () => {
+      const existingQueue: QueueItem[] = Array.from({ length: 6 }, (_, i) => ({
+        track: createMockSpotifyTrack({ id: `existing-${i}` }),
+        position: i,
+        addedBy: i === 4 ? 'guest-1' : 'algorithm',
+        addedAt: Date.now(),
+        isStable: i < 3,
+      }));
+
+      const newQueue: QueueItem[] = ['new-0', 'existing-1', 'new-1'].map((id, i) => ({
+        track: createMockSpotifyTrack({ id }),
+        position: i,
+        addedBy: 'algorithm',
+        addedAt: Date.now(),
+        isStable: false,
+      }));
+
+      const merged = service.mergeWithStableQueue(existingQueue, newQueue);
+
+      expect(merged.map((item) => item.track.id)).toEqual([
+        'existing-0', 'existing-1', 'existing-2', 'existing-4', 'new-0', 'new-1',
+      ]);
+      expect(merged[3]).toMatchObject({ addedBy: 'guest-1', position: 3, isStable: false });
+    });
+
+    it('lets the new queue place a picked track it brings back', () => {
+      const existingQueue: QueueItem[] = Array.from({ length: 5 }, (_, i) => ({
+        track: createMockSpotifyTrack({ id: `existing-${i}` }),
+        position: i,
+        addedBy: i === 4 ? 'guest-1' : 'algorithm',
+        addedAt: 1000 + i,
+        isStable: i < 3,
+      }));
+
+      const newQueue: QueueItem[] = ['new-0', 'existing-4', 'new-1'].map((id, i) => ({
+        track: createMockSpotifyTrack({ id }),
+        position: i,
+        addedBy: 'algorithm',
+        addedAt: 2000,
+        isStable: false,
+      }));
+
+      const merged = service.mergeWithStableQueue(existingQueue, newQueue);
+
+      expect(merged.map((item) => item.track.id)).toEqual([
+        'existing-0', 'existing-1', 'existing-2', 'new-0', 'existing-4', 'new-1',
+      ]);
+      expect(merged[4]).toMatchObject({ addedBy: 'guest-1', addedAt: 1004, position: 4 });
+    });
+
+    it('keeps voted-up tracks and lets voted-down ones go', () => {
+      const existingQueue: QueueItem[] = Array.from({ length: 6 }, (_, i) => ({
+        track: createMockSpotifyTrack({ id: `existing-${i}` }),
+        position: i,
+        addedBy: 'algorithm',
+        addedAt: Date.now(),
+        isStable: i < 3,
+      }));
+
+      const newQueue: QueueItem[] = [{
+        track: createMockSpotifyTrack({ id: 'new-0' }),
+        position: 0,
+        addedBy: 'algorithm',
+        addedAt: Date.now(),
+        isStable: false,
+      }];
+
+      const merged = service.mergeWithStableQueue(existingQueue, newQueue, [
+        { userId: 'user-1', trackId: 'existing-4', type: 'up', timestamp: 0 },
+        { userId: 'user-1', trackId: 'existing-5', type: 'down', timestamp: 0 },
+      ]);
+
+      expect(merged.map((item) => item.track.id)).toEqual([
+        'existing-0', 'existing-1', 'existing-2', 'existing-4', 'new-0',
+      ]);
+    });
+
     it('marks exactly 3 stable tracks when existing queue has fewer than 3 items', () => {
       // Scenario: User played first track, queue now has 2 tracks, auto-repopulate triggers
       const existingQueue: QueueItem[] = Array.from({ length: 2 }, (_, i) => ({
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TEST_ACCESS_TOKEN } from './session.service.setup';
+import { SessionService } from '@/lib/services/session.service';
+import { RedisStore } from '@/lib/session/redis-store';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+
+vi.mock('ioredis', async () => {
+  const RedisMock = (await import('ioredis-mock')).default;
+  return { default: RedisMock };
+});
+
+// The mock keeps separate data per port, so each store starts empty
+let redisPort = 26379;
+
+describe('SessionService - concurrent writes', () => {
+  let store: RedisStore;
+  let service: SessionService;
+
+  const like = (userId: string) =>
+    store.update('session-1', (s) => {
+      s.votes.like.push({ userId, trackId: 'track-1', timestamp: Date.now() });
+    });
+
+  // Lands a like after the service has read the session but before it writes
+  const likeDuringRead = (method: 'get' | 'getByCode') => {
+    const read = store[method].bind(store);
+    vi.spyOn(store, method).mockImplementationOnce(async (id: string) => {
+      const session = await read(id);
+      await like('guest-1');
+      return session;
+    });
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = new RedisStore(`redis://localhost:${redisPort++}`);
+    service = new SessionService(store, TEST_ACCESS_TOKEN);
+
+    await store.set('session-1', createMockSession({
+      id: 'session-1',
+      code: 'ABC123',
+      hostId: 'host-1',
+      djs: ['host-1'],
+      participants: [
+        createMockParticipant({ userId: 'host-1', isHost: true, isDJ: true }),
+        createMockParticipant({ userId: 'guest-1' }),
+      ],
+    }));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a like that lands while a participant joins', async () => {
+    likeDuringRead('getByCode');
+
+    await service.joinSession('ABC123', 'user-2', 'User 2');
+
+    const stored = await store.get('session-1');
+    expect(stored?.participants.map((p) => p.userId)).toContain('user-2');
+    expect(stored?.votes.like).toEqual([expect.objectContaining({ userId: 'guest-1' })]);
+  });
+
+  it('keeps both when a join and a like race', async () => {
+    await Promise.all([
+      service.joinSession('ABC123', 'user-2', 'User 2'),
+      like('guest-1'),
+      like('host-1'),
+    ]);
+
+    const stored = await store.get('session-1');
+    expect(stored?.participants.map((p) => p.userId)).toContain('user-2');
+    expect(stored?.votes.like).toHaveLength(2);
+  });
+
+  it('keeps a like that lands while a participant leaves', async () => {
+    likeDuringRead('get');
+
+    await service.leaveSession('session-1', 'host-1');
+
+    const stored = await store.get('session-1');
+    expect(stored?.participants.map((p) => p.userId)).toEqual(['guest-1']);
+    expect(stored?.votes.like).toEqual([expect.objectContaining({ userId: 'guest-1' })]);
+  });
+
+  it('keeps a like that lands while the host changes settings or DJs', async () => {
+    likeDuringRead('get');
+    await service.updateSettings('session-1', 'host-1', { voteToSkip: false });
+    likeDuringRead('get');
+    await service.manageDJ('session-1', 'host-1', 'guest-1', 'add');
+
+    const stored = await store.get('session-1');
+    expect(stored?.settings.voteToSkip).toBe(false);
+    expect(stored?.djs).toEqual(['host-1', 'guest-1']);
+    expect(stored?.votes.like).toHaveLength(2);
+  });
+});
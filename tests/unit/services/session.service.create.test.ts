@@ -1,5 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { setupSessionServiceTest } from './session.service.setup';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { TasteAnalysisService } from '@/lib/services/taste-analysis.service';
+import { createMockSpotifyPlaylist, createMockSpotifyTrack } from '../../factories/spotify.factory';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+import { createSessionSnapshot } from '@/lib/session/snapshot';
 
 describe('SessionService - createSession', () => {
   const { getStore, getService } = setupSessionServiceTest();
@@ -21,7 +26,9 @@ describe('SessionService - createSession', () => {
     });
     expect(session.settings).toEqual({
       voteToSkip: true,
-      skipThreshold: 1, // Math.ceil(1/2) = 1
+      skipThreshold: 1,
+      skipThresholdMode: 'percent-present',
+      skipThresholdPercent: 50,
     });
   });
 
@@ -36,7 +43,11 @@ describe('SessionService - createSession', () => {
       settings: customSettings,
     });
 
-    expect(session.settings).toEqual(customSettings);
+    expect(session.settings).toEqual({
+      ...customSettings,
+      skipThresholdMode: 'percent-present',
+      skipThresholdPercent: 50,
+    });
   });
 
   it('creates a session with custom code', async () => {
@@ -119,4 +130,155 @@ describe('SessionService - createSession', () => {
     const storedSession = await store.get(session.id);
     expect(storedSession).toEqual(session);
   });
+
+  it('seeds the queue from the first tracks of a playlist', async () => {
+    const service = getService();
+    const tracks = ['a', 'b', 'c', 'd'].map((id) => createMockSpotifyTrack({ id }));
+    vi.mocked(SpotifyService.prototype.getPlaylist).mockResolvedValueOnce(
+      createMockSpotifyPlaylist({ id: 'playlist-1', name: 'Road trip' })
+    );
+    vi.mocked(SpotifyService.prototype.getPlaylistTracks).mockResolvedValueOnce(tracks);
+
+    const session = await service.createSession('host-123', 'Host Name', { seedPlaylistId: 'playlist-1' });
+
+    expect(session.seedPlaylist).toMatchObject({
+      id: 'playlist-1',
+      name: 'Road trip',
+      trackIds: ['a', 'b', 'c', 'd'],
+      addedBy: 'host-123',
+    });
+    expect(session.queue.map((item) => item.track.id)).toEqual(['a', 'b', 'c']);
+    expect(session.queue.every((item) => item.isStable && item.addedBy === 'host-123')).toBe(true);
+  });
+
+  it('does not create a session from a playlist without playable tracks', async () => {
+    const service = getService();
+    const store = getStore();
+    vi.mocked(SpotifyService.prototype.getPlaylist).mockResolvedValueOnce(createMockSpotifyPlaylist());
+    vi.mocked(SpotifyService.prototype.getPlaylistTracks).mockResolvedValueOnce([]);
+
+    await expect(
+      service.createSession('host-123', 'Host Name', { seedPlaylistId: 'playlist-1' })
+    ).rejects.toThrow('The playlist has no playable tracks');
+    expect(await store.get('test-session-id')).toBeNull();
+  });
+});
+
+describe('SessionService - exportSession', () => {
+  const { getStore, getService } = setupSessionServiceTest();
+
+  it('exports a snapshot of the session for the host', async () => {
+    const session = createMockSession({ id: 'session-1', hostId: 'host-123', version: 4 });
+    await getStore().set('session-1', session);
+
+    const snapshot = await getService().exportSession('session-1', session.hostId);
+
+    expect(snapshot.session.id).toBe('session-1');
+    expect(snapshot.session).not.toHaveProperty('version');
+  });
+
+  it('rejects anyone but the host', async () => {
+    await getStore().set('session-1', createMockSession({ id: 'session-1' }));
+
+    await expect(getService().exportSession('session-1', 'guest-1'))
+      .rejects.toThrow('Only the host can export the session');
+  });
+
+  it('throws when the session does not exist', async () => {
+    await expect(getService().exportSession('missing', 'host-123'))
+      .rejects.toThrow('Session not found');
+  });
+});
+
+describe('SessionService - importSession', () => {
+  const { getStore, getService } = setupSessionServiceTest();
+
+  const createSnapshot = () => {
+    const oldHost = createMockParticipant({ userId: 'old-host', isHost: true, isDJ: true });
+    const guest = createMockParticipant({ userId: 'guest-1' });
+    const track = createMockSpotifyTrack({ id: 'track-1' });
+
+    return createSessionSnapshot(createMockSession({
+      id: 'old-session',
+      code: 'OLD999',
+      hostId: 'old-host',
+      participants: [oldHost, guest],
+      djs: ['old-host'],
+      deviceOwnerId: 'old-host',
+      activeDeviceId: 'device-1',
+      activeDeviceName: 'Living Room',
+      queue: [{ track, position: 0, addedBy: 'system', addedAt: 1000, isStable: true }],
+      playedTracks: ['track-0'],
+      currentPlay: { id: 'play-1', trackId: 'track-0', startedAt: 2000 },
+      votes: {
+        skip: [{ userId: 'guest-1', trackId: 'track-0', playId: 'play-1', timestamp: 2500 }],
+        like: [{ userId: 'guest-1', trackId: 'track-0', timestamp: 2500 }],
+      },
+      createdAt: 1000,
+    }));
+  };
+
+  it('recreates the session under a new id and code', async () => {
+    const session = await getService().importSession(createSnapshot(), 'importer', 'Importer');
+
+    expect(session.id).toBe('test-session-id');
+    expect(session.code).toBe('ABC123');
+    expect(session.queue.map((item) => item.track.id)).toEqual(['track-1']);
+    expect(session.playedTracks).toEqual(['track-0']);
+    expect(session.createdAt).toBe(1000);
+    expect(await getStore().get('test-session-id')).toEqual(session);
+  });
+
+  it('makes the importer the host and device owner', async () => {
+    const session = await getService().importSession(createSnapshot(), 'importer', 'Importer');
+
+    expect(session.hostId).toBe('importer');
+    expect(session.deviceOwnerId).toBe('importer');
+    expect(session.activeDeviceId).toBeUndefined();
+    expect(session.participants[0]).toMatchObject({ userId: 'importer', name: 'Importer', isHost: true, isDJ: true });
+    expect(session.djs).toEqual(['importer']);
+  });
+
+  it('starts with nothing playing and no pending skip votes', async () => {
+    const session = await getService().importSession(createSnapshot(), 'importer', 'Importer');
+
+    expect(session.currentPlay).toBeUndefined();
+    expect(session.votes).toEqual({
+      skip: [],
+      like: [{ userId: 'guest-1', trackId: 'track-0', timestamp: 2500 }],
+    });
+  });
+
+  it('drops the other participants and their taste profiles', async () => {
+    const snapshot = createSnapshot();
+    snapshot.session.profile = {
+      commonArtists: ['artist-1'],
+      commonGenres: ['house'],
+      tasteProfiles: [{ userId: 'guest-1', topTracks: [], topArtists: [], topGenres: ['house'], lastUpdated: 1000 }],
+    };
+
+    const session = await getService().importSession(snapshot, 'importer', 'Importer');
+
+    expect(session.participants.map((p) => p.userId)).toEqual(['importer']);
+    expect(session.profile).toBeUndefined();
+    expect(await getStore().getByUserId('guest-1')).toEqual([]);
+  });
+
+  it('rebuilds the taste profile from the importer alone', async () => {
+    const session = await getService().importSession(createSnapshot(), 'importer', 'Importer');
+    await vi.waitFor(() => {
+      expect(TasteAnalysisService.prototype.generateSessionProfile).toHaveBeenCalled();
+    });
+
+    const [participants] = vi.mocked(TasteAnalysisService.prototype.generateSessionProfile).mock.calls[0];
+    expect(participants).toEqual(session.participants);
+  });
+
+  it('takes an importer who was already a participant in as host', async () => {
+    const session = await getService().importSession(createSnapshot(), 'guest-1', 'Guest');
+
+    expect(session.participants).toHaveLength(1);
+    expect(session.participants[0]).toMatchObject({ userId: 'guest-1', isHost: true, isDJ: true });
+    expect(session.djs).toEqual(['guest-1']);
+  });
 });
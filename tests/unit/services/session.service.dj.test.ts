@@ -1,6 +1,10 @@
-import { describe, it, expect } from 'vitest';
-import { setupSessionServiceTest } from './session.service.setup';
+import { describe, it, expect, vi } from 'vitest';
+import { setupSessionServiceTest, TEST_ACCESS_TOKEN } from './session.service.setup';
+import { TokenVault } from '@/lib/session/token-vault';
 import { createMockSession } from '../../factories/session.factory';
+import { SpotifyService } from '@/lib/services/spotify.service';
+import { TasteAnalysisService } from '@/lib/services/taste-analysis.service';
+import { createMockSpotifyPlaylist, createMockSpotifyTrack } from '../../factories/spotify.factory';
 
 describe('SessionService - DJ Management', () => {
   const { getStore, getService } = setupSessionServiceTest();
@@ -84,6 +88,80 @@ describe('SessionService - DJ Management', () => {
     });
   });
 
+  describe('setSeedPlaylist', () => {
+    const mockPlaylist = (trackIds: string[]) => {
+      vi.mocked(SpotifyService.prototype.getPlaylist).mockResolvedValueOnce(
+        createMockSpotifyPlaylist({ id: 'playlist-1', name: 'Road trip' })
+      );
+      vi.mocked(SpotifyService.prototype.getPlaylistTracks).mockResolvedValueOnce(
+        trackIds.map((id) => createMockSpotifyTrack({ id }))
+      );
+    };
+
+    it('lets a DJ seed an empty queue from a playlist', async () => {
+      const service = getService();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+      await service.manageDJ(session.id, 'host-123', 'user-456', 'add');
+      mockPlaylist(['a', 'b', 'c', 'd']);
+
+      const updated = await service.setSeedPlaylist(session.id, 'user-456', 'playlist-1');
+
+      expect(updated.seedPlaylist).toMatchObject({ id: 'playlist-1', addedBy: 'user-456' });
+      expect(updated.queue.map((item) => item.track.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves a queue that is already playing alone', async () => {
+      const service = getService();
+      const store = getStore();
+      const existingQueue = [
+        { track: createMockSpotifyTrack({ id: 'queued' }), position: 0, addedBy: 'algorithm', addedAt: Date.now(), isStable: true },
+      ];
+      await store.set('session-1', createMockSession({ id: 'session-1', djs: ['host-123'], queue: existingQueue }));
+      mockPlaylist(['a', 'b']);
+
+      const updated = await service.setSeedPlaylist('session-1', 'host-123', 'playlist-1');
+
+      expect(updated.seedPlaylist?.trackIds).toEqual(['a', 'b']);
+      expect(updated.queue.map((item) => item.track.id)).toEqual(['queued']);
+    });
+
+    it('clears the seed playlist', async () => {
+      const service = getService();
+      mockPlaylist(['a']);
+      const session = await service.createSession('host-123', 'Host Name', { seedPlaylistId: 'playlist-1' });
+
+      const updated = await service.setSeedPlaylist(session.id, 'host-123', null);
+
+      expect(updated.seedPlaylist).toBeUndefined();
+    });
+
+    it('throws error when a non-DJ changes the seed playlist', async () => {
+      const service = getService();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+
+      await expect(
+        service.setSeedPlaylist(session.id, 'user-456', 'playlist-1')
+      ).rejects.toThrow('Only DJs can change the seed playlist');
+    });
+
+    it('adds the seed playlist to the session profile', async () => {
+      const service = getService();
+      mockPlaylist(['a', 'b']);
+      const session = await service.createSession('host-123', 'Host Name', { seedPlaylistId: 'playlist-1' });
+      vi.mocked(TasteAnalysisService.prototype.generateSessionProfile).mockClear();
+
+      await service.updateSessionProfile(session.id);
+
+      expect(TasteAnalysisService.prototype.generateSessionProfile).toHaveBeenCalledWith(
+        session.participants,
+        session.settings,
+        expect.objectContaining({ userId: 'playlist:playlist-1', topTracks: ['a', 'b'] })
+      );
+    });
+  });
+
   describe('isDJ', () => {
     it('returns true for DJ', () => {
       const service = getService();
@@ -99,4 +177,43 @@ describe('SessionService - DJ Management', () => {
       expect(service.isDJ(session, 'other-user')).toBe(false);
     });
   });
+
+  describe('getPlaybackAccessToken', () => {
+    it('defaults the device owner to the host', () => {
+      const service = getService();
+      const session = createMockSession({ hostId: 'host-123', deviceOwnerId: undefined });
+
+      expect(service.getDeviceOwnerId(session)).toBe('host-123');
+    });
+
+    it("uses the requester's own token when they own the device", async () => {
+      const service = getService();
+      const session = createMockSession({ hostId: 'host-123', deviceOwnerId: 'host-123' });
+
+      expect(await service.getPlaybackAccessToken(session, 'host-123')).toBe(TEST_ACCESS_TOKEN);
+    });
+
+    it("uses the device owner's vaulted token for other DJs", async () => {
+      const service = getService();
+      const session = createMockSession({ hostId: 'host-123', djs: ['host-123', 'dj-456'] });
+      const getAccessToken = vi.spyOn(TokenVault.prototype, 'getAccessToken').mockResolvedValue('host-token');
+
+      expect(await service.getPlaybackAccessToken(session, 'dj-456')).toBe('host-token');
+      expect(getAccessToken).toHaveBeenCalledWith('host-123');
+
+      getAccessToken.mockRestore();
+    });
+
+    it("throws when the device owner's token is unavailable", async () => {
+      const service = getService();
+      const session = createMockSession({ hostId: 'host-123' });
+      const getAccessToken = vi.spyOn(TokenVault.prototype, 'getAccessToken').mockResolvedValue(null);
+
+      await expect(service.getPlaybackAccessToken(session, 'dj-456')).rejects.toThrow(
+        'The host needs to sign in again before playback can be controlled'
+      );
+
+      getAccessToken.mockRestore();
+    });
+  });
 });
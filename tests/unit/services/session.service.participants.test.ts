@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { setupSessionServiceTest } from './session.service.setup';
 import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import { closeSession } from '@/lib/session-lifecycle';
 
 describe('SessionService - Participants', () => {
   const { getStore, getService } = setupSessionServiceTest();
@@ -25,19 +27,17 @@ describe('SessionService - Participants', () => {
       });
     });
 
-    it('updates skip threshold when participant joins', async () => {
+    it('leaves the skip threshold settings alone when participant joins', async () => {
       const service = getService();
       const store = getStore();
       const session = await service.createSession('host-123', 'Host Name');
-      expect(session.settings.skipThreshold).toBe(1); // Math.ceil(1/2)
 
       await service.joinSession(session.code, 'user-2', 'User 2');
-      const updated1 = await store.get(session.id);
-      expect(updated1?.settings.skipThreshold).toBe(1); // Math.ceil(2/2)
-
       await service.joinSession(session.code, 'user-3', 'User 3');
-      const updated2 = await store.get(session.id);
-      expect(updated2?.settings.skipThreshold).toBe(2); // Math.ceil(3/2)
+
+      // The threshold is worked out from the participants when it's read
+      const updated = await store.get(session.id);
+      expect(updated?.settings).toEqual(session.settings);
     });
 
     it('does not add duplicate participant', async () => {
@@ -73,6 +73,38 @@ describe('SessionService - Participants', () => {
       expect(updatedSession?.participants[0].userId).toBe('host-123');
     });
 
+    it('hands playback to the new host when the device owner leaves', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+      await store.update(session.id, (s) => {
+        s.activeDeviceId = 'host-device';
+      });
+
+      await service.leaveSession(session.id, 'host-123');
+
+      const updatedSession = await store.get(session.id);
+      expect(updatedSession?.deviceOwnerId).toBe('user-456');
+      expect(updatedSession?.activeDeviceId).toBeUndefined();
+    });
+
+    it('keeps the active device when another participant leaves', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+      await store.update(session.id, (s) => {
+        s.activeDeviceId = 'host-device';
+      });
+
+      await service.leaveSession(session.id, 'user-456');
+
+      const updatedSession = await store.get(session.id);
+      expect(updatedSession?.deviceOwnerId).toBe('host-123');
+      expect(updatedSession?.activeDeviceId).toBe('host-device');
+    });
+
     it('removes participant votes when they leave', async () => {
       const service = getService();
       const store = getStore();
@@ -96,6 +128,56 @@ describe('SessionService - Participants', () => {
       expect(updatedSession?.votes.skip).toHaveLength(0);
     });
 
+    it('drops pending track requests when they leave', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+
+      const storedSession = await store.get(session.id);
+      if (storedSession) {
+        storedSession.trackRequests = [
+          { id: 'request-1', track: createMockSpotifyTrack(), requestedBy: 'user-456', requestedAt: Date.now() },
+          { id: 'request-2', track: createMockSpotifyTrack(), requestedBy: 'host-123', requestedAt: Date.now() },
+        ];
+        await store.set(session.id, storedSession);
+      }
+
+      await service.leaveSession(session.id, 'user-456');
+
+      const updatedSession = await store.get(session.id);
+      expect(updatedSession?.trackRequests?.map((r) => r.id)).toEqual(['request-2']);
+    });
+
+    it('takes back their pick on an open poll', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+
+      await store.update(session.id, (s) => {
+        s.poll = {
+          id: 'poll-1',
+          question: 'What next?',
+          options: [
+            { id: 'dance', kind: 'genre', label: 'dance', genre: 'dance' },
+            { id: 'chill', kind: 'genre', label: 'chill', genre: 'chill' },
+          ],
+          votes: [
+            { userId: 'user-456', optionId: 'dance', timestamp: Date.now() },
+            { userId: 'host-123', optionId: 'chill', timestamp: Date.now() },
+          ],
+          createdBy: 'host-123',
+          createdAt: Date.now(),
+        };
+      });
+
+      await service.leaveSession(session.id, 'user-456');
+
+      const updatedSession = await store.get(session.id);
+      expect(updatedSession?.poll?.votes.map((v) => v.userId)).toEqual(['host-123']);
+    });
+
     it('deletes session when last participant leaves', async () => {
       const service = getService();
       const store = getStore();
@@ -105,6 +187,19 @@ describe('SessionService - Participants', () => {
 
       const deletedSession = await store.get(session.id);
       expect(deletedSession).toBeNull();
+      expect(closeSession).toHaveBeenCalledWith(session.id, store, 'everyone-left');
+    });
+
+    it('remembers participants who left for the recap', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+      await service.joinSession(session.code, 'user-456', 'User Name');
+
+      await service.leaveSession(session.id, 'user-456');
+
+      const updatedSession = await store.get(session.id);
+      expect(updatedSession?.pastParticipants?.map((p) => p.userId)).toEqual(['user-456']);
     });
 
     it('transfers host when host leaves', async () => {
@@ -137,20 +232,17 @@ describe('SessionService - Participants', () => {
       expect(updatedSession?.djs).not.toContain('user-456');
     });
 
-    it('updates skip threshold when participant leaves', async () => {
+    it('leaves the skip threshold settings alone when participant leaves', async () => {
       const service = getService();
       const store = getStore();
       const session = await service.createSession('host-123', 'Host Name');
       await service.joinSession(session.code, 'user-2', 'User 2');
       await service.joinSession(session.code, 'user-3', 'User 3');
 
-      const before = await store.get(session.id);
-      expect(before?.settings.skipThreshold).toBe(2); // Math.ceil(3/2)
-
       await service.leaveSession(session.id, 'user-3');
 
       const after = await store.get(session.id);
-      expect(after?.settings.skipThreshold).toBe(1); // Math.ceil(2/2)
+      expect(after?.settings).toEqual(session.settings);
     });
 
     it('throws error for invalid session', async () => {
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { setupSessionServiceTest } from './session.service.setup';
 import { createMockSession } from '../../factories/session.factory';
+import { closeSession } from '@/lib/session-lifecycle';
 
 describe('SessionService - Settings & Admin', () => {
   const { getStore, getService } = setupSessionServiceTest();
@@ -18,6 +19,8 @@ describe('SessionService - Settings & Admin', () => {
       expect(updated.settings).toEqual({
         voteToSkip: false,
         skipThreshold: 10,
+        skipThresholdMode: 'percent-present',
+        skipThresholdPercent: 50,
       });
     });
 
@@ -62,6 +65,7 @@ describe('SessionService - Settings & Admin', () => {
 
       const deleted = await store.get(session.id);
       expect(deleted).toBeNull();
+      expect(closeSession).toHaveBeenCalledWith(session.id, store, 'deleted-by-host');
     });
 
     it('throws error when non-host tries to delete', async () => {
@@ -81,6 +85,35 @@ describe('SessionService - Settings & Admin', () => {
     });
   });
 
+  describe('endSession', () => {
+    it('ends the session for everyone when the host asks', async () => {
+      const service = getService();
+      const store = getStore();
+      const session = await service.createSession('host-123', 'Host Name');
+
+      await service.endSession(session.id, 'host-123');
+
+      expect(closeSession).toHaveBeenCalledWith(session.id, store, 'ended-by-host');
+    });
+
+    it('throws error when non-host tries to end the session', async () => {
+      const service = getService();
+      const session = await service.createSession('host-123', 'Host Name');
+
+      await expect(
+        service.endSession(session.id, 'other-user')
+      ).rejects.toThrow('Only the host can end the session');
+      expect(closeSession).not.toHaveBeenCalled();
+    });
+
+    it('throws error for non-existent session', async () => {
+      const service = getService();
+      await expect(
+        service.endSession('invalid-id', 'user-123')
+      ).rejects.toThrow('Session not found');
+    });
+  });
+
   describe('isHost', () => {
     it('returns true for host', () => {
       const service = getService();
@@ -1,16 +1,21 @@
 import { beforeEach, vi } from 'vitest';
 import { SessionService } from '@/lib/services/session.service';
 import { MockSessionStore } from '../../mocks/mock-store';
+import type { SessionStore } from '@/lib/session/store.interface';
 
 // Mock the dependencies
 vi.mock('@/lib/services/taste-analysis.service');
 vi.mock('@/lib/services/queue-generation.service');
+vi.mock('@/lib/services/spotify.service');
 vi.mock('nanoid', () => ({
   nanoid: () => 'test-session-id',
 }));
 vi.mock('@/lib/utils/session-code', () => ({
   generateSessionCode: () => 'ABC123',
 }));
+vi.mock('@/lib/session-lifecycle', () => ({
+  closeSession: vi.fn((sessionId: string, store: SessionStore) => store.delete(sessionId)),
+}));
 
 export const TEST_ACCESS_TOKEN = 'test-token';
 
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SpotifyService } from '@/lib/services/spotify.service';
 import { createSpotifyClient, spotifyRateLimiter } from '@/lib/utils/spotify-client';
-import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import { createMockSpotifyTrack, createMockSpotifyArtist } from '../../factories/spotify.factory';
 import type { SpotifyArtist, AudioFeatures, SpotifyDevice } from '@/types';
 
 // Mock the spotify client
@@ -59,6 +59,16 @@ describe('SpotifyService', () => {
       getAudioFeaturesForTracks: vi.fn(),
       searchTracks: vi.fn(),
       getArtistTopTracks: vi.fn(),
+      getArtistRelatedArtists: vi.fn(),
+      getMe: vi.fn(),
+      getTracks: vi.fn(),
+      getArtistAlbums: vi.fn(),
+      getAlbumTracks: vi.fn(),
+      getUserPlaylists: vi.fn(),
+      getPlaylist: vi.fn(),
+      getPlaylistTracks: vi.fn(),
+      createPlaylist: vi.fn(),
+      addTracksToPlaylist: vi.fn(),
       getMyDevices: vi.fn(),
       play: vi.fn(),
       pause: vi.fn(),
@@ -277,6 +287,41 @@ describe('SpotifyService', () => {
 
       expect(tracks).toHaveLength(5);
     });
+
+    it('looks up top tracks in the given market', async () => {
+      (mockClient.getArtistTopTracks as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { tracks: [] },
+      });
+
+      await service.searchTracksByArtist('artist-1', 10, 'SE');
+
+      expect(mockClient.getArtistTopTracks).toHaveBeenCalledWith('artist-1', 'SE');
+    });
+  });
+
+  describe('getRelatedArtists', () => {
+    it('fetches artists related to an artist', async () => {
+      const mockArtists = [createMockSpotifyArtist({ id: 'artist-2' })];
+
+      (mockClient.getArtistRelatedArtists as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { artists: mockArtists },
+      });
+
+      const artists = await service.getRelatedArtists('artist-1');
+
+      expect(mockClient.getArtistRelatedArtists).toHaveBeenCalledWith('artist-1');
+      expect(artists).toEqual(mockArtists);
+    });
+
+    it('returns empty array when response has no artists', async () => {
+      (mockClient.getArtistRelatedArtists as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: {},
+      });
+
+      const artists = await service.getRelatedArtists('artist-1');
+
+      expect(artists).toEqual([]);
+    });
   });
 
   describe('searchTracksByGenre', () => {
@@ -304,6 +349,229 @@ describe('SpotifyService', () => {
     });
   });
 
+  describe('getUserMarket', () => {
+    it('returns the country of the current user', async () => {
+      (mockClient.getMe as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { id: 'user-1', country: 'DE' },
+      });
+
+      expect(await service.getUserMarket()).toBe('DE');
+    });
+
+    it('returns null when the country is not shared', async () => {
+      (mockClient.getMe as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { id: 'user-1' },
+      });
+
+      expect(await service.getUserMarket()).toBeNull();
+    });
+  });
+
+  describe('getTracks', () => {
+    it('fetches tracks in chunks of 50 and drops unavailable ones', async () => {
+      const trackIds = Array.from({ length: 60 }, (_, i) => `track-${i}`);
+
+      (mockClient.getTracks as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({
+          body: { tracks: trackIds.slice(0, 50).map((id) => createMockSpotifyTrack({ id })) },
+        })
+        .mockResolvedValueOnce({
+          body: { tracks: [createMockSpotifyTrack({ id: 'track-50' }), null] },
+        });
+
+      const tracks = await service.getTracks(trackIds, 'GB');
+
+      expect(mockClient.getTracks).toHaveBeenCalledTimes(2);
+      expect(mockClient.getTracks).toHaveBeenCalledWith(trackIds.slice(50), { market: 'GB' });
+      expect(tracks).toHaveLength(51);
+    });
+  });
+
+  describe('getArtistAlbumIds', () => {
+    it('fetches album IDs for an artist', async () => {
+      (mockClient.getArtistAlbums as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { items: [{ id: 'album-1' }, { id: 'album-2' }] },
+      });
+
+      const albumIds = await service.getArtistAlbumIds('artist-1', 5, 'SE');
+
+      expect(mockClient.getArtistAlbums).toHaveBeenCalledWith('artist-1', {
+        include_groups: 'album',
+        limit: 5,
+        market: 'SE',
+      });
+      expect(albumIds).toEqual(['album-1', 'album-2']);
+    });
+  });
+
+  describe('getAlbumTrackIds', () => {
+    it('fetches track IDs of an album in order', async () => {
+      (mockClient.getAlbumTracks as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { items: [{ id: 'track-1' }, { id: 'track-2' }] },
+      });
+
+      const trackIds = await service.getAlbumTrackIds('album-1');
+
+      expect(mockClient.getAlbumTracks).toHaveBeenCalledWith('album-1', { limit: 50, market: 'US' });
+      expect(trackIds).toEqual(['track-1', 'track-2']);
+    });
+
+    it('returns empty array when album has no tracks', async () => {
+      (mockClient.getAlbumTracks as ReturnType<typeof vi.fn>).mockResolvedValue({ body: {} });
+
+      expect(await service.getAlbumTrackIds('album-1')).toEqual([]);
+    });
+  });
+
+  describe('getUserPlaylists', () => {
+    it("lists the user's playlists", async () => {
+      (mockClient.getUserPlaylists as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: {
+          items: [
+            {
+              id: 'playlist-1',
+              name: 'Road trip',
+              uri: 'spotify:playlist:playlist-1',
+              external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+              images: [{ url: 'https://i.scdn.co/image/1', height: 640, width: 640 }],
+              owner: { id: 'user-1', display_name: 'Alice' },
+              tracks: { total: 42 },
+              collaborative: false,
+            },
+          ],
+        },
+      });
+
+      const playlists = await service.getUserPlaylists();
+
+      expect(mockClient.getUserPlaylists).toHaveBeenCalledWith({ limit: 50 });
+      expect(playlists).toEqual([
+        {
+          id: 'playlist-1',
+          name: 'Road trip',
+          uri: 'spotify:playlist:playlist-1',
+          external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+          images: [{ url: 'https://i.scdn.co/image/1', height: 640, width: 640 }],
+          owner: { id: 'user-1', display_name: 'Alice' },
+          tracks: { total: 42 },
+        },
+      ]);
+    });
+
+    it('returns empty array when items are missing', async () => {
+      (mockClient.getUserPlaylists as ReturnType<typeof vi.fn>).mockResolvedValue({ body: {} });
+
+      expect(await service.getUserPlaylists()).toEqual([]);
+    });
+  });
+
+  describe('getPlaylist', () => {
+    it('fetches playlist details without tracks', async () => {
+      (mockClient.getPlaylist as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: {
+          id: 'playlist-1',
+          name: 'Road trip',
+          uri: 'spotify:playlist:playlist-1',
+          external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+          images: null,
+          owner: { id: 'user-1' },
+          tracks: { total: 3 },
+        },
+      });
+
+      const playlist = await service.getPlaylist('playlist-1');
+
+      expect(mockClient.getPlaylist).toHaveBeenCalledWith('playlist-1', expect.objectContaining({ fields: expect.any(String) }));
+      expect(playlist.images).toEqual([]);
+      expect(playlist.tracks.total).toBe(3);
+    });
+  });
+
+  describe('getPlaylistTracks', () => {
+    it('pages through the playlist, 100 per request', async () => {
+      const pageOne = Array.from({ length: 100 }, (_, i) => ({ track: createMockSpotifyTrack({ id: `track-${i}` }) }));
+      const pageTwo = [{ track: createMockSpotifyTrack({ id: 'track-100' }) }];
+      (mockClient.getPlaylistTracks as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce({ body: { items: pageOne, next: 'https://api.spotify.com/next' } })
+        .mockResolvedValueOnce({ body: { items: pageTwo, next: null } });
+
+      const tracks = await service.getPlaylistTracks('playlist-1', 200, 'SE');
+
+      expect(tracks).toHaveLength(101);
+      expect(mockClient.getPlaylistTracks).toHaveBeenNthCalledWith(1, 'playlist-1', { limit: 100, offset: 0, market: 'SE' });
+      expect(mockClient.getPlaylistTracks).toHaveBeenNthCalledWith(2, 'playlist-1', { limit: 100, offset: 100, market: 'SE' });
+      expect(spotifyRateLimiter.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at the track limit', async () => {
+      const items = Array.from({ length: 50 }, (_, i) => ({ track: createMockSpotifyTrack({ id: `track-${i}` }) }));
+      (mockClient.getPlaylistTracks as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: { items, next: 'https://api.spotify.com/next' },
+      });
+
+      await service.getPlaylistTracks('playlist-1', 50);
+
+      expect(mockClient.getPlaylistTracks).toHaveBeenCalledTimes(1);
+      expect(mockClient.getPlaylistTracks).toHaveBeenCalledWith('playlist-1', { limit: 50, offset: 0 });
+    });
+
+    it('leaves out removed tracks, episodes and local files', async () => {
+      (mockClient.getPlaylistTracks as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: {
+          items: [
+            { track: createMockSpotifyTrack({ id: 'track-1' }) },
+            { track: null },
+            { track: { ...createMockSpotifyTrack({ id: 'episode-1' }), type: 'episode' } },
+            { track: { ...createMockSpotifyTrack({ id: 'local-1' }), is_local: true } },
+          ],
+          next: null,
+        },
+      });
+
+      const tracks = await service.getPlaylistTracks('playlist-1');
+
+      expect(tracks.map((track) => track.id)).toEqual(['track-1']);
+    });
+  });
+
+  describe('createPlaylist', () => {
+    it('creates a private playlist by default', async () => {
+      (mockClient.createPlaylist as ReturnType<typeof vi.fn>).mockResolvedValue({
+        body: {
+          id: 'playlist-1',
+          name: 'Friday',
+          uri: 'spotify:playlist:playlist-1',
+          external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+          tracks: { total: 0 },
+        },
+      });
+
+      const playlist = await service.createPlaylist('Friday', { description: 'Party' });
+
+      expect(mockClient.createPlaylist).toHaveBeenCalledWith('Friday', { description: 'Party', public: false });
+      expect(playlist).toEqual({
+        id: 'playlist-1',
+        name: 'Friday',
+        uri: 'spotify:playlist:playlist-1',
+        external_urls: { spotify: 'https://open.spotify.com/playlist/playlist-1' },
+      });
+      expect(spotifyRateLimiter.execute).toHaveBeenCalled();
+    });
+  });
+
+  describe('addTracksToPlaylist', () => {
+    it('adds tracks in order, 100 per request', async () => {
+      const uris = Array.from({ length: 250 }, (_, i) => `spotify:track:${i}`);
+
+      await service.addTracksToPlaylist('playlist-1', uris);
+
+      expect(mockClient.addTracksToPlaylist).toHaveBeenCalledTimes(3);
+      expect(mockClient.addTracksToPlaylist).toHaveBeenNthCalledWith(1, 'playlist-1', uris.slice(0, 100));
+      expect(mockClient.addTracksToPlaylist).toHaveBeenNthCalledWith(3, 'playlist-1', uris.slice(200));
+      expect(spotifyRateLimiter.execute).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('getDevices', () => {
     it('fetches available devices', async () => {
       const mockDevices = [
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TasteAnalysisService } from '@/lib/services/taste-analysis.service';
 import { SpotifyService } from '@/lib/services/spotify.service';
 import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { TokenVault } from '@/lib/session/token-vault';
 import type { SpotifyArtist, Participant, TasteProfile } from '@/types';
 
 // Mock Spotify service
@@ -10,6 +11,7 @@ vi.mock('@/lib/services/spotify.service');
 describe('TasteAnalysisService', () => {
   let service: TasteAnalysisService;
   let mockSpotifyService: SpotifyService;
+  let mockTokenVault: { getAccessToken: ReturnType<typeof vi.fn> };
   const TEST_ACCESS_TOKEN = 'test-token';
 
   const createMockArtist = (id: string, genres: string[] = []): SpotifyArtist => ({
@@ -27,9 +29,15 @@ describe('TasteAnalysisService', () => {
   });
 
   beforeEach(() => {
-    service = new TasteAnalysisService(TEST_ACCESS_TOKEN);
+    mockTokenVault = { getAccessToken: vi.fn(async (userId: string) => `token-${userId}`) };
+    service = new TasteAnalysisService(TEST_ACCESS_TOKEN, mockTokenVault as unknown as TokenVault);
     mockSpotifyService = new SpotifyService(TEST_ACCESS_TOKEN);
     vi.clearAllMocks();
+
+    // Services acting as participants share the stubbed instance
+    vi.mocked(SpotifyService).mockImplementation(function () {
+      return mockSpotifyService;
+    });
   });
 
   describe('analyzeUserTaste', () => {
@@ -68,9 +76,9 @@ describe('TasteAnalysisService', () => {
       await service.analyzeUserTaste('user-1');
       await service.analyzeUserTaste('user-1');
 
-      // Should only fetch once due to caching
-      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(1);
-      expect(mockSpotifyService.getUserTopArtists).toHaveBeenCalledTimes(1);
+      // Should only fetch once (one call per time range) due to caching
+      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(3);
+      expect(mockSpotifyService.getUserTopArtists).toHaveBeenCalledTimes(3);
     });
 
     it('extracts top genres from artists', async () => {
@@ -91,6 +99,45 @@ describe('TasteAnalysisService', () => {
       expect(profile.topGenres[0]).toBe('rock');
     });
 
+    it('fetches every time range at the requested depth', async () => {
+      vi.spyOn(mockSpotifyService, 'getUserTopTracks').mockResolvedValue([]);
+      vi.spyOn(mockSpotifyService, 'getUserTopArtists').mockResolvedValue([]);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const profile = await service.analyzeUserTaste('user-1', { profileDepth: 50 });
+
+      for (const range of ['short_term', 'medium_term', 'long_term']) {
+        expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledWith(50, range);
+        expect(mockSpotifyService.getUserTopArtists).toHaveBeenCalledWith(50, range);
+      }
+      expect(profile.depth).toBe(50);
+      expect(Object.keys(profile.timeRanges ?? {})).toHaveLength(3);
+    });
+
+    it('blends time ranges as the session prefers', async () => {
+      const artistsByRange: Record<string, SpotifyArtist[]> = {
+        short_term: [createMockArtist('new-favourite', ['hyperpop'])],
+        medium_term: [createMockArtist('new-favourite', ['hyperpop']), createMockArtist('old-favourite', ['folk'])],
+        long_term: [createMockArtist('old-favourite', ['folk'])],
+      };
+
+      vi.spyOn(mockSpotifyService, 'getUserTopTracks').mockResolvedValue([]);
+      vi.spyOn(mockSpotifyService, 'getUserTopArtists').mockImplementation(
+        async (_limit, range) => artistsByRange[range ?? 'medium_term']
+      );
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const recent = await service.analyzeUserTaste('user-1', { tasteBlend: 'recent' });
+      const allTime = await service.analyzeUserTaste('user-1', { tasteBlend: 'all-time' });
+
+      expect(recent.topArtists[0].id).toBe('new-favourite');
+      expect(recent.topGenres[0]).toBe('hyperpop');
+      expect(allTime.topArtists[0].id).toBe('old-favourite');
+      expect(allTime.topGenres[0]).toBe('folk');
+      // The second blend reuses the cached time ranges
+      expect(mockSpotifyService.getUserTopArtists).toHaveBeenCalledTimes(3);
+    });
+
     it('handles artists without genres', async () => {
       const mockTracks = [createMockSpotifyTrack({ id: 'track-1' })];
       const mockArtists = [createMockArtist('artist-1')]; // No genres
@@ -141,6 +188,29 @@ describe('TasteAnalysisService', () => {
       expect(common[0].id).toBe('artist-1');
     });
 
+    it('orders common artists by their blended rank', () => {
+      const profiles: TasteProfile[] = [
+        {
+          userId: 'user-1',
+          topTracks: [],
+          topArtists: [createMockArtist('artist-1'), createMockArtist('artist-2'), createMockArtist('artist-3')],
+          topGenres: [],
+          lastUpdated: Date.now(),
+        },
+        {
+          userId: 'user-2',
+          topTracks: [],
+          topArtists: [createMockArtist('artist-2'), createMockArtist('artist-3'), createMockArtist('artist-1')],
+          topGenres: [],
+          lastUpdated: Date.now(),
+        },
+      ];
+
+      const common = service.findCommonArtists(profiles);
+
+      expect(common.map((a) => a.id)).toEqual(['artist-2', 'artist-1', 'artist-3']);
+    });
+
     it('returns empty array when no common artists', () => {
       const profiles: TasteProfile[] = [
         {
@@ -202,8 +272,8 @@ describe('TasteAnalysisService', () => {
 
       // rock appears in both (100%), should be included
       expect(common).toContain('rock');
-      // indie and jazz only appear in 1 of 2 (50%), should be included (threshold is ceil(2/2) = 1)
-      expect(common.length).toBeGreaterThanOrEqual(1);
+      // indie and jazz only appear in 1 of 2, and common ground needs at least two people
+      expect(common).toEqual(['rock']);
     });
 
     it('sorts genres by frequency', () => {
@@ -268,6 +338,79 @@ describe('TasteAnalysisService', () => {
     });
   });
 
+  describe('findCommonGround', () => {
+    const createProfile = (userId: string, artists: SpotifyArtist[], genres: string[] = []): TasteProfile => ({
+      userId,
+      topTracks: [],
+      topArtists: artists,
+      topGenres: genres,
+      lastUpdated: Date.now(),
+    });
+
+    it('finds artists shared by a majority rather than everyone', async () => {
+      const profiles = [
+        createProfile('user-1', [createMockArtist('artist-1'), createMockArtist('artist-2')]),
+        createProfile('user-2', [createMockArtist('artist-1'), createMockArtist('artist-3')]),
+        createProfile('user-3', [createMockArtist('artist-1'), createMockArtist('artist-2')]),
+        createProfile('user-4', [createMockArtist('artist-4')]),
+      ];
+      vi.spyOn(mockSpotifyService, 'getRelatedArtists').mockResolvedValue([]);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const { commonArtists } = await service.findCommonGround(profiles);
+
+      expect(commonArtists).toEqual(['artist-1', 'artist-2']);
+    });
+
+    it('honours a stricter quorum', async () => {
+      const profiles = [
+        createProfile('user-1', [createMockArtist('artist-1'), createMockArtist('artist-2')]),
+        createProfile('user-2', [createMockArtist('artist-1'), createMockArtist('artist-3')]),
+        createProfile('user-3', [createMockArtist('artist-1'), createMockArtist('artist-2')]),
+        createProfile('user-4', [createMockArtist('artist-4')]),
+      ];
+      vi.spyOn(mockSpotifyService, 'getRelatedArtists').mockResolvedValue([]);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const { commonArtists } = await service.findCommonGround(profiles, { commonGroundQuorum: 0.75 });
+
+      expect(commonArtists).toEqual(['artist-1']);
+    });
+
+    it('expands common ground with related artists', async () => {
+      const profiles = [
+        createProfile('user-1', [createMockArtist('artist-1')]),
+        createProfile('user-2', [createMockArtist('artist-2')]),
+        createProfile('user-3', [createMockArtist('artist-3')]),
+      ];
+      vi.spyOn(mockSpotifyService, 'getRelatedArtists').mockImplementation(async (artistId) =>
+        artistId === 'artist-1' ? [] : [createMockArtist('artist-1')]
+      );
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const { commonArtists } = await service.findCommonGround(profiles);
+
+      expect(mockSpotifyService.getRelatedArtists).toHaveBeenCalledTimes(3);
+      // user-1 lists artist-1, the others like artists related to it
+      expect(commonArtists).toEqual(['artist-1']);
+    });
+
+    it('falls back to direct overlap when related artists are unavailable', async () => {
+      const profiles = [
+        createProfile('user-1', [createMockArtist('artist-1')], ['indie rock']),
+        createProfile('user-2', [createMockArtist('artist-1')], ['indie rock']),
+      ];
+      vi.spyOn(mockSpotifyService, 'getRelatedArtists').mockRejectedValue(new Error('Not found'));
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const ground = await service.findCommonGround(profiles);
+
+      expect(ground.commonArtists).toEqual(['artist-1']);
+      expect(ground.commonGenres).toEqual(['indie rock']);
+    });
+  });
+
   describe('generateSessionProfile', () => {
     it('aggregates participant profiles', async () => {
       const mockTracks = [createMockSpotifyTrack({ id: 'track-1' })];
@@ -289,6 +432,58 @@ describe('TasteAnalysisService', () => {
       expect(profile.commonGenres).toBeDefined();
     });
 
+    it("reads each participant's taste with their own token", async () => {
+      vi.spyOn(mockSpotifyService, 'getUserTopTracks').mockResolvedValue([]);
+      vi.spyOn(mockSpotifyService, 'getUserTopArtists').mockResolvedValue([]);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      await service.generateSessionProfile([createMockParticipant('user-1'), createMockParticipant('user-2')]);
+
+      expect(mockTokenVault.getAccessToken).toHaveBeenCalledWith('user-1');
+      expect(mockTokenVault.getAccessToken).toHaveBeenCalledWith('user-2');
+      expect(SpotifyService).toHaveBeenCalledWith('token-user-1');
+      expect(SpotifyService).toHaveBeenCalledWith('token-user-2');
+      expect(SpotifyService).not.toHaveBeenCalledWith(TEST_ACCESS_TOKEN);
+    });
+
+    it('leaves out participants without a stored token', async () => {
+      const mockArtists = [createMockArtist('artist-1', ['rock'])];
+
+      mockTokenVault.getAccessToken.mockImplementation(async (userId: string) =>
+        userId === 'user-2' ? null : `token-${userId}`
+      );
+      vi.spyOn(mockSpotifyService, 'getUserTopTracks').mockResolvedValue([]);
+      vi.spyOn(mockSpotifyService, 'getUserTopArtists').mockResolvedValue(mockArtists);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+
+      const profile = await service.generateSessionProfile([
+        createMockParticipant('user-1'),
+        createMockParticipant('user-2'),
+      ]);
+
+      expect(profile.tasteProfiles.map((p) => p.userId)).toEqual(['user-1']);
+    });
+
+    it("counts a seed playlist's profile towards common ground", async () => {
+      vi.spyOn(mockSpotifyService, 'getUserTopTracks').mockResolvedValue([]);
+      vi.spyOn(mockSpotifyService, 'getUserTopArtists').mockResolvedValue([createMockArtist('artist-1', ['rock'])]);
+      vi.spyOn(service as never, 'spotifyService' as never, 'get').mockReturnValue(mockSpotifyService as never);
+      const seedProfile = {
+        userId: 'playlist:playlist-1',
+        topTracks: ['seed-1'],
+        topArtists: [createMockArtist('artist-2', ['rock', 'jazz'])],
+        topGenres: ['rock', 'jazz'],
+        lastUpdated: Date.now(),
+      };
+
+      const profile = await service.generateSessionProfile([createMockParticipant('user-1')], {}, seedProfile);
+
+      expect(profile.tasteProfiles.map((p) => p.userId)).toEqual(['user-1']);
+      expect(profile.seedProfile).toBe(seedProfile);
+      // Two profiles now, so only the genre both share is common
+      expect(profile.commonGenres).toEqual(['rock']);
+    });
+
     it('handles single participant', async () => {
       const mockTracks = [createMockSpotifyTrack({ id: 'track-1' })];
       const mockArtists = [createMockArtist('artist-1', ['rock'])];
@@ -307,6 +502,16 @@ describe('TasteAnalysisService', () => {
     });
   });
 
+  describe('analyzeUserTaste without a token', () => {
+    it('throws when the user has no stored token', async () => {
+      mockTokenVault.getAccessToken.mockResolvedValue(null);
+
+      await expect(service.analyzeUserTaste('user-1')).rejects.toThrow(
+        'No Spotify token available for user user-1'
+      );
+    });
+  });
+
   describe('clearCache', () => {
     it('clears cache for specific user', async () => {
       const mockTracks = [createMockSpotifyTrack({ id: 'track-1' })];
@@ -320,8 +525,8 @@ describe('TasteAnalysisService', () => {
       service.clearCache('user-1');
       await service.analyzeUserTaste('user-1');
 
-      // Should fetch twice (once before clear, once after)
-      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(2);
+      // Should fetch twice (once before clear, once after), one call per time range
+      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(6);
     });
 
     it('clears all cache when no userId provided', async () => {
@@ -338,8 +543,8 @@ describe('TasteAnalysisService', () => {
       await service.analyzeUserTaste('user-1');
       await service.analyzeUserTaste('user-2');
 
-      // Should fetch 4 times total (2 before clear, 2 after)
-      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(4);
+      // Should fetch 4 times total (2 before clear, 2 after), one call per time range
+      expect(mockSpotifyService.getUserTopTracks).toHaveBeenCalledTimes(12);
     });
   });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account, Profile } from 'next-auth';
+import type { JWT } from 'next-auth/jwt';
+import { authOptions } from '@/auth';
+
+const mockVault = vi.hoisted(() => ({
+  save: vi.fn(),
+  load: vi.fn(),
+}));
+
+vi.mock('@/lib/session', () => ({
+  getTokenVault: () => mockVault,
+}));
+
+type JwtParams = Parameters<NonNullable<NonNullable<typeof authOptions.callbacks>['jwt']>>[0];
+
+const jwt = (params: Partial<JwtParams>) =>
+  authOptions.callbacks!.jwt!({ token: {}, ...params } as JwtParams);
+
+describe('jwt callback', () => {
+  const signedInToken: JWT = {
+    sub: 'user-1',
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    accessTokenExpires: Date.now() + 3600 * 1000,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockVault.load.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('vaults the tokens at sign-in', async () => {
+    await jwt({
+      token: { sub: 'user-1' },
+      account: { access_token: 'access-token', refresh_token: 'refresh-token', expires_at: 2000000000 } as Account,
+      profile: { id: 'spotify-1' } as Profile,
+    });
+
+    expect(mockVault.save).toHaveBeenCalledWith('user-1', {
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      accessTokenExpires: 2000000000 * 1000,
+    });
+  });
+
+  it('leaves the vault alone while the access token is valid', async () => {
+    const token = await jwt({ token: signedInToken });
+
+    expect(token).toBe(signedInToken);
+    expect(mockVault.save).not.toHaveBeenCalled();
+  });
+
+  it('vaults the tokens after a refresh', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'refreshed-token', expires_in: 3600 }),
+    }));
+
+    await jwt({ token: { ...signedInToken, accessTokenExpires: Date.now() - 1000 } });
+
+    expect(mockVault.save).toHaveBeenCalledTimes(1);
+    expect(mockVault.save).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      accessToken: 'refreshed-token',
+      refreshToken: 'refresh-token',
+    }));
+  });
+});
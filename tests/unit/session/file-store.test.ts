@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, appendFileSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileStore } from '@/lib/session/file-store';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+
+// The store contract is covered by session-store.test.ts; these cover persistence
+describe('FileStore', () => {
+  let dir: string;
+  let stores: FileStore[];
+
+  const openStore = () => {
+    const store = new FileStore(dir);
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'blendroom-file-store-'));
+    stores = [];
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(stores.map((store) => store.close()));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('persistence', () => {
+    it('keeps sessions, indexes and tokens across restarts', async () => {
+      const session = createMockSession({
+        id: 'session-1',
+        code: 'ABC123',
+        participants: [createMockParticipant({ userId: 'user-1', isHost: true, isDJ: true })],
+      });
+      const first = openStore();
+      await first.set('session-1', session);
+      await first.setUserTokens('user-1', 'encrypted');
+      await first.close();
+
+      const second = openStore();
+
+      expect(await second.get('session-1')).toEqual(session);
+      expect(await second.getByCode('ABC123')).toEqual(session);
+      expect(await second.getByUserId('user-1')).toEqual([session]);
+      expect(await second.getUserTokens('user-1')).toBe('encrypted');
+    });
+
+    it('replays updates and deletes from the journal', async () => {
+      const first = openStore();
+      await first.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      await first.set('session-2', createMockSession({ id: 'session-2', code: 'XYZ789' }));
+      await first.update('session-1', (s) => {
+        s.playedTracks.push('track-1');
+      });
+      await first.delete('session-2');
+      await first.close();
+
+      const second = openStore();
+
+      expect((await second.get('session-1'))?.playedTracks).toEqual(['track-1']);
+      expect((await second.get('session-1'))?.version).toBe(1);
+      expect(await second.get('session-2')).toBeNull();
+      expect(await second.getByCode('XYZ789')).toBeNull();
+    });
+
+    it('folds the journal into the snapshot when opened', async () => {
+      const first = openStore();
+      await first.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      await first.close();
+
+      const second = openStore();
+      await second.exists('session-1');
+
+      expect(readFileSync(path.join(dir, 'journal.log'), 'utf8')).toBe('');
+      expect(JSON.parse(readFileSync(path.join(dir, 'sessions.json'), 'utf8')).sessions).toHaveProperty('session-1');
+      expect(existsSync(path.join(dir, 'sessions.json.tmp'))).toBe(false);
+    });
+
+    it('ignores a torn last journal entry', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      const first = openStore();
+      await first.set('session-1', session);
+      await first.close();
+      appendFileSync(path.join(dir, 'journal.log'), '{"op":"set","sessionId":"session-2","sess');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const second = openStore();
+
+      expect(await second.get('session-1')).toEqual(session);
+      expect(await second.get('session-2')).toBeNull();
+    });
+
+    it('refuses to load a journal corrupted before its last entry', async () => {
+      appendFileSync(path.join(dir, 'journal.log'), 'not json\n{"op":"delete","sessionId":"session-1"}\n');
+
+      await expect(openStore().get('session-1')).rejects.toThrow('Corrupt session journal entry at line 1');
+    });
+  });
+
+  describe('restarts', () => {
+    it('forgets regeneration fences, as the coordinator starts counting again', async () => {
+      const first = openStore();
+      await first.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123', regenerationFence: 42 }));
+      await first.close();
+
+      const second = openStore();
+
+      expect((await second.get('session-1'))?.regenerationFence).toBeUndefined();
+      expect(JSON.parse(readFileSync(path.join(dir, 'sessions.json'), 'utf8')).sessions['session-1'].value)
+        .not.toHaveProperty('regenerationFence');
+    });
+  });
+
+  describe('locking', () => {
+    it('refuses a second store on the same directory', async () => {
+      const first = openStore();
+      await first.exists('session-1');
+
+      await expect(openStore().exists('session-1')).rejects.toThrow(
+        `Session data directory ${dir} is already in use by process ${process.pid}`
+      );
+    });
+
+    it('frees the directory on close', async () => {
+      const first = openStore();
+      await first.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      await first.close();
+
+      expect(existsSync(path.join(dir, '.lock'))).toBe(false);
+      expect(await openStore().exists('session-1')).toBe(true);
+    });
+
+    it('takes over a lock left by a process that is gone', async () => {
+      writeFileSync(path.join(dir, '.lock'), '999999999');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const store = openStore();
+
+      expect(await store.exists('session-1')).toBe(false);
+      expect(readFileSync(path.join(dir, '.lock'), 'utf8')).toBe(String(process.pid));
+    });
+
+    it('takes over a lock left under this process id by an earlier run', async () => {
+      writeFileSync(path.join(dir, '.lock'), String(process.pid));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await openStore().exists('session-1')).toBe(false);
+    });
+  });
+
+  describe('expiry', () => {
+    it('expires sessions 24 hours after their last write', async () => {
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+      const store = openStore();
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+
+      clock.mockReturnValue(now + 23 * 60 * 60 * 1000);
+      await store.update('session-1', (s) => {
+        s.playedTracks.push('track-1');
+      });
+
+      clock.mockReturnValue(now + 46 * 60 * 60 * 1000);
+      expect(await store.exists('session-1')).toBe(true);
+
+      clock.mockReturnValue(now + 48 * 60 * 60 * 1000);
+      expect(await store.get('session-1')).toBeNull();
+      expect(await store.getByCode('ABC123')).toBeNull();
+      expect(await store.list()).toEqual([]);
+    });
+
+    it('leaves expired sessions out after a restart', async () => {
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+      const first = openStore();
+      await first.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      await first.close();
+
+      clock.mockReturnValue(now + 25 * 60 * 60 * 1000);
+      const second = openStore();
+
+      expect(await second.get('session-1')).toBeNull();
+      expect(JSON.parse(readFileSync(path.join(dir, 'sessions.json'), 'utf8')).sessions).toEqual({});
+    });
+
+    it('keeps user tokens for 30 days', async () => {
+      const now = Date.now();
+      const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+      const store = openStore();
+      await store.setUserTokens('user-1', 'encrypted');
+
+      clock.mockReturnValue(now + 29 * 24 * 60 * 60 * 1000);
+      expect(await store.getUserTokens('user-1')).toBe('encrypted');
+
+      clock.mockReturnValue(now + 31 * 24 * 60 * 60 * 1000);
+      expect(await store.getUserTokens('user-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('getStore', () => {
+  const globalForSession = globalThis as typeof globalThis & {
+    sessionStore?: unknown;
+    tokenVault?: unknown;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    delete globalForSession.sessionStore;
+    delete globalForSession.tokenVault;
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    delete globalForSession.sessionStore;
+    delete globalForSession.tokenVault;
+    vi.restoreAllMocks();
+  });
+
+  it('shares one store between separately loaded copies of the module', async () => {
+    // server.ts (through tsx) and the route bundles each load their own copy
+    const serverCopy = await import('@/lib/session');
+    vi.resetModules();
+    const routeCopy = await import('@/lib/session');
+
+    expect(routeCopy).not.toBe(serverCopy);
+    expect(routeCopy.getStore()).toBe(serverCopy.getStore());
+    expect(routeCopy.getTokenVault()).toBe(serverCopy.getTokenVault());
+  });
+
+  it('writes made through one copy are read through the other', async () => {
+    const { createMockSession } = await import('../../factories/session.factory');
+    const serverCopy = await import('@/lib/session');
+    vi.resetModules();
+    const routeCopy = await import('@/lib/session');
+
+    await routeCopy.getStore().set('session-1', createMockSession({ id: 'session-1' }));
+
+    expect(await serverCopy.getStore().get('session-1')).toMatchObject({ id: 'session-1' });
+  });
+});
@@ -1,12 +1,67 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
 import { InMemoryStore } from '@/lib/session/memory-store';
-import { createMockSession } from '../../factories/session.factory';
+import { FileStore } from '@/lib/session/file-store';
+import { RedisStore } from '@/lib/session/redis-store';
+import type { SessionStore } from '@/lib/session/store.interface';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+
+vi.mock('ioredis', async () => {
+  const RedisMock = (await import('ioredis-mock')).default;
+  return { default: RedisMock };
+});
 
-describe('InMemoryStore', () => {
-  let store: InMemoryStore;
+// The mock keeps separate data per port, so each Redis store starts empty
+let redisPort = 16379;
+
+// Contract every SessionStore implementation must meet
+const implementations: { name: string; open: () => { store: SessionStore; close: () => Promise<void> } }[] = [
+  {
+    name: 'InMemoryStore',
+    open: () => ({ store: new InMemoryStore(), close: async () => {} }),
+  },
+  {
+    name: 'FileStore',
+    open: () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'blendroom-store-'));
+      const store = new FileStore(dir);
+      return {
+        store,
+        close: async () => {
+          await store.close();
+          rmSync(dir, { recursive: true, force: true });
+        },
+      };
+    },
+  },
+  {
+    name: 'RedisStore',
+    open: () => {
+      const store = new RedisStore(`redis://localhost:${redisPort++}`);
+      return { store, close: () => store.close() };
+    },
+  },
+];
+
+describe.each(implementations)('$name', ({ open }) => {
+  let store: SessionStore;
+  let closers: (() => Promise<void>)[] = [];
+
+  const createStore = (): SessionStore => {
+    const opened = open();
+    closers.push(opened.close);
+    return opened.store;
+  };
 
   beforeEach(() => {
-    store = new InMemoryStore();
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await Promise.all(closers.map((close) => close()));
+    closers = [];
   });
 
   describe('get', () => {
@@ -99,10 +154,22 @@ describe('InMemoryStore', () => {
       await store.set('session-1', session2);
 
       const result = await store.get('session-1');
-      expect(result).toEqual(session2);
+      expect(result).toEqual({ ...session2, version: 1 });
       expect(result?.hostId).toBe('different-host');
     });
 
+    it('bumps the version past a stale copy', async () => {
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      const stale = await store.get('session-1');
+      await store.update('session-1', (s) => {
+        s.playedTracks.push('track-1');
+      });
+
+      await store.set('session-1', stale!);
+
+      expect((await store.get('session-1'))?.version).toBe(2);
+    });
+
     it('updates code mapping when session code changes', async () => {
       const session1 = createMockSession({ id: 'session-1', code: 'ABC123' });
       const session2 = createMockSession({ id: 'session-1', code: 'XYZ789' });
@@ -113,9 +180,89 @@ describe('InMemoryStore', () => {
       const resultOldCode = await store.getByCode('ABC123');
       const resultNewCode = await store.getByCode('XYZ789');
 
-      // Note: Implementation keeps old code mapping - both codes work
-      expect(resultOldCode).toEqual(session2); // Returns updated session
-      expect(resultNewCode).toEqual(session2);
+      expect(resultOldCode).toBeNull();
+      expect(resultNewCode).toEqual({ ...session2, version: 1 });
+    });
+
+    it('does not share state with callers', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      await store.set('session-1', session);
+
+      session.playedTracks.push('track-1');
+      (await store.get('session-1'))?.playedTracks.push('track-2');
+
+      const stored = await store.get('session-1');
+      expect(stored?.playedTracks).toEqual([]);
+    });
+  });
+
+  describe('update', () => {
+    it('returns null for non-existent session', async () => {
+      const result = await store.update('non-existent', (s) => {
+        s.hostId = 'changed';
+      });
+      expect(result).toBeNull();
+    });
+
+    it('applies the mutation and bumps the version', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      await store.set('session-1', session);
+
+      const result = await store.update('session-1', (s) => {
+        s.playedTracks.push('track-1');
+      });
+
+      expect(result?.playedTracks).toEqual(['track-1']);
+      expect(result?.version).toBe(1);
+
+      const stored = await store.get('session-1');
+      expect(stored?.playedTracks).toEqual(['track-1']);
+      expect(stored?.version).toBe(1);
+    });
+
+    it('leaves the session untouched when the mutator throws', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      await store.set('session-1', session);
+
+      await expect(
+        store.update('session-1', (s) => {
+          s.playedTracks.push('track-1');
+          throw new Error('Abort');
+        })
+      ).rejects.toThrow('Abort');
+
+      const stored = await store.get('session-1');
+      expect(stored?.playedTracks).toEqual([]);
+      expect(stored?.version).toBeUndefined();
+    });
+
+    it('does not lose concurrent updates', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      await store.set('session-1', session);
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          store.update('session-1', (s) => {
+            s.votes.like.push({ userId: `user-${i}`, trackId: 'track-1', timestamp: Date.now() });
+          })
+        )
+      );
+
+      const stored = await store.get('session-1');
+      expect(stored?.votes.like).toHaveLength(10);
+      expect(stored?.version).toBe(10);
+    });
+
+    it('moves the code mapping when the mutation changes the code', async () => {
+      const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+      await store.set('session-1', session);
+
+      await store.update('session-1', (s) => {
+        s.code = 'XYZ789';
+      });
+
+      expect(await store.getByCode('ABC123')).toBeNull();
+      expect((await store.getByCode('XYZ789'))?.id).toBe('session-1');
     });
   });
 
@@ -145,6 +292,32 @@ describe('InMemoryStore', () => {
       expect(result).toBeNull();
     });
 
+    it('removes the code mapping of a session whose code changed', async () => {
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'ABC123' }));
+      await store.set('session-1', createMockSession({ id: 'session-1', code: 'XYZ789' }));
+      await store.delete('session-1');
+
+      expect(await store.getByCode('ABC123')).toBeNull();
+      expect(await store.getByCode('XYZ789')).toBeNull();
+
+      // Both codes are free for new sessions
+      const session2 = createMockSession({ id: 'session-2', code: 'ABC123' });
+      await store.set('session-2', session2);
+      expect(await store.getByCode('ABC123')).toEqual(session2);
+    });
+
+    it('removes the session from its participants\' user lookups', async () => {
+      const session = createMockSession({
+        id: 'session-1',
+        code: 'ABC123',
+        participants: [createMockParticipant({ userId: 'user-1', isHost: true, isDJ: true })],
+      });
+      await store.set('session-1', session);
+      await store.delete('session-1');
+
+      expect(await store.getByUserId('user-1')).toEqual([]);
+    });
+
     it('only deletes specified session', async () => {
       const session1 = createMockSession({ id: 'session-1', code: 'ABC123' });
       const session2 = createMockSession({ id: 'session-2', code: 'XYZ789' });
@@ -299,6 +472,45 @@ describe('InMemoryStore', () => {
       expect(result).toEqual([]);
     });
 
+    it('stops finding a participant who left, after set', async () => {
+      const session = createMockSession({
+        id: 'session-1',
+        code: 'ABC123',
+        participants: [
+          createMockParticipant({ userId: 'user-1', isHost: true, isDJ: true }),
+          createMockParticipant({ userId: 'user-2' }),
+        ],
+      });
+      await store.set('session-1', session);
+
+      await store.set('session-1', {
+        ...session,
+        participants: session.participants.filter((p) => p.userId !== 'user-2'),
+      });
+
+      expect(await store.getByUserId('user-2')).toEqual([]);
+      expect(await store.getByUserId('user-1')).toHaveLength(1);
+    });
+
+    it('stops finding a participant who left, after update', async () => {
+      const session = createMockSession({
+        id: 'session-1',
+        code: 'ABC123',
+        participants: [
+          createMockParticipant({ userId: 'user-1', isHost: true, isDJ: true }),
+          createMockParticipant({ userId: 'user-2' }),
+        ],
+      });
+      await store.set('session-1', session);
+
+      await store.update('session-1', (s) => {
+        s.participants = s.participants.filter((p) => p.userId !== 'user-2');
+      });
+
+      expect(await store.getByUserId('user-2')).toEqual([]);
+      expect(await store.getByUserId('user-1')).toHaveLength(1);
+    });
+
     it('finds user in multi-participant session', async () => {
       const session = createMockSession({
         id: 'session-1',
@@ -319,10 +531,24 @@ describe('InMemoryStore', () => {
     });
   });
 
+  describe('user tokens', () => {
+    it('returns null for a user without tokens', async () => {
+      expect(await store.getUserTokens('user-1')).toBeNull();
+    });
+
+    it('stores and deletes user tokens', async () => {
+      await store.setUserTokens('user-1', 'encrypted');
+      expect(await store.getUserTokens('user-1')).toBe('encrypted');
+
+      await store.deleteUserTokens('user-1');
+      expect(await store.getUserTokens('user-1')).toBeNull();
+    });
+  });
+
   describe('data isolation', () => {
     it('maintains independent data across multiple stores', async () => {
-      const store1 = new InMemoryStore();
-      const store2 = new InMemoryStore();
+      const store1 = createStore();
+      const store2 = createStore();
 
       const session1 = createMockSession({ id: 'session-1', code: 'ABC123' });
       const session2 = createMockSession({ id: 'session-2', code: 'XYZ789' });
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSessionSnapshot,
+  sessionSnapshotSchema,
+  SESSION_SNAPSHOT_FORMAT,
+  SESSION_SNAPSHOT_VERSION,
+} from '@/lib/session/snapshot';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+import { createMockSpotifyTrack } from '../../factories/spotify.factory';
+import type { Session } from '@/types';
+
+describe('session snapshots', () => {
+  const createFullSession = (): Session => {
+    const guest = createMockParticipant({ userId: 'guest-1' });
+    const session = createMockSession({ id: 'session-1', code: 'ABC123' });
+    const track = createMockSpotifyTrack({ id: 'track-1' });
+
+    return {
+      ...session,
+      participants: [...session.participants, guest],
+      queue: [
+        { track, position: 0, addedBy: 'system', addedAt: 1000, isStable: true, matchedUserIds: ['guest-1'] },
+      ],
+      playedTracks: ['track-0'],
+      votes: { skip: [{ userId: 'guest-1', trackId: 'track-0', playId: 'play-1', timestamp: 2000 }], like: [] },
+      currentPlay: { id: 'play-1', trackId: 'track-0', startedAt: 1500 },
+      poll: {
+        id: 'poll-1',
+        question: 'What next?',
+        options: [
+          { id: 'option-1', kind: 'genre', label: 'house', genre: 'house' },
+          { id: 'option-2', kind: 'track', label: 'Track 1', track },
+        ],
+        votes: [{ userId: 'guest-1', optionId: 'option-2', timestamp: 2500 }],
+        createdBy: session.hostId,
+        createdAt: 2400,
+        closedAt: 2600,
+        winnerId: 'option-2',
+      },
+      vibeBias: { id: 'option-2', kind: 'track', label: 'Track 1', track },
+      settings: { voteToSkip: true, skipThreshold: 1, energyArc: 'warm-up', candidateQuotas: { 'genre-search': 5 } },
+      version: 7,
+      regenerationFence: 3,
+    };
+  };
+
+  describe('createSessionSnapshot', () => {
+    it('wraps the session in a versioned envelope', () => {
+      const snapshot = createSessionSnapshot(createFullSession(), 5000);
+
+      expect(snapshot.format).toBe(SESSION_SNAPSHOT_FORMAT);
+      expect(snapshot.version).toBe(SESSION_SNAPSHOT_VERSION);
+      expect(snapshot.exportedAt).toBe(5000);
+      expect(snapshot.session.id).toBe('session-1');
+    });
+
+    it('leaves out store bookkeeping', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+
+      expect(snapshot.session).not.toHaveProperty('version');
+      expect(snapshot.session).not.toHaveProperty('regenerationFence');
+    });
+
+    it('does not share state with the live session', () => {
+      const session = createFullSession();
+      const snapshot = createSessionSnapshot(session);
+
+      snapshot.session.queue.length = 0;
+
+      expect(session.queue).toHaveLength(1);
+    });
+  });
+
+  describe('sessionSnapshotSchema', () => {
+    it('reads back an exported snapshot unchanged', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+
+      const result = sessionSnapshotSchema.safeParse(JSON.parse(JSON.stringify(snapshot)));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(snapshot);
+    });
+
+    it('rejects other file formats', () => {
+      const snapshot = { ...createSessionSnapshot(createFullSession()), format: 'something-else' };
+
+      expect(sessionSnapshotSchema.safeParse(snapshot).success).toBe(false);
+    });
+
+    it('rejects unsupported versions', () => {
+      const snapshot = { ...createSessionSnapshot(createFullSession()), version: 99 };
+
+      const result = sessionSnapshotSchema.safeParse(snapshot);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe('Unsupported snapshot version (expected 1)');
+    });
+
+    it('rejects a host who is not a participant', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      snapshot.session.hostId = 'someone-else';
+
+      const result = sessionSnapshotSchema.safeParse(snapshot);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].path).toEqual(['session', 'hostId']);
+    });
+
+    it('rejects DJs who are not participants', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      snapshot.session.djs.push('someone-else');
+
+      const result = sessionSnapshotSchema.safeParse(snapshot);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].path).toEqual(['session', 'djs', 1]);
+    });
+
+    it('rejects malformed queue items', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      const broken = JSON.parse(JSON.stringify(snapshot));
+      broken.session.queue[0].track.artists = 'nobody';
+
+      expect(sessionSnapshotSchema.safeParse(broken).success).toBe(false);
+    });
+
+    it('rejects settings the app would not accept', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      const broken = JSON.parse(JSON.stringify(snapshot));
+      broken.session.settings.energyArc = 'chaos';
+
+      expect(sessionSnapshotSchema.safeParse(broken).success).toBe(false);
+    });
+
+    it('rejects polls with too many options', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      const broken = JSON.parse(JSON.stringify(snapshot));
+      broken.session.poll.options = Array.from({ length: 5 }, (_, i) => ({
+        id: `option-${i}`,
+        kind: 'energy-arc',
+        label: 'Steady',
+        energyArc: 'flat',
+      }));
+
+      expect(sessionSnapshotSchema.safeParse(broken).success).toBe(false);
+    });
+
+    it('rejects sessions without participants', () => {
+      const snapshot = createSessionSnapshot(createFullSession());
+      snapshot.session.participants = [];
+
+      expect(sessionSnapshotSchema.safeParse(snapshot).success).toBe(false);
+    });
+  });
+});
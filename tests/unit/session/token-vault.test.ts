@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TokenVault } from '@/lib/session/token-vault';
+import { refreshAccessToken } from '@/auth';
+import { MockSessionStore } from '../../mocks/mock-store';
+
+vi.mock('@/auth', () => ({
+  refreshAccessToken: vi.fn(),
+}));
+
+describe('TokenVault', () => {
+  let store: MockSessionStore;
+  let vault: TokenVault;
+
+  const validTokens = {
+    accessToken: 'access-1',
+    refreshToken: 'refresh-1',
+    accessTokenExpires: Date.now() + 3600 * 1000,
+  };
+
+  beforeEach(() => {
+    store = new MockSessionStore();
+    vault = new TokenVault(store);
+    vi.clearAllMocks();
+  });
+
+  it('stores tokens encrypted', async () => {
+    await vault.save('user-1', validTokens);
+
+    const stored = await store.getUserTokens('user-1');
+    expect(stored).not.toBeNull();
+    expect(stored).not.toContain('access-1');
+    expect(stored).not.toContain('refresh-1');
+  });
+
+  it('loads saved tokens', async () => {
+    await vault.save('user-1', validTokens);
+
+    expect(await vault.load('user-1')).toEqual(validTokens);
+  });
+
+  it('reads tokens saved by another vault on the same backend', async () => {
+    await vault.save('user-1', validTokens);
+
+    expect(await new TokenVault(store).getAccessToken('user-1')).toBe('access-1');
+  });
+
+  it('returns null for unknown users', async () => {
+    expect(await vault.getAccessToken('user-1')).toBeNull();
+  });
+
+  it('returns null for tampered data', async () => {
+    await vault.save('user-1', validTokens);
+    const stored = (await store.getUserTokens('user-1')) ?? '';
+    await store.setUserTokens('user-1', stored.slice(0, -4) + 'AAAA');
+
+    expect(await vault.load('user-1')).toBeNull();
+  });
+
+  it('skips writing an access token it already saved', async () => {
+    const setSpy = vi.spyOn(store, 'setUserTokens');
+
+    await vault.save('user-1', validTokens);
+    await vault.save('user-1', validTokens);
+
+    expect(setSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes expired tokens and stores the result', async () => {
+    const expiresAt = Date.now() + 3600 * 1000;
+    vi.mocked(refreshAccessToken).mockResolvedValue({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-1',
+      accessTokenExpires: expiresAt,
+    });
+    await vault.save('user-1', { ...validTokens, accessTokenExpires: Date.now() - 1000 });
+
+    const accessToken = await vault.getAccessToken('user-1');
+
+    expect(accessToken).toBe('access-2');
+    expect(refreshAccessToken).toHaveBeenCalledWith(expect.objectContaining({ refreshToken: 'refresh-1' }));
+    expect(await vault.load('user-1')).toEqual({
+      accessToken: 'access-2',
+      refreshToken: 'refresh-1',
+      accessTokenExpires: expiresAt,
+    });
+  });
+
+  it('returns null when the refresh fails', async () => {
+    vi.mocked(refreshAccessToken).mockResolvedValue({ error: 'RefreshAccessTokenError' });
+    await vault.save('user-1', { ...validTokens, accessTokenExpires: Date.now() - 1000 });
+
+    expect(await vault.getAccessToken('user-1')).toBeNull();
+  });
+
+  it('removes tokens', async () => {
+    await vault.save('user-1', validTokens);
+    await vault.remove('user-1');
+
+    expect(await vault.load('user-1')).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { recordFeedback, removeLikeFeedback, removeSkipFeedback } from "@/lib/utils/feedback";
+import { createMockSession } from "../../factories/session.factory";
+import { createMockSpotifyArtist, createMockSpotifyTrack } from "../../factories/spotify.factory";
+import type { RecapPlay, Session } from "@/types";
+
+describe("recordFeedback", () => {
+  const artist = createMockSpotifyArtist({ id: "artist1" });
+
+  const createSession = (overrides?: Partial<Session>): Session =>
+    createMockSession({
+      queue: [
+        {
+          track: createMockSpotifyTrack({ id: "queued", artists: [artist] }),
+          position: 0,
+          addedBy: "algorithm",
+          addedAt: Date.now(),
+          isStable: true,
+        },
+      ],
+      recentPlays: [
+        { trackId: "playing", userIds: [], artistIds: ["artist2"], durationMs: 200000, playedAt: Date.now() },
+      ],
+      profile: {
+        commonArtists: [],
+        commonGenres: [],
+        tasteProfiles: [
+          { userId: "user1", topTracks: [], topGenres: [], lastUpdated: Date.now(), topArtists: [{ ...artist, genres: ["indie", "rock"] }] },
+        ],
+      },
+      ...overrides,
+    });
+
+  it("should take artists from the queue and genres from the taste profiles", () => {
+    const session = createSession();
+
+    recordFeedback(session, "like", "queued", ["user1"]);
+
+    expect(session.feedback?.[0]).toMatchObject({
+      kind: "like",
+      trackId: "queued",
+      artistIds: ["artist1"],
+      genres: ["indie", "rock"],
+      userIds: ["user1"],
+    });
+  });
+
+  it("should take artists of the playing track from the recent plays, with no genres outside the profiles", () => {
+    const session = createSession();
+
+    recordFeedback(session, "skip", "playing", ["user1", "user2"]);
+
+    expect(session.feedback?.[0]).toMatchObject({ kind: "skip", artistIds: ["artist2"], genres: [] });
+  });
+
+  it("should ignore tracks the session does not know", () => {
+    const session = createSession();
+
+    recordFeedback(session, "like", "unknown", ["user1"]);
+
+    expect(session.feedback).toBeUndefined();
+  });
+
+  it("should credit the latest play of the track in the play history", () => {
+    const createPlay = (playedAt: number): RecapPlay => ({
+      track: { id: "playing", name: "Playing", artists: [], albumName: "", durationMs: 200000, uri: "spotify:track:playing" },
+      playedAt,
+      addedBy: "algorithm",
+      likedBy: [],
+      skippedBy: [],
+    });
+    const session = createSession({ playHistory: [createPlay(1), createPlay(2)] });
+
+    recordFeedback(session, "like", "playing", ["user1"]);
+    recordFeedback(session, "like", "playing", ["user1"]);
+    recordFeedback(session, "skip", "playing", ["user2", "user3"]);
+
+    expect(session.playHistory?.[0]).toMatchObject({ likedBy: [], skippedBy: [] });
+    expect(session.playHistory?.[1]).toMatchObject({ likedBy: ["user1"], skippedBy: ["user2", "user3"] });
+  });
+
+  it("should only keep the most recent feedback", () => {
+    const session = createSession();
+
+    for (let i = 0; i < 205; i++) {
+      recordFeedback(session, "like", "queued", [`user${i}`]);
+    }
+
+    expect(session.feedback).toHaveLength(200);
+    expect(session.feedback?.[0].userIds).toEqual(["user5"]);
+  });
+});
+
+describe("removeLikeFeedback", () => {
+  it("should remove only that participant's like of the track", () => {
+    const session = createMockSession({
+      feedback: [
+        { kind: "like", trackId: "track1", artistIds: [], genres: [], userIds: ["user1"], timestamp: 1 },
+        { kind: "like", trackId: "track1", artistIds: [], genres: [], userIds: ["user2"], timestamp: 2 },
+        { kind: "skip", trackId: "track1", artistIds: [], genres: [], userIds: ["user1"], timestamp: 3 },
+      ],
+    });
+
+    removeLikeFeedback(session, "track1", "user1");
+
+    expect(session.feedback?.map((entry) => entry.timestamp)).toEqual([2, 3]);
+  });
+
+  it("should remove the like from the play history", () => {
+    const session = createMockSession({
+      playHistory: [
+        {
+          track: { id: "track1", name: "Track 1", artists: [], albumName: "", durationMs: 1000, uri: "spotify:track:track1" },
+          playedAt: 1,
+          addedBy: "algorithm",
+          likedBy: ["user1", "user2"],
+          skippedBy: [],
+        },
+      ],
+    });
+
+    removeLikeFeedback(session, "track1", "user1");
+
+    expect(session.playHistory?.[0].likedBy).toEqual(["user2"]);
+  });
+});
+
+describe("removeSkipFeedback", () => {
+  it("should remove the skip those voters recorded and leave earlier ones", () => {
+    const session = createMockSession({
+      feedback: [
+        { kind: "skip", trackId: "track1", artistIds: [], genres: [], userIds: ["user1"], timestamp: 1 },
+        { kind: "like", trackId: "track1", artistIds: [], genres: [], userIds: ["user1"], timestamp: 2 },
+        { kind: "skip", trackId: "track1", artistIds: [], genres: [], userIds: ["user1", "user2"], timestamp: 3 },
+      ],
+      playHistory: [
+        {
+          track: { id: "track1", name: "Track 1", artists: [], albumName: "", durationMs: 1000, uri: "spotify:track:track1" },
+          playedAt: 1,
+          addedBy: "algorithm",
+          likedBy: [],
+          skippedBy: ["user1", "user2", "user3"],
+        },
+      ],
+    });
+
+    removeSkipFeedback(session, "track1", ["user1", "user2"]);
+
+    expect(session.feedback?.map((entry) => entry.timestamp)).toEqual([1, 2]);
+    expect(session.playHistory?.[0].skippedBy).toEqual(["user3"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { getSessionExportUris, getRecapExportUris } from "@/lib/utils/playlist-export";
+import { createMockSession } from "../../factories/session.factory";
+import { createMockSpotifyTrack } from "../../factories/spotify.factory";
+import type { RecapPlay, SessionRecap } from "@/types";
+
+function createPlay(trackId: string, likedBy: string[] = []): RecapPlay {
+  return {
+    track: { id: trackId, name: trackId, artists: [], albumName: "", durationMs: 1000, uri: `spotify:track:${trackId}` },
+    playedAt: Date.now(),
+    addedBy: "algorithm",
+    likedBy,
+    skippedBy: [],
+  };
+}
+
+describe("getSessionExportUris", () => {
+  const session = createMockSession({
+    playedTracks: ["a", "b", "a"],
+    playHistory: [createPlay("a"), createPlay("b", ["user1"]), createPlay("a")],
+    queue: [
+      {
+        track: createMockSpotifyTrack({ id: "c" }),
+        position: 0,
+        addedBy: "algorithm",
+        addedAt: Date.now(),
+        isStable: true,
+      },
+    ],
+  });
+
+  it("exports played tracks once each, in order", () => {
+    expect(getSessionExportUris(session, "played")).toEqual(["spotify:track:a", "spotify:track:b"]);
+  });
+
+  it("adds the queue after the played tracks", () => {
+    expect(getSessionExportUris(session, "played-and-queue")).toEqual([
+      "spotify:track:a",
+      "spotify:track:b",
+      "spotify:track:c",
+    ]);
+  });
+
+  it("exports only liked tracks", () => {
+    expect(getSessionExportUris(session, "liked")).toEqual(["spotify:track:b"]);
+  });
+});
+
+describe("getRecapExportUris", () => {
+  const recap = {
+    plays: [createPlay("a", ["user1"]), createPlay("b")],
+  } as SessionRecap;
+
+  it("exports every play", () => {
+    expect(getRecapExportUris(recap, "played")).toEqual(["spotify:track:a", "spotify:track:b"]);
+  });
+
+  it("exports only liked plays", () => {
+    expect(getRecapExportUris(recap, "liked")).toEqual(["spotify:track:a"]);
+  });
+});
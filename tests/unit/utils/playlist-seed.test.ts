@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { parsePlaylistId, buildSeedPlaylist, buildSeedTasteProfile } from "@/lib/utils/playlist-seed";
+import {
+  createMockSpotifyArtist,
+  createMockSpotifyImage,
+  createMockSpotifyPlaylist,
+  createMockSpotifyTrack,
+} from "../../factories/spotify.factory";
+
+describe("parsePlaylistId", () => {
+  const id = "37i9dQZF1DXcBWIGoYBM5M";
+
+  it.each([
+    [id],
+    [`spotify:playlist:${id}`],
+    [`https://open.spotify.com/playlist/${id}`],
+    [`https://open.spotify.com/playlist/${id}?si=4f2a9c`],
+    [`https://open.spotify.com/intl-de/playlist/${id}`],
+    [`open.spotify.com/playlist/${id}/`],
+    [`  ${id}  `],
+  ])("reads the ID from %s", (input) => {
+    expect(parsePlaylistId(input)).toBe(id);
+  });
+
+  it.each([
+    [""],
+    ["not a playlist"],
+    [`https://open.spotify.com/album/${id}`],
+    [`spotify:track:${id}`],
+    [`https://example.com/playlist/${id}`],
+  ])("rejects %j", (input) => {
+    expect(parsePlaylistId(input)).toBeNull();
+  });
+});
+
+describe("buildSeedPlaylist", () => {
+  const frequent = createMockSpotifyArtist({ id: "frequent" });
+  const rare = createMockSpotifyArtist({ id: "rare" });
+  const playlist = createMockSpotifyPlaylist({
+    id: "playlist-1",
+    name: "Road trip",
+    images: [createMockSpotifyImage({ url: "https://i.scdn.co/image/cover" })],
+  });
+
+  it("keeps track order without duplicates and ranks artists by frequency", () => {
+    const tracks = [
+      createMockSpotifyTrack({ id: "a", artists: [rare] }),
+      createMockSpotifyTrack({ id: "b", artists: [frequent] }),
+      createMockSpotifyTrack({ id: "a", artists: [rare] }),
+      createMockSpotifyTrack({ id: "c", artists: [frequent] }),
+      createMockSpotifyTrack({ id: "d", artists: [frequent] }),
+    ];
+
+    const seed = buildSeedPlaylist(playlist, tracks, "user-1", 1000);
+
+    expect(seed).toEqual({
+      id: "playlist-1",
+      name: "Road trip",
+      imageUrl: "https://i.scdn.co/image/cover",
+      trackIds: ["a", "b", "c", "d"],
+      topArtists: [frequent, rare],
+      addedBy: "user-1",
+      addedAt: 1000,
+    });
+  });
+
+  it("leaves the image out when the playlist has none", () => {
+    const seed = buildSeedPlaylist({ ...playlist, images: [] }, [createMockSpotifyTrack()], "user-1");
+
+    expect(seed.imageUrl).toBeUndefined();
+  });
+});
+
+describe("buildSeedTasteProfile", () => {
+  it("profiles the playlist under an ID no participant has", () => {
+    const profile = buildSeedTasteProfile({
+      id: "playlist-1",
+      name: "Road trip",
+      trackIds: ["a", "b"],
+      topArtists: [
+        createMockSpotifyArtist({ id: "artist-1", genres: ["indie", "rock"] }),
+        createMockSpotifyArtist({ id: "artist-2", genres: ["rock"] }),
+      ],
+      addedBy: "user-1",
+      addedAt: 1000,
+    });
+
+    expect(profile.userId).toBe("playlist:playlist-1");
+    expect(profile.topTracks).toEqual(["a", "b"]);
+    expect(profile.topArtists.map((artist) => artist.id)).toEqual(["artist-1", "artist-2"]);
+    expect(profile.topGenres).toEqual(["indie", "rock"]);
+    expect(profile.lastUpdated).toBe(1000);
+  });
+});
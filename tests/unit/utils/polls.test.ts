@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { castPollVote, closePoll, consumeVibeBias } from "@/lib/utils/polls";
+import { createMockSession } from "../../factories/session.factory";
+import type { Poll, PollOption } from "@/types";
+
+const dance: PollOption = { id: "dance", kind: "genre", label: "dance", genre: "dance" };
+const chill: PollOption = { id: "chill", kind: "genre", label: "chill", genre: "chill" };
+
+const createPoll = (overrides?: Partial<Poll>): Poll => ({
+  id: "poll-1",
+  question: "More dance or more chill?",
+  options: [dance, chill],
+  votes: [],
+  createdBy: "dj-1",
+  createdAt: 0,
+  ...overrides,
+});
+
+describe("castPollVote", () => {
+  it("records a participant's pick", () => {
+    const session = createMockSession({ poll: createPoll() });
+
+    const poll = castPollVote(session, "user-1", "poll-1", "chill");
+
+    expect(poll.votes).toEqual([{ userId: "user-1", optionId: "chill", timestamp: expect.any(Number) }]);
+    expect(session.poll).toBe(poll);
+  });
+
+  it("changes the pick when voting again", () => {
+    const session = createMockSession({
+      poll: createPoll({ votes: [{ userId: "user-1", optionId: "dance", timestamp: 0 }] }),
+    });
+
+    const poll = castPollVote(session, "user-1", "poll-1", "chill");
+
+    expect(poll.votes.map((vote) => vote.optionId)).toEqual(["chill"]);
+  });
+
+  it("rejects votes on another poll, a closed poll or an unknown option", () => {
+    expect(() => castPollVote(createMockSession(), "user-1", "poll-1", "chill")).toThrow("Poll not found");
+    expect(() => castPollVote(createMockSession({ poll: createPoll() }), "user-1", "poll-2", "chill"))
+      .toThrow("Poll not found");
+    expect(() => castPollVote(createMockSession({ poll: createPoll({ closedAt: 1 }) }), "user-1", "poll-1", "chill"))
+      .toThrow("Poll is closed");
+    expect(() => castPollVote(createMockSession({ poll: createPoll() }), "user-1", "poll-1", "polka"))
+      .toThrow("Option not found");
+  });
+});
+
+describe("closePoll", () => {
+  it("closes the poll and keeps the winner as the vibe bias", () => {
+    const session = createMockSession({
+      poll: createPoll({ votes: [{ userId: "user-1", optionId: "chill", timestamp: 0 }] }),
+    });
+
+    const poll = closePoll(session);
+
+    expect(poll.closedAt).toEqual(expect.any(Number));
+    expect(poll.winnerId).toBe("chill");
+    expect(session.vibeBias).toEqual(chill);
+  });
+
+  it("leaves an earlier bias alone when nobody voted", () => {
+    const session = createMockSession({ poll: createPoll(), vibeBias: dance });
+
+    const poll = closePoll(session);
+
+    expect(poll.winnerId).toBeUndefined();
+    expect(session.vibeBias).toEqual(dance);
+  });
+
+  it("throws without an open poll", () => {
+    expect(() => closePoll(createMockSession())).toThrow("No poll is open");
+    expect(() => closePoll(createMockSession({ poll: createPoll({ closedAt: 1 }) }))).toThrow("No poll is open");
+  });
+});
+
+describe("consumeVibeBias", () => {
+  it("clears the bias a queue was generated with", () => {
+    const session = createMockSession({ vibeBias: dance });
+
+    consumeVibeBias(session, dance);
+
+    expect(session.vibeBias).toBeUndefined();
+  });
+
+  it("keeps a bias that arrived during generation", () => {
+    const session = createMockSession({ vibeBias: chill });
+
+    consumeVibeBias(session, dance);
+    consumeVibeBias(session, undefined);
+
+    expect(session.vibeBias).toEqual(chill);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { normalizeQueue } from "@/lib/utils/queue";
+import { normalizeQueue, rankSessionQueue, recordPlayedItem } from "@/lib/utils/queue";
+import { createMockSession } from "../../factories/session.factory";
+import { createMockSpotifyTrack } from "../../factories/spotify.factory";
 import type { QueueItem } from "@/types";
 
 describe("normalizeQueue", () => {
@@ -112,3 +114,161 @@ describe("normalizeQueue", () => {
     expect(queue[0].isStable).toBe(false);
   });
 });
+
+describe("rankSessionQueue", () => {
+  const createQueue = (ids: string[]): QueueItem[] =>
+    normalizeQueue(ids.map((id) => ({
+      track: { id, name: id } as QueueItem["track"],
+      position: 0,
+      addedBy: "algorithm",
+      addedAt: Date.now(),
+      isStable: false,
+    })));
+
+  it("should move voted-up tracks ahead in the upcoming queue", () => {
+    const session = createMockSession({
+      queue: createQueue(["track0", "track1", "track2", "track3", "track4"]),
+      votes: {
+        skip: [],
+        like: [],
+        queue: [{ userId: "user1", trackId: "track4", type: "up", timestamp: 0 }],
+      },
+    });
+
+    rankSessionQueue(session);
+
+    expect(session.queue.map((item) => item.track.id)).toEqual(["track0", "track1", "track2", "track4", "track3"]);
+    expect(session.queue[3]).toMatchObject({ position: 3, isStable: false });
+  });
+
+  it("should drop votes on tracks that have left the queue", () => {
+    const session = createMockSession({
+      queue: createQueue(["track0", "track1", "track2", "track3"]),
+      votes: {
+        skip: [],
+        like: [],
+        queue: [
+          { userId: "user1", trackId: "track3", type: "up", timestamp: 0 },
+          { userId: "user1", trackId: "gone", type: "up", timestamp: 0 },
+        ],
+      },
+    });
+
+    rankSessionQueue(session);
+
+    expect(session.votes.queue?.map((vote) => vote.trackId)).toEqual(["track3"]);
+  });
+
+  it("should leave the order alone when nobody has voted", () => {
+    const queue = createQueue(["track0", "track1", "track2", "track3", "track4"]);
+    queue[3].score = 0.1;
+    queue[4].score = 0.9;
+    const session = createMockSession({
+      queue,
+      votes: { skip: [], like: [], queue: [] },
+    });
+    session.settings.queueVoteScoreWeight = 5;
+
+    rankSessionQueue(session);
+
+    expect(session.queue).toBe(queue);
+  });
+});
+
+describe("recordPlayedItem", () => {
+  const createItem = (overrides?: Partial<QueueItem>): QueueItem => ({
+    track: { id: "track1", name: "Track 1", duration_ms: 200000, artists: [{ id: "artist1" }] } as QueueItem["track"],
+    position: 0,
+    addedBy: "algorithm",
+    addedAt: Date.now(),
+    isStable: true,
+    ...overrides,
+  });
+
+  it("should add the track to played tracks", () => {
+    const session = createMockSession({ playedTracks: [] });
+
+    recordPlayedItem(session, createItem());
+
+    expect(session.playedTracks).toEqual(["track1"]);
+  });
+
+  it("should start a new play instance for every play, even of the same track", () => {
+    const session = createMockSession();
+
+    recordPlayedItem(session, createItem());
+    const firstPlay = session.currentPlay;
+    recordPlayedItem(session, createItem());
+
+    expect(firstPlay).toMatchObject({ trackId: "track1", startedAt: expect.any(Number) });
+    expect(session.currentPlay).toMatchObject({ trackId: "track1" });
+    expect(session.currentPlay?.id).not.toBe(firstPlay?.id);
+  });
+
+  it("should clear the queue votes on the played track", () => {
+    const session = createMockSession({
+      votes: {
+        skip: [],
+        like: [],
+        queue: [
+          { userId: "user1", trackId: "track1", type: "up", timestamp: 0 },
+          { userId: "user1", trackId: "track2", type: "down", timestamp: 0 },
+        ],
+      },
+    });
+
+    recordPlayedItem(session, createItem());
+
+    expect(session.votes.queue?.map((vote) => vote.trackId)).toEqual(["track2"]);
+  });
+
+  it("should credit algorithm picks to the participants they matched", () => {
+    const session = createMockSession();
+
+    recordPlayedItem(session, createItem({ matchedUserIds: ["user1", "user2"] }));
+
+    expect(session.recentPlays?.[0]).toMatchObject({
+      trackId: "track1",
+      userIds: ["user1", "user2"],
+      artistIds: ["artist1"],
+      durationMs: 200000,
+    });
+  });
+
+  it("should credit manually added tracks to whoever added them", () => {
+    const session = createMockSession();
+
+    recordPlayedItem(session, createItem({ addedBy: "user3" }));
+
+    expect(session.recentPlays?.[0].userIds).toEqual(["user3"]);
+  });
+
+  it("should add the track to the play history with who added it", () => {
+    const session = createMockSession();
+
+    recordPlayedItem(session, createItem({
+      track: createMockSpotifyTrack({ id: "track1", name: "Track 1" }),
+      addedBy: "user3",
+    }));
+
+    expect(session.playHistory).toHaveLength(1);
+    expect(session.playHistory?.[0]).toMatchObject({
+      track: { id: "track1", name: "Track 1" },
+      addedBy: "user3",
+      likedBy: [],
+      skippedBy: [],
+    });
+  });
+
+  it("should only keep the most recent plays", () => {
+    const session = createMockSession();
+
+    for (let i = 0; i < 25; i++) {
+      recordPlayedItem(session, createItem({ track: { id: `track${i}`, duration_ms: 1000, artists: [] as QueueItem["track"]["artists"] } as QueueItem["track"] }));
+    }
+
+    expect(session.recentPlays).toHaveLength(20);
+    expect(session.recentPlays?.[0].trackId).toBe("track5");
+    expect(session.playedTracks).toHaveLength(25);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IncomingMessage } from 'http';
+import { getToken } from 'next-auth/jwt';
+import { getSocketUserId } from '@/lib/websocket/auth';
+
+vi.mock('next-auth/jwt', () => ({
+  getToken: vi.fn(),
+}));
+
+describe('getSocketUserId', () => {
+  const handshake = (cookie?: string) => ({ headers: { cookie } }) as IncomingMessage;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads the user from the session cookie sent with the handshake', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-1' });
+
+    const userId = await getSocketUserId(handshake('theme=dark; next-auth.session-token=abc%3D%3D'));
+
+    expect(userId).toBe('user-1');
+    expect(vi.mocked(getToken).mock.calls[0][0].req.cookies).toEqual({
+      theme: 'dark',
+      'next-auth.session-token': 'abc==',
+    });
+  });
+
+  it('passes the handshake request itself, with its headers', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-1' });
+    const request = handshake('next-auth.session-token=abc');
+
+    await getSocketUserId(request);
+
+    expect(vi.mocked(getToken).mock.calls[0][0].req).toBe(request);
+    expect(vi.mocked(getToken).mock.calls[0][0].req.headers).toEqual({ cookie: 'next-auth.session-token=abc' });
+  });
+
+  it('returns undefined when signed out', async () => {
+    vi.mocked(getToken).mockResolvedValue(null);
+
+    expect(await getSocketUserId(handshake())).toBeUndefined();
+  });
+
+  it('returns undefined when the token cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getToken).mockRejectedValue(new Error('Bad secret'));
+
+    expect(await getSocketUserId(handshake('next-auth.session-token=abc'))).toBeUndefined();
+  });
+});
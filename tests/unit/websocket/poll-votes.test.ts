@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { recordSocketPollVote } from '@/lib/websocket/poll-votes';
+import { MockSessionStore } from '../../mocks/mock-store';
+import { createMockSession, createMockParticipant } from '../../factories/session.factory';
+import type { Poll } from '@/types';
+
+describe('recordSocketPollVote', () => {
+  let store: MockSessionStore;
+
+  const poll: Poll = {
+    id: 'poll-1',
+    question: 'More dance or more chill?',
+    options: [
+      { id: 'dance', kind: 'genre', label: 'dance', genre: 'dance' },
+      { id: 'chill', kind: 'genre', label: 'chill', genre: 'chill' },
+    ],
+    votes: [],
+    createdBy: 'dj-1',
+    createdAt: 0,
+  };
+
+  beforeEach(async () => {
+    store = new MockSessionStore();
+    await store.set('session-1', createMockSession({
+      id: 'session-1',
+      participants: [createMockParticipant({ userId: 'user-1' })],
+      poll,
+    }));
+  });
+
+  it('records the vote and returns the poll to broadcast', async () => {
+    const outcome = await recordSocketPollVote(store, 'user-1', {
+      sessionId: 'session-1',
+      pollId: 'poll-1',
+      optionId: 'chill',
+    });
+
+    expect(outcome).toEqual({
+      poll: expect.objectContaining({ votes: [expect.objectContaining({ userId: 'user-1', optionId: 'chill' })] }),
+    });
+    expect((await store.get('session-1'))?.poll?.votes).toHaveLength(1);
+  });
+
+  it('refuses signed-out sockets', async () => {
+    const outcome = await recordSocketPollVote(store, undefined, {
+      sessionId: 'session-1',
+      pollId: 'poll-1',
+      optionId: 'chill',
+    });
+
+    expect(outcome).toEqual({ error: 'Sign in to vote' });
+  });
+
+  it('refuses users who are not in the session', async () => {
+    const outcome = await recordSocketPollVote(store, 'stranger', {
+      sessionId: 'session-1',
+      pollId: 'poll-1',
+      optionId: 'chill',
+    });
+
+    expect(outcome).toEqual({ error: 'Not a participant of this session' });
+    expect((await store.get('session-1'))?.poll?.votes).toEqual([]);
+  });
+
+  it('passes on why a vote was invalid', async () => {
+    const outcome = await recordSocketPollVote(store, 'user-1', {
+      sessionId: 'session-1',
+      pollId: 'poll-1',
+      optionId: 'polka',
+    });
+
+    expect(outcome).toEqual({ error: 'Option not found' });
+  });
+
+  it('reports a missing session', async () => {
+    const outcome = await recordSocketPollVote(store, 'user-1', {
+      sessionId: 'gone',
+      pollId: 'poll-1',
+      optionId: 'chill',
+    });
+
+    expect(outcome).toEqual({ error: 'Session not found' });
+  });
+});